@@ -5,12 +5,14 @@
  * @famgia/omnify-coreの統一ジェネレーターを使用
  */
 
-import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { resolve, join } from 'node:path';
 import {
     generateAIGuides as coreGenerateAIGuides,
     type AIGuidesResult as CoreAIGuidesResult,
 } from '@famgia/omnify-core';
+import { planStagedFiles, type GeneratorPlan } from '../plan/index.js';
 
 /**
  * Package path configuration for AI guides
@@ -56,6 +58,11 @@ export interface AIGuidesOptions {
      * Used to expand globs to include package directories
      */
     packagePaths?: PackagePath[];
+
+    /**
+     * Generate into a temporary directory and return a plan instead of writing to rootDir
+     */
+    dryRun?: boolean;
 }
 
 /**
@@ -71,6 +78,8 @@ export interface AIGuidesResult {
     cursorRules: number;
     antigravityRules: number;
     files: string[];
+    /** Planned file actions (only set in dry-run mode) */
+    plan?: GeneratorPlan;
 }
 
 /**
@@ -220,19 +229,36 @@ export function generateAIGuides(
     const laravelRoot = extractLaravelRoot(basePath);
     const tsPath = options.typescriptBasePath || 'resources/ts';
 
-    // Coreジェネレーターを呼び出し
-    const coreResult = coreGenerateAIGuides(rootDir, {
-        placeholders: {
-            LARAVEL_BASE: basePath,
-            LARAVEL_ROOT: laravelRoot ? laravelRoot + '/' : '',
-            TYPESCRIPT_BASE: tsPath,
-        },
-    });
-
-    // Expand globs in cursor rules to include package paths
-    if (options.packagePaths?.length) {
-        const cursorRulesDir = resolve(rootDir, '.cursor/rules/omnify');
-        expandPackageGlobs(cursorRulesDir, basePath, options.packagePaths);
+    // Dry-run: generate into a staging directory and compare with rootDir
+    const outputDir = options.dryRun
+        ? mkdtempSync(join(tmpdir(), 'omnify-ai-guides-'))
+        : rootDir;
+
+    let coreResult: CoreAIGuidesResult;
+    let plan: GeneratorPlan | undefined;
+    try {
+        // Coreジェネレーターを呼び出し
+        coreResult = coreGenerateAIGuides(outputDir, {
+            placeholders: {
+                LARAVEL_BASE: basePath,
+                LARAVEL_ROOT: laravelRoot ? laravelRoot + '/' : '',
+                TYPESCRIPT_BASE: tsPath,
+            },
+        });
+
+        // Expand globs in cursor rules to include package paths
+        if (options.packagePaths?.length) {
+            const cursorRulesDir = resolve(outputDir, '.cursor/rules/omnify');
+            expandPackageGlobs(cursorRulesDir, basePath, options.packagePaths);
+        }
+
+        if (options.dryRun) {
+            plan = planStagedFiles('laravel-ai-guides', outputDir, rootDir);
+        }
+    } finally {
+        if (options.dryRun) {
+            rmSync(outputDir, { recursive: true, force: true });
+        }
     }
 
     // 結果を変換 (後方互換性のため)
@@ -246,6 +272,7 @@ export function generateAIGuides(
         cursorRules: 0,
         antigravityRules: 0,
         files: coreResult.files,
+        plan,
     };
 
     // ファイル数を概算 (後方互換のため)
@@ -0,0 +1,151 @@
+/**
+ * @famgia/omnify-laravel - Enum Generator Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generatePhpEnums, getPropertyEnumClass, getPropertyEnumValues, parseEnumClassValues, toEnumCaseName } from './generator.js';
+import type { SchemaCollection, LoadedSchema, PluginEnumDefinition } from '@famgia/omnify-types';
+
+describe('Enum Generator', () => {
+  const createSchema = (name: string, properties: LoadedSchema['properties'], options: Partial<LoadedSchema> = {}): LoadedSchema => ({
+    name,
+    kind: 'object',
+    filePath: `/schemas/${name}.yaml`,
+    relativePath: `schemas/${name}.yaml`,
+    properties,
+    ...options,
+  });
+
+  const createEnum = (name: string, values: LoadedSchema['values']): LoadedSchema => ({
+    name,
+    kind: 'enum',
+    filePath: `/schemas/${name}.yaml`,
+    relativePath: `schemas/${name}.yaml`,
+    values,
+  });
+
+  const pluginEnums = new Map([
+    ['Prefecture', { name: 'Prefecture', values: [{ value: 'tokyo', label: { ja: '東京都', en: 'Tokyo' } }, { value: 'osaka' }] }],
+  ]) as unknown as ReadonlyMap<string, PluginEnumDefinition>;
+
+  describe('generatePhpEnums', () => {
+    it('generates a backed enum with localized labels for enum schemas', () => {
+      const schemas: SchemaCollection = {
+        PostStatus: createEnum('PostStatus', [
+          { value: 'draft', label: { en: 'Draft', ja: '下書き' } },
+          { value: 'published', label: 'Published' },
+          'archived',
+        ]),
+      };
+
+      const enums = generatePhpEnums(schemas);
+
+      expect(enums).toHaveLength(1);
+      expect(enums[0].path).toBe('app/Enums/PostStatus.php');
+      expect(enums[0].className).toBe('PostStatus');
+      expect(enums[0].overwrite).toBe(true);
+
+      const content = enums[0].content;
+      expect(content).toContain('namespace App\\Enums;');
+      expect(content).toContain('enum PostStatus: string');
+      expect(content).toContain("    case Draft = 'draft';");
+      expect(content).toContain("    case Archived = 'archived';");
+      expect(content).toContain("        'draft' => ['en' => 'Draft', 'ja' => '下書き'],");
+      expect(content).toContain("        'published' => ['en' => 'Published'],");
+      expect(content).toContain("        'archived' => [],");
+      expect(content).toContain('public function label(?string $locale = null): string');
+      expect(content).toContain('public static function values(): array');
+      expect(content).toContain('public static function options(?string $locale = null): array');
+    });
+
+    it('generates enums for inline Enum properties and plugin enums', () => {
+      const schemas: SchemaCollection = {
+        Post: createSchema('Post', {
+          visibility: { type: 'Enum', enum: ['public', 'members-only'] },
+          prefecture: { type: 'EnumRef', enum: 'Prefecture' },
+        }),
+      };
+
+      const enums = generatePhpEnums(schemas, { pluginEnums, enumNamespace: 'Domain\\Enums', enumPath: 'src/Enums' });
+
+      expect(enums.map(e => e.path)).toEqual(['src/Enums/Prefecture.php', 'src/Enums/PostVisibility.php']);
+      expect(enums[0].content).toContain("'tokyo' => ['ja' => '東京都', 'en' => 'Tokyo'],");
+      expect(enums[1].content).toContain('namespace Domain\\Enums;');
+      expect(enums[1].content).toContain("case MembersOnly = 'members-only';");
+      expect(enums[1].schemaName).toBe('Post');
+    });
+
+    it('prefers enum schemas over plugin enums with the same name', () => {
+      const schemas: SchemaCollection = {
+        Prefecture: createEnum('Prefecture', ['hokkaido']),
+      };
+
+      const enums = generatePhpEnums(schemas, { pluginEnums });
+
+      expect(enums).toHaveLength(1);
+      expect(enums[0].content).toContain("case Hokkaido = 'hokkaido';");
+      expect(enums[0].content).not.toContain('tokyo');
+    });
+
+    it('skips inline enums of package schemas', () => {
+      const schemas: SchemaCollection = {
+        Post: createSchema('Post', {
+          visibility: { type: 'Enum', enum: ['public', 'private'] },
+        }, {
+          packageOutput: { laravel: { base: 'packages/blog', modelsNamespace: 'Acme\\Blog\\Models' } },
+        } as Partial<LoadedSchema>),
+      };
+
+      expect(generatePhpEnums(schemas)).toHaveLength(0);
+    });
+  });
+
+  describe('getPropertyEnumClass', () => {
+    it('names inline enums after the schema and property', () => {
+      const schemas: SchemaCollection = {
+        PostStatus: createEnum('PostStatus', ['draft']),
+      };
+      const post = createSchema('Post', {});
+
+      expect(getPropertyEnumClass(post, 'status', { type: 'EnumRef', enum: 'PostStatus' }, schemas)).toBe('PostStatus');
+      expect(getPropertyEnumClass(post, 'status', { type: 'Enum', enum: ['a', 'b'] }, schemas)).toBe('PostStatusEnum');
+      expect(getPropertyEnumClass(post, 'kind', { type: 'Enum', enum: ['a', 'b'] }, schemas)).toBe('PostKind');
+      expect(getPropertyEnumClass(post, 'prefecture', { type: 'EnumRef', enum: 'Prefecture' }, schemas)).toBeNull();
+      expect(getPropertyEnumClass(post, 'prefecture', { type: 'EnumRef', enum: 'Prefecture' }, schemas, pluginEnums)).toBe('Prefecture');
+      expect(getPropertyEnumClass(post, 'title', { type: 'String' }, schemas)).toBeNull();
+    });
+  });
+
+  describe('getPropertyEnumValues', () => {
+    it('resolves values from inline enums, enum schemas and plugin enums', () => {
+      const schemas: SchemaCollection = {
+        PostStatus: createEnum('PostStatus', ['draft', { value: 'published' }]),
+      };
+
+      expect(getPropertyEnumValues({ type: 'Enum', enum: ['a', { value: 'b' }] }, schemas)).toEqual(['a', 'b']);
+      expect(getPropertyEnumValues({ type: 'EnumRef', enum: 'PostStatus' }, schemas)).toEqual(['draft', 'published']);
+      expect(getPropertyEnumValues({ type: 'EnumRef', enum: 'Prefecture' }, schemas, pluginEnums)).toEqual(['tokyo', 'osaka']);
+    });
+  });
+
+  describe('parseEnumClassValues', () => {
+    it('reads the case values of a generated enum class', () => {
+      const schemas: SchemaCollection = {
+        Shelf: createEnum('Shelf', ['in_stock', { value: "kid's corner", label: 'Kids' }, '4k']),
+      };
+
+      const [shelf] = generatePhpEnums(schemas);
+
+      expect(parseEnumClassValues(shelf!.content)).toEqual(['in_stock', "kid's corner", '4k']);
+    });
+  });
+
+  describe('toEnumCaseName', () => {
+    it('converts values to PascalCase case names', () => {
+      expect(toEnumCaseName('in_progress')).toBe('InProgress');
+      expect(toEnumCaseName('members-only')).toBe('MembersOnly');
+      expect(toEnumCaseName('ACTIVE')).toBe('Active');
+      expect(toEnumCaseName('4k')).toBe('Value4k');
+    });
+  });
+});
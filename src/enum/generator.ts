@@ -0,0 +1,350 @@
+/**
+ * Laravel Enum Generator
+ *
+ * Generates PHP backed enum classes from enum schemas, inline Enum properties
+ * and plugin enums (e.g. Prefecture).
+ */
+
+import type { LoadedSchema, PropertyDefinition, SchemaCollection, LocalizedString, InlineEnumValue, PluginEnumDefinition } from '@famgia/omnify-types';
+import { isLocaleMap } from '@famgia/omnify-types';
+import { toPascalCase } from '../utils.js';
+import { toEnumMemberName } from '../typescript/enum-generator.js';
+
+/**
+ * Options for enum generation.
+ */
+export interface EnumGeneratorOptions {
+  /**
+   * Enum namespace.
+   * @default 'App\\Enums'
+   */
+  enumNamespace?: string;
+
+  /**
+   * Output path for enum classes.
+   * @default 'app/Enums'
+   */
+  enumPath?: string;
+
+  /**
+   * Plugin enums (e.g. Prefecture).
+   */
+  pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>;
+}
+
+/**
+ * Generated enum output.
+ */
+export interface GeneratedEnum {
+  /** File path relative to project root */
+  path: string;
+  /** PHP content */
+  content: string;
+  /** Enum class name */
+  className: string;
+  /** Whether to overwrite existing file */
+  overwrite: boolean;
+  /** Enum schema, plugin enum or schema of the inline enum property */
+  schemaName: string;
+}
+
+/**
+ * A case of a PHP enum.
+ */
+interface EnumCase {
+  value: string;
+  label: LocalizedString | undefined;
+}
+
+/**
+ * A PHP enum to generate.
+ */
+interface EnumClass {
+  className: string;
+  schemaName: string;
+  source: string;
+  cases: EnumCase[];
+}
+
+type EnumValues = readonly (string | InlineEnumValue)[];
+
+/**
+ * Converts enum values (strings or InlineEnumValue objects) to cases.
+ */
+function toCases(values: EnumValues): EnumCase[] {
+  return values.map(v => typeof v === 'string'
+    ? { value: v, label: undefined }
+    : { value: v.value, label: (v as { label?: LocalizedString }).label });
+}
+
+/**
+ * Checks whether a name refers to a named enum (enum schema or plugin enum).
+ */
+function isNamedEnum(
+  name: string,
+  schemas: SchemaCollection,
+  pluginEnums: ReadonlyMap<string, PluginEnumDefinition> | undefined
+): boolean {
+  return schemas[name]?.kind === 'enum' || (pluginEnums?.has(name) ?? false);
+}
+
+/**
+ * Gets the PHP enum class of an Enum or EnumRef property, or null if it has none.
+ * Inline enums are named after the schema and property (Post.status → PostStatus),
+ * with an `Enum` suffix when a named enum already has that name.
+ * Package models keep plain string columns, since the enums live in the app.
+ */
+export function getPropertyEnumClass(
+  schema: LoadedSchema,
+  propName: string,
+  property: PropertyDefinition,
+  schemas: SchemaCollection,
+  pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>
+): string | null {
+  if ((property.type !== 'Enum' && property.type !== 'EnumRef') || schema.packageOutput?.laravel) {
+    return null;
+  }
+
+  const enumDef = (property as { enum?: string | EnumValues }).enum;
+  if (typeof enumDef === 'string') {
+    return isNamedEnum(enumDef, schemas, pluginEnums) ? toPascalCase(enumDef) : null;
+  }
+  if (property.type !== 'Enum' || !Array.isArray(enumDef) || enumDef.length === 0) {
+    return null;
+  }
+
+  const className = `${toPascalCase(schema.name)}${toPascalCase(propName)}`;
+  return isNamedEnum(className, schemas, pluginEnums) ? `${className}Enum` : className;
+}
+
+/**
+ * Gets the values of an Enum or EnumRef property, resolving enum schemas and plugin enums.
+ */
+export function getPropertyEnumValues(
+  property: PropertyDefinition,
+  schemas: SchemaCollection,
+  pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>
+): string[] {
+  const enumDef = (property as { enum?: string | EnumValues }).enum;
+  if (Array.isArray(enumDef)) {
+    return toCases(enumDef).map(c => c.value);
+  }
+  if (typeof enumDef !== 'string') {
+    return [];
+  }
+
+  const enumSchema = schemas[enumDef];
+  if (enumSchema?.kind === 'enum') {
+    return toCases((enumSchema.values ?? []) as EnumValues).map(c => c.value);
+  }
+  return pluginEnums?.get(enumDef)?.values.map(v => v.value) ?? [];
+}
+
+/**
+ * Collects the enums to generate: enum schemas, plugin enums not redefined by
+ * an enum schema, and inline Enum properties of the app's schemas.
+ */
+function collectEnumClasses(
+  schemas: SchemaCollection,
+  pluginEnums: ReadonlyMap<string, PluginEnumDefinition> | undefined
+): EnumClass[] {
+  const enums: EnumClass[] = [];
+
+  for (const schema of Object.values(schemas)) {
+    if (schema.kind === 'enum' && schema.values && schema.values.length > 0) {
+      enums.push({
+        className: toPascalCase(schema.name),
+        schemaName: schema.name,
+        source: `schema: ${schema.name}`,
+        cases: toCases(schema.values as EnumValues),
+      });
+    }
+  }
+
+  for (const [name, enumDef] of pluginEnums ?? []) {
+    // Enum schemas take precedence over plugin enums with the same name
+    if (schemas[name]?.kind === 'enum' || enumDef.values.length === 0) {
+      continue;
+    }
+    enums.push({
+      className: toPascalCase(name),
+      schemaName: name,
+      source: `plugin enum: ${name}`,
+      cases: toCases(enumDef.values as EnumValues),
+    });
+  }
+
+  for (const schema of Object.values(schemas)) {
+    if (schema.kind === 'enum') {
+      continue;
+    }
+
+    for (const [propName, property] of Object.entries(schema.properties ?? {})) {
+      const enumDef = (property as { enum?: string | EnumValues }).enum;
+      const className = getPropertyEnumClass(schema, propName, property, schemas, pluginEnums);
+      if (!className || !Array.isArray(enumDef)) {
+        continue;
+      }
+      enums.push({
+        className,
+        schemaName: schema.name,
+        source: `schema: ${schema.name}.${propName}`,
+        cases: toCases(enumDef),
+      });
+    }
+  }
+
+  return enums;
+}
+
+/**
+ * Converts an enum value to a PHP enum case name.
+ */
+export function toEnumCaseName(value: string): string {
+  // Same member names as the TypeScript enums
+  const name = toEnumMemberName(value);
+  // Case names cannot start with a digit
+  return /^[A-Za-z]/.test(name) ? name : `Value${name}`;
+}
+
+/**
+ * Escape a string for a single-quoted PHP literal.
+ */
+function escapePhpString(str: string): string {
+  return str.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/**
+ * Format the localized labels of a case as a PHP array.
+ */
+function formatLabels(label: LocalizedString | undefined): string {
+  if (typeof label === 'string') {
+    // Single string - use 'en' as default locale
+    return `['en' => '${escapePhpString(label)}']`;
+  }
+  if (label !== undefined && isLocaleMap(label)) {
+    const entries = Object.entries(label).map(([locale, text]) => `'${locale}' => '${escapePhpString(text)}'`);
+    return `[${entries.join(', ')}]`;
+  }
+  return '[]';
+}
+
+/**
+ * Generate a PHP backed enum class.
+ */
+function generateEnumClass(enumClass: EnumClass, namespace: string, path: string): GeneratedEnum {
+  const cases = enumClass.cases
+    .map(c => `    case ${toEnumCaseName(c.value)} = '${escapePhpString(c.value)}';`)
+    .join('\n');
+  const labels = enumClass.cases
+    .map(c => `        '${escapePhpString(c.value)}' => ${formatLabels(c.label)},`)
+    .join('\n');
+
+  const content = `<?php
+
+namespace ${namespace};
+
+/**
+ * ⚠️ DO NOT EDIT THIS FILE! ⚠️
+ * このファイルを編集しないでください！
+ * KHÔNG ĐƯỢC SỬA FILE NÀY!
+ *
+ * This file is AUTO-GENERATED by Omnify from ${enumClass.source}
+ * Any manual changes will be OVERWRITTEN on next generation.
+ *
+ * To modify: Edit the schema YAML file and run: npx omnify generate
+ *
+ * @generated by @famgia/omnify-laravel
+ */
+enum ${enumClass.className}: string
+{
+${cases}
+
+    /**
+     * Localized labels of each case, keyed by value and locale.
+     *
+     * @var array<string, array<string, string>>
+     */
+    private const LABELS = [
+${labels}
+    ];
+
+    /**
+     * Get the localized label of this case.
+     *
+     * @param string|null $locale Locale code (defaults to app locale)
+     */
+    public function label(?string $locale = null): string
+    {
+        $locale = $locale ?? app()->getLocale();
+        $labels = self::LABELS[$this->value] ?? [];
+
+        return $labels[$locale]
+            ?? $labels[config('app.fallback_locale', 'en')]
+            ?? $labels[array_key_first($labels) ?? 'en']
+            ?? $this->value;
+    }
+
+    /**
+     * Get the values of all cases.
+     *
+     * @return array<int, string>
+     */
+    public static function values(): array
+    {
+        return array_column(self::cases(), 'value');
+    }
+
+    /**
+     * Get the localized labels of all cases, keyed by value (e.g. for select options).
+     *
+     * @param string|null $locale Locale code (defaults to app locale)
+     * @return array<string, string>
+     */
+    public static function options(?string $locale = null): array
+    {
+        return array_combine(
+            self::values(),
+            array_map(fn (self $case) => $case->label($locale), self::cases())
+        );
+    }
+}
+`;
+
+  return {
+    path: `${path}/${enumClass.className}.php`,
+    content,
+    className: enumClass.className,
+    overwrite: true,
+    schemaName: enumClass.schemaName,
+  };
+}
+
+/**
+ * Reads the case values of a generated PHP enum class.
+ */
+export function parseEnumClassValues(content: string): string[] {
+  return [...content.matchAll(/^    case \w+ = '((?:[^'\\]|\\.)*)';$/gm)]
+    .map(match => (match[1] ?? '').replace(/\\(['\\])/g, '$1'));
+}
+
+/**
+ * Generate PHP enum classes for all enum schemas, plugin enums and inline enums.
+ */
+export function generatePhpEnums(
+  schemas: SchemaCollection,
+  options?: EnumGeneratorOptions
+): GeneratedEnum[] {
+  const namespace = options?.enumNamespace ?? 'App\\Enums';
+  const path = options?.enumPath ?? 'app/Enums';
+
+  return collectEnumClasses(schemas, options?.pluginEnums)
+    .map(enumClass => generateEnumClass(enumClass, namespace, path));
+}
+
+/**
+ * Get the output path for an enum.
+ */
+export function getEnumPath(generatedEnum: GeneratedEnum): string {
+  return generatedEnum.path;
+}
@@ -0,0 +1,16 @@
+/**
+ * Laravel Enum Generator
+ *
+ * Exports for PHP enum generation functionality.
+ */
+
+export {
+  generatePhpEnums,
+  getEnumPath,
+  getPropertyEnumClass,
+  getPropertyEnumValues,
+  parseEnumClassValues,
+  toEnumCaseName,
+  type GeneratedEnum,
+  type EnumGeneratorOptions,
+} from './generator.js';
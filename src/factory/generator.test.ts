@@ -4,7 +4,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { generateFactories, type GeneratedFactory } from './generator.js';
-import type { SchemaCollection, LoadedSchema } from '@famgia/omnify-types';
+import type { SchemaCollection, LoadedSchema, PluginEnumDefinition } from '@famgia/omnify-types';
 
 describe('Factory Generator', () => {
   const createSchema = (name: string, properties: LoadedSchema['properties'], options: Partial<LoadedSchema> = {}): LoadedSchema => ({
@@ -111,7 +111,8 @@ describe('Factory Generator', () => {
       const factories = generateFactories(schemas);
       const content = factories[0].content;
 
-      expect(content).toContain("'status' => fake()->randomElement(['draft', 'published', 'archived']),");
+      expect(content).toContain("use App\\Enums\\PostStatus;");
+      expect(content).toContain("'status' => fake()->randomElement(PostStatus::cases()),");
     });
 
     it('generates correct fake data for EnumRef type', () => {
@@ -137,7 +138,54 @@ describe('Factory Generator', () => {
       expect(factories[0].name).toBe('PostFactory');
 
       const content = factories[0].content;
-      expect(content).toContain("'status' => fake()->randomElement(['draft', 'pending', 'published']),");
+      expect(content).toContain("use App\\Enums\\PostStatus;");
+      expect(content).toContain("'status' => fake()->randomElement(PostStatus::cases()),");
+    });
+
+    it('keys enum fakes by the snake_case column name', () => {
+      const schemas: SchemaCollection = {
+        Order: createSchema('Order', {
+          paymentStatus: { type: 'Enum', enum: ['pending', 'paid'] },
+        }),
+      };
+
+      const content = generateFactories(schemas)[0].content;
+
+      expect(content).toContain("use App\\Enums\\OrderPaymentStatus;");
+      expect(content).toContain("'payment_status' => fake()->randomElement(OrderPaymentStatus::cases()),");
+    });
+
+    it('uses plugin enum cases for EnumRef type', () => {
+      const schemas: SchemaCollection = {
+        Store: createSchema('Store', {
+          prefecture: { type: 'EnumRef', enum: 'Prefecture' },
+        }),
+      };
+
+      const factories = generateFactories(schemas, {
+        enumNamespace: 'Domain\\Enums',
+        pluginEnums: new Map([
+          ['Prefecture', { name: 'Prefecture', values: [{ value: 'tokyo' }, { value: 'osaka' }] }],
+        ]) as unknown as ReadonlyMap<string, PluginEnumDefinition>,
+      });
+      const content = factories[0].content;
+
+      expect(content).toContain("use Domain\\Enums\\Prefecture;");
+      expect(content).toContain("'prefecture' => fake()->randomElement(Prefecture::cases()),");
+    });
+
+    it('skips generated columns', () => {
+      const schemas: SchemaCollection = {
+        Order: createSchema('Order', {
+          quantity: { type: 'Int' },
+          total: { type: 'Int', storedAs: 'price * quantity' } as LoadedSchema['properties'][string],
+        }),
+      };
+
+      const content = generateFactories(schemas)[0].content;
+
+      expect(content).toContain("'quantity' =>");
+      expect(content).not.toContain("'total' =>");
     });
 
     it('generates correct fake data for associations (foreign keys)', () => {
@@ -163,6 +211,29 @@ describe('Factory Generator', () => {
       expect(content).toContain("'author_id' => User::query()->inRandomOrder()->first()?->id ?? User::factory()->create()->id,");
     });
 
+    it('generates states attaching MorphToMany relations', () => {
+      const schemas: SchemaCollection = {
+        Tag: createSchema('Tag', {
+          name: { type: 'String' },
+        }),
+        Post: createSchema('Post', {
+          title: { type: 'String' },
+          tags: { type: 'Association', relation: 'MorphToMany', target: 'Tag' },
+        }),
+      };
+
+      const factories = generateFactories(schemas);
+      const content = factories.find(f => f.name === 'PostFactory')!.content;
+
+      expect(content).toContain("use App\\Models\\Tag;");
+      expect(content).not.toContain("'tags' =>");
+      expect(content).toContain(`    public function withTags(int $count = 3): static
+    {
+        return $this->hasAttached(Tag::factory()->count($count), [], 'tags');
+    }
+}`);
+    });
+
     it('handles nullable associations', () => {
       const schemas: SchemaCollection = {
         Category: createSchema('Category', {
@@ -5,7 +5,8 @@
  */
 
 import type { SchemaCollection, LoadedSchema, PropertyDefinition, CustomTypeDefinition, PluginEnumDefinition } from '@famgia/omnify-types';
-import { toPascalCase, toSnakeCase } from '../utils.js';
+import { isGeneratedColumn, toCamelCase, toPascalCase, toSnakeCase } from '../utils.js';
+import { getPropertyEnumClass } from '../enum/generator.js';
 
 /**
  * Options for factory generation.
@@ -21,6 +22,8 @@ export interface FactoryGeneratorOptions {
   customTypes?: ReadonlyMap<string, CustomTypeDefinition>;
   /** Plugin enums from registry (for enumRef resolution) */
   pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>;
+  /** Enum namespace */
+  enumNamespace?: string;
 }
 
 /**
@@ -48,6 +51,7 @@ interface ResolvedOptions {
   fakerLocale: string;
   customTypes: ReadonlyMap<string, CustomTypeDefinition>;
   pluginEnums: ReadonlyMap<string, PluginEnumDefinition>;
+  enumNamespace: string;
 }
 
 /**
@@ -60,6 +64,7 @@ function resolveOptions(options?: FactoryGeneratorOptions): ResolvedOptions {
     fakerLocale: options?.fakerLocale ?? 'en_US',
     customTypes: options?.customTypes ?? new Map(),
     pluginEnums: options?.pluginEnums ?? new Map(),
+    enumNamespace: options?.enumNamespace ?? 'App\\Enums',
   };
 }
 
@@ -109,7 +114,7 @@ class {{MODEL_NAME}}Factory extends Factory
         return [
 {{ATTRIBUTES}}
         ];
-    }
+    }{{STATES}}
 }
 `;
 }
@@ -487,6 +492,41 @@ function generateAssociationFake(
   return { fake, import: importStatement };
 }
 
+/**
+ * Generates a state attaching related models through a MorphToMany or MorphedByMany relation.
+ */
+function generateAttachState(
+  propertyName: string,
+  property: PropertyDefinition,
+  schema: LoadedSchema,
+  schemas: SchemaCollection,
+  modelNamespace: string
+): { state: string; import?: string } | null {
+  const relation = (property as { relation?: string }).relation;
+  const target = (property as { target?: string }).target;
+
+  if ((relation !== 'MorphToMany' && relation !== 'MorphedByMany') || !target || !schemas[target]) {
+    return null;
+  }
+
+  const relationName = toCamelCase(propertyName);
+  const state = `    /**
+     * Attach ${propertyName} to the model.
+     */
+    public function with${toPascalCase(propertyName)}(int $count = 3): static
+    {
+        return $this->hasAttached(${target}::factory()->count($count), [], '${relationName}');
+    }`;
+
+  // Add import if target is different from current schema
+  let importStatement: string | undefined;
+  if (target !== schema.name) {
+    importStatement = `use ${modelNamespace}\\${target};`;
+  }
+
+  return { state, import: importStatement };
+}
+
 /**
  * Generates a factory for a single schema.
  */
@@ -510,12 +550,18 @@ function generateFactory(
   const factoryName = `${modelName}Factory`;
 
   const attributes: string[] = [];
+  const states: string[] = [];
   const imports: string[] = [];
 
   // Process properties
   if (schema.properties) {
     for (const [propName, prop] of Object.entries(schema.properties)) {
-      // Handle associations (foreign keys)
+      // Skip generated columns (computed by the database)
+      if (isGeneratedColumn(prop)) {
+        continue;
+      }
+
+      // Handle associations (foreign keys, or states attaching pivot relations)
       if (prop.type === 'Association') {
         const assocResult = generateAssociationFake(propName, prop, schema, schemas, options.modelNamespace);
         if (assocResult) {
@@ -524,6 +570,21 @@ function generateFactory(
             imports.push(assocResult.import);
           }
         }
+        const stateResult = generateAttachState(propName, prop, schema, schemas, options.modelNamespace);
+        if (stateResult) {
+          states.push(stateResult.state);
+          if (stateResult.import) {
+            imports.push(stateResult.import);
+          }
+        }
+        continue;
+      }
+
+      // Handle enum columns cast to generated PHP enums
+      const enumClass = getPropertyEnumClass(schema, propName, prop, schemas, options.pluginEnums);
+      if (enumClass) {
+        attributes.push(`'${toSnakeCase(propName)}' => fake()->randomElement(${enumClass}::cases()),`);
+        imports.push(`use ${options.enumNamespace}\\${enumClass};`);
         continue;
       }
 
@@ -559,6 +620,7 @@ function generateFactory(
     ? attributes.map(a => `            ${a}`).join('\n')
     : '';
   content = content.replace(/\{\{ATTRIBUTES\}\}/g, attributesStr);
+  content = content.replace(/\{\{STATES\}\}/g, states.map(state => `\n\n${state}`).join(''));
 
   return {
     name: factoryName,
@@ -0,0 +1,166 @@
+/**
+ * @famgia/omnify-laravel - Migration Importer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatSchemaYaml, importMigrations } from './importer.js';
+import type { MigrationSource } from './types.js';
+
+const migration = (fileName: string, up: string): MigrationSource => ({
+  fileName,
+  content: `<?php
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+${up}
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('ignored');
+    }
+};
+`,
+});
+
+const users = migration('2014_10_12_000000_create_users_table.php', `        Schema::create('users', function (Blueprint $table) {
+            $table->id();
+            $table->string('name');
+            $table->string('email')->unique();
+            $table->timestamp('email_verified_at')->nullable();
+            $table->string('password');
+            $table->rememberToken();
+            $table->timestamps();
+        });`);
+
+const tags = migration('2024_01_01_000000_create_tags_table.php', `        Schema::create('tags', function (Blueprint $table) {
+            $table->id();
+            $table->string('name', 50)->unique();
+        });`);
+
+const posts = migration('2024_01_02_000000_create_posts_table.php', `        Schema::create('posts', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('author_id')
+                ->nullable()
+                ->constrained('users')
+                ->nullOnDelete();
+            $table->string('title', 200);
+            $table->enum('status', ['draft', 'published'])->default('draft');
+            $table->decimal('price', 10, 2)->unsigned();
+            $table->timestamps();
+            $table->softDeletes();
+            $table->index(['status', 'created_at']);
+        });
+
+        // Pivot table of Post.tags
+        Schema::create('post_tag', function (Blueprint $table) {
+            $table->foreignId('post_id')->constrained()->cascadeOnDelete();
+            $table->foreignId('tag_id')->constrained()->cascadeOnDelete();
+            $table->primary(['post_id', 'tag_id']);
+        });`);
+
+describe('importMigrations', () => {
+  it('imports tables as schemas with options, associations and enums', () => {
+    const { schemas, issues } = importMigrations([posts, tags, users]);
+
+    expect(issues).toEqual([]);
+    expect(schemas.map(schema => schema.fileName)).toEqual(['User.yaml', 'Tag.yaml', 'Post.yaml']);
+    expect(schemas[0]!.definition).toEqual({
+      name: 'User',
+      properties: {
+        name: { type: 'String' },
+        email: { type: 'String', unique: true },
+        emailVerifiedAt: { type: 'Timestamp', nullable: true },
+        password: { type: 'String' },
+        rememberToken: { type: 'String', length: 100, nullable: true },
+      },
+    });
+    expect(schemas[1]!.definition).toEqual({
+      name: 'Tag',
+      options: { timestamps: false },
+      properties: { name: { type: 'String', length: 50, unique: true } },
+    });
+  });
+
+  it('writes schema YAML', () => {
+    const { schemas } = importMigrations([users, tags, posts]);
+
+    expect(schemas[2]!.yaml).toBe(`name: Post
+options:
+  softDelete: true
+  indexes:
+    - columns: [status, createdAt]
+properties:
+  author:
+    type: Association
+    relation: ManyToOne
+    target: User
+    nullable: true
+    onDelete: set null
+  title:
+    type: String
+    length: 200
+  status:
+    type: Enum
+    enum: [draft, published]
+    default: draft
+  price:
+    type: Decimal
+    precision: 10
+    scale: 2
+    unsigned: true
+  tags:
+    type: Association
+    relation: ManyToMany
+    target: Tag
+    owning: true
+`);
+  });
+
+  it('replays Schema::table migrations and reports what is not imported with its file and line', () => {
+    const addSummary = migration('2024_01_03_000000_add_summary_to_posts_table.php', `        Schema::table('posts', function (Blueprint $table) {
+            $table->text('summary')->nullable()->after('title');
+            $table->point('location');
+        });
+        DB::statement('UPDATE posts SET summary = title');`);
+
+    const { schemas, issues } = importMigrations([users, tags, posts, addSummary]);
+
+    expect(schemas[2]!.definition.properties['summary']).toEqual({ type: 'Text', nullable: true });
+    expect(schemas[2]!.definition.properties['location']).toBeUndefined();
+    expect(issues).toEqual([
+      {
+        file: '2024_01_03_000000_add_summary_to_posts_table.php',
+        line: 11,
+        message: "Statement not imported: DB::statement('UPDATE posts SET summary = title')",
+      },
+      {
+        file: '2024_01_03_000000_add_summary_to_posts_table.php',
+        line: 9,
+        message: 'posts.location: point columns are not supported',
+      },
+    ]);
+  });
+});
+
+describe('formatSchemaYaml', () => {
+  it('quotes strings YAML would read as other values', () => {
+    expect(formatSchemaYaml({
+      name: 'Setting',
+      properties: {
+        enabled: { type: 'String', default: 'yes' },
+        code: { type: 'String', default: '007' },
+      },
+    })).toBe(`name: Setting
+properties:
+  enabled:
+    type: String
+    default: "yes"
+  code:
+    type: String
+    default: "007"
+`);
+  });
+});
@@ -0,0 +1,866 @@
+/**
+ * @famgia/omnify-laravel - Migration Importer
+ *
+ * Imports existing Laravel migrations as Omnify schemas. The up() of each
+ * migration is replayed on a simulated database (see migration/simulator.ts),
+ * then every table is mapped back to a schema: foreign keys become associations,
+ * enum columns Enum properties, and id, timestamps and soft delete columns
+ * schema options. What cannot be mapped is reported with its file and line.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+  ColumnMethod,
+  IndexDefinition,
+  SchemaOperation,
+  SimulatedDatabase,
+  TableBlueprint,
+  TableOptions,
+} from '../migration/types.js';
+import type { ImportedSchema, ImportedSchemaDefinition, ImportIssue, ImportResult, MigrationSource } from './types.js';
+import { applyOperations } from '../migration/simulator.js';
+import { parseBlueprintCall, parseCalls, parseSchemaCall, type PhpCall } from './php-parser.js';
+import { generatePivotTableName, toColumnName, toTableName } from '../migration/schema-builder.js';
+import { toConstraintName, toIndexName, type ConstraintType } from '../migration/naming.js';
+import { pluralize, singularize, toCamelCase, toPascalCase } from '../utils.js';
+
+/**
+ * Opening of a Schema::create or Schema::table closure, e.g.
+ * `Schema::create('posts', function (Blueprint $table) {`.
+ */
+const BLUEPRINT_CLOSURE = /^Schema::(create|table)\(\s*(['"])([^'"]+)\2\s*,\s*(?:static\s+)?function\s*\(\s*Blueprint\s+\$(\w+)\s*\)\s*(?::\s*void\s*)?$/;
+
+/**
+ * Column methods and the property types they are imported as.
+ */
+const COLUMN_TYPES: Readonly<Record<string, string>> = {
+  string: 'String',
+  tinyInteger: 'TinyInt',
+  unsignedTinyInteger: 'TinyInt',
+  integer: 'Int',
+  unsignedInteger: 'Int',
+  bigInteger: 'BigInt',
+  unsignedBigInteger: 'BigInt',
+  double: 'Float',
+  decimal: 'Decimal',
+  boolean: 'Boolean',
+  text: 'Text',
+  mediumText: 'MediumText',
+  longText: 'LongText',
+  date: 'Date',
+  time: 'Time',
+  dateTime: 'DateTime',
+  timestamp: 'Timestamp',
+  json: 'Json',
+  enum: 'Enum',
+};
+
+/**
+ * Column methods without an exact property type, and the closest type.
+ */
+const APPROXIMATE_COLUMN_TYPES: Readonly<Record<string, string>> = {
+  char: 'String',
+  uuid: 'String',
+  ulid: 'String',
+  ipAddress: 'String',
+  macAddress: 'String',
+  smallInteger: 'Int',
+  unsignedSmallInteger: 'Int',
+  mediumInteger: 'Int',
+  unsignedMediumInteger: 'Int',
+  year: 'Int',
+  float: 'Float',
+  tinyText: 'Text',
+  timeTz: 'Time',
+  dateTimeTz: 'DateTime',
+  timestampTz: 'Timestamp',
+  jsonb: 'Json',
+};
+
+/**
+ * Lengths of string column methods without a length argument.
+ */
+const STRING_LENGTHS: Readonly<Record<string, number>> = {
+  uuid: 36,
+  ulid: 26,
+  ipAddress: 45,
+  macAddress: 17,
+};
+
+/**
+ * Unsigned integer column methods.
+ */
+const UNSIGNED_METHODS: ReadonlySet<string> = new Set([
+  'unsignedTinyInteger',
+  'unsignedSmallInteger',
+  'unsignedMediumInteger',
+  'unsignedInteger',
+  'unsignedBigInteger',
+]);
+
+/**
+ * Auto-incrementing primary key column types and their idType.
+ */
+const AUTO_INCREMENT_ID_TYPES: Readonly<Record<string, string>> = {
+  unsignedBigInteger: 'BigInt',
+  unsignedInteger: 'Int',
+};
+
+/**
+ * Other primary key column types and their idType.
+ */
+const ID_TYPES: Readonly<Record<string, string>> = {
+  uuid: 'Uuid',
+  string: 'String',
+};
+
+/**
+ * `foreignId()`-style methods and the column type they create.
+ */
+const FOREIGN_ID_METHODS: Readonly<Record<string, string>> = {
+  foreignId: 'unsignedBigInteger',
+  foreignUuid: 'uuid',
+  foreignUlid: 'ulid',
+};
+
+/**
+ * `morphs()`-style methods and the type of the id column they create.
+ */
+const MORPH_METHODS: Readonly<Record<string, string>> = {
+  morphs: 'unsignedBigInteger',
+  nullableMorphs: 'unsignedBigInteger',
+  uuidMorphs: 'uuid',
+  nullableUuidMorphs: 'uuid',
+};
+
+/**
+ * Foreign key action shorthands and the call they stand for.
+ */
+const FOREIGN_KEY_ACTIONS: Readonly<Record<string, PhpCall>> = {
+  cascadeOnDelete: { method: 'onDelete', args: ['cascade'] },
+  restrictOnDelete: { method: 'onDelete', args: ['restrict'] },
+  nullOnDelete: { method: 'onDelete', args: ['set null'] },
+  noActionOnDelete: { method: 'onDelete', args: ['no action'] },
+  cascadeOnUpdate: { method: 'onUpdate', args: ['cascade'] },
+  restrictOnUpdate: { method: 'onUpdate', args: ['restrict'] },
+  nullOnUpdate: { method: 'onUpdate', args: ['set null'] },
+  noActionOnUpdate: { method: 'onUpdate', args: ['no action'] },
+};
+
+/**
+ * Calls of a `foreignId()` chain defining the foreign key rather than the column.
+ */
+const FOREIGN_KEY_CALLS: ReadonlySet<string> = new Set(['constrained', 'onDelete', 'onUpdate']);
+
+/**
+ * Methods dropping a constraint, and the constraint type naming it when given columns.
+ */
+const DROP_CONSTRAINT_TYPES: Readonly<Record<string, ConstraintType>> = {
+  dropIndex: 'index',
+  dropUnique: 'unique',
+  dropFullText: 'fulltext',
+  dropSpatialIndex: 'spatialindex',
+  dropForeign: 'foreign',
+};
+
+/**
+ * YAML words read as booleans or null when unquoted.
+ */
+const YAML_RESERVED_WORDS: ReadonlySet<string> = new Set(['true', 'false', 'yes', 'no', 'on', 'off', 'y', 'n', 'null', '~']);
+
+/**
+ * A PHP statement, ended by `;` or by the brace opening or closing a block.
+ */
+interface PhpStatement {
+  readonly code: string;
+  readonly line: number;
+  readonly end: ';' | '{' | '}';
+}
+
+/**
+ * A block the statements of a migration are read in.
+ */
+type Block =
+  | { readonly kind: 'up' }
+  | { readonly kind: 'blueprint'; readonly tableName: string; readonly variable: string }
+  | { readonly kind: 'other' };
+
+/**
+ * A schema operation and the line of the statement it was read from.
+ */
+interface LocatedOperation {
+  readonly operation: SchemaOperation;
+  readonly line: number;
+}
+
+/**
+ * Where a table, column or constraint was last defined.
+ */
+type Location = Omit<ImportIssue, 'message'>;
+
+/**
+ * What mapping a table needs to know about the other tables.
+ */
+interface ImportContext {
+  /** Schema name of each imported table */
+  readonly schemaNames: ReadonlyMap<string, string>;
+  /** ManyToMany associations from pivot tables, keyed by the owning table */
+  readonly pivotAssociations: ReadonlyMap<string, Record<string, Record<string, unknown>>>;
+  /** Reports something not imported, at the definition of the table or of one of its columns or constraints */
+  readonly report: (tableName: string, name: string | undefined, message: string) => void;
+}
+
+// ============================================================================
+// Reading migrations
+// ============================================================================
+
+/**
+ * Splits PHP code into statements, skipping comments.
+ */
+function splitStatements(content: string): PhpStatement[] {
+  const statements: PhpStatement[] = [];
+  let code = '';
+  let line = 1;
+  let start = 1;
+  let quote: string | null = null;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]!;
+    if (char === '\n') {
+      line++;
+    }
+
+    if (quote !== null) {
+      code += char;
+      if (char === '\\' && i + 1 < content.length) {
+        i++;
+        code += content[i];
+        if (content[i] === '\n') {
+          line++;
+        }
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if ((char === '/' && content[i + 1] === '/') || char === '#') {
+      while (i + 1 < content.length && content[i + 1] !== '\n') {
+        i++;
+      }
+      continue;
+    }
+    if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const next = end < 0 ? content.length : end + 2;
+      line += content.slice(i, next).split('\n').length - 1;
+      i = next - 1;
+      continue;
+    }
+
+    if (char === ';' || char === '{' || char === '}') {
+      statements.push({ code: code.trim(), line: start, end: char });
+      code = '';
+      continue;
+    }
+    if (code.trim() === '' && char.trim() !== '') {
+      start = line;
+    }
+    if (char === "'" || char === '"') {
+      quote = char;
+    }
+    code += char;
+  }
+
+  return statements;
+}
+
+/**
+ * Shortens a statement for reporting.
+ */
+function summarizeStatement(code: string): string {
+  const statement = code.replace(/\s+/g, ' ');
+  return statement.length > 80 ? `${statement.slice(0, 77)}...` : statement;
+}
+
+/**
+ * Converts a `$table->...` call of a hand-written migration into schema operations,
+ * expanding the Blueprint shorthands generated migrations do not use.
+ */
+function importBlueprintCall(tableName: string, calls: readonly PhpCall[]): SchemaOperation[] {
+  const [call, ...chain] = calls;
+  if (!call) {
+    return [];
+  }
+  const [first] = call.args;
+  const name = typeof first === 'string' ? first : undefined;
+  const links = chain.map(link => FOREIGN_KEY_ACTIONS[link.method] ?? link);
+
+  const foreignIdMethod = FOREIGN_ID_METHODS[call.method];
+  if (foreignIdMethod && name) {
+    const operations = parseBlueprintCall(tableName, [
+      { method: foreignIdMethod, args: [name] },
+      ...links.filter(link => !FOREIGN_KEY_CALLS.has(link.method)),
+    ]);
+    const constrained = links.find(link => link.method === 'constrained');
+    if (constrained) {
+      // constrained() guesses the table from the column name, e.g. author_id -> authors
+      const [table, column] = constrained.args;
+      operations.push(...parseBlueprintCall(tableName, [
+        { method: 'foreign', args: [name] },
+        { method: 'references', args: [typeof column === 'string' ? column : 'id'] },
+        { method: 'on', args: [typeof table === 'string' ? table : pluralize(name.replace(/_id$/, ''))] },
+        ...links.filter(link => link.method === 'onDelete' || link.method === 'onUpdate'),
+      ]));
+    }
+    return operations;
+  }
+
+  const morphMethod = MORPH_METHODS[call.method];
+  if (morphMethod && name) {
+    const nullable: PhpCall[] = call.method.startsWith('nullable') ? [{ method: 'nullable', args: [] }] : [];
+    return [
+      ...parseBlueprintCall(tableName, [{ method: 'string', args: [`${name}_type`] }, ...nullable]),
+      ...parseBlueprintCall(tableName, [{ method: morphMethod, args: [`${name}_id`] }, ...nullable]),
+      ...parseBlueprintCall(tableName, [{ method: 'index', args: [[`${name}_type`, `${name}_id`]] }]),
+    ];
+  }
+
+  const constraintType = DROP_CONSTRAINT_TYPES[call.method];
+  if (constraintType && Array.isArray(first)) {
+    // Dropping by columns drops the constraint of the conventional name
+    const constraintName = toConstraintName(tableName, first.map(String), constraintType);
+    return parseBlueprintCall(tableName, [{ method: call.method, args: [constraintName] }]);
+  }
+
+  switch (call.method) {
+    case 'timestampsTz':
+    case 'nullableTimestamps':
+      return parseBlueprintCall(tableName, [{ method: 'timestamps', args: [] }]);
+    case 'softDeletesTz':
+      return parseBlueprintCall(tableName, [{ method: 'softDeletes', args: [] }]);
+    case 'rememberToken':
+      return parseBlueprintCall(tableName, [
+        { method: 'string', args: ['remember_token', 100] },
+        { method: 'nullable', args: [] },
+      ]);
+    default:
+      return parseBlueprintCall(tableName, [call, ...links]);
+  }
+}
+
+/**
+ * Reads the schema operations of the up() of a migration.
+ * Statements that are not schema changes are reported.
+ */
+function readMigrationOperations(source: MigrationSource, issues: ImportIssue[]): LocatedOperation[] {
+  const operations: LocatedOperation[] = [];
+  const blocks: Block[] = [];
+
+  for (const { code, line, end } of splitStatements(source.content)) {
+    if (end === '}') {
+      blocks.pop();
+      continue;
+    }
+
+    const inUp = blocks.some(block => block.kind === 'up');
+    if (end === '{') {
+      const closure = BLUEPRINT_CLOSURE.exec(code);
+      if (/\bfunction\s+up\s*\(/.test(code)) {
+        blocks.push({ kind: 'up' });
+      } else if (inUp && closure) {
+        const tableName = closure[3]!;
+        if (closure[1] === 'create') {
+          operations.push({ operation: { type: 'createTable', tableName }, line });
+        }
+        blocks.push({ kind: 'blueprint', tableName, variable: closure[4]! });
+      } else {
+        blocks.push({ kind: 'other' });
+      }
+      continue;
+    }
+
+    // `)` is what remains of the `});` closing a closure
+    if (!inUp || code === '' || code === ')') {
+      continue;
+    }
+
+    const blueprint = [...blocks].reverse().find(
+      (block): block is Extract<Block, { kind: 'blueprint' }> => block.kind === 'blueprint'
+    );
+    try {
+      let parsed: SchemaOperation[] | null = null;
+      if (blueprint && code.startsWith(`$${blueprint.variable}->`)) {
+        parsed = importBlueprintCall(blueprint.tableName, parseCalls(code.slice(blueprint.variable.length + 1)));
+      } else if (code.startsWith('Schema::')) {
+        parsed = parseSchemaCall(parseCalls(code.slice('Schema'.length)));
+      }
+      if (parsed) {
+        operations.push(...parsed.map(operation => ({ operation, line })));
+        continue;
+      }
+    } catch {
+      // Reported below
+    }
+    issues.push({ file: source.fileName, line, message: `Statement not imported: ${summarizeStatement(code)}` });
+  }
+
+  return operations;
+}
+
+/**
+ * Records where the table, column or constraint an operation defines comes from.
+ * Keys are table names, and `table.name` for columns and constraints.
+ */
+function recordLocation(locations: Map<string, Location>, operation: SchemaOperation, location: Location): void {
+  switch (operation.type) {
+    case 'createTable':
+      locations.set(operation.tableName, location);
+      break;
+    case 'addColumn':
+    case 'changeColumn':
+      locations.set(`${operation.tableName}.${operation.column.name}`, location);
+      break;
+    case 'addIndex':
+      locations.set(`${operation.tableName}.${operation.index.name}`, location);
+      break;
+    case 'addForeignKey':
+      locations.set(`${operation.tableName}.${operation.foreignKey.name}`, location);
+      break;
+    case 'addCheck':
+      locations.set(`${operation.tableName}.${operation.check.name}`, location);
+      break;
+    case 'renameColumn': {
+      const previous = locations.get(`${operation.tableName}.${operation.from}`);
+      if (previous) {
+        locations.set(`${operation.tableName}.${operation.to}`, previous);
+      }
+      break;
+    }
+    case 'renameTable':
+      for (const [key, previous] of [...locations]) {
+        if (key === operation.from || key.startsWith(`${operation.from}.`)) {
+          locations.set(operation.to + key.slice(operation.from.length), previous);
+        }
+      }
+      break;
+  }
+}
+
+// ============================================================================
+// Mapping tables to schemas
+// ============================================================================
+
+/**
+ * Property name of a column: camelCase when it converts back to the column name.
+ */
+function toPropertyName(columnName: string): string {
+  const propertyName = toCamelCase(columnName);
+  return toColumnName(propertyName) === columnName ? propertyName : columnName;
+}
+
+/**
+ * Checks for a column as created by `timestamps()` or `softDeletes()`.
+ */
+function isNullableTimestamp(column: ColumnMethod | undefined): boolean {
+  return column?.method === 'timestamp'
+    && column.modifiers.length === 1
+    && column.modifiers[0]!.method === 'nullable';
+}
+
+/**
+ * Gets the idType of an `id` primary key column, or undefined when no idType fits.
+ */
+function toIdType(column: ColumnMethod | undefined): string | undefined {
+  if (!column) {
+    return undefined;
+  }
+  const autoIncrement = column.modifiers.some(modifier => modifier.method === 'autoIncrement');
+  return autoIncrement ? AUTO_INCREMENT_ID_TYPES[column.method] : ID_TYPES[column.method];
+}
+
+/**
+ * Maps a column to a property definition, reporting what does not fit.
+ */
+function columnToProperty(column: ColumnMethod, report: (message: string) => void): Record<string, unknown> | null {
+  const type = COLUMN_TYPES[column.method] ?? APPROXIMATE_COLUMN_TYPES[column.method];
+  if (!type) {
+    report(`${column.method} columns are not supported`);
+    return null;
+  }
+  if (!(column.method in COLUMN_TYPES)) {
+    report(`${column.method} is imported as ${type}`);
+  }
+
+  const property: Record<string, unknown> = { type };
+  const [, second, third] = column.args;
+  const length = typeof second === 'number' ? second : STRING_LENGTHS[column.method];
+  if (type === 'String' && length !== undefined && length !== 255) {
+    property.length = length;
+  }
+  if (type === 'Decimal' && typeof second === 'number') {
+    property.precision = second;
+  }
+  if (type === 'Decimal' && typeof third === 'number') {
+    property.scale = third;
+  }
+  const values = second as unknown;
+  if (type === 'Enum' && Array.isArray(values)) {
+    property.enum = values.map(String);
+  }
+  if (UNSIGNED_METHODS.has(column.method)) {
+    property.unsigned = true;
+  }
+
+  for (const modifier of column.modifiers) {
+    const [arg] = modifier.args ?? [];
+    switch (modifier.method) {
+      case 'nullable':
+        property.nullable = true;
+        break;
+      case 'default':
+        property.default = arg;
+        break;
+      case 'unsigned':
+        property.unsigned = true;
+        break;
+      case 'comment':
+        property.displayName = arg;
+        break;
+      case 'useCurrent':
+      case 'useCurrentOnUpdate':
+        property[modifier.method] = true;
+        break;
+      case 'storedAs':
+      case 'virtualAs':
+        property[modifier.method] = arg;
+        break;
+      default:
+        report(`->${modifier.method}() is not imported`);
+    }
+  }
+
+  return property;
+}
+
+/**
+ * Finds the pivot tables of ManyToMany associations: two foreign keys named after
+ * their tables and no other columns than an id and timestamps.
+ * Returns the association to add to the first table of each pair, keyed by pivot table.
+ */
+function findPivotTables(database: SimulatedDatabase): Map<string, { owner: string; target: string }> {
+  const pivots = new Map<string, { owner: string; target: string }>();
+
+  for (const table of database.values()) {
+    const targets = table.foreignKeys.map(fk => fk.on[0] ?? '');
+    const conventional = table.foreignKeys.length === 2 && table.foreignKeys.every(fk =>
+      fk.columns.length === 1
+      && fk.references === 'id'
+      && database.has(fk.on[0] ?? '')
+      && fk.columns[0] === `${singularize(fk.on[0] ?? '')}_id`);
+    const otherColumns = table.columns
+      .map(column => column.name)
+      .filter(name => !table.foreignKeys.some(fk => fk.columns[0] === name))
+      .filter(name => !['id', 'created_at', 'updated_at'].includes(name));
+
+    if (conventional && otherColumns.length === 0 && targets[0] !== targets[1]) {
+      const [owner, target] = [...targets].sort() as [string, string];
+      pivots.set(table.tableName, { owner, target });
+    }
+  }
+
+  return pivots;
+}
+
+/**
+ * Maps a table to a schema definition.
+ */
+function tableToSchema(table: TableBlueprint, context: ImportContext): ImportedSchema {
+  const t = table.tableName;
+  const name = context.schemaNames.get(t)!;
+  const report = (message: string, at?: string) => context.report(t, at, message);
+  const columns = new Map(table.columns.map(column => [column.name, column]));
+  // Columns mapped to options rather than properties
+  const consumed = new Set<string>();
+  const options: Record<string, unknown> = {};
+  const properties: Record<string, Record<string, unknown>> = {};
+  let indexes = [...table.indexes];
+  const takeIndex = (matches: (index: IndexDefinition) => boolean): IndexDefinition | undefined => {
+    const index = indexes.find(matches);
+    indexes = indexes.filter(other => other !== index);
+    return index;
+  };
+  const isIndexOf = (index: IndexDefinition, column: string) => index.columns.length === 1 && index.columns[0] === column;
+
+  if (toTableName(name) !== t) {
+    options.tableName = t;
+  }
+
+  // Primary key
+  const primaryKey = table.primaryKey ?? [];
+  const idType = primaryKey.length === 1 && primaryKey[0] === 'id' ? toIdType(columns.get('id')) : undefined;
+  if (idType) {
+    if (idType !== 'BigInt') {
+      options.idType = idType;
+    }
+    consumed.add('id');
+  } else {
+    options.id = false;
+    if (primaryKey.length > 1) {
+      report(`${t}: composite primary key (${primaryKey.join(', ')}) is not imported`);
+    }
+  }
+
+  // Timestamps and soft deletes
+  if (isNullableTimestamp(columns.get('created_at')) && isNullableTimestamp(columns.get('updated_at'))) {
+    consumed.add('created_at').add('updated_at');
+  } else {
+    options.timestamps = false;
+  }
+  if (isNullableTimestamp(columns.get('deleted_at'))) {
+    options.softDelete = true;
+    consumed.add('deleted_at');
+  }
+
+  // Associations from foreign keys, keyed by column
+  const associations = new Map<string, { propertyName: string; definition: Record<string, unknown> }>();
+  for (const foreignKey of table.foreignKeys) {
+    const [column, ...others] = foreignKey.columns;
+    const target = context.schemaNames.get(foreignKey.on[0] ?? '');
+    if (!column || others.length > 0 || !column.endsWith('_id') || foreignKey.references !== 'id' || !target) {
+      report(
+        `Foreign key ${foreignKey.name} (${foreignKey.columns.join(', ')} -> ${foreignKey.on[0]}.${foreignKey.references}) is not imported as an association`,
+        foreignKey.name
+      );
+      continue;
+    }
+
+    const unique = takeIndex(index => index.unique && isIndexOf(index, column));
+    takeIndex(index => !index.unique && isIndexOf(index, column));
+    const definition: Record<string, unknown> = {
+      type: 'Association',
+      relation: unique ? 'OneToOne' : 'ManyToOne',
+      target,
+    };
+    if (columns.get(column)?.modifiers.some(modifier => modifier.method === 'nullable')) {
+      definition.nullable = true;
+    }
+    // Omitted actions use the schema defaults (restrict, cascade)
+    const onDelete = foreignKey.onDelete?.toLowerCase();
+    const onUpdate = foreignKey.onUpdate?.toLowerCase();
+    if (onDelete && onDelete !== 'restrict') {
+      definition.onDelete = onDelete;
+    }
+    if (onUpdate && onUpdate !== 'cascade') {
+      definition.onUpdate = onUpdate;
+    }
+    associations.set(column, { propertyName: toPropertyName(column.slice(0, -'_id'.length)), definition });
+  }
+
+  // Polymorphic associations from {name}_type and {name}_id pairs, keyed by the type column
+  const morphs = new Map<string, string>();
+  for (const column of table.columns) {
+    const base = column.name.endsWith('_type') ? column.name.slice(0, -'_type'.length) : undefined;
+    if (base && columns.has(`${base}_id`) && !associations.has(`${base}_id`)) {
+      morphs.set(column.name, toPropertyName(base));
+      consumed.add(`${base}_id`);
+      takeIndex(index => index.columns.join(',') === `${base}_type,${base}_id`);
+      report(`${t}.${base}_type and ${base}_id are imported as a MorphTo association without targets; add them`, column.name);
+    }
+  }
+
+  for (const column of table.columns) {
+    const association = associations.get(column.name);
+    const morph = morphs.get(column.name);
+    if (consumed.has(column.name)) {
+      continue;
+    }
+    if (association) {
+      properties[association.propertyName] = association.definition;
+    } else if (morph) {
+      const nullable = column.modifiers.some(modifier => modifier.method === 'nullable');
+      properties[morph] = { type: 'Association', relation: 'MorphTo', ...(nullable ? { nullable: true } : {}) };
+    } else {
+      const property = columnToProperty(column, message => report(`${t}.${column.name}: ${message}`, column.name));
+      if (!property) {
+        continue;
+      }
+      if (primaryKey.length === 1 && primaryKey[0] === column.name) {
+        property.primary = true;
+      }
+      if (takeIndex(index => index.unique && isIndexOf(index, column.name) && index.name === toIndexName(t, index))) {
+        property.unique = true;
+      }
+      properties[toPropertyName(column.name)] = property;
+    }
+  }
+  Object.assign(properties, context.pivotAssociations.get(t));
+
+  // Remaining indexes, by property name
+  const propertyOf = (column: string) => associations.get(column)?.propertyName ?? toPropertyName(column);
+  if (indexes.length > 0) {
+    options.indexes = indexes.map(index => {
+      const type = index.type ?? (index.unique ? 'unique' : 'index');
+      return {
+        columns: index.columns.map(propertyOf),
+        ...(index.unique ? { unique: true } : {}),
+        ...(type === 'fulltext' || type === 'spatial' ? { type } : {}),
+        ...(index.name !== toIndexName(t, index) ? { name: index.name } : {}),
+        ...(index.algorithm !== undefined ? { algorithm: index.algorithm } : {}),
+        ...(index.where !== undefined ? { where: index.where } : {}),
+        ...(index.parser !== undefined ? { parser: index.parser } : {}),
+      };
+    });
+  }
+
+  for (const check of table.checks ?? []) {
+    report(`CHECK constraint ${check.name} (${check.expression}) is not imported`, check.name);
+  }
+
+  const { comment, ...tableOptions }: TableOptions = table.options ?? {};
+  for (const [option, value] of Object.entries(tableOptions)) {
+    if (value !== undefined) {
+      options[option] = value;
+    }
+  }
+
+  const definition: ImportedSchemaDefinition = {
+    name,
+    ...(comment !== undefined ? { displayName: comment } : {}),
+    ...(Object.keys(options).length > 0 ? { options } : {}),
+    properties,
+  };
+
+  return { name, tableName: t, fileName: `${name}.yaml`, definition, yaml: formatSchemaYaml(definition) };
+}
+
+// ============================================================================
+// YAML
+// ============================================================================
+
+/**
+ * Formats a YAML scalar, quoting strings that would not read back as the same string.
+ */
+function formatYamlScalar(value: unknown): string {
+  if (typeof value === 'string') {
+    const plain = /^[A-Za-z_][\w ./-]*$/.test(value)
+      && !value.endsWith(' ')
+      && !YAML_RESERVED_WORDS.has(value.toLowerCase());
+    return plain ? value : JSON.stringify(value);
+  }
+  return value === null || value === undefined ? 'null' : String(value);
+}
+
+/**
+ * Formats the entries of a YAML mapping. Undefined values are left out.
+ */
+function formatYamlEntries(entries: Readonly<Record<string, unknown>>, indent: string): string[] {
+  const lines: string[] = [];
+
+  for (const [key, value] of Object.entries(entries)) {
+    if (value === undefined) {
+      continue;
+    }
+    const prefix = `${indent}${formatYamlScalar(key)}:`;
+
+    if (Array.isArray(value) && value.some(item => typeof item === 'object' && item !== null)) {
+      lines.push(prefix);
+      for (const item of value) {
+        const [first = '', ...rest] = formatYamlEntries(item as Record<string, unknown>, `${indent}    `);
+        lines.push(`${indent}  - ${first.trimStart()}`, ...rest);
+      }
+    } else if (Array.isArray(value)) {
+      lines.push(`${prefix} [${value.map(formatYamlScalar).join(', ')}]`);
+    } else if (typeof value === 'object' && value !== null) {
+      const nested = formatYamlEntries(value as Record<string, unknown>, `${indent}  `);
+      lines.push(...(nested.length > 0 ? [prefix, ...nested] : [`${prefix} {}`]));
+    } else {
+      lines.push(`${prefix} ${formatYamlScalar(value)}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Formats a schema definition as the content of a schema YAML file.
+ */
+export function formatSchemaYaml(definition: ImportedSchemaDefinition): string {
+  return `${formatYamlEntries({ ...definition }, '').join('\n')}\n`;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Imports migrations as schemas.
+ * Migrations are replayed in file name order; only their up() is read.
+ */
+export function importMigrations(sources: readonly MigrationSource[]): ImportResult {
+  const issues: ImportIssue[] = [];
+  const locations = new Map<string, Location>();
+  let database: SimulatedDatabase = new Map();
+
+  for (const source of [...sources].sort((a, b) => a.fileName.localeCompare(b.fileName))) {
+    for (const { operation, line } of readMigrationOperations(source, issues)) {
+      const location = { file: source.fileName, line };
+      const result = applyOperations(database, [operation]);
+      database = result.database;
+      issues.push(...result.errors.map(message => ({ ...location, message })));
+      recordLocation(locations, operation, location);
+    }
+  }
+
+  const pivots = findPivotTables(database);
+  const schemaNames = new Map(
+    [...database.keys()]
+      .filter(tableName => !pivots.has(tableName))
+      .map(tableName => [tableName, toPascalCase(singularize(tableName))])
+  );
+
+  const pivotAssociations = new Map<string, Record<string, Record<string, unknown>>>();
+  for (const [pivotTable, { owner, target }] of pivots) {
+    const ownerName = schemaNames.get(owner);
+    const targetName = schemaNames.get(target);
+    if (!ownerName || !targetName) {
+      continue;
+    }
+    const definition: Record<string, unknown> = { type: 'Association', relation: 'ManyToMany', target: targetName, owning: true };
+    if (pivotTable !== generatePivotTableName(toTableName(ownerName), toTableName(targetName))) {
+      definition.joinTable = pivotTable;
+    }
+    pivotAssociations.set(owner, { ...pivotAssociations.get(owner), [toPropertyName(target)]: definition });
+  }
+
+  const context: ImportContext = {
+    schemaNames,
+    pivotAssociations,
+    report: (tableName, name, message) => {
+      const location = (name !== undefined ? locations.get(`${tableName}.${name}`) : undefined)
+        ?? locations.get(tableName)
+        ?? { file: '', line: 0 };
+      issues.push({ ...location, message });
+    },
+  };
+  const schemas = [...database.values()]
+    .filter(table => schemaNames.has(table.tableName))
+    .map(table => tableToSchema(table, context));
+
+  return { schemas, issues };
+}
+
+/**
+ * Reads the migration files of a directory, in file name order.
+ */
+export function readMigrationSources(migrationsDir: string): MigrationSource[] {
+  if (!existsSync(migrationsDir)) {
+    return [];
+  }
+
+  return readdirSync(migrationsDir)
+    .filter(fileName => fileName.endsWith('.php'))
+    .sort()
+    .map(fileName => ({ fileName, content: readFileSync(join(migrationsDir, fileName), 'utf-8') }));
+}
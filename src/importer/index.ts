@@ -0,0 +1,19 @@
+/**
+ * @famgia/omnify-laravel - Importer Module
+ *
+ * Laravel migration import exports.
+ */
+
+export type {
+  MigrationSource,
+  ImportIssue,
+  ImportedSchemaDefinition,
+  ImportedSchema,
+  ImportResult,
+} from './types.js';
+
+export {
+  importMigrations,
+  readMigrationSources,
+  formatSchemaYaml,
+} from './importer.js';
@@ -0,0 +1,274 @@
+/**
+ * @famgia/omnify-laravel - PHP Call Parser
+ *
+ * Parses the Schema and Blueprint calls of Laravel migrations into schema operations.
+ * Only literal arguments are supported.
+ */
+
+import type {
+  ColumnMethod,
+  ColumnModifier,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  IndexType,
+  SchemaOperation,
+  TableOptions,
+} from '../migration/types.js';
+import { generateSoftDeleteColumn, generateTimestampColumns } from '../migration/schema-builder.js';
+import { toForeignKeyName, toIndexName } from '../migration/naming.js';
+
+/**
+ * A literal in PHP code.
+ */
+export type PhpValue = string | number | boolean | null | readonly PhpValue[];
+
+/**
+ * A call in a method chain, e.g. `->nullable()`.
+ */
+export interface PhpCall {
+  readonly method: string;
+  readonly args: readonly PhpValue[];
+}
+
+/**
+ * Blueprint methods creating each index kind.
+ */
+const INDEX_METHODS: Readonly<Record<string, IndexType>> = {
+  index: 'index',
+  unique: 'unique',
+  fullText: 'fulltext',
+  spatialIndex: 'spatial',
+};
+
+/**
+ * Blueprint methods dropping an index by name.
+ */
+const DROP_INDEX_METHODS: ReadonlySet<string> = new Set(['dropIndex', 'dropUnique', 'dropFullText', 'dropSpatialIndex']);
+
+/**
+ * Auto-incrementing primary key methods, which name the column id by default.
+ */
+const AUTO_INCREMENT_METHODS: ReadonlySet<string> = new Set(['id', 'bigIncrements', 'increments']);
+
+/**
+ * Skips whitespace in the source from the given position.
+ */
+function skipSpaces(source: string, start: number): number {
+  let i = start;
+  while (/\s/.test(source[i] ?? '')) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Reads a PHP literal (string, number, boolean, null or array) at a position of the source.
+ */
+function readPhpValue(source: string, start: number): { value: PhpValue; end: number } {
+  let i = skipSpaces(source, start);
+  const quote = source[i];
+
+  if (quote === "'" || quote === '"') {
+    let value = '';
+    i++;
+    while (i < source.length && source[i] !== quote) {
+      const next = source[i + 1];
+      const escaped = next === '\\' || next === quote || (quote === '"' && next === '$');
+      if (source[i] === '\\' && next !== undefined && escaped) {
+        value += next;
+        i += 2;
+      } else {
+        value += source[i];
+        i++;
+      }
+    }
+    if (i >= source.length) {
+      throw new Error(`Unterminated string in: ${source}`);
+    }
+    return { value, end: i + 1 };
+  }
+
+  if (quote === '[') {
+    const { values, end } = readPhpList(source, i + 1, ']');
+    return { value: values, end };
+  }
+
+  const token = /^(?:-?\d+(?:\.\d+)?|true|false|null)/.exec(source.slice(i))?.[0];
+  if (token === undefined) {
+    throw new Error(`Unsupported PHP expression in: ${source}`);
+  }
+  const value = token === 'true' ? true : token === 'false' ? false : token === 'null' ? null : Number(token);
+  return { value, end: i + token.length };
+}
+
+/**
+ * Reads comma-separated PHP literals up to the closing bracket.
+ */
+function readPhpList(source: string, start: number, close: ')' | ']'): { values: PhpValue[]; end: number } {
+  const values: PhpValue[] = [];
+  let i = skipSpaces(source, start);
+  if (source[i] === close) {
+    return { values, end: i + 1 };
+  }
+
+  for (;;) {
+    const { value, end } = readPhpValue(source, i);
+    values.push(value);
+    i = skipSpaces(source, end);
+    if (source[i] === ',') {
+      i++;
+    } else if (source[i] === close) {
+      return { values, end: i + 1 };
+    } else {
+      throw new Error(`Expected '${close}' in: ${source}`);
+    }
+  }
+}
+
+/**
+ * Parses a chain of calls with literal arguments, e.g. `->string('name')->nullable();`.
+ * Calls may be split over several lines.
+ */
+export function parseCalls(source: string): PhpCall[] {
+  const calls: PhpCall[] = [];
+  let i = skipSpaces(source, 0);
+
+  while (i < source.length && source[i] !== ';') {
+    const match = /^(?:->|::)([A-Za-z]+)\(/.exec(source.slice(i));
+    if (!match) {
+      throw new Error(`Unsupported PHP code: ${source}`);
+    }
+    const { values, end } = readPhpList(source, i + match[0].length, ')');
+    calls.push({ method: match[1]!, args: values });
+    i = skipSpaces(source, end);
+  }
+
+  return calls;
+}
+
+/**
+ * Gets a list of names from a string or array argument.
+ */
+function toNames(value: PhpValue | undefined): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return value === undefined || value === null ? [] : [String(value)];
+}
+
+/**
+ * Gets an optional string argument.
+ */
+function toOptionalString(value: PhpValue | undefined): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Parses a `$table->...` call inside a Schema::create or Schema::table closure.
+ */
+export function parseBlueprintCall(tableName: string, calls: readonly PhpCall[]): SchemaOperation[] {
+  const [call, ...chain] = calls;
+  if (!call) {
+    return [];
+  }
+  const [first, second, third] = call.args;
+
+  switch (call.method) {
+    case 'engine':
+    case 'charset':
+    case 'collation':
+      return [{ type: 'setTableOptions', tableName, options: { [call.method]: String(first) } as TableOptions }];
+    case 'comment':
+      // An empty comment removes it
+      return [{ type: 'setTableOptions', tableName, options: { comment: first === '' ? undefined : String(first) } }];
+    case 'temporary':
+      return [{ type: 'setTableOptions', tableName, options: { temporary: true } }];
+    case 'index':
+    case 'unique':
+    case 'fullText':
+    case 'spatialIndex': {
+      const type = INDEX_METHODS[call.method]!;
+      const index: IndexDefinition = {
+        columns: toNames(first),
+        unique: type === 'unique',
+        type,
+        algorithm: toOptionalString(third),
+      };
+      return [{ type: 'addIndex', tableName, index: { ...index, name: toOptionalString(second) ?? toIndexName(tableName, index) } }];
+    }
+    case 'primary':
+      return [{ type: 'addPrimary', tableName, columns: toNames(first) }];
+    case 'foreign': {
+      const argOf = (method: string) => chain.find(link => link.method === method)?.args[0];
+      const columns = toNames(first);
+      const foreignKey: ForeignKeyDefinition = {
+        name: toOptionalString(second) ?? toForeignKeyName(tableName, columns),
+        columns,
+        references: String(argOf('references')),
+        on: toNames(argOf('on')),
+        onDelete: toOptionalString(argOf('onDelete')),
+        onUpdate: toOptionalString(argOf('onUpdate')),
+      };
+      return [{ type: 'addForeignKey', tableName, foreignKey }];
+    }
+    case 'dropColumn':
+      return toNames(first).map((columnName): SchemaOperation => ({ type: 'dropColumn', tableName, columnName }));
+    case 'dropTimestamps':
+      return ['created_at', 'updated_at'].map((columnName): SchemaOperation => ({ type: 'dropColumn', tableName, columnName }));
+    case 'dropSoftDeletes':
+      return [{ type: 'dropColumn', tableName, columnName: 'deleted_at' }];
+    case 'dropForeign':
+      return [{ type: 'dropForeignKey', tableName, name: String(first) }];
+    case 'dropPrimary':
+      return [{ type: 'dropPrimary', tableName }];
+    case 'renameColumn':
+      return [{ type: 'renameColumn', tableName, from: String(first), to: String(second) }];
+    case 'renameIndex':
+      return [{ type: 'renameIndex', tableName, from: String(first), to: String(second) }];
+    case 'timestamps':
+      return generateTimestampColumns().map((column): SchemaOperation => ({ type: 'addColumn', tableName, column }));
+    case 'softDeletes':
+      return [{ type: 'addColumn', tableName, column: generateSoftDeleteColumn() }];
+  }
+
+  if (DROP_INDEX_METHODS.has(call.method)) {
+    return [{ type: 'dropIndex', tableName, name: String(first) }];
+  }
+
+  // Column definition, e.g. $table->string('title', 100)->nullable()
+  const name = AUTO_INCREMENT_METHODS.has(call.method) && first === undefined ? 'id' : first;
+  if (typeof name !== 'string') {
+    throw new Error(`Unsupported Blueprint call: $table->${call.method}()`);
+  }
+  const column: ColumnMethod = {
+    name,
+    method: call.method,
+    args: call.args as ColumnMethod['args'],
+    modifiers: chain.map((link): ColumnModifier => link.args.length > 0
+      ? { method: link.method, args: link.args as ColumnModifier['args'] }
+      : { method: link.method }),
+  };
+  const change = chain.some(link => link.method === 'change');
+  return [{ type: change ? 'changeColumn' : 'addColumn', tableName, column }];
+}
+
+/**
+ * Parses a `Schema::...` call outside a closure.
+ */
+export function parseSchemaCall(calls: readonly PhpCall[]): SchemaOperation[] {
+  const call = calls[0] ?? { method: '', args: [] };
+  const [first, second] = call.args;
+
+  switch (call.method) {
+    case 'drop':
+    case 'dropIfExists':
+      return [{ type: 'dropTable', tableName: String(first), ifExists: call.method === 'dropIfExists' }];
+    case 'rename':
+      return [{ type: 'renameTable', from: String(first), to: String(second) }];
+    case 'disableForeignKeyConstraints':
+    case 'enableForeignKeyConstraints':
+      return [{ type: 'foreignKeyChecks', enabled: call.method === 'enableForeignKeyConstraints' }];
+    default:
+      throw new Error(`Unsupported Schema call: Schema::${call.method}()`);
+  }
+}
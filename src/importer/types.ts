@@ -0,0 +1,67 @@
+/**
+ * @famgia/omnify-laravel - Importer Types
+ *
+ * Types for importing existing Laravel migrations as Omnify schemas.
+ */
+
+/**
+ * A migration file to import.
+ */
+export interface MigrationSource {
+  /** File name, e.g. '2014_10_12_000000_create_users_table.php' */
+  readonly fileName: string;
+  /** PHP content */
+  readonly content: string;
+}
+
+/**
+ * Something the importer could not map to a schema.
+ */
+export interface ImportIssue {
+  /** Migration file name */
+  readonly file: string;
+  /** Line of the statement in the migration file */
+  readonly line: number;
+  /** What was not imported */
+  readonly message: string;
+}
+
+/**
+ * Schema definition imported from migrations, in the shape of a schema YAML file.
+ */
+export interface ImportedSchemaDefinition {
+  /** Schema name */
+  readonly name: string;
+  /** Display name (from the table comment) */
+  readonly displayName?: string | undefined;
+  /** Schema options (tableName, idType, timestamps, softDelete, indexes...) */
+  readonly options?: Readonly<Record<string, unknown>> | undefined;
+  /** Property definitions keyed by property name */
+  readonly properties: Readonly<Record<string, Readonly<Record<string, unknown>>>>;
+}
+
+/**
+ * A schema imported from migrations.
+ */
+export interface ImportedSchema {
+  /** Schema name, e.g. 'Post' */
+  readonly name: string;
+  /** Table the schema was imported from */
+  readonly tableName: string;
+  /** Schema file name, e.g. 'Post.yaml' */
+  readonly fileName: string;
+  /** Schema definition */
+  readonly definition: ImportedSchemaDefinition;
+  /** Schema YAML content */
+  readonly yaml: string;
+}
+
+/**
+ * Result of importing migrations.
+ */
+export interface ImportResult {
+  /** Imported schemas, in table creation order */
+  readonly schemas: readonly ImportedSchema[];
+  /** Statements, columns and constraints that were not imported */
+  readonly issues: readonly ImportIssue[];
+}
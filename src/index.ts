@@ -13,39 +13,89 @@ export {
   type ColumnModifier,
   type ForeignKeyDefinition,
   type IndexDefinition,
+  type IndexType,
   type TableBlueprint,
+  type CheckConstraintDefinition,
+  type TableOptions,
+  type DatabaseDriver,
   type MigrationOperation,
   type MigrationDefinition,
+  type MigrationRisk,
+  type MigrationRiskLevel,
+  type MigrationRiskReason,
+  type SchemaRename,
+  type SimulatedDatabase,
+  type SchemaOperation,
+  type MigrationOperations,
+  type SimulationResult,
+  type MigrationTableStatement,
+  type ExistingTableIndex,
   type PivotFieldInfo,
   type PivotTableInfo,
   type MorphToManyPivotInfo,
+  type MorphToManyNames,
   // Schema builder
   toColumnName,
   toTableName,
   propertyToColumnMethod,
+  propertyToColumnMethods,
   generatePrimaryKeyColumn,
   generateTimestampColumns,
   generateSoftDeleteColumn,
   generateForeignKey,
   schemaToBlueprint,
+  propertyToCheckConstraint,
   formatColumnMethod,
   formatForeignKey,
   formatIndex,
+  formatTableOptions,
+  schemaToTableOptions,
   generatePivotTableName,
   extractManyToManyRelations,
   generatePivotTableBlueprint,
   extractMorphToManyRelations,
   generateMorphToManyPivotBlueprint,
+  getMorphToManyNames,
   // Generator
   generateMigrations,
   generateMigrationFromSchema,
   generateDropMigrationForTable,
+  generateCreateMigrationForTable,
   formatMigrationFile,
   getMigrationPath,
+  // Database drivers
+  DEFAULT_DRIVER,
+  adaptBlueprintForDriver,
+  adaptIndexForDriver,
+  supportedChecks,
+  adaptTableOptionsForDriver,
+  findUnsupportedFeatures,
+  // Constraint naming
+  MAX_IDENTIFIER_LENGTH,
+  toConstraintName,
+  toIndexName,
+  toForeignKeyName,
+  // Migration risk
+  MIGRATION_RISK_LEVELS,
+  getMigrationRisk,
+  findUnacknowledgedDataLoss,
   // ALTER migration generator
   generateAlterMigration,
   generateDropTableMigration,
   generateMigrationsFromChanges,
+  generateRenameTableMigration,
+  detectSchemaRenames,
+  // Migration simulator
+  applyOperations,
+  simulateMigrations,
+  diffDatabases,
+  checkRoundTrip,
+  checkFreshMatchesHistory,
+  assertRoundTrip,
+  assertFreshMatchesHistory,
+  // Existing table detection
+  findTableStatements,
+  buildExistingTableIndex,
 } from './migration/index.js';
 
 // Model generation
@@ -58,6 +108,18 @@ export {
   type ProviderRegistrationResult,
 } from './model/index.js';
 
+// PHP enum generation
+export {
+  generatePhpEnums,
+  getEnumPath,
+  getPropertyEnumClass,
+  getPropertyEnumValues,
+  parseEnumClassValues,
+  toEnumCaseName,
+  type GeneratedEnum,
+  type EnumGeneratorOptions,
+} from './enum/index.js';
+
 // Factory generation
 export {
   generateFactories,
@@ -66,6 +128,40 @@ export {
   type GeneratedFactory,
 } from './factory/index.js';
 
+// TypeScript generation
+export {
+  generateTypeScript,
+  generateTypeScriptFile,
+  generateTypeScriptFiles,
+  getTypeScriptPath,
+  type TypeScriptFile,
+  type TypeScriptOptions,
+} from './typescript/index.js';
+
+// Migration import
+export {
+  importMigrations,
+  readMigrationSources,
+  formatSchemaYaml,
+  type MigrationSource,
+  type ImportIssue,
+  type ImportedSchemaDefinition,
+  type ImportedSchema,
+  type ImportResult,
+} from './importer/index.js';
+
+// Dry-run planning
+export {
+  createUnifiedDiff,
+  planOutput,
+  planGeneratorOutputs,
+  planStagedFiles,
+  formatPlan,
+  type PlannedActionType,
+  type PlannedFileAction,
+  type GeneratorPlan,
+} from './plan/index.js';
+
 // Plugin
 export {
   default as laravelPlugin,
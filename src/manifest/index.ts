@@ -0,0 +1,20 @@
+/**
+ * @famgia/omnify-laravel - Manifest Module
+ *
+ * Generated file manifest exports.
+ */
+
+export type {
+  ManifestEntry,
+  GeneratedManifest,
+  HandEditedFile,
+} from './types.js';
+
+export {
+  readManifest,
+  buildManifest,
+  serializeManifest,
+  findOrphanedFiles,
+  findHandEditedFiles,
+  hashContent,
+} from './manifest.js';
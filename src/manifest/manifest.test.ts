@@ -0,0 +1,139 @@
+/**
+ * @famgia/omnify-laravel - Manifest Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { GeneratorOutput } from '@famgia/omnify-types';
+import {
+  buildManifest,
+  findHandEditedFiles,
+  findOrphanedFiles,
+  hashContent,
+  readManifest,
+  serializeManifest,
+} from './manifest.js';
+
+describe('manifest', () => {
+  let cwd: string | undefined;
+
+  afterEach(() => {
+    if (cwd) {
+      rmSync(cwd, { recursive: true, force: true });
+      cwd = undefined;
+    }
+  });
+
+  describe('buildManifest', () => {
+    it('records non-migration outputs with schema and overwrite flag', () => {
+      const outputs = new Map<string, GeneratorOutput[]>([
+        ['laravel-migrations', [
+          { path: 'database/migrations/create_users_table.php', content: '', type: 'migration' },
+        ]],
+        ['laravel-models', [
+          { path: 'app/Models/User.php', content: '', type: 'model', skipIfExists: true, metadata: { schemaName: 'User' } },
+          { path: 'app/Models/OmnifyBase/BaseModel.php', content: '', type: 'model', skipIfExists: false, metadata: { schemaName: '__base__' } },
+          { path: 'bootstrap/providers.php', content: '', type: 'other', metadata: { registrationType: 'provider-registration' } },
+        ]],
+      ]);
+
+      const manifest = buildManifest(outputs);
+
+      expect(manifest).toEqual({
+        version: 1,
+        files: [
+          {
+            path: 'app/Models/OmnifyBase/BaseModel.php',
+            generator: 'laravel-models',
+            schemaName: undefined,
+            overwrite: true,
+            hash: hashContent(''),
+          },
+          {
+            path: 'app/Models/User.php',
+            generator: 'laravel-models',
+            schemaName: 'User',
+            overwrite: false,
+            hash: undefined,
+          },
+        ],
+      });
+    });
+    it('records the values of the enum schemas', () => {
+      const manifest = buildManifest(new Map(), { Status: ['open', 'closed'] });
+
+      expect(manifest).toEqual({ version: 1, files: [], enumValues: { Status: ['open', 'closed'] } });
+    });
+  });
+
+  describe('readManifest', () => {
+    it('returns null for missing or invalid manifests', () => {
+      cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-manifest-'));
+
+      expect(readManifest(cwd, '.omnify/laravel-manifest.json')).toBeNull();
+
+      mkdirSync(join(cwd, '.omnify'));
+      writeFileSync(join(cwd, '.omnify/laravel-manifest.json'), '{ not json');
+      expect(readManifest(cwd, '.omnify/laravel-manifest.json')).toBeNull();
+    });
+
+    it('reads a serialized manifest', () => {
+      cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-manifest-'));
+      const manifest = {
+        version: 1 as const,
+        files: [{ path: 'a.php', generator: 'laravel-models', schemaName: 'A', overwrite: true }],
+      };
+      writeFileSync(join(cwd, 'manifest.json'), serializeManifest(manifest));
+
+      expect(readManifest(cwd, 'manifest.json')).toEqual(manifest);
+    });
+  });
+
+  describe('findOrphanedFiles', () => {
+    it('returns entries of removed schemas only', () => {
+      const manifest = {
+        version: 1 as const,
+        files: [
+          { path: 'Post.php', generator: 'laravel-models', schemaName: 'Post', overwrite: false },
+          { path: 'PostBaseModel.php', generator: 'laravel-models', schemaName: 'Post', overwrite: true },
+          { path: 'UserBaseModel.php', generator: 'laravel-models', schemaName: 'User', overwrite: true },
+          { path: 'BaseModel.php', generator: 'laravel-models', overwrite: true },
+        ],
+      };
+
+      const orphaned = findOrphanedFiles(manifest, new Set(['Post']));
+
+      expect(orphaned.map(e => e.path)).toEqual(['Post.php', 'PostBaseModel.php']);
+    });
+  });
+
+  describe('findHandEditedFiles', () => {
+    it('detects overwritable files changed on disk since generation', () => {
+      cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-manifest-'));
+      writeFileSync(join(cwd, 'Edited.php'), 'edited');
+      writeFileSync(join(cwd, 'Clean.php'), 'generated');
+      writeFileSync(join(cwd, 'User.php'), 'custom');
+
+      const manifest = {
+        version: 1 as const,
+        files: [
+          { path: 'Edited.php', generator: 'laravel-models', overwrite: true, hash: hashContent('generated') },
+          { path: 'Clean.php', generator: 'laravel-models', overwrite: true, hash: hashContent('generated') },
+          { path: 'User.php', generator: 'laravel-models', overwrite: false },
+        ],
+      };
+      const outputs: GeneratorOutput[] = [
+        { path: 'Edited.php', content: 'regenerated', type: 'model' },
+        { path: 'Clean.php', content: 'regenerated', type: 'model' },
+        { path: 'User.php', content: 'generated', type: 'model', skipIfExists: true },
+        { path: 'New.php', content: 'new', type: 'model' },
+      ];
+
+      expect(findHandEditedFiles(manifest, outputs, cwd)).toEqual([
+        { path: 'Edited.php', content: 'edited' },
+      ]);
+    });
+  });
+});
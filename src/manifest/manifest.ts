@@ -0,0 +1,121 @@
+/**
+ * @famgia/omnify-laravel - Generated File Manifest
+ *
+ * Reads and builds the manifest of generated files, finds
+ * files orphaned by removed schemas and detects hand-edited base files.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { GeneratorOutput } from '@famgia/omnify-types';
+import type { GeneratedManifest, HandEditedFile, ManifestEntry } from './types.js';
+
+/**
+ * Computes the content hash stored in the manifest.
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Reads the manifest from disk.
+ * Returns null if it does not exist or cannot be parsed.
+ */
+export function readManifest(cwd: string, manifestPath: string): GeneratedManifest | null {
+  const absolutePath = join(cwd, manifestPath);
+  if (!existsSync(absolutePath)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(absolutePath, 'utf-8')) as Partial<GeneratedManifest>;
+    if (parsed.version !== 1 || !Array.isArray(parsed.files)) {
+      return null;
+    }
+    return parsed as GeneratedManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds a manifest from generator outputs, keyed by generator name, and the enum schema values.
+ * Migrations and provider registrations are not tracked: migrations are never
+ * cleaned up, and the provider file belongs to the application.
+ */
+export function buildManifest(
+  outputsByGenerator: ReadonlyMap<string, readonly GeneratorOutput[]>,
+  enumValues: Readonly<Record<string, readonly string[]>> = {}
+): GeneratedManifest {
+  const files: ManifestEntry[] = [];
+
+  for (const [generator, outputs] of outputsByGenerator) {
+    for (const output of outputs) {
+      if (output.type === 'migration' || output.metadata?.registrationType === 'provider-registration') {
+        continue;
+      }
+      const schemaName = output.metadata?.schemaName as string | undefined;
+      const overwrite = !output.skipIfExists;
+      files.push({
+        path: output.path,
+        generator,
+        // Shared files use placeholder names like '__base__'
+        schemaName: schemaName && !schemaName.startsWith('__') ? schemaName : undefined,
+        overwrite,
+        hash: overwrite ? hashContent(output.content) : undefined,
+      });
+    }
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  return Object.keys(enumValues).length > 0 ? { version: 1, files, enumValues } : { version: 1, files };
+}
+
+/**
+ * Serializes a manifest for writing.
+ */
+export function serializeManifest(manifest: GeneratedManifest): string {
+  return JSON.stringify(manifest, null, 2) + '\n';
+}
+
+/**
+ * Finds manifest entries that belong to removed schemas.
+ */
+export function findOrphanedFiles(
+  manifest: GeneratedManifest,
+  removedSchemaNames: ReadonlySet<string>
+): ManifestEntry[] {
+  return manifest.files.filter(
+    entry => entry.schemaName !== undefined && removedSchemaNames.has(entry.schemaName)
+  );
+}
+
+/**
+ * Finds overwritable outputs whose file on disk was edited since it was generated.
+ * Files without a recorded hash, or already matching the new content, are ignored.
+ */
+export function findHandEditedFiles(
+  manifest: GeneratedManifest,
+  outputs: readonly GeneratorOutput[],
+  cwd: string
+): HandEditedFile[] {
+  const hashes = new Map(manifest.files.map(entry => [entry.path, entry.hash]));
+  const edited: HandEditedFile[] = [];
+
+  for (const output of outputs) {
+    const recordedHash = hashes.get(output.path);
+    const absolutePath = join(cwd, output.path);
+    if (output.skipIfExists || !recordedHash || !existsSync(absolutePath)) {
+      continue;
+    }
+
+    const content = readFileSync(absolutePath, 'utf-8');
+    if (content !== output.content && hashContent(content) !== recordedHash) {
+      edited.push({ path: output.path, content });
+    }
+  }
+
+  return edited;
+}
@@ -0,0 +1,45 @@
+/**
+ * @famgia/omnify-laravel - Manifest Types
+ *
+ * Record of files generated by the plugin, used to clean up
+ * files left behind by removed or renamed schemas and to detect
+ * hand edits to base files.
+ */
+
+/**
+ * A single generated file.
+ */
+export interface ManifestEntry {
+  /** File path relative to project root */
+  readonly path: string;
+  /** Generator that produced the file */
+  readonly generator: string;
+  /** Schema the file belongs to (absent for shared files like BaseModel) */
+  readonly schemaName?: string | undefined;
+  /** Whether the file is regenerated on every run (false = user-editable) */
+  readonly overwrite: boolean;
+  /** SHA-256 of the generated content (overwritable files only) */
+  readonly hash?: string | undefined;
+}
+
+/**
+ * Overwritable file whose content on disk no longer matches the manifest.
+ */
+export interface HandEditedFile {
+  /** File path relative to project root */
+  readonly path: string;
+  /** Content currently on disk */
+  readonly content: string;
+}
+
+/**
+ * Manifest of generated files written after each run.
+ */
+export interface GeneratedManifest {
+  /** Manifest format version */
+  readonly version: 1;
+  /** Generated files */
+  readonly files: readonly ManifestEntry[];
+  /** Values of the enum schemas, by schema name (previous values of the next run's enum changes) */
+  readonly enumValues?: Readonly<Record<string, readonly string[]>> | undefined;
+}
@@ -4,11 +4,24 @@
 
 import { describe, it, expect } from 'vitest';
 import type { SchemaChange, PropertySnapshot, IndexSnapshot } from '@famgia/omnify-atlas';
+import type { CustomTypeDefinition, LoadedSchema, PropertyDefinition, SchemaCollection } from '@famgia/omnify-types';
 import {
+  detectSchemaRenames,
   generateAlterMigration,
   generateDropTableMigration,
   generateMigrationsFromChanges,
 } from './alter-generator.js';
+import {
+  formatColumnMethod,
+  formatForeignKey,
+  formatIndex,
+  generateForeignKey,
+  propertyToColumnMethod,
+} from './schema-builder.js';
+import { generateMigrationFromSchema, generateMigrations } from './generator.js';
+import { checkFreshMatchesHistory, checkRoundTrip, simulateMigrations } from './simulator.js';
+import { toForeignKeyName, toIndexName } from './naming.js';
+import type { MigrationOptions, TableSchemaChange } from './types.js';
 
 describe('generateAlterMigration', () => {
   describe('column additions', () => {
@@ -32,7 +45,7 @@ describe('generateAlterMigration', () => {
       expect(result).not.toBeNull();
       expect(result!.fileName).toBe('2024_01_01_120000_update_users_table.php');
       expect(result!.content).toContain("Schema::table('users'");
-      expect(result!.content).toContain("$table->string('email')->unique();");
+      expect(result!.content).toContain("$table->string('email')->nullable()->unique();");
       expect(result!.content).toContain("$table->dropColumn('email');"); // down method
     });
 
@@ -136,6 +149,70 @@ describe('generateAlterMigration', () => {
     });
   });
 
+  describe('required column additions', () => {
+    const upSection = (content: string) =>
+      content.substring(content.indexOf('public function up'), content.indexOf('public function down'));
+
+    it('adds required columns as nullable, backfills them, then makes them NOT NULL', () => {
+      const change: SchemaChange = {
+        schemaName: 'User',
+        changeType: 'modified',
+        columnChanges: [
+          { column: 'code', changeType: 'added', currentDef: { type: 'String', unique: true, migrationDefault: 'N/A' } as PropertySnapshot },
+        ],
+      };
+
+      const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' })!;
+      const up = upSection(result.content);
+
+      expect(result.content).toContain('use Illuminate\\Support\\Facades\\DB;');
+      expect(up).toContain("$table->string('code')->nullable()->unique();");
+      expect(up).toContain("DB::table('users')->whereNull('code')->update(['code' => 'N/A']);");
+      // The unique index already exists: only the column is changed
+      expect(up).toContain("$table->string('code')->nullable(false)->change();");
+      expect(up.indexOf('->update(')).toBeLessThan(up.indexOf('->nullable(false)->change()'));
+      expect(result.content.substring(result.content.indexOf('public function down'))).toContain("$table->dropColumn('code');");
+      expect(result.warnings).toEqual([
+        'users.code is required: added as nullable, backfilled with its migrationDefault, then made NOT NULL; review the migration before running it',
+      ]);
+    });
+
+    it('uses a failing placeholder when the schema has no migrationDefault', () => {
+      const change: SchemaChange = {
+        schemaName: 'Post',
+        changeType: 'modified',
+        columnChanges: [
+          { column: 'author', changeType: 'added', currentDef: { type: 'Association', relation: 'ManyToOne', target: 'User' } },
+        ],
+      };
+
+      const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' })!;
+      const up = upSection(result.content);
+
+      expect(up).toContain("if (DB::table('posts')->whereNull('author_id')->exists()) {");
+      expect(up).toContain("throw new \\RuntimeException('Set the value of posts.author_id for existing rows');");
+      expect(up).toContain("$table->unsignedBigInteger('author_id')->nullable(false)->change();");
+      expect(result.warnings?.[0]).toContain('backfilled by a placeholder that fails while existing rows lack a value');
+    });
+
+    it('adds nullable columns and columns with a default directly', () => {
+      const change: SchemaChange = {
+        schemaName: 'User',
+        changeType: 'modified',
+        columnChanges: [
+          { column: 'nickname', changeType: 'added', currentDef: { type: 'String', nullable: true } },
+          { column: 'status', changeType: 'added', currentDef: { type: 'String', default: 'active' } },
+        ],
+      };
+
+      const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' })!;
+
+      expect(result.content).not.toContain('DB::');
+      expect(result.content).not.toContain('->change()');
+      expect(result.warnings).toBeUndefined();
+    });
+  });
+
   describe('index changes', () => {
     it('generates migration for added index', () => {
       const change: SchemaChange = {
@@ -151,7 +228,7 @@ describe('generateAlterMigration', () => {
 
       const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-      expect(result!.content).toContain("$table->unique('sku');");
+      expect(result!.content).toContain("$table->unique('sku', 'products_sku_unique');");
       expect(result!.content).toContain("$table->dropUnique('products_sku_unique');");
     });
 
@@ -169,7 +246,7 @@ describe('generateAlterMigration', () => {
 
       const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-      expect(result!.content).toContain("$table->index(['user_id', 'status']);");
+      expect(result!.content).toContain("$table->index(['user_id', 'status'], 'orders_user_id_status_index');");
     });
 
     it('generates migration for removed index', () => {
@@ -187,7 +264,65 @@ describe('generateAlterMigration', () => {
       const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
       expect(result!.content).toContain("$table->dropIndex('products_sku_index');");
-      expect(result!.content).toContain("$table->index('sku');");
+      expect(result!.content).toContain("$table->index('sku', 'products_sku_index');");
+    });
+
+    it('adds and drops fulltext indexes', () => {
+      const change: SchemaChange = {
+        schemaName: 'Post',
+        changeType: 'modified',
+        indexChanges: [
+          {
+            changeType: 'added',
+            index: { columns: ['title', 'body'], unique: false, type: 'fulltext' } as IndexSnapshot,
+          },
+        ],
+      };
+
+      const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
+
+      expect(result!.content).toContain("$table->fullText(['title', 'body'], 'posts_title_body_fulltext');");
+      expect(result!.content).toContain("$table->dropFullText('posts_title_body_fulltext');");
+    });
+
+    it('creates partial indexes after the Schema::table closure on pgsql', () => {
+      const change: SchemaChange = {
+        schemaName: 'User',
+        changeType: 'modified',
+        indexChanges: [
+          {
+            changeType: 'added',
+            index: { columns: ['email'], unique: true, where: 'deleted_at IS NULL' } as IndexSnapshot,
+          },
+        ],
+      };
+
+      const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000', driver: 'pgsql' });
+
+      expect(result!.content).toContain(
+        'DB::statement("CREATE UNIQUE INDEX users_email_unique ON users (email) WHERE deleted_at IS NULL");'
+      );
+      expect(result!.content).toContain("$table->dropIndex('users_email_unique');");
+      expect(result!.warnings).toBeUndefined();
+    });
+
+    it('falls back to a full unique index on mysql with a warning', () => {
+      const change: SchemaChange = {
+        schemaName: 'User',
+        changeType: 'modified',
+        indexChanges: [
+          {
+            changeType: 'added',
+            index: { columns: ['email'], unique: true, where: 'deleted_at IS NULL' } as IndexSnapshot,
+          },
+        ],
+      };
+
+      const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
+
+      expect(result!.content).toContain("$table->unique('email', 'users_email_unique');");
+      expect(result!.content).not.toContain('WHERE');
+      expect(result!.warnings?.[0]).toContain('mysql does not support partial indexes (users_email_unique)');
     });
   });
 
@@ -475,9 +610,9 @@ describe('generateAlterMigration', () => {
 
       const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-      expect(result!.content).toContain("$table->string('email');");
+      expect(result!.content).toContain("$table->string('email')->nullable();");
       expect(result!.content).toContain("$table->dropColumn('phone');");
-      expect(result!.content).toContain("$table->unique('email');");
+      expect(result!.content).toContain("$table->unique('email', 'users_email_unique');");
       expect(result!.content).toContain('$table->timestamps();');
     });
   });
@@ -525,7 +660,7 @@ describe('generateAlterMigration', () => {
       const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
       expect(result!.fileName).toContain('user_profiles');
-      expect(result!.content).toContain("$table->string('first_name');");
+      expect(result!.content).toContain("$table->string('first_name')->nullable();");
     });
 
     it('includes connection option when specified', () => {
@@ -576,6 +711,180 @@ describe('generateDropTableMigration', () => {
 
     expect(result.content).toContain("protected $connection = 'mysql';");
   });
+
+  describe('reversible down()', () => {
+    const allSchemas: SchemaCollection = {
+      User: {
+        name: 'User',
+        kind: 'object',
+        filePath: '/test/user.yaml',
+        relativePath: '/test/user.yaml',
+        properties: { name: { type: 'String' } },
+      },
+      Tag: {
+        name: 'Tag',
+        kind: 'object',
+        filePath: '/test/tag.yaml',
+        relativePath: '/test/tag.yaml',
+        properties: { name: { type: 'String' } },
+      },
+    };
+
+    const previousPost: LoadedSchema = {
+      name: 'Post',
+      kind: 'object',
+      filePath: '/test/post.yaml',
+      relativePath: '/test/post.yaml',
+      options: { softDelete: true, indexes: [{ columns: ['title'], unique: false }] },
+      properties: {
+        title: { type: 'String', length: 200 },
+        author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+        tags: { type: 'Association', relation: 'ManyToMany', target: 'Tag', owning: true },
+      } as LoadedSchema['properties'],
+    };
+
+    const downSection = (content: string) => content.substring(content.indexOf('public function down'));
+
+    it('recreates the table with FKs and indexes in down()', () => {
+      const result = generateDropTableMigration('Post', { timestamp: '2024_01_01_120000' }, previousPost, allSchemas);
+      const expected = generateMigrationFromSchema(previousPost, allSchemas).content;
+      const expectedCreate = expected.substring(
+        expected.indexOf("        Schema::create('posts'"),
+        expected.indexOf('        });') + '        });'.length
+      );
+
+      expect(downSection(result.content)).toContain(expectedCreate);
+      expect(downSection(result.content)).toContain("$table->string('title', 200);");
+      expect(downSection(result.content)).toContain("$table->foreign('author_id', 'posts_author_id_foreign')->references('id')->on('users')");
+      expect(downSection(result.content)).toContain("$table->index('title', 'posts_title_index');");
+      expect(downSection(result.content)).toContain('$table->timestamp(\'deleted_at\')->nullable();');
+    });
+
+    it('drops and recreates ManyToMany pivot tables', () => {
+      const result = generateDropTableMigration('Post', { timestamp: '2024_01_01_120000' }, previousPost, allSchemas);
+      const upSection = result.content.substring(result.content.indexOf('public function up'), result.content.indexOf('public function down'));
+
+      // Pivot tables are dropped before the table they reference
+      expect(upSection.indexOf("Schema::dropIfExists('post_tag');")).toBeGreaterThan(-1);
+      expect(upSection.indexOf("Schema::dropIfExists('post_tag');"))
+        .toBeLessThan(upSection.indexOf("Schema::dropIfExists('posts');"));
+      expect(downSection(result.content)).toContain("Schema::create('post_tag'");
+      expect(result.tables).toEqual(['posts', 'post_tag']);
+    });
+
+    describe('MorphToMany pivot tables', () => {
+      const previousPostWithMorph: LoadedSchema = {
+        ...previousPost,
+        properties: {
+          ...previousPost.properties,
+          labels: { type: 'Association', relation: 'MorphToMany', target: 'Tag' },
+        } as LoadedSchema['properties'],
+      };
+
+      it('drops, recreates and archives MorphToMany pivot tables', () => {
+        const result = generateDropTableMigration('Post', { timestamp: '2024_01_01_120000' }, previousPostWithMorph, allSchemas);
+        const upSection = result.content.substring(result.content.indexOf('public function up'), result.content.indexOf('public function down'));
+
+        expect(upSection.indexOf("Schema::dropIfExists('tagables');"))
+          .toBeLessThan(upSection.indexOf("Schema::dropIfExists('posts');"));
+        expect(downSection(result.content)).toContain("Schema::create('tagables'");
+        expect(downSection(result.content)).toContain("$table->enum('labelable_type', ['Post']);");
+        expect(result.tables).toEqual(['posts', 'post_tag', 'tagables']);
+
+        const archived = generateDropTableMigration('Post', {
+          timestamp: '2024_01_01_120000',
+          archiveDroppedTables: true,
+        }, previousPostWithMorph, allSchemas);
+        expect(archived.content).toContain("Schema::rename('tagables', 'tagables_archived_20240101120000');");
+      });
+
+      it('keeps MorphToMany pivot tables shared with remaining schemas', () => {
+        const withVideo: SchemaCollection = {
+          ...allSchemas,
+          Video: {
+            name: 'Video',
+            kind: 'object',
+            filePath: '/test/video.yaml',
+            relativePath: '/test/video.yaml',
+            properties: {
+              labels: { type: 'Association', relation: 'MorphToMany', target: 'Tag' },
+            } as LoadedSchema['properties'],
+          },
+        };
+
+        const result = generateDropTableMigration('Post', { timestamp: '2024_01_01_120000' }, previousPostWithMorph, withVideo);
+
+        expect(result.content).not.toContain('tagables');
+        expect(result.tables).toEqual(['posts', 'post_tag']);
+      });
+
+      it('keeps MorphToMany pivot tables used by the MorphedByMany side of remaining schemas', () => {
+        const withInverse: SchemaCollection = {
+          ...allSchemas,
+          Tag: {
+            ...allSchemas.Tag!,
+            properties: {
+              ...allSchemas.Tag!.properties,
+              videos: { type: 'Association', relation: 'MorphedByMany', target: 'Video' },
+            } as LoadedSchema['properties'],
+          },
+          Video: {
+            name: 'Video',
+            kind: 'object',
+            filePath: '/test/video.yaml',
+            relativePath: '/test/video.yaml',
+            properties: { title: { type: 'String' } },
+          },
+        };
+
+        const result = generateDropTableMigration('Post', { timestamp: '2024_01_01_120000' }, previousPostWithMorph, withInverse);
+
+        expect(result.content).not.toContain('tagables');
+        expect(result.tables).toEqual(['posts', 'post_tag']);
+      });
+    });
+
+    it('rebuilds the previous schema from a removed SchemaChange', () => {
+      const changes: SchemaChange[] = [{
+        schemaName: 'Post',
+        changeType: 'removed',
+        columnChanges: [
+          { column: 'title', changeType: 'removed', previousDef: { type: 'String', length: 200 } },
+          { column: 'body', changeType: 'removed', previousDef: { type: 'Text', nullable: true } },
+        ],
+      }];
+
+      const [migration] = generateMigrationsFromChanges(changes, { timestamp: '2024_01_01_120000' }, allSchemas);
+      const down = downSection(migration!.content);
+
+      expect(down).toContain("Schema::create('posts', function (Blueprint $table) {");
+      expect(down).toContain('$table->id();');
+      expect(down).toContain("$table->string('title', 200);");
+      expect(down).toContain("$table->text('body')->nullable();");
+      expect(down).not.toContain('Cannot recreate table');
+    });
+
+    it('keeps the one-way note when no previous definition is available', () => {
+      const result = generateDropTableMigration('Post', { timestamp: '2024_01_01_120000' });
+
+      expect(downSection(result.content)).toContain('Cannot recreate table without full schema');
+    });
+  });
+
+  describe('archiveDroppedTables', () => {
+    it('renames the table instead of dropping it', () => {
+      const result = generateDropTableMigration('User', {
+        timestamp: '2024_01_01_120000',
+        archiveDroppedTables: true,
+      });
+
+      expect(result.fileName).toBe('2024_01_01_120000_archive_users_table.php');
+      expect(result.className).toBe('ArchiveUserTable');
+      expect(result.content).not.toContain('dropIfExists');
+      expect(result.content).toContain("Schema::rename('users', 'users_archived_20240101120000');");
+      expect(result.content).toContain("Schema::rename('users_archived_20240101120000', 'users');");
+    });
+  });
 });
 
 describe('generateMigrationsFromChanges', () => {
@@ -640,6 +949,10 @@ describe('generateMigrationsFromChanges', () => {
 
     expect(result[0].fileName).toBe('2024_01_01_120000_update_users_table.php');
     expect(result[1].fileName).toBe('2024_01_01_120001_update_posts_table.php'); // seconds incremented
+
+    // Seconds carry into minutes, hours and days
+    const lastSecond = generateMigrationsFromChanges(changes, { timestamp: '2024_01_01_235959' });
+    expect(lastSecond[1].fileName).toBe('2024_01_02_000000_update_posts_table.php');
   });
 
   it('handles mixed change types', () => {
@@ -746,9 +1059,128 @@ describe('type mappings', () => {
   it('maps Json to json', () => testTypeMapping('Json', 'json'));
   it('maps Email to string', () => testTypeMapping('Email', 'string'));
   it('maps Password to string', () => testTypeMapping('Password', 'string'));
-  it('maps File to string', () => testTypeMapping('File', 'string'));
-  it('maps MultiFile to json', () => testTypeMapping('MultiFile', 'json'));
-  it('maps Lookup to unsignedBigInteger', () => testTypeMapping('Lookup', 'unsignedBigInteger'));
+  it('maps EnumRef to string(50)', () => {
+    const change: SchemaChange = {
+      schemaName: 'Test',
+      changeType: 'modified',
+      columnChanges: [
+        { column: 'status', changeType: 'added', currentDef: { type: 'EnumRef' } },
+      ],
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
+    expect(result!.content).toContain("$table->string('status', 50)->nullable();");
+  });
+  it('falls back to string for unknown types like CREATE migrations', () => {
+    testTypeMapping('MultiFile', 'string');
+    testTypeMapping('Lookup', 'string');
+  });
+
+  it('skips File (stored in the polymorphic files table, not a column)', () => {
+    const change: SchemaChange = {
+      schemaName: 'Test',
+      changeType: 'modified',
+      columnChanges: [
+        { column: 'avatar', changeType: 'added', currentDef: { type: 'File' } },
+      ],
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
+    expect(result!.content).not.toContain("'avatar'");
+  });
+});
+
+describe('parity with CREATE migrations', () => {
+  const addColumn = (currentDef: PropertySnapshot, options: MigrationOptions = {}) => {
+    const change: SchemaChange = {
+      schemaName: 'Test',
+      changeType: 'modified',
+      columnChanges: [{ column: 'field', changeType: 'added', currentDef }],
+    };
+    return generateAlterMigration(change, { timestamp: '2024_01_01_120000', ...options })!.content;
+  };
+
+  it('renders the same column as propertyToColumnMethod', () => {
+    const defs = [
+      { type: 'String', length: 100, nullable: true },
+      { type: 'Enum', enum: ['a', 'b'], default: 'a' },
+      { type: 'Int', unsigned: true },
+      { type: 'Timestamp', useCurrent: true, useCurrentOnUpdate: true },
+      { type: 'String', displayName: 'Field name' },
+      { type: 'EnumRef', enum: 'Status' },
+    ];
+
+    for (const def of defs) {
+      // Required columns are added as nullable first (see 'required column additions')
+      const added = 'nullable' in def || 'default' in def || 'useCurrent' in def ? def : { ...def, nullable: true };
+      const expected = formatColumnMethod(
+        propertyToColumnMethod('field', added as unknown as PropertyDefinition)!
+      );
+      expect(addColumn(def as unknown as PropertySnapshot)).toContain(expected);
+    }
+  });
+
+  it('keeps string length, unsigned, useCurrent and comment', () => {
+    expect(addColumn({ type: 'String', length: 100 } as PropertySnapshot))
+      .toContain("$table->string('field', 100)->nullable();");
+    expect(addColumn({ type: 'Int', unsigned: true } as PropertySnapshot))
+      .toContain("$table->integer('field')->nullable()->unsigned();");
+    expect(addColumn({ type: 'Timestamp', useCurrent: true } as PropertySnapshot))
+      .toContain("$table->timestamp('field')->useCurrent();");
+    expect(addColumn({ type: 'String', displayName: 'Field name' } as PropertySnapshot))
+      .toContain("$table->string('field')->nullable()->comment('Field name');");
+  });
+
+  describe('compound types', () => {
+    const customTypes = new Map<string, CustomTypeDefinition>([
+      ['JapaneseName', {
+        compound: true,
+        expand: [
+          { suffix: 'Lastname', sql: { sqlType: 'VARCHAR', length: 50 } },
+          { suffix: 'Firstname', sql: { sqlType: 'VARCHAR', length: 50 } },
+        ],
+      } as unknown as CustomTypeDefinition],
+      ['JapaneseNameKana', {
+        compound: true,
+        expand: [
+          { suffix: 'Lastname', sql: { sqlType: 'VARCHAR', length: 50 } },
+          { suffix: 'Firstname', sql: { sqlType: 'VARCHAR', length: 50 } },
+          { suffix: 'Kana', sql: { sqlType: 'VARCHAR', length: 100, nullable: true } },
+        ],
+      } as unknown as CustomTypeDefinition],
+    ]);
+
+    it('expands added compound properties into all columns', () => {
+      const content = addColumn({ type: 'JapaneseName' } as PropertySnapshot, { customTypes });
+
+      expect(content).toContain("$table->string('field_lastname', 50)->nullable();");
+      expect(content).toContain("$table->string('field_firstname', 50)->nullable();");
+      const downSection = content.substring(content.indexOf('public function down'));
+      expect(downSection).toContain("$table->dropColumn('field_lastname');");
+      expect(downSection).toContain("$table->dropColumn('field_firstname');");
+    });
+
+    it('adds and drops expanded columns when the compound type changes', () => {
+      const change: SchemaChange = {
+        schemaName: 'User',
+        changeType: 'modified',
+        columnChanges: [{
+          column: 'name',
+          changeType: 'modified',
+          previousDef: { type: 'JapaneseName' },
+          currentDef: { type: 'JapaneseNameKana' },
+        }],
+      };
+
+      const content = generateAlterMigration(change, { timestamp: '2024_01_01_120000', customTypes })!.content;
+      const upSection = content.substring(content.indexOf('public function up'), content.indexOf('public function down'));
+      const downSection = content.substring(content.indexOf('public function down'));
+
+      expect(upSection).toContain("$table->string('name_lastname', 50)->change();");
+      expect(upSection).toContain("$table->string('name_kana', 100)->nullable();");
+      expect(downSection).toContain("$table->dropColumn('name_kana');");
+    });
+  });
 });
 
 describe('Association field support (FK columns)', () => {
@@ -771,8 +1203,9 @@ describe('Association field support (FK columns)', () => {
 
     const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-    expect(result!.content).toContain("$table->unsignedBigInteger('category_id');");
-    expect(result!.content).toContain("$table->foreign('category_id')->references('id')->on('categories');");
+    expect(result!.content).toContain("$table->unsignedBigInteger('category_id')->nullable();");
+    expect(result!.content).toContain("$table->foreign('category_id', 'posts_category_id_foreign')->references('id')->on('categories')->onDelete('restrict')->onUpdate('cascade');");
+    expect(result!.content).toContain("$table->index('category_id', 'posts_category_id_index');");
   });
 
   it('generates nullable FK column for nullable association', () => {
@@ -819,7 +1252,7 @@ describe('Association field support (FK columns)', () => {
 
     const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-    expect(result!.content).toContain("$table->foreign('post_id')->references('id')->on('posts')->onDelete('CASCADE')->onUpdate('CASCADE');");
+    expect(result!.content).toContain("$table->foreign('post_id', 'comments_post_id_foreign')->references('id')->on('posts')->onDelete('CASCADE')->onUpdate('CASCADE');");
   });
 
   it('drops FK constraint before dropping column for removed association', () => {
@@ -842,7 +1275,7 @@ describe('Association field support (FK columns)', () => {
     const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
     // upメソッドでFKを先にdropしてからcolumnをdrop
-    expect(result!.content).toContain("$table->dropForeign(['category_id']);");
+    expect(result!.content).toContain("$table->dropForeign('posts_category_id_foreign');");
     expect(result!.content).toContain("$table->dropColumn('category_id');");
 
     // 順序確認: dropForeignがdropColumnの前
@@ -873,7 +1306,7 @@ describe('Association field support (FK columns)', () => {
     // downメソッドでもdropForeignとdropColumnが生成される
     const content = result!.content;
     const downSection = content.substring(content.indexOf('public function down'));
-    expect(downSection).toContain("$table->dropForeign(['category_id']);");
+    expect(downSection).toContain("$table->dropForeign('posts_category_id_foreign');");
     expect(downSection).toContain("$table->dropColumn('category_id');");
   });
 
@@ -896,8 +1329,8 @@ describe('Association field support (FK columns)', () => {
 
     const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-    expect(result!.content).toContain("$table->unsignedBigInteger('profile_id');");
-    expect(result!.content).toContain("$table->foreign('profile_id')->references('id')->on('user_profiles');");
+    expect(result!.content).toContain("$table->unsignedBigInteger('profile_id')->nullable();");
+    expect(result!.content).toContain("$table->foreign('profile_id', 'users_profile_id_foreign')->references('id')->on('user_profiles')->onDelete('restrict')->onUpdate('cascade');");
   });
 
   it('does not create FK column for inverse side (mappedBy)', () => {
@@ -942,7 +1375,7 @@ describe('Decimal type support', () => {
 
     const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-    expect(result!.content).toContain("$table->decimal('price', 8, 2);");
+    expect(result!.content).toContain("$table->decimal('price', 8, 2)->nullable();");
   });
 
   it('generates Decimal column with custom precision/scale', () => {
@@ -960,7 +1393,7 @@ describe('Decimal type support', () => {
 
     const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-    expect(result!.content).toContain("$table->decimal('weight', 10, 4);");
+    expect(result!.content).toContain("$table->decimal('weight', 10, 4)->nullable();");
   });
 
   it('generates Decimal column with nullable and default', () => {
@@ -1065,8 +1498,8 @@ describe('Enum type support', () => {
 
     const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-    // enumメソッドが呼ばれることを確認
-    expect(result!.content).toContain("$table->enum('status')");
+    // enumメソッドが値リスト付きで呼ばれることを確認
+    expect(result!.content).toContain("$table->enum('status', ['draft', 'published', 'archived'])->nullable();");
   });
 
   it('generates nullable enum with default value', () => {
@@ -1115,8 +1548,948 @@ describe('Enum type support', () => {
     expect(result!.content).toContain("$table->dropColumn('status')");
     // downで復元
     const downSection = result!.content.substring(result!.content.indexOf('public function down'));
-    expect(downSection).toContain("$table->enum('status')");
-    expect(downSection).toContain("->default('draft')");
+    expect(downSection).toContain("$table->enum('status', ['draft', 'published'])->default('draft');");
+  });
+
+  describe('value changes', () => {
+    const change = (enumRemap?: Record<string, string>): SchemaChange => ({
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [{
+        column: 'status',
+        changeType: 'modified',
+        previousDef: { type: 'Enum', enum: ['draft', 'published', 'archived'] },
+        currentDef: { type: 'Enum', enum: ['draft', 'published', 'hidden'], enumRemap } as PropertySnapshot,
+      }],
+    });
+
+    it('widens native enums, remaps removed values and then changes the value list', () => {
+      const result = generateAlterMigration(change({ archived: 'hidden' }), { timestamp: '2024_01_01_120000' })!;
+      const down = result.content.substring(result.content.indexOf('public function down'));
+
+      expect(result.content).toContain(`        Schema::table('posts', function (Blueprint $table) {
+            $table->enum('status', ['draft', 'published', 'archived', 'hidden'])->change();
+        });
+        DB::table('posts')->where('status', 'archived')->update(['status' => 'hidden']);
+        Schema::table('posts', function (Blueprint $table) {
+            $table->enum('status', ['draft', 'published', 'hidden'])->change();
+        });`);
+      expect(down).toContain("$table->enum('status', ['draft', 'published', 'hidden', 'archived'])->change();");
+      expect(down).toContain("// DB::table('posts')->where('status', 'hidden')->update(['status' => ...]);");
+      expect(result.warnings).toEqual([
+        "posts.status no longer allows 'archived'; existing rows are remapped with enumRemap",
+      ]);
+    });
+
+    it('leaves a TODO remap step without enumRemap', () => {
+      const result = generateAlterMigration(change(), { timestamp: '2024_01_01_120000' })!;
+
+      expect(result.content).toContain(`        // TODO: Remap posts.status rows holding removed values (or set enumRemap)
+        // DB::table('posts')->where('status', 'archived')->update(['status' => ...]);`);
+      expect(result.warnings).toEqual([
+        "posts.status no longer allows 'archived'; remap the rows holding 'archived' in the TODO step before running the migration",
+      ]);
+    });
+
+    it('remaps between dropping and adding the enum CHECK on pgsql', () => {
+      const result = generateAlterMigration(change({ archived: 'hidden' }), { timestamp: '2024_01_01_120000', driver: 'pgsql' })!;
+      const up = result.content.substring(result.content.indexOf('public function up'), result.content.indexOf('public function down'));
+      const remap = up.indexOf("DB::table('posts')->where('status', 'archived')");
+
+      expect(remap).toBeGreaterThan(up.indexOf('DROP CONSTRAINT posts_status_check'));
+      expect(remap).toBeLessThan(up.indexOf('ADD CONSTRAINT posts_status_check'));
+      expect(up).not.toContain("'archived', 'hidden'");
+    });
+
+    it('only changes the value list when values are added', () => {
+      const result = generateAlterMigration({
+        schemaName: 'Post',
+        changeType: 'modified',
+        columnChanges: [{
+          column: 'status',
+          changeType: 'modified',
+          previousDef: { type: 'Enum', enum: ['draft'] },
+          currentDef: { type: 'Enum', enum: ['draft', 'published'] },
+        }],
+      }, { timestamp: '2024_01_01_120000' })!;
+      const up = result.content.substring(result.content.indexOf('public function up'), result.content.indexOf('public function down'));
+
+      expect(up).toContain("$table->enum('status', ['draft', 'published'])->change();");
+      expect(up).not.toContain('DB::table');
+      expect(result.warnings).toBeUndefined();
+    });
+  });
+
+  describe('enum schema value changes', () => {
+    const longValue = 'awaiting_customer_confirmation_of_the_revised_delivery_date';
+    const schemas: SchemaCollection = {
+      Status: {
+        name: 'Status',
+        kind: 'enum',
+        filePath: '/test/status.yaml',
+        relativePath: '/test/status.yaml',
+        values: ['open', longValue],
+      } as LoadedSchema,
+      Order: {
+        name: 'Order',
+        kind: 'object',
+        filePath: '/test/order.yaml',
+        relativePath: '/test/order.yaml',
+        properties: { status: { type: 'EnumRef', enum: 'Status' } },
+      } as LoadedSchema,
+    };
+    const change: SchemaChange = { schemaName: 'Status', changeType: 'modified' };
+    const previousEnumValues = new Map([['Status', ['open', 'closed']]]);
+
+    it('widens EnumRef columns to the longest value and rewrites their checks', () => {
+      const [migration] = generateMigrationsFromChanges([change], {
+        timestamp: '2024_01_01_120000',
+        checkConstraints: true,
+        previousEnumValues,
+      }, schemas);
+      const up = migration!.content.substring(migration!.content.indexOf('public function up'), migration!.content.indexOf('public function down'));
+      const down = migration!.content.substring(migration!.content.indexOf('public function down'));
+      const remap = up.indexOf("// DB::table('orders')->where('status', 'closed')");
+
+      expect(migration).toMatchObject({
+        fileName: '2024_01_01_120000_update_status_enum_columns.php',
+        className: 'UpdateStatusEnumColumns',
+        tables: ['orders'],
+        type: 'alter',
+      });
+      expect(up).toContain(`$table->string('status', ${longValue.length})->change();`);
+      expect(up).toContain(`CHECK (status IN ('open', '${longValue}'))`);
+      // Rows are remapped once the column fits the new values, before the new CHECK
+      expect(remap).toBeGreaterThan(up.indexOf('->change();'));
+      expect(remap).toBeLessThan(up.indexOf('ADD CONSTRAINT orders_status_check'));
+      expect(down).toContain("$table->string('status', 50)->change();");
+      expect(down.indexOf(`where('status', '${longValue}')`)).toBeLessThan(down.indexOf('->change();'));
+      expect(migration!.warnings).toEqual([
+        "orders.status no longer allows 'closed'; remap the rows holding 'closed' in the TODO step before running the migration",
+      ]);
+      expect(migration!.risk?.level).toBe('data-loss');
+    });
+
+    it('generates nothing without the previous values', () => {
+      const migrations = generateMigrationsFromChanges([change], {}, schemas);
+
+      expect(migrations).toEqual([]);
+    });
+  });
+});
+
+describe('target-aware FK columns', () => {
+  const schemas: SchemaCollection = {
+    Account: {
+      name: 'Account',
+      kind: 'object',
+      filePath: '/test/account.yaml',
+      relativePath: '/test/account.yaml',
+      options: { idType: 'Uuid', tableName: 'tenant_accounts' },
+      properties: { name: { type: 'String' } },
+    },
+    Region: {
+      name: 'Region',
+      kind: 'object',
+      filePath: '/test/region.yaml',
+      relativePath: '/test/region.yaml',
+      options: { idType: 'Int' },
+      properties: { name: { type: 'String' } },
+    },
+    Locale: {
+      name: 'Locale',
+      kind: 'object',
+      filePath: '/test/locale.yaml',
+      relativePath: '/test/locale.yaml',
+      options: { idType: 'String' },
+      properties: { name: { type: 'String' } },
+    },
+  };
+
+  const addAssociation = (target: string, extra: Partial<PropertySnapshot> = {}) => {
+    const change: SchemaChange = {
+      schemaName: 'User',
+      changeType: 'modified',
+      columnChanges: [{
+        column: 'owner',
+        changeType: 'added',
+        currentDef: { type: 'Association', relation: 'ManyToOne', target, ...extra },
+      }],
+    };
+    return generateAlterMigration(change, { timestamp: '2024_01_01_120000' }, schemas)!.content;
+  };
+
+  it('uses the target idType for the FK column', () => {
+    expect(addAssociation('Account')).toContain("$table->uuid('owner_id')->nullable();");
+    expect(addAssociation('Region')).toContain("$table->unsignedInteger('owner_id')->nullable();");
+    expect(addAssociation('Locale')).toContain("$table->string('owner_id')->nullable();");
+  });
+
+  it('references the target tableName option', () => {
+    expect(addAssociation('Account')).toContain(
+      "$table->foreign('owner_id', 'users_owner_id_foreign')->references('id')->on('tenant_accounts')->onDelete('restrict')->onUpdate('cascade');"
+    );
+  });
+
+  it('matches the FK column, constraint and index of CREATE migrations', () => {
+    const property = { type: 'Association', relation: 'ManyToOne', target: 'Account', nullable: true, onDelete: 'cascade' };
+    const fk = generateForeignKey('owner', property as unknown as PropertyDefinition, schemas)!;
+
+    const content = addAssociation('Account', { nullable: true, onDelete: 'cascade' });
+
+    expect(content).toContain(formatColumnMethod(fk.column));
+    expect(content).toContain(formatForeignKey({ ...fk.foreignKey, name: toForeignKeyName('users', ['owner_id']) }));
+    expect(content).toContain(formatIndex({ ...fk.index, name: toIndexName('users', fk.index) }));
+  });
+
+  it('uses the tableName option of the altered schema', () => {
+    const change: SchemaChange = {
+      schemaName: 'Account',
+      changeType: 'modified',
+      columnChanges: [{ column: 'email', changeType: 'added', currentDef: { type: 'Email' } }],
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' }, schemas);
+
+    expect(result!.fileName).toBe('2024_01_01_120000_update_tenant_accounts_table.php');
+    expect(result!.content).toContain("Schema::table('tenant_accounts'");
+  });
+
+  it('re-creates the FK constraint when onDelete changes', () => {
+    const change: SchemaChange = {
+      schemaName: 'User',
+      changeType: 'modified',
+      columnChanges: [{
+        column: 'owner',
+        changeType: 'modified',
+        previousDef: { type: 'Association', relation: 'ManyToOne', target: 'Account' },
+        currentDef: { type: 'Association', relation: 'ManyToOne', target: 'Account', onDelete: 'cascade' },
+      }],
+    };
+
+    const content = generateAlterMigration(change, { timestamp: '2024_01_01_120000' }, schemas)!.content;
+    const upSection = content.substring(content.indexOf('public function up'), content.indexOf('public function down'));
+
+    expect(upSection).toContain("$table->dropForeign('users_owner_id_foreign');");
+    expect(upSection).toContain("->on('tenant_accounts')->onDelete('cascade')->onUpdate('cascade');");
+    expect(upSection).not.toContain('->change()');
+  });
+
+  it('changes the FK column when nullability changes', () => {
+    const change: SchemaChange = {
+      schemaName: 'User',
+      changeType: 'modified',
+      columnChanges: [{
+        column: 'owner',
+        changeType: 'modified',
+        previousDef: { type: 'Association', relation: 'ManyToOne', target: 'Region' },
+        currentDef: { type: 'Association', relation: 'ManyToOne', target: 'Region', nullable: true },
+      }],
+    };
+
+    const content = generateAlterMigration(change, { timestamp: '2024_01_01_120000' }, schemas)!.content;
+
+    expect(content).toContain("$table->unsignedInteger('owner_id')->nullable()->change();");
+    expect(content).not.toContain('dropForeign');
+  });
+
+  it('passes schemas through generateMigrationsFromChanges', () => {
+    const changes: SchemaChange[] = [{
+      schemaName: 'User',
+      changeType: 'modified',
+      columnChanges: [{
+        column: 'owner',
+        changeType: 'added',
+        currentDef: { type: 'Association', relation: 'ManyToOne', target: 'Account' },
+      }],
+    }];
+
+    const [migration] = generateMigrationsFromChanges(changes, { timestamp: '2024_01_01_120000' }, schemas);
+
+    expect(migration!.content).toContain("$table->uuid('owner_id')->nullable();");
+  });
+});
+
+describe('pivot table changes', () => {
+  const tag: LoadedSchema = {
+    name: 'Tag',
+    kind: 'object',
+    filePath: '/test/tag.yaml',
+    relativePath: '/test/tag.yaml',
+    properties: { name: { type: 'String' } },
+  };
+
+  const post = (properties: Record<string, unknown>): LoadedSchema => ({
+    name: 'Post',
+    kind: 'object',
+    filePath: '/test/post.yaml',
+    relativePath: '/test/post.yaml',
+    properties: { title: { type: 'String' }, ...properties } as LoadedSchema['properties'],
+  });
+
+  const tagsDef = { type: 'Association', relation: 'ManyToMany', target: 'Tag' } as const;
+  const tagsWithRole = { ...tagsDef, pivotFields: { role: { type: 'String', length: 50 } } };
+
+  const upSection = (content: string) =>
+    content.substring(content.indexOf('public function up'), content.indexOf('public function down'));
+  const downSection = (content: string) => content.substring(content.indexOf('public function down'));
+
+  it('creates the pivot table when a ManyToMany association is added', () => {
+    const changes: SchemaChange[] = [{
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [{ column: 'tags', changeType: 'added', currentDef: tagsDef }],
+    }];
+
+    const result = generateMigrationsFromChanges(
+      changes,
+      { timestamp: '2024_01_01_120000' },
+      { Post: post({ tags: tagsDef }), Tag: tag }
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0]!.fileName).toBe('2024_01_01_120000_create_post_tag_table.php');
+    expect(result[0]!.type).toBe('create');
+    expect(result[0]!.content).toContain("Schema::create('post_tag'");
+    expect(result[0]!.content).toContain("$table->foreign('tag_id', 'post_tag_tag_id_foreign')->references('id')->on('tags')");
+  });
+
+  it('drops the pivot table first when a ManyToMany association is removed', () => {
+    const changes: SchemaChange[] = [{
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [
+        { column: 'tags', changeType: 'removed', previousDef: tagsDef },
+        { column: 'body', changeType: 'added', currentDef: { type: 'Text' } },
+      ],
+    }];
+
+    const result = generateMigrationsFromChanges(
+      changes,
+      { timestamp: '2024_01_01_120000' },
+      { Post: post({ body: { type: 'Text' } }), Tag: tag }
+    );
+
+    expect(result.map(m => m.fileName)).toEqual([
+      '2024_01_01_120000_drop_post_tag_table.php',
+      '2024_01_01_120001_update_posts_table.php',
+    ]);
+    expect(upSection(result[0]!.content)).toContain("Schema::dropIfExists('post_tag');");
+    expect(downSection(result[0]!.content)).toContain("Schema::create('post_tag'");
+    expect(result[1]!.content).not.toContain('tags');
+  });
+
+  it('alters the pivot table when pivotFields change', () => {
+    const changes: SchemaChange[] = [{
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [{
+        column: 'tags',
+        changeType: 'modified',
+        previousDef: tagsDef,
+        currentDef: tagsWithRole as unknown as PropertySnapshot,
+      }],
+    }];
+
+    const result = generateMigrationsFromChanges(
+      changes,
+      { timestamp: '2024_01_01_120000' },
+      { Post: post({ tags: tagsWithRole }), Tag: tag }
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0]!.fileName).toBe('2024_01_01_120000_update_post_tag_table.php');
+    expect(result[0]!.className).toBe('UpdatePostTagTable');
+    expect(upSection(result[0]!.content)).toContain("Schema::table('post_tag'");
+    expect(upSection(result[0]!.content)).toContain("$table->string('role', 50);");
+    expect(downSection(result[0]!.content)).toContain("$table->dropColumn('role');");
+  });
+
+  it('changes pivot columns when the target idType changes', () => {
+    const changes: SchemaChange[] = [{
+      schemaName: 'Tag',
+      changeType: 'modified',
+      optionChanges: { idType: { from: 'BigInt', to: 'Uuid' } },
+    }];
+
+    const result = generateMigrationsFromChanges(
+      changes,
+      { timestamp: '2024_01_01_120000' },
+      { Post: post({ tags: tagsDef }), Tag: { ...tag, options: { idType: 'Uuid' } } }
+    );
+    const pivot = result.find(m => m.tables[0] === 'post_tag')!;
+
+    expect(upSection(pivot.content)).toContain("$table->dropForeign('post_tag_tag_id_foreign');");
+    expect(upSection(pivot.content)).toContain("$table->uuid('tag_id')->change();");
+    expect(downSection(pivot.content)).toContain("$table->unsignedBigInteger('tag_id')->change();");
+  });
+
+  it('creates MorphToMany pivot tables', () => {
+    const morphDef = { type: 'Association', relation: 'MorphToMany', target: 'Tag' } as const;
+    const changes: SchemaChange[] = [{
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [{ column: 'tags', changeType: 'added', currentDef: morphDef }],
+    }];
+
+    const result = generateMigrationsFromChanges(
+      changes,
+      { timestamp: '2024_01_01_120000' },
+      { Post: post({ tags: morphDef }), Tag: tag }
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0]!.content).toContain("Schema::create('tagables'");
+    expect(result[0]!.content).toContain("$table->enum('tagable_type', ['Post']);");
+  });
+
+  it('leaves unchanged pivot tables alone', () => {
+    const changes: SchemaChange[] = [{
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [{ column: 'body', changeType: 'added', currentDef: { type: 'Text' } }],
+    }];
+
+    const result = generateMigrationsFromChanges(
+      changes,
+      { timestamp: '2024_01_01_120000' },
+      { Post: post({ tags: tagsDef, body: { type: 'Text' } }), Tag: tag }
+    );
+
+    expect(result.map(m => m.tables[0])).toEqual(['posts']);
+  });
+});
+
+describe('database drivers', () => {
+  const upSection = (content: string) =>
+    content.substring(content.indexOf('public function up'), content.indexOf('public function down'));
+  const downSection = (content: string) => content.substring(content.indexOf('public function down'));
+
+  it('guards added enum columns with a CHECK constraint on pgsql', () => {
+    const change: SchemaChange = {
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [{ column: 'status', changeType: 'added', currentDef: { type: 'Enum', enum: ['draft', 'published'] } }],
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000', driver: 'pgsql' })!;
+    const up = upSection(result.content);
+    const down = downSection(result.content);
+
+    expect(result.content).toContain('use Illuminate\\Support\\Facades\\DB;');
+    expect(up).toContain("$table->string('status')->nullable();");
+    expect(up.indexOf('ADD CONSTRAINT posts_status_check')).toBeGreaterThan(up.indexOf('});'));
+    expect(up).toContain(`CHECK (status IN ('draft', 'published'))`);
+    expect(down.indexOf('DROP CONSTRAINT posts_status_check')).toBeLessThan(down.indexOf("Schema::table('posts'"));
+  });
+
+  it('replaces the CHECK constraint when enum values change on pgsql', () => {
+    const change: SchemaChange = {
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [{
+        column: 'status',
+        changeType: 'modified',
+        previousDef: { type: 'Enum', enum: ['draft', 'published'] },
+        currentDef: { type: 'Enum', enum: ['draft', 'published', 'archived'] },
+      }],
+    };
+
+    const up = upSection(generateAlterMigration(change, { timestamp: '2024_01_01_120000', driver: 'pgsql' })!.content);
+
+    expect(up).toContain('DB::statement("ALTER TABLE posts DROP CONSTRAINT posts_status_check");');
+    expect(up).toContain(`DB::statement("ALTER TABLE posts ADD CONSTRAINT posts_status_check CHECK (status IN ('draft', 'published', 'archived'))");`);
+    expect(up).not.toContain('->enum(');
+  });
+
+  it('keeps native enums and no DB facade on mysql', () => {
+    const change: SchemaChange = {
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [{ column: 'status', changeType: 'added', currentDef: { type: 'Enum', enum: ['draft'], default: 'draft' } }],
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' })!;
+
+    expect(result.content).toContain("$table->enum('status', ['draft'])->default('draft');");
+    expect(result.content).not.toContain('DB::');
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('drops the pgsql primary key constraint by name and warns about uuid conversions', () => {
+    const change: SchemaChange = {
+      schemaName: 'User',
+      changeType: 'modified',
+      optionChanges: { idType: { from: 'BigInt', to: 'Uuid' } },
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000', driver: 'pgsql' })!;
+
+    expect(result.content).toContain("$table->dropPrimary('users_pkey');");
+    expect(result.warnings).toEqual([
+      'pgsql cannot convert existing BigInt ids to Uuid in place (users.id); migrate the data before running this migration',
+    ]);
+  });
+
+  it('rebuilds the table for primary key changes on sqlite', () => {
+    const user: LoadedSchema = {
+      name: 'User',
+      kind: 'object',
+      filePath: '/test/user.yaml',
+      relativePath: '/test/user.yaml',
+      options: { idType: 'Uuid', indexes: [{ columns: ['email'] }] },
+      properties: { email: { type: 'Email' } },
+    } as LoadedSchema;
+    const change: SchemaChange = {
+      schemaName: 'User',
+      changeType: 'modified',
+      optionChanges: { idType: { from: 'BigInt', to: 'Uuid' } },
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000', driver: 'sqlite' }, { User: user })!;
+    const up = upSection(result.content);
+    const down = downSection(result.content);
+
+    expect(up).toContain("Schema::create('users__rebuild', function (Blueprint $table) {");
+    expect(up).toContain("$table->uuid('id')->primary();");
+    expect(up).toContain("DB::statement('INSERT INTO users__rebuild (id, email, created_at, updated_at) SELECT id, email, created_at, updated_at FROM users');");
+    expect(up).toContain("Schema::drop('users');");
+    expect(up).toContain("Schema::rename('users__rebuild', 'users');");
+    expect(up).toContain("$table->index('email', 'users_email_index');");
+    expect(up).not.toContain('dropPrimary');
+    expect(down).toContain('$table->id();');
+    expect(result.warnings?.[0]).toContain('sqlite cannot change the primary key type of users in place');
+  });
+});
+
+describe('column ordering', () => {
+  const customer: LoadedSchema = {
+    name: 'Customer',
+    kind: 'object',
+    filePath: '/test/customer.yaml',
+    relativePath: '/test/customer.yaml',
+    properties: {
+      name: { type: 'String' },
+      kana: { type: 'String' },
+      phone: { type: 'String' },
+      company: { type: 'Association', relation: 'ManyToOne', target: 'Company' },
+      email: { type: 'Email' },
+    },
+  } as LoadedSchema;
+  const company: LoadedSchema = {
+    name: 'Company',
+    kind: 'object',
+    filePath: '/test/company.yaml',
+    relativePath: '/test/company.yaml',
+    properties: { name: { type: 'String' } },
+  } as LoadedSchema;
+  const schemas: SchemaCollection = { Customer: customer, Company: company };
+
+  it('adds a column after its predecessor in the schema', () => {
+    const change: SchemaChange = {
+      schemaName: 'Customer',
+      changeType: 'modified',
+      columnChanges: [{ column: 'kana', changeType: 'added', currentDef: { type: 'String' } }],
+    };
+
+    const content = generateAlterMigration(change, { timestamp: '2024_01_01_120000' }, schemas)!.content;
+
+    expect(content).toContain("$table->string('kana')->nullable()->after('name');");
+  });
+
+  it('chains columns added together, whatever order they are added in', () => {
+    const change: SchemaChange = {
+      schemaName: 'Customer',
+      changeType: 'modified',
+      columnChanges: [
+        { column: 'company', changeType: 'added', currentDef: { type: 'Association', relation: 'ManyToOne', target: 'Company' } },
+        { column: 'kana', changeType: 'added', currentDef: { type: 'String' } },
+        { column: 'phone', changeType: 'added', currentDef: { type: 'String' } },
+      ],
+    };
+
+    const content = generateAlterMigration(change, { timestamp: '2024_01_01_120000' }, schemas)!.content;
+
+    expect(content).toContain("$table->unsignedBigInteger('company_id')->nullable()->after('name');");
+    expect(content).toContain("$table->string('kana')->nullable()->after('name');");
+    expect(content).toContain("$table->string('phone')->nullable()->after('kana');");
+  });
+
+  it('refers to renamed columns by their previous name', () => {
+    const change: SchemaChange = {
+      schemaName: 'Customer',
+      changeType: 'modified',
+      columnChanges: [
+        { column: 'name', previousColumn: 'fullName', changeType: 'renamed', previousDef: { type: 'String' }, currentDef: { type: 'String' } },
+        { column: 'kana', changeType: 'added', currentDef: { type: 'String' } },
+      ],
+    };
+
+    const content = generateAlterMigration(change, { timestamp: '2024_01_01_120000' }, schemas)!.content;
+
+    expect(content).toContain("$table->string('kana')->nullable()->after('full_name');");
+  });
+
+  it('uses first() when no column precedes it', () => {
+    const schema = { ...customer, options: { id: false } } as LoadedSchema;
+    const change: SchemaChange = {
+      schemaName: 'Customer',
+      changeType: 'modified',
+      columnChanges: [{ column: 'name', changeType: 'added', currentDef: { type: 'String' } }],
+    };
+
+    const content = generateAlterMigration(change, { timestamp: '2024_01_01_120000' }, { ...schemas, Customer: schema })!.content;
+
+    expect(content).toContain("$table->string('name')->nullable()->first();");
+  });
+
+  it('appends columns on other drivers', () => {
+    const change: SchemaChange = {
+      schemaName: 'Customer',
+      changeType: 'modified',
+      columnChanges: [{ column: 'kana', changeType: 'added', currentDef: { type: 'String' } }],
+    };
+
+    const content = generateAlterMigration(change, { timestamp: '2024_01_01_120000', driver: 'pgsql' }, schemas)!.content;
+
+    expect(content).toContain("$table->string('kana')->nullable();");
+  });
+});
+
+describe('table option changes', () => {
+  const upSection = (content: string) =>
+    content.substring(content.indexOf('public function up'), content.indexOf('public function down'));
+  const downSection = (content: string) => content.substring(content.indexOf('public function down'));
+
+  it('changes the table comment in Schema::table', () => {
+    const change: TableSchemaChange = {
+      schemaName: 'Post',
+      changeType: 'modified',
+      optionChanges: { comment: { from: 'Posts', to: 'Blog posts' } },
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' })!;
+
+    expect(upSection(result.content)).toContain("$table->comment('Blog posts');");
+    expect(downSection(result.content)).toContain("$table->comment('Posts');");
+  });
+
+  it('converts the table to a new collation with a statement on mysql', () => {
+    const change: TableSchemaChange = {
+      schemaName: 'ProductCode',
+      changeType: 'modified',
+      optionChanges: { collation: { to: 'utf8mb4_bin' } },
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' })!;
+
+    expect(upSection(result.content)).toContain(
+      'DB::statement("ALTER TABLE product_codes CONVERT TO CHARACTER SET utf8mb4 COLLATE utf8mb4_bin");'
+    );
+    // The collation was unset: down() restores Laravel's default
+    expect(downSection(result.content)).toContain(
+      'DB::statement("ALTER TABLE product_codes CONVERT TO CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci");'
+    );
+  });
+
+  it('warns about MySQL-only options on pgsql', () => {
+    const change: TableSchemaChange = {
+      schemaName: 'ProductCode',
+      changeType: 'modified',
+      optionChanges: { engine: { from: 'MyISAM', to: 'InnoDB' } },
+    };
+
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000', driver: 'pgsql' })!;
+
+    expect(result.content).not.toContain('ENGINE');
+    expect(result.warnings).toEqual([
+      'pgsql does not support table engines (product_codes); the engine is ignored',
+    ]);
+  });
+});
+
+describe('CHECK constraints', () => {
+  const change: SchemaChange = {
+    schemaName: 'Product',
+    changeType: 'modified',
+    columnChanges: [{ column: 'price', changeType: 'added', currentDef: { type: 'Decimal', nullable: true, min: 0, max: 9999 } as PropertySnapshot }],
+  };
+
+  it('adds the range check after the column and drops it first in down()', () => {
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000', checkConstraints: true })!;
+    const up = result.content.substring(result.content.indexOf('public function up'), result.content.indexOf('public function down'));
+    const down = result.content.substring(result.content.indexOf('public function down'));
+
+    expect(up.indexOf('DB::statement("ALTER TABLE products ADD CONSTRAINT products_price_check CHECK (price >= 0 AND price <= 9999)");'))
+      .toBeGreaterThan(up.indexOf('});'));
+    expect(down.indexOf('DROP CONSTRAINT products_price_check')).toBeLessThan(down.indexOf("Schema::table('products'"));
+  });
+
+  it('adds no check unless checkConstraints is enabled', () => {
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' })!;
+
+    expect(result.content).not.toContain('CHECK');
+  });
+
+  it('warns instead of adding checks on sqlite', () => {
+    const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000', driver: 'sqlite', checkConstraints: true })!;
+
+    expect(result.content).not.toContain('CHECK');
+    expect(result.warnings).toEqual([
+      'sqlite cannot add CHECK constraints to an existing table (products_price_check); validate price >= 0 AND price <= 9999 in the application instead',
+    ]);
+  });
+});
+
+describe('table renames', () => {
+  const timestamp = '2024_01_01_120000';
+  const user = {
+    name: 'User',
+    kind: 'object',
+    filePath: '/test/user.yaml',
+    relativePath: '/test/user.yaml',
+    properties: { name: { type: 'String' } },
+  } as LoadedSchema;
+  const article = {
+    name: 'Article',
+    kind: 'object',
+    filePath: '/test/article.yaml',
+    relativePath: '/test/article.yaml',
+    renamedFrom: 'Post',
+    properties: {
+      title: { type: 'String', unique: true },
+      author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+    },
+  } as unknown as LoadedSchema;
+  const postRemoved: SchemaChange = {
+    schemaName: 'Post',
+    changeType: 'removed',
+    columnChanges: [
+      { column: 'title', changeType: 'removed', previousDef: { type: 'String', unique: true } },
+      { column: 'author', changeType: 'removed', previousDef: { type: 'Association', relation: 'ManyToOne', target: 'User' } },
+    ],
+  };
+  const articleAdded: SchemaChange = { schemaName: 'Article', changeType: 'added' };
+
+  describe('detectSchemaRenames', () => {
+    it('pairs a removed schema with the added schema naming it in renamedFrom', () => {
+      expect(detectSchemaRenames([postRemoved, articleAdded], { User: user, Article: article })).toEqual([
+        { from: 'Post', to: 'Article', fromTable: 'posts', toTable: 'articles' },
+      ]);
+    });
+
+    it('pairs schemas with the same columns when only one pair matches', () => {
+      const unhinted = { ...article, renamedFrom: undefined } as LoadedSchema;
+      const other = { ...unhinted, name: 'Story' } as LoadedSchema;
+
+      expect(detectSchemaRenames([postRemoved, articleAdded], { User: user, Article: unhinted })).toHaveLength(1);
+      expect(detectSchemaRenames(
+        [postRemoved, articleAdded, { schemaName: 'Story', changeType: 'added' }],
+        { User: user, Article: unhinted, Story: other }
+      )).toEqual([]);
+    });
+
+    it('reports changed table names of modified schemas', () => {
+      const change: TableSchemaChange = {
+        schemaName: 'User',
+        changeType: 'modified',
+        optionChanges: { tableName: { to: 'members' } },
+      };
+
+      expect(detectSchemaRenames([change], { User: { ...user, options: { tableName: 'members' } } })).toEqual([
+        { from: 'User', to: 'User', fromTable: 'users', toTable: 'members' },
+      ]);
+    });
+  });
+
+  describe('generateMigrationsFromChanges', () => {
+    it('renames the table instead of dropping it', () => {
+      const migrations = generateMigrationsFromChanges([postRemoved, articleAdded], { timestamp }, { User: user, Article: article });
+
+      expect(migrations).toHaveLength(1);
+      const [migration] = migrations;
+      const up = migration!.content.substring(migration!.content.indexOf('public function up'), migration!.content.indexOf('public function down'));
+      const down = migration!.content.substring(migration!.content.indexOf('public function down'));
+
+      expect(migration!.fileName).toBe('2024_01_01_120000_rename_posts_to_articles_table.php');
+      expect(migration!.content).not.toContain('dropIfExists');
+      expect(up.indexOf("Schema::rename('posts', 'articles');")).toBeLessThan(up.indexOf("Schema::table('articles'"));
+      expect(up).toContain("$table->dropForeign('posts_author_id_foreign');");
+      expect(up).toContain("$table->renameIndex('posts_author_id_index', 'articles_author_id_index');");
+      expect(up).toContain("$table->renameIndex('posts_title_unique', 'articles_title_unique');");
+      expect(up).toContain("$table->foreign('author_id', 'articles_author_id_foreign')");
+      expect(down).toContain("$table->renameIndex('articles_title_unique', 'posts_title_unique');");
+      expect(down.indexOf("Schema::rename('articles', 'posts');")).toBeGreaterThan(down.indexOf("Schema::table('articles'"));
+    });
+
+    it('alters the columns changed along with the rename', () => {
+      const withSummary = {
+        ...article,
+        properties: { ...article.properties, summary: { type: 'Text', nullable: true } },
+      } as LoadedSchema;
+
+      const migrations = generateMigrationsFromChanges([postRemoved, articleAdded], { timestamp }, { User: user, Article: withSummary });
+
+      expect(migrations.map(m => m.fileName)).toEqual([
+        '2024_01_01_120000_rename_posts_to_articles_table.php',
+        '2024_01_01_120001_update_articles_table.php',
+      ]);
+      expect(migrations[1]!.content).toContain("$table->text('summary')->nullable()->after('author_id');");
+    });
+
+    it('renames the pivot tables of a renamed ManyToMany target with their columns and constraints', () => {
+      const schemaOf = (name: string, properties: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+        name,
+        kind: 'object',
+        filePath: `/test/${name}.yaml`,
+        relativePath: `/test/${name}.yaml`,
+        properties,
+        ...extra,
+      }) as unknown as LoadedSchema;
+      const previousSchemas: SchemaCollection = {
+        Tag: schemaOf('Tag', { label: { type: 'String' } }),
+        Book: schemaOf('Book', { tags: { type: 'Association', relation: 'ManyToMany', target: 'Tag' } }),
+      };
+      const currentSchemas: SchemaCollection = {
+        Topic: schemaOf('Topic', { label: { type: 'String' } }, { renamedFrom: 'Tag' }),
+        Book: schemaOf('Book', { tags: { type: 'Association', relation: 'ManyToMany', target: 'Topic' } }),
+      };
+      const changes: SchemaChange[] = [
+        {
+          schemaName: 'Tag',
+          changeType: 'removed',
+          columnChanges: [{ column: 'label', changeType: 'removed', previousDef: { type: 'String' } }],
+        },
+        { schemaName: 'Topic', changeType: 'added' },
+        {
+          schemaName: 'Book',
+          changeType: 'modified',
+          columnChanges: [{
+            column: 'tags',
+            changeType: 'modified',
+            previousDef: { type: 'Association', relation: 'ManyToMany', target: 'Tag' } as PropertySnapshot,
+            currentDef: { type: 'Association', relation: 'ManyToMany', target: 'Topic' } as PropertySnapshot,
+          }],
+        },
+      ];
+
+      const migrations = generateMigrationsFromChanges(changes, { timestamp }, currentSchemas);
+
+      expect(migrations.map(m => m.fileName)).toEqual([
+        '2024_01_01_120000_rename_tags_to_topics_table.php',
+        '2024_01_01_120001_rename_book_tag_to_book_topic_table.php',
+      ]);
+      const content = migrations[1]!.content;
+      const up = content.substring(content.indexOf('public function up'), content.indexOf('public function down'));
+      const down = content.substring(content.indexOf('public function down'));
+      expect(content).not.toContain('dropIfExists');
+      expect(up).toContain("Schema::rename('book_tag', 'book_topic');");
+      expect(up).toContain("$table->dropForeign('book_tag_tag_id_foreign');");
+      expect(up).toContain("$table->renameIndex('book_tag_tag_id_index', 'book_topic_topic_id_index');");
+      expect(up).toContain("$table->renameColumn('tag_id', 'topic_id');");
+      expect(up).toContain("$table->foreign('topic_id', 'book_topic_topic_id_foreign')->references('id')->on('topics')");
+      expect(down).toContain("$table->foreign('tag_id', 'book_tag_tag_id_foreign')->references('id')->on('topics')");
+      expect(down).toContain("Schema::rename('book_topic', 'book_tag');");
+
+      // The history builds the same database as a fresh install, and rolls back
+      const created = generateMigrations(previousSchemas, { timestamp: '2024_01_01_000000' });
+      const history = [...created, ...migrations];
+      expect(checkFreshMatchesHistory(generateMigrations(currentSchemas, { timestamp: '2024_02_01_000000' }), history)).toEqual([]);
+      const { database } = simulateMigrations(history.slice(0, -1));
+      expect(checkRoundTrip(migrations[1]!, database)).toEqual([]);
+    });
+
+    it('renames the table when options.tableName changes', () => {
+      const change: TableSchemaChange = {
+        schemaName: 'User',
+        changeType: 'modified',
+        optionChanges: { tableName: { to: 'members' } },
+      };
+
+      const migrations = generateMigrationsFromChanges([change], { timestamp }, { User: { ...user, options: { tableName: 'members' } } });
+
+      expect(migrations).toHaveLength(1);
+      expect(migrations[0]!.content).toContain("Schema::rename('users', 'members');");
+      expect(migrations[0]!.content).toContain("Schema::rename('members', 'users');");
+      expect(migrations[0]!.risk?.level).toBe('safe');
+    });
+  });
+});
+
+describe('risk classification', () => {
+  const timestamp = '2024_01_01_120000';
+
+  it('classifies nullable column additions as safe', () => {
+    const result = generateAlterMigration({
+      schemaName: 'User',
+      changeType: 'modified',
+      columnChanges: [{ column: 'nickname', changeType: 'added', currentDef: { type: 'String', nullable: true } }],
+    }, { timestamp })!;
+
+    expect(result.risk).toEqual({ level: 'safe', reasons: [] });
+  });
+
+  it('classifies new indexes and required columns as locking', () => {
+    const result = generateAlterMigration({
+      schemaName: 'User',
+      changeType: 'modified',
+      columnChanges: [{ column: 'code', changeType: 'added', currentDef: { type: 'String' } }],
+      indexChanges: [{ changeType: 'added', index: { columns: ['email'], unique: false } }],
+    }, { timestamp })!;
+
+    expect(result.risk?.level).toBe('locking');
+    expect(result.risk?.reasons.map(reason => reason.message)).toEqual([
+      'Adds required column users.code; existing rows are backfilled',
+      'Builds users_email_index over the existing rows of users',
+    ]);
+  });
+
+  it('classifies dropped columns and narrowed types as data loss', () => {
+    const result = generateAlterMigration({
+      schemaName: 'User',
+      changeType: 'modified',
+      columnChanges: [
+        { column: 'bio', changeType: 'removed', previousDef: { type: 'Text', nullable: true } },
+        { column: 'name', changeType: 'modified', previousDef: { type: 'String' }, currentDef: { type: 'String', length: 100 } as PropertySnapshot },
+      ],
+      optionChanges: { softDelete: { from: true, to: false } },
+    }, { timestamp })!;
+
+    expect(result.risk?.level).toBe('data-loss');
+    expect(result.risk?.reasons).toEqual([
+      { level: 'data-loss', target: 'users.bio', message: 'Drops users.bio and its values' },
+      {
+        level: 'data-loss',
+        target: 'users.name',
+        message: 'Narrows users.name from string to string(100); longer values are truncated or rejected',
+      },
+      { level: 'data-loss', target: 'users.deleted_at', message: 'Drops users.deleted_at and its values' },
+    ]);
+  });
+
+  it('classifies primary key changes to and from Uuid as irreversible', () => {
+    const result = generateAlterMigration({
+      schemaName: 'User',
+      changeType: 'modified',
+      optionChanges: { idType: { from: 'BigInt', to: 'Uuid' } },
+    }, { timestamp })!;
+
+    expect(result.risk?.level).toBe('irreversible');
+    expect(result.risk?.reasons[0]?.message).toBe('Changes users.id from BigInt to Uuid; existing ids cannot be converted back');
+  });
+
+  it('classifies dropped tables by whether down() can recreate them', () => {
+    const post = {
+      name: 'Post',
+      kind: 'object',
+      filePath: '/test/post.yaml',
+      relativePath: '/test/post.yaml',
+      properties: { title: { type: 'String' } },
+    } as LoadedSchema;
+
+    expect(generateDropTableMigration('Post', { timestamp }, post).risk?.level).toBe('data-loss');
+    expect(generateDropTableMigration('Post', { timestamp }).risk?.level).toBe('irreversible');
+    expect(generateDropTableMigration('Post', { timestamp, archiveDroppedTables: true }, post).risk?.level).toBe('safe');
   });
 });
 
@@ -1159,9 +2532,9 @@ describe('Complex field scenarios', () => {
 
     const result = generateAlterMigration(change, { timestamp: '2024_01_01_120000' });
 
-    expect(result!.content).toContain("$table->decimal('price', 10, 2);");
+    expect(result!.content).toContain("$table->decimal('price', 10, 2)->nullable();");
     expect(result!.content).toContain("$table->unsignedBigInteger('category_id')->nullable();");
-    expect(result!.content).toContain("$table->foreign('category_id')");
+    expect(result!.content).toContain("$table->foreign('category_id', 'products_category_id_foreign')");
     expect(result!.content).toContain("$table->enum('status')->default('active');");
     expect(result!.content).toContain("$table->text('description')->nullable();");
   });
@@ -1252,9 +2625,9 @@ describe('Complex field scenarios', () => {
 
     // カラム追加が先
     const columnAddIndex = result!.content.indexOf("unsignedBigInteger('customer_id')");
-    const fkAddIndex = result!.content.indexOf("foreign('customer_id')");
+    const fkAddIndex = result!.content.indexOf("foreign('customer_id'");
     const totalAddIndex = result!.content.indexOf("decimal('total'");
-    const indexAddIndex = result!.content.indexOf("index('total')");
+    const indexAddIndex = result!.content.indexOf("index('total'");
 
     expect(columnAddIndex).toBeGreaterThan(-1);
     expect(fkAddIndex).toBeGreaterThan(columnAddIndex);
@@ -4,37 +4,161 @@
  * Generates Laravel migration files for ALTER table operations.
  */
 
-import type { SchemaChange, PropertySnapshot } from '@famgia/omnify-atlas';
-import type { MigrationFile, MigrationOptions } from './types.js';
-import { toTableName, toColumnName } from './schema-builder.js';
-
-/**
- * Maps Omnify property types to Laravel column methods.
- */
-const TYPE_METHOD_MAP: Record<string, string> = {
-  String: 'string',
-  TinyInt: 'tinyInteger',
-  Int: 'integer',
-  BigInt: 'bigInteger',
-  Float: 'double',
-  Decimal: 'decimal',
-  Boolean: 'boolean',
-  Text: 'text',
-  MediumText: 'mediumText',
-  LongText: 'longText',
-  Date: 'date',
-  Time: 'time',
-  DateTime: 'dateTime',
-  Timestamp: 'timestamp',
-  Json: 'json',
-  Email: 'string',
-  Password: 'string',
-  File: 'string',
-  MultiFile: 'json',
-  Enum: 'enum',
-  Select: 'string',
-  Lookup: 'unsignedBigInteger',
-};
+import type { PropertySnapshot, IndexSnapshot } from '@famgia/omnify-atlas';
+import type { InlineEnumValue, LoadedSchema, PropertyDefinition, SchemaCollection } from '@famgia/omnify-types';
+import { resolveLocalizedString } from '@famgia/omnify-types';
+import type {
+  CheckConstraintDefinition,
+  ColumnMethod,
+  DatabaseDriver,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  IndexType,
+  MigrationFile,
+  MigrationOptions,
+  MigrationRiskReason,
+  MigrationStatement,
+  SchemaOperation,
+  SchemaRename,
+  TableBlueprint,
+  TableOptionChanges,
+  TableOptions,
+  TableSchemaChange,
+} from './types.js';
+import { getEnumStringValues, toSnakeCase } from '../utils.js';
+import {
+  toTableName,
+  toColumnName,
+  propertyToColumnMethods,
+  generateForeignKey,
+  formatColumnMethod,
+  formatForeignKey,
+  formatIndex,
+  formatTableOptions,
+  schemaToBlueprint,
+  schemaToTableOptions,
+  extractManyToManyRelations,
+  generatePivotTableBlueprint,
+  extractMorphToManyRelations,
+  generateMorphToManyPivotBlueprint,
+  getMorphToManyNames,
+  propertyToCheckConstraint,
+  toPhpSingleQuoted,
+  generateSoftDeleteColumn,
+  generateTimestampColumns,
+} from './schema-builder.js';
+import { nameBlueprintConstraints, toConstraintName, toForeignKeyName, toIndexName } from './naming.js';
+import { assessColumnChange, dropColumnRisk, dropTableRisk, enumValues, summarizeRisk } from './risk.js';
+import {
+  createTableOperations,
+  renderCreateTableStatement,
+  renderMigrationImports,
+  generateCreateMigrationForTable,
+  generateDropMigrationForTable,
+  generateTimestamp,
+  incrementTimestamp,
+} from './generator.js';
+import {
+  DEFAULT_DRIVER,
+  adaptBlueprintForDriver,
+  adaptColumnForDriver,
+  adaptIndexForDriver,
+  adaptTableOptionsForDriver,
+  enumCheckConstraints,
+  findUnsupportedFeatures,
+  formatAddCheck,
+  formatCreateIndexStatement,
+  formatDropCheck,
+  formatTableOptionStatements,
+  requiresIndexStatement,
+  supportedChecks,
+} from './driver.js';
+
+type ColumnChange = NonNullable<TableSchemaChange['columnChanges']>[number];
+
+/**
+ * Pairs generated code with the schema operations it performs.
+ */
+function statement(code: string, ...operations: SchemaOperation[]): MigrationStatement {
+  return { code, operations };
+}
+
+/**
+ * Joins statements into one, keeping their operations in order.
+ */
+function joinStatements(statements: readonly MigrationStatement[], separator = '\n'): MigrationStatement {
+  return {
+    code: statements.map(({ code }) => code).join(separator),
+    operations: statements.flatMap(({ operations }) => operations),
+  };
+}
+
+/**
+ * Indents the code of a statement.
+ */
+function indentStatement({ code, operations }: MigrationStatement, indentation = '        '): MigrationStatement {
+  return statement(`${indentation}${code}`, ...operations);
+}
+
+/**
+ * Formats the Schema::table line adding a column.
+ */
+function addColumnStatement(tableName: string, column: ColumnMethod): MigrationStatement {
+  return statement(formatColumnMethod(column), { type: 'addColumn', tableName, column });
+}
+
+/**
+ * Formats the Schema::table line changing a column to the given definition.
+ */
+function changeColumnStatement(tableName: string, column: ColumnMethod): MigrationStatement {
+  return statement(formatColumnMethod(column).replace(/;$/, '->change();'), { type: 'changeColumn', tableName, column });
+}
+
+/**
+ * Formats the Schema::table line dropping a column.
+ */
+function dropColumnStatement(tableName: string, columnName: string): MigrationStatement {
+  return statement(`$table->dropColumn('${columnName}');`, { type: 'dropColumn', tableName, columnName });
+}
+
+/**
+ * Formats the statement creating a table from a blueprint.
+ */
+function createTableStatement(blueprint: TableBlueprint): MigrationStatement {
+  return statement(renderCreateTableStatement(blueprint), ...createTableOperations(blueprint));
+}
+
+/**
+ * Gets the table option changes of a schema change (without the table name change).
+ */
+function getTableOptionChanges(change: TableSchemaChange): Omit<TableOptionChanges, 'tableName'> {
+  const { comment, charset, collation, engine } = change.optionChanges ?? {};
+  return {
+    ...(comment ? { comment } : {}),
+    ...(charset ? { charset } : {}),
+    ...(collation ? { collation } : {}),
+    ...(engine ? { engine } : {}),
+  };
+}
+
+/**
+ * Gets the table options on one side of the changes, on top of the current schema's options.
+ */
+function toChangedTableOptions(
+  changes: Omit<TableOptionChanges, 'tableName'>,
+  side: 'from' | 'to',
+  currentOptions: TableOptions,
+  options: MigrationOptions
+): TableOptions {
+  const comment = changes.comment ? changes.comment[side] : undefined;
+  return {
+    ...currentOptions,
+    ...(changes.comment ? { comment: comment ? resolveLocalizedString(comment, options.locale) : undefined } : {}),
+    ...(changes.charset ? { charset: changes.charset[side] } : {}),
+    ...(changes.collation ? { collation: changes.collation[side] } : {}),
+    ...(changes.engine ? { engine: changes.engine[side] } : {}),
+  };
+}
 
 /**
  * Checks if an Association property creates a FK column.
@@ -52,6 +176,24 @@ function isAssociationWithFkColumn(prop: PropertySnapshot): boolean {
   return true;
 }
 
+/**
+ * Checks if an Association property is stored in a pivot table instead of a column.
+ */
+function isPivotAssociation(prop: PropertySnapshot | undefined): boolean {
+  if (prop?.type !== 'Association') return false;
+
+  const relation = prop.relation;
+  return relation === 'ManyToMany' || relation === 'MorphToMany' || relation === 'MorphedByMany';
+}
+
+/**
+ * Checks if a column change only affects pivot tables (handled by pivot migrations).
+ */
+function isPivotOnlyColumnChange(col: ColumnChange): boolean {
+  const defs = [col.previousDef, col.currentDef].filter(def => def !== undefined);
+  return defs.length > 0 && defs.every(isPivotAssociation);
+}
+
 /**
  * Gets the FK column name for an Association property.
  */
@@ -61,102 +203,295 @@ function getAssociationFkColumnName(columnName: string): string {
 }
 
 /**
- * Generates timestamp prefix for migration file name.
+ * Builds the columns for a property exactly as schemaToBlueprint does
+ * (type mapping, length, enum values, modifiers, compound type expansion).
  */
-function generateTimestamp(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  const hours = String(now.getHours()).padStart(2, '0');
-  const minutes = String(now.getMinutes()).padStart(2, '0');
-  const seconds = String(now.getSeconds()).padStart(2, '0');
-  return `${year}_${month}_${day}_${hours}${minutes}${seconds}`;
+function snapshotToColumns(
+  columnName: string,
+  prop: PropertySnapshot,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection = {}
+): ColumnMethod[] {
+  return snapshotToDriverIndependentColumns(columnName, prop, options, allSchemas)
+    .map(column => adaptColumnForDriver(column, options.driver));
 }
 
 /**
- * Formats a column addition.
- * Returns an array of lines (column + optional FK constraint).
+ * Builds the columns for a property before driver adaptation (e.g., enums still native).
+ */
+function snapshotToDriverIndependentColumns(
+  columnName: string,
+  prop: PropertySnapshot,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection = {}
+): ColumnMethod[] {
+  return propertyToColumnMethods(columnName, prop as unknown as PropertyDefinition, {
+    customTypes: options.customTypes,
+    pluginEnums: options.pluginEnums,
+    locale: options.locale,
+  }, allSchemas);
+}
+
+/**
+ * Builds the FK column, constraint and index for an association exactly as
+ * schemaToBlueprint does (target idType, target tableName, restrict/cascade defaults, names).
+ */
+function snapshotToForeignKey(
+  tableName: string,
+  columnName: string,
+  prop: PropertySnapshot,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection
+): ReturnType<typeof generateForeignKey> {
+  const result = generateForeignKey(columnName, prop as unknown as PropertyDefinition, allSchemas, {
+    locale: options.locale,
+  });
+  if (!result) {
+    return result;
+  }
+
+  return {
+    ...result,
+    foreignKey: { ...result.foreignKey, name: toForeignKeyName(tableName, result.foreignKey.columns) },
+    index: { ...result.index, name: toIndexName(tableName, result.index) },
+  };
+}
+
+/**
+ * Builds the min/max/EnumRef CHECK constraint of a property when enabled, as schemaToBlueprint does.
+ */
+function snapshotToChecks(
+  tableName: string,
+  columnName: string,
+  prop: PropertySnapshot,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection
+): CheckConstraintDefinition[] {
+  if (!options.checkConstraints) {
+    return [];
+  }
+
+  const check = propertyToCheckConstraint(tableName, columnName, prop as unknown as PropertyDefinition, allSchemas, {
+    pluginEnums: options.pluginEnums,
+  });
+  return check ? [check] : [];
+}
+
+/**
+ * Adjusts a column being added (its position, or temporary nullability).
+ */
+type AddedColumnTransform = (column: ColumnMethod) => ColumnMethod;
+
+/**
+ * Adds columns as defined, at the end of the table.
  */
-function formatAddColumn(columnName: string, prop: PropertySnapshot): string[] {
-  const lines: string[] = [];
+const appendColumn: AddedColumnTransform = column => column;
 
-  // Association型の場合、FKカラムとFKコンストレイントを生成
+/**
+ * Gets the names of the columns a property creates.
+ */
+function snapshotToColumnNames(columnName: string, prop: PropertySnapshot, options: MigrationOptions): string[] {
   if (isAssociationWithFkColumn(prop)) {
-    const fkColumn = getAssociationFkColumnName(columnName);
-    // デフォルトはunsignedBigInteger（将来的にターゲットスキーマのidTypeを参照すべき）
-    let code = `$table->unsignedBigInteger('${fkColumn}')`;
+    return [getAssociationFkColumnName(columnName)];
+  }
+  return snapshotToDriverIndependentColumns(columnName, prop, options).map(column => column.name);
+}
 
-    if (prop.nullable) code += '->nullable()';
+/**
+ * Places added columns where a fresh install creates them, with `->after()` or `->first()` (MySQL).
+ * Each column follows the nearest preceding column that already exists or was added before it,
+ * so the final order matches the schema whatever order the columns are added in.
+ */
+function createColumnPositioner(
+  change: TableSchemaChange,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection
+): AddedColumnTransform {
+  const currentSchema = allSchemas[change.schemaName];
+  if ((options.driver ?? DEFAULT_DRIVER) !== 'mysql' || !currentSchema) {
+    return appendColumn;
+  }
 
-    lines.push(code + ';');
+  const order = schemaToBlueprint(currentSchema, allSchemas, {
+    customTypes: options.customTypes,
+    pluginEnums: options.pluginEnums,
+    locale: options.locale,
+  }).columns.map(column => column.name);
+
+  // Columns this migration adds, and renamed columns by their name while columns are added
+  // (Laravel adds columns before running renames)
+  const pending = new Set<string>();
+  const renamed = new Map<string, string>();
+  for (const col of change.columnChanges ?? []) {
+    if (isPivotOnlyColumnChange(col)) {
+      continue;
+    }
 
-    // FKコンストレイント
-    if (prop.target) {
-      // ターゲットテーブル名を生成（スキーマ名からテーブル名へ変換）
-      const targetTable = toTableName(prop.target);
-      let fkCode = `$table->foreign('${fkColumn}')->references('id')->on('${targetTable}')`;
+    const current = col.currentDef ? snapshotToColumnNames(col.column, col.currentDef, options) : [];
+    const previous = col.previousDef
+      ? snapshotToColumnNames(col.previousColumn ?? col.column, col.previousDef, options)
+      : [];
+    if (col.changeType === 'renamed') {
+      current.forEach((name, i) => {
+        const previousName = previous[i];
+        if (previousName !== undefined) {
+          renamed.set(name, previousName);
+        }
+      });
+      continue;
+    }
 
-      if (prop.onDelete) {
-        fkCode += `->onDelete('${prop.onDelete}')`;
-      }
-      if (prop.onUpdate) {
-        fkCode += `->onUpdate('${prop.onUpdate}')`;
+    // Switching to or from an FK association drops and re-adds the column
+    const replaced = col.previousDef !== undefined && col.currentDef !== undefined &&
+      isAssociationWithFkColumn(col.previousDef) !== isAssociationWithFkColumn(col.currentDef);
+    for (const name of current) {
+      if (replaced || !previous.includes(name)) {
+        pending.add(name);
       }
+    }
+  }
 
-      lines.push(fkCode + ';');
+  return column => {
+    const position = order.indexOf(column.name);
+    if (position < 0 || !pending.delete(column.name)) {
+      return column;
     }
 
-    return lines;
-  }
+    const predecessor = order.slice(0, position).reverse().find(name => !pending.has(name));
+    const modifier = predecessor !== undefined
+      ? { method: 'after', args: [renamed.get(predecessor) ?? predecessor] }
+      : { method: 'first' };
+    return { ...column, modifiers: [...column.modifiers, modifier] };
+  };
+}
 
-  const snakeColumn = toColumnName(columnName);
-  const method = TYPE_METHOD_MAP[prop.type] ?? 'string';
+/**
+ * Modifiers that let a column be added to a table that already has rows.
+ */
+const NULL_SAFE_MODIFIERS: ReadonlySet<string> = new Set([
+  'nullable',
+  'default',
+  'useCurrent',
+  'storedAs',
+  'virtualAs',
+  'primary',
+  'autoIncrement',
+]);
 
-  let code: string;
+/**
+ * Index modifiers, which would create the index again when a column is changed.
+ */
+const INDEX_MODIFIERS: ReadonlySet<string> = new Set(['unique', 'index']);
 
-  // Handle decimal with precision and scale
-  if (prop.type === 'Decimal') {
-    const precision = prop.precision ?? 8;
-    const scale = prop.scale ?? 2;
-    code = `$table->${method}('${snakeColumn}', ${precision}, ${scale})`;
-  } else {
-    code = `$table->${method}('${snakeColumn}')`;
+/**
+ * Checks if adding the column fails (or fills a meaningless value) when the table has rows.
+ */
+function isRequiredColumn(column: ColumnMethod): boolean {
+  return !column.modifiers.some(modifier => NULL_SAFE_MODIFIERS.has(modifier.method));
+}
+
+/**
+ * Formats the statements that backfill required columns added as nullable, then make them NOT NULL.
+ * Existing rows get the property's `migrationDefault`, or a placeholder that fails until it is replaced.
+ */
+function formatBackfill(
+  tableName: string,
+  columns: readonly ColumnMethod[],
+  prop: PropertySnapshot
+): MigrationStatement[] {
+  const { migrationDefault } = prop as { migrationDefault?: string | number | boolean };
+  const statements: MigrationStatement[] = [];
+
+  for (const column of columns) {
+    const rows = `DB::table('${tableName}')->whereNull('${column.name}')`;
+    if (migrationDefault !== undefined) {
+      const value = typeof migrationDefault === 'string' ? toPhpSingleQuoted(migrationDefault) : String(migrationDefault);
+      statements.push(statement(`${rows}->update(['${column.name}' => ${value}]);`));
+      continue;
+    }
+
+    statements.push(statement([
+      `// TODO: Backfill ${tableName}.${column.name} for existing rows (the schema has no migrationDefault)`,
+      `if (${rows}->exists()) {`,
+      `    ${rows}->update(['${column.name}' => (function (): mixed {`,
+      `        throw new \\RuntimeException('Set the value of ${tableName}.${column.name} for existing rows');`,
+      `    })()]);`,
+      `}`,
+    ].join('\n        ')));
   }
 
-  // Add modifiers
-  if (prop.nullable) code += '->nullable()';
-  if (prop.unique) code += '->unique()';
-  if (prop.default !== undefined) {
-    const defaultValue = typeof prop.default === 'string'
-      ? `'${prop.default}'`
-      : JSON.stringify(prop.default);
-    code += `->default(${defaultValue})`;
+  const changes = columns.map(column => changeColumnStatement(tableName, {
+    ...column,
+    modifiers: [
+      ...column.modifiers.filter(modifier => !INDEX_MODIFIERS.has(modifier.method)),
+      { method: 'nullable', args: [false] },
+    ],
+  }));
+  statements.push(statement(`Schema::table('${tableName}', function (Blueprint $table) {
+${changes.map(({ code }) => `            ${code}`).join('\n')}
+        });`, ...joinStatements(changes).operations));
+
+  return statements;
+}
+
+/**
+ * Formats a column addition.
+ * Returns an array of lines (column + optional FK constraint and index).
+ */
+function formatAddColumn(
+  tableName: string,
+  columnName: string,
+  prop: PropertySnapshot,
+  options: MigrationOptions = {},
+  allSchemas: SchemaCollection = {},
+  transform: AddedColumnTransform = appendColumn
+): MigrationStatement[] {
+  // Association型の場合、FKカラム・FKコンストレイント・インデックスを生成
+  if (isAssociationWithFkColumn(prop)) {
+    const fkResult = snapshotToForeignKey(tableName, columnName, prop, options, allSchemas);
+    if (!fkResult) {
+      return [];
+    }
+
+    const lines = [addColumnStatement(tableName, transform(fkResult.column))];
+    if (prop.target) {
+      lines.push(addForeignStatement(tableName, fkResult.foreignKey));
+      lines.push(statement(formatIndex(fkResult.index), { type: 'addIndex', tableName, index: fkResult.index }));
+    }
+    return lines;
   }
 
-  lines.push(code + ';');
-  return lines;
+  return snapshotToColumns(columnName, prop, options, allSchemas).map(column => addColumnStatement(tableName, transform(column)));
 }
 
 /**
  * Formats a column removal.
  * Returns an array of lines (drop FK constraint first if needed, then column).
  */
-function formatDropColumn(columnName: string, prop?: PropertySnapshot): string[] {
-  const lines: string[] = [];
+function formatDropColumn(
+  tableName: string,
+  columnName: string,
+  prop?: PropertySnapshot,
+  options: MigrationOptions = {}
+): MigrationStatement[] {
+  const lines: MigrationStatement[] = [];
 
   // Association型の場合、FKコンストレイントを先に削除
   if (prop && isAssociationWithFkColumn(prop)) {
     const fkColumn = getAssociationFkColumnName(columnName);
-    // LaravelのFKコンストレイント名規則: {table}_{column}_foreign
-    // ここではテーブル名がないため、dropForeignはカラム配列で指定
-    lines.push(`$table->dropForeign(['${fkColumn}']);`);
-    lines.push(`$table->dropColumn('${fkColumn}');`);
+    // CREATE時と同じ命名規則でFKコンストレイント名を指定
+    lines.push(formatDropForeign(tableName, [fkColumn]));
+    lines.push(dropColumnStatement(tableName, fkColumn));
     return lines;
   }
 
-  const snakeColumn = toColumnName(columnName);
-  lines.push(`$table->dropColumn('${snakeColumn}');`);
+  // Compound types drop every expanded column
+  const columnNames = prop
+    ? snapshotToColumns(columnName, prop, options).map(column => column.name)
+    : [toColumnName(columnName)];
+  for (const name of columnNames) {
+    lines.push(dropColumnStatement(tableName, name));
+  }
   return lines;
 }
 
@@ -164,224 +499,798 @@ function formatDropColumn(columnName: string, prop?: PropertySnapshot): string[]
  * Formats a column rename.
  * Note: Requires doctrine/dbal package in Laravel.
  */
-function formatRenameColumn(oldName: string, newName: string): string {
+function formatRenameColumn(tableName: string, oldName: string, newName: string): MigrationStatement {
   const oldSnake = toColumnName(oldName);
   const newSnake = toColumnName(newName);
-  return `$table->renameColumn('${oldSnake}', '${newSnake}');`;
+  return statement(
+    `$table->renameColumn('${oldSnake}', '${newSnake}');`,
+    { type: 'renameColumn', tableName, from: oldSnake, to: newSnake }
+  );
 }
 
 /**
  * Formats a column modification.
+ * Columns that only exist on one side (e.g., a compound type gaining a field)
+ * are added or dropped instead of changed.
  * Note: Requires doctrine/dbal package in Laravel.
  */
 function formatModifyColumn(
+  tableName: string,
   columnName: string,
-  _prevProp: PropertySnapshot,
-  currProp: PropertySnapshot
-): string {
-  const snakeColumn = toColumnName(columnName);
-  const method = TYPE_METHOD_MAP[currProp.type] ?? 'string';
+  prevProp: PropertySnapshot,
+  currProp: PropertySnapshot,
+  options: MigrationOptions = {},
+  allSchemas: SchemaCollection = {},
+  transform: AddedColumnTransform = appendColumn
+): MigrationStatement[] {
+  const prevIsFk = isAssociationWithFkColumn(prevProp);
+  const currIsFk = isAssociationWithFkColumn(currProp);
+
+  // Association FK column: change the column, re-create the constraint if it changed
+  if (prevIsFk && currIsFk) {
+    const prevFk = snapshotToForeignKey(tableName, columnName, prevProp, options, allSchemas);
+    const currFk = snapshotToForeignKey(tableName, columnName, currProp, options, allSchemas);
+    if (!prevFk || !currFk) {
+      return [];
+    }
 
-  let code: string;
+    const lines: MigrationStatement[] = [];
+    const prevFkCode = prevProp.target ? formatForeignKey(prevFk.foreignKey) : null;
+    const currFkCode = currProp.target ? formatForeignKey(currFk.foreignKey) : null;
+    if (prevFkCode && prevFkCode !== currFkCode) {
+      lines.push(formatDropForeign(tableName, prevFk.foreignKey.columns));
+    }
+    if (formatColumnMethod(prevFk.column) !== formatColumnMethod(currFk.column)) {
+      lines.push(changeColumnStatement(tableName, currFk.column));
+    }
+    if (currFkCode && prevFkCode !== currFkCode) {
+      lines.push(addForeignStatement(tableName, currFk.foreignKey));
+    }
+    return lines;
+  }
 
-  // Handle decimal with precision and scale
-  if (currProp.type === 'Decimal') {
-    const precision = currProp.precision ?? 8;
-    const scale = currProp.scale ?? 2;
-    code = `$table->${method}('${snakeColumn}', ${precision}, ${scale})`;
-  } else {
-    code = `$table->${method}('${snakeColumn}')`;
+  // Changing to or from an FK association replaces the column
+  if (prevIsFk || currIsFk) {
+    return [
+      ...formatDropColumn(tableName, columnName, prevProp, options),
+      ...formatAddColumn(tableName, columnName, currProp, options, allSchemas, transform),
+    ];
   }
 
-  // Add modifiers
-  if (currProp.nullable) code += '->nullable()';
-  if (currProp.unique) code += '->unique()';
-  if (currProp.default !== undefined) {
-    const defaultValue = typeof currProp.default === 'string'
-      ? `'${currProp.default}'`
-      : JSON.stringify(currProp.default);
-    code += `->default(${defaultValue})`;
+  const prevColumns = snapshotToColumns(columnName, prevProp, options, allSchemas);
+  const currColumns = snapshotToColumns(columnName, currProp, options, allSchemas);
+  const prevNames = new Set(prevColumns.map(column => column.name));
+  const currNames = new Set(currColumns.map(column => column.name));
+  const lines: MigrationStatement[] = [];
+
+  for (const column of currColumns) {
+    lines.push(prevNames.has(column.name)
+      ? changeColumnStatement(tableName, column)
+      : addColumnStatement(tableName, transform(column)));
+  }
+  for (const column of prevColumns) {
+    if (!currNames.has(column.name)) {
+      lines.push(dropColumnStatement(tableName, column.name));
+    }
   }
 
-  return code + '->change();';
+  return lines;
 }
 
 /**
- * Formats an index addition.
+ * Values stored instead of removed enum values, read from `enumRemap` (null empties the column).
  */
-function formatAddIndex(columns: readonly string[], unique: boolean): string {
-  const snakeColumns = columns.map(toColumnName);
-  const method = unique ? 'unique' : 'index';
-  const colsArg = snakeColumns.length === 1
-    ? `'${snakeColumns[0]}'`
-    : `[${snakeColumns.map(c => `'${c}'`).join(', ')}]`;
+type EnumRemap = Readonly<Record<string, string | null>>;
 
-  return `$table->${method}(${colsArg});`;
+/**
+ * Gets the `enumRemap` of a property or enum schema.
+ */
+function getEnumRemap(source: unknown): EnumRemap {
+  return (source as { enumRemap?: EnumRemap }).enumRemap ?? {};
 }
 
 /**
- * Formats an index removal.
+ * Formats the statements moving rows off removed enum values.
+ * Values without a remap get a commented template to fill in.
  */
-function formatDropIndex(tableName: string, columns: readonly string[], unique: boolean): string {
-  const snakeColumns = columns.map(toColumnName);
-  const method = unique ? 'dropUnique' : 'dropIndex';
+function formatEnumRemap(
+  tableName: string,
+  columnName: string,
+  removed: readonly string[],
+  remap: EnumRemap
+): MigrationStatement[] {
+  const rows = (value: string) => `DB::table('${tableName}')->where('${columnName}', ${toPhpSingleQuoted(value)})`;
+  const statements: MigrationStatement[] = [];
+  const unmapped: string[] = [];
+
+  for (const value of removed) {
+    const replacement = remap[value];
+    if (replacement === undefined) {
+      unmapped.push(value);
+      continue;
+    }
+    const target = replacement === null ? 'null' : toPhpSingleQuoted(replacement);
+    statements.push(statement(`${rows(value)}->update(['${columnName}' => ${target}]);`));
+  }
 
-  // Laravel generates index names as: {table}_{columns}_{type}
-  const suffix = unique ? 'unique' : 'index';
-  const indexName = `${tableName}_${snakeColumns.join('_')}_${suffix}`;
+  if (unmapped.length > 0) {
+    statements.push(statement([
+      `// TODO: Remap ${tableName}.${columnName} rows holding removed values (or set enumRemap)`,
+      ...unmapped.map(value => `// ${rows(value)}->update(['${columnName}' => ...]);`),
+    ].join('\n        ')));
+  }
+  return statements;
+}
 
-  return `$table->${method}('${indexName}');`;
+/**
+ * Describes the enum values removed from a column for the migration warnings.
+ */
+function describeEnumValueRemoval(target: string, removed: readonly string[], remap: EnumRemap): string {
+  const list = (values: readonly string[]) => values.map(value => `'${value}'`).join(', ');
+  const unmapped = removed.filter(value => remap[value] === undefined);
+  return unmapped.length === 0
+    ? `${target} no longer allows ${list(removed)}; existing rows are remapped with enumRemap`
+    : `${target} no longer allows ${list(removed)}; remap the rows holding ${list(unmapped)} in the TODO step before running the migration`;
 }
 
 /**
- * Generates ALTER migration content for a schema change.
+ * Formats the statements run before changing enum columns that lose values:
+ * native enum columns are widened to the old and new values, then the rows
+ * holding removed values are remapped, so the change itself does not reject them.
  */
-function generateAlterMigrationContent(
+function formatEnumValueRemoval(
   tableName: string,
-  change: SchemaChange,
-  options: MigrationOptions = {}
-): string {
-  const upLines: string[] = [];
-  const downLines: string[] = [];
-
-  // Column changes
-  if (change.columnChanges) {
-    for (const col of change.columnChanges) {
-      if (col.changeType === 'added' && col.currentDef) {
-        const addLines = formatAddColumn(col.column, col.currentDef);
-        for (const line of addLines) {
-          upLines.push(`            ${line}`);
-        }
-        const dropLines = formatDropColumn(col.column, col.currentDef);
-        for (const line of dropLines) {
-          downLines.push(`            ${line}`);
-        }
-      } else if (col.changeType === 'removed' && col.previousDef) {
-        const dropLines = formatDropColumn(col.column, col.previousDef);
-        for (const line of dropLines) {
-          upLines.push(`            ${line}`);
-        }
-        const addLines = formatAddColumn(col.column, col.previousDef);
-        for (const line of addLines) {
-          downLines.push(`            ${line}`);
-        }
-      } else if (col.changeType === 'modified' && col.previousDef && col.currentDef) {
-        upLines.push(`            ${formatModifyColumn(col.column, col.previousDef, col.currentDef)}`);
-        downLines.push(`            ${formatModifyColumn(col.column, col.currentDef, col.previousDef)}`);
-      } else if (col.changeType === 'renamed' && col.previousColumn) {
-        // Rename column
-        upLines.push(`            ${formatRenameColumn(col.previousColumn, col.column)}`);
-        downLines.push(`            ${formatRenameColumn(col.column, col.previousColumn)}`);
-
-        // If there are also property modifications, apply them after rename
-        if (col.modifications && col.modifications.length > 0 && col.previousDef && col.currentDef) {
-          upLines.push(`            ${formatModifyColumn(col.column, col.previousDef, col.currentDef)}`);
-          downLines.push(`            ${formatModifyColumn(col.column, col.currentDef, col.previousDef)}`);
-        }
-      }
+  columnName: string,
+  fromProp: PropertySnapshot,
+  toProp: PropertySnapshot,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection,
+  remap: EnumRemap
+): { statements: MigrationStatement[]; warnings: string[] } {
+  const toColumns = new Map(
+    snapshotToDriverIndependentColumns(columnName, toProp, options, allSchemas).map(column => [column.name, column])
+  );
+  const widened: MigrationStatement[] = [];
+  const remaps: MigrationStatement[] = [];
+  const warnings: string[] = [];
+
+  for (const from of snapshotToDriverIndependentColumns(columnName, fromProp, options, allSchemas)) {
+    const to = toColumns.get(from.name);
+    const fromValues = enumValues(from);
+    const toValues = to ? enumValues(to) : [];
+    const removed = fromValues.filter(value => !toValues.includes(value));
+    if (!to || toValues.length === 0 || removed.length === 0) {
+      continue;
     }
-  }
 
-  // Index changes
-  if (change.indexChanges) {
-    for (const idx of change.indexChanges) {
-      if (idx.changeType === 'added') {
-        upLines.push(`            ${formatAddIndex(idx.index.columns, idx.index.unique)}`);
-        downLines.push(`            ${formatDropIndex(tableName, idx.index.columns, idx.index.unique)}`);
-      } else {
-        upLines.push(`            ${formatDropIndex(tableName, idx.index.columns, idx.index.unique)}`);
-        downLines.push(`            ${formatAddIndex(idx.index.columns, idx.index.unique)}`);
-      }
+    const column = adaptColumnForDriver(to, options.driver);
+    if (column.method === 'enum') {
+      widened.push(changeColumnStatement(tableName, {
+        ...column,
+        args: [column.name, [...fromValues, ...toValues.filter(value => !fromValues.includes(value))] as unknown as string],
+        modifiers: column.modifiers.filter(modifier => !INDEX_MODIFIERS.has(modifier.method)),
+      }));
     }
+    remaps.push(...formatEnumRemap(tableName, column.name, removed, remap));
+    warnings.push(describeEnumValueRemoval(`${tableName}.${column.name}`, removed, remap));
   }
 
-  // Option changes (timestamps, softDelete, idType)
-  if (change.optionChanges) {
-    if (change.optionChanges.timestamps) {
-      const { from, to } = change.optionChanges.timestamps;
-      if (to && !from) {
-        upLines.push(`            $table->timestamps();`);
-        downLines.push(`            $table->dropTimestamps();`);
-      } else if (from && !to) {
-        upLines.push(`            $table->dropTimestamps();`);
-        downLines.push(`            $table->timestamps();`);
-      }
-    }
+  const widen = widened.length > 0
+    ? [statement(`Schema::table('${tableName}', function (Blueprint $table) {
+${widened.map(({ code }) => `            ${code}`).join('\n')}
+        });`, ...joinStatements(widened).operations)]
+    : [];
+  return { statements: [...widen, ...remaps], warnings };
+}
 
-    if (change.optionChanges.softDelete) {
-      const { from, to } = change.optionChanges.softDelete;
-      if (to && !from) {
-        upLines.push(`            $table->softDeletes();`);
-        downLines.push(`            $table->dropSoftDeletes();`);
-      } else if (from && !to) {
-        upLines.push(`            $table->dropSoftDeletes();`);
-        downLines.push(`            $table->softDeletes();`);
-      }
-    }
+/**
+ * Builds an index definition from an index snapshot (property names), named as on CREATE
+ * and adapted to the driver.
+ */
+function snapshotToIndex(
+  tableName: string,
+  snapshot: IndexSnapshot,
+  driver: DatabaseDriver | undefined
+): { index: IndexDefinition; warnings: string[] } {
+  const { type, algorithm, where, parser } = snapshot as Pick<IndexDefinition, 'type' | 'algorithm' | 'where' | 'parser'>;
+  const columns = snapshot.columns.map(toColumnName);
+  const unique = type === undefined ? snapshot.unique : type === 'unique';
+  const index: IndexDefinition = {
+    columns,
+    unique,
+    type: type ?? (unique ? 'unique' : 'index'),
+    algorithm,
+    where,
+    parser,
+  };
 
-    // Handle idType changes (BigInt <-> Uuid <-> Int <-> String)
-    // This is a complex operation requiring primary key column type change
-    if (change.optionChanges.idType) {
-      const { from, to } = change.optionChanges.idType;
-      const fromType = from ?? 'BigInt';
-      const toType = to ?? 'BigInt';
+  return adaptIndexForDriver(tableName, { ...index, name: toIndexName(tableName, index) }, driver);
+}
 
-      // Generate appropriate column type change for primary key
-      const getColumnMethod = (type: string): string => {
-        switch (type) {
-          case 'Uuid': return 'uuid';
-          case 'Int': return 'unsignedInteger';
-          case 'String': return 'string';
-          default: return 'unsignedBigInteger'; // BigInt
-        }
-      };
+/**
+ * Blueprint methods dropping each index kind.
+ */
+const DROP_INDEX_METHODS: Readonly<Record<IndexType, string>> = {
+  index: 'dropIndex',
+  unique: 'dropUnique',
+  fulltext: 'dropFullText',
+  spatial: 'dropSpatialIndex',
+};
 
-      const toMethod = getColumnMethod(toType);
-      const fromMethod = getColumnMethod(fromType);
+/**
+ * Formats an index removal.
+ * Indexes are dropped by name, generated by the same rule as on CREATE.
+ * Indexes created with a raw statement are plain indexes, even when unique.
+ */
+function formatDropIndex(tableName: string, index: IndexDefinition): MigrationStatement {
+  const type = requiresIndexStatement(index) ? 'index' : index.type ?? (index.unique ? 'unique' : 'index');
+  const name = index.name ?? toIndexName(tableName, index);
+  return statement(`$table->${DROP_INDEX_METHODS[type]}('${name}');`, { type: 'dropIndex', tableName, name });
+}
 
-      // Use DB::statement for raw SQL to modify primary key column type
-      // This is necessary because Laravel's change() doesn't work well with primary keys
-      upLines.push(`            // Changing primary key type from ${fromType} to ${toType}`);
-      upLines.push(`            // Note: This requires doctrine/dbal package`);
-      if (toType === 'Uuid') {
-        upLines.push(`            $table->dropPrimary('id');`);
-        upLines.push(`            $table->uuid('id')->change();`);
-        upLines.push(`            $table->primary('id');`);
-      } else if (fromType === 'Uuid') {
-        upLines.push(`            $table->dropPrimary('id');`);
-        upLines.push(`            $table->${toMethod}('id')->change();`);
-        upLines.push(`            $table->primary('id');`);
-      } else {
-        // For Int <-> BigInt changes, simpler column type change
-        upLines.push(`            $table->${toMethod}('id')->change();`);
-      }
-
-      downLines.push(`            // Reverting primary key type from ${toType} to ${fromType}`);
-      if (fromType === 'Uuid') {
-        downLines.push(`            $table->dropPrimary('id');`);
-        downLines.push(`            $table->uuid('id')->change();`);
-        downLines.push(`            $table->primary('id');`);
-      } else if (toType === 'Uuid') {
-        downLines.push(`            $table->dropPrimary('id');`);
-        downLines.push(`            $table->${fromMethod}('id')->change();`);
-        downLines.push(`            $table->primary('id');`);
-      } else {
-        downLines.push(`            $table->${fromMethod}('id')->change();`);
-      }
-    }
-  }
+/**
+ * Formats an index creation, in the Schema::table closure or as a statement after it
+ * (partial and parser indexes).
+ */
+function formatAddIndex(tableName: string, index: IndexDefinition): MigrationStatement {
+  const code = requiresIndexStatement(index) ? formatCreateIndexStatement(tableName, index) : formatIndex(index);
+  return statement(code, { type: 'addIndex', tableName, index });
+}
 
-  const connection = options.connection
-    ? `\n    protected $connection = '${options.connection}';\n`
-    : '';
+/**
+ * Formats a foreign key removal.
+ * Constraints are dropped by name, generated by the same rule as on CREATE.
+ */
+function formatDropForeign(tableName: string, columns: readonly string[]): MigrationStatement {
+  return dropForeignStatement(tableName, toForeignKeyName(tableName, columns));
+}
 
-  return `<?php
+/**
+ * Formats the removal of a foreign key by its name.
+ */
+function dropForeignStatement(tableName: string, name: string): MigrationStatement {
+  return statement(`$table->dropForeign('${name}');`, { type: 'dropForeignKey', tableName, name });
+}
 
 /**
- * ⚠️ DO NOT EDIT THIS FILE! ⚠️
- * このファイルを編集しないでください！
- * KHÔNG ĐƯỢC SỬA FILE NÀY!
- *
+ * Formats a foreign key creation.
+ */
+function addForeignStatement(tableName: string, foreignKey: ForeignKeyDefinition): MigrationStatement {
+  return statement(formatForeignKey(foreignKey), { type: 'addForeignKey', tableName, foreignKey });
+}
+
+/**
+ * Statements run before and after the Schema::table closure
+ * (e.g., CHECK constraints, which the schema builder cannot express).
+ */
+interface TableStatements {
+  upBefore: MigrationStatement[];
+  upAfter: MigrationStatement[];
+  downBefore: MigrationStatement[];
+  downAfter: MigrationStatement[];
+}
+
+/**
+ * Formats the statements turning one set of CHECK constraints into another.
+ * Changed constraints are dropped before the closure and re-added after it.
+ */
+function formatCheckChanges(
+  tableName: string,
+  from: readonly CheckConstraintDefinition[],
+  to: readonly CheckConstraintDefinition[]
+): { before: MigrationStatement[]; after: MigrationStatement[] } {
+  const toExpressions = new Map(to.map(check => [check.name, check.expression]));
+  const fromExpressions = new Map(from.map(check => [check.name, check.expression]));
+
+  return {
+    before: from
+      .filter(check => toExpressions.get(check.name) !== check.expression)
+      .map(check => dropCheckStatement(tableName, check)),
+    after: to
+      .filter(check => fromExpressions.get(check.name) !== check.expression)
+      .map(check => addCheckStatement(tableName, check)),
+  };
+}
+
+/**
+ * Formats the statement adding a CHECK constraint.
+ */
+function addCheckStatement(tableName: string, check: CheckConstraintDefinition): MigrationStatement {
+  return statement(formatAddCheck(tableName, check), { type: 'addCheck', tableName, check });
+}
+
+/**
+ * Formats the statement dropping a CHECK constraint.
+ */
+function dropCheckStatement(tableName: string, check: CheckConstraintDefinition): MigrationStatement {
+  return statement(formatDropCheck(tableName, check), { type: 'dropCheck', tableName, name: check.name });
+}
+
+/**
+ * Builds the columns of a property before driver adaptation, FK columns included.
+ */
+function snapshotToPropertyColumns(
+  tableName: string,
+  columnName: string,
+  prop: PropertySnapshot,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection
+): ColumnMethod[] {
+  if (isAssociationWithFkColumn(prop)) {
+    const fkResult = snapshotToForeignKey(tableName, columnName, prop, options, allSchemas);
+    return fkResult ? [fkResult.column] : [];
+  }
+  return snapshotToDriverIndependentColumns(columnName, prop, options, allSchemas);
+}
+
+/**
+ * Classifies replacing one set of columns with another: dropped columns and
+ * narrowed types lose data, other changed columns are rewritten.
+ */
+function assessColumnReplacement(
+  tableName: string,
+  from: readonly ColumnMethod[],
+  to: readonly ColumnMethod[]
+): MigrationRiskReason[] {
+  const toColumns = new Map(to.map(column => [column.name, column]));
+  const reasons: MigrationRiskReason[] = [];
+
+  for (const column of from) {
+    const next = toColumns.get(column.name);
+    if (!next) {
+      reasons.push(dropColumnRisk(tableName, column.name));
+    } else if (formatColumnMethod(column) !== formatColumnMethod(next)) {
+      reasons.push(assessColumnChange(tableName, column, next));
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Integer primary key types, from narrowest to widest.
+ */
+const INTEGER_ID_TYPES = ['Int', 'BigInt'];
+
+/**
+ * Classifies what an ALTER migration does to existing rows.
+ */
+function assessAlterRisk(
+  tableName: string,
+  change: TableSchemaChange,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection
+): MigrationRiskReason[] {
+  const reasons: MigrationRiskReason[] = [];
+  const columnsOf = (columnName: string, prop: PropertySnapshot) =>
+    snapshotToPropertyColumns(tableName, columnName, prop, options, allSchemas);
+  const checksOf = (columnName: string, prop: PropertySnapshot | undefined) =>
+    prop ? supportedChecks(snapshotToChecks(tableName, columnName, prop, options, allSchemas), options.driver).checks : [];
+
+  for (const col of change.columnChanges ?? []) {
+    if (isPivotOnlyColumnChange(col)) {
+      continue;
+    }
+
+    if (col.changeType === 'added' && col.currentDef) {
+      for (const column of columnsOf(col.column, col.currentDef).filter(isRequiredColumn)) {
+        const target = `${tableName}.${column.name}`;
+        reasons.push({ level: 'locking', target, message: `Adds required column ${target}; existing rows are backfilled` });
+      }
+    } else if (col.changeType === 'removed' && col.previousDef) {
+      reasons.push(...columnsOf(col.column, col.previousDef).map(column => dropColumnRisk(tableName, column.name)));
+    } else if (col.previousDef && col.currentDef) {
+      // Changing to or from an FK association drops the column and adds it again
+      const replaced = isAssociationWithFkColumn(col.previousDef) !== isAssociationWithFkColumn(col.currentDef);
+      reasons.push(...assessColumnReplacement(
+        tableName,
+        columnsOf(col.column, col.previousDef),
+        replaced ? [] : columnsOf(col.column, col.currentDef)
+      ));
+    }
+
+    const previousChecks = new Set(checksOf(col.column, col.previousDef).map(check => check.expression));
+    for (const check of checksOf(col.column, col.currentDef)) {
+      if (!previousChecks.has(check.expression)) {
+        reasons.push({ level: 'locking', target: tableName, message: `Checks every row of ${tableName} against ${check.name}` });
+      }
+    }
+  }
+
+  for (const idx of change.indexChanges ?? []) {
+    if (idx.changeType === 'added') {
+      const { index } = snapshotToIndex(tableName, idx.index, options.driver);
+      reasons.push({ level: 'locking', target: tableName, message: `Builds ${index.name} over the existing rows of ${tableName}` });
+    }
+  }
+
+  const timestamps = change.optionChanges?.timestamps;
+  const softDelete = change.optionChanges?.softDelete;
+  const idType = change.optionChanges?.idType;
+  if (timestamps?.from && !timestamps.to) {
+    reasons.push(dropColumnRisk(tableName, 'created_at'), dropColumnRisk(tableName, 'updated_at'));
+  }
+  if (softDelete?.from && !softDelete.to) {
+    reasons.push(dropColumnRisk(tableName, 'deleted_at'));
+  }
+  if (idType) {
+    const from = idType.from ?? 'BigInt';
+    const to = idType.to ?? 'BigInt';
+    const target = `${tableName}.id`;
+    if (!INTEGER_ID_TYPES.includes(from) || !INTEGER_ID_TYPES.includes(to)) {
+      reasons.push({ level: 'irreversible', target, message: `Changes ${target} from ${from} to ${to}; existing ids cannot be converted back` });
+    } else if (INTEGER_ID_TYPES.indexOf(to) < INTEGER_ID_TYPES.indexOf(from)) {
+      reasons.push({ level: 'data-loss', target, message: `Narrows ${target} from ${from} to ${to}; out-of-range ids are rejected` });
+    } else {
+      reasons.push({ level: 'locking', target, message: `Rewrites ${target} (${to}); the table may be locked while it is rebuilt` });
+    }
+  }
+
+  // Charset, collation and engine changes convert the whole table (MySQL)
+  const { charset, collation, engine } = getTableOptionChanges(change);
+  if ((charset || collation || engine) && (options.driver ?? DEFAULT_DRIVER) === 'mysql') {
+    reasons.push({ level: 'locking', target: tableName, message: `Converts ${tableName}; the table is rebuilt` });
+  }
+
+  return reasons;
+}
+
+/**
+ * Classifies what altering a pivot table does to existing rows.
+ */
+function assessPivotAlterRisk(previous: TableBlueprint, current: TableBlueprint): MigrationRiskReason[] {
+  const tableName = current.tableName;
+  const previousIndexes = new Set(previous.indexes.map(formatIndex));
+
+  return [
+    ...assessColumnReplacement(tableName, previous.columns, current.columns),
+    ...current.indexes
+      .filter(index => !previousIndexes.has(formatIndex(index)))
+      .map((index): MigrationRiskReason => ({
+        level: 'locking',
+        target: tableName,
+        message: `Builds ${index.name ?? toIndexName(tableName, index)} over the existing rows of ${tableName}`,
+      })),
+  ];
+}
+
+/**
+ * Generates ALTER migration content for a schema change.
+ */
+function generateAlterMigrationContent(
+  tableName: string,
+  change: TableSchemaChange,
+  options: MigrationOptions = {},
+  allSchemas: SchemaCollection = {}
+): Pick<MigrationFile, 'content' | 'operations'> & { warnings: string[] } {
+  const upLines: MigrationStatement[] = [];
+  const downLines: MigrationStatement[] = [];
+  const warnings: string[] = [];
+  const previousColumns: ColumnMethod[] = [];
+  const currentColumns: ColumnMethod[] = [];
+  const previousChecks: CheckConstraintDefinition[] = [];
+  const currentChecks: CheckConstraintDefinition[] = [];
+  const backfills: MigrationStatement[] = [];
+  const upRemaps: MigrationStatement[] = [];
+  const downRemaps: MigrationStatement[] = [];
+
+  // Column changes
+  if (change.columnChanges) {
+    const position = createColumnPositioner(change, options, allSchemas);
+    for (const col of change.columnChanges) {
+      if (isPivotOnlyColumnChange(col)) {
+        continue;
+      }
+
+      if (col.previousDef) {
+        previousColumns.push(...snapshotToDriverIndependentColumns(col.previousColumn ?? col.column, col.previousDef, options, allSchemas));
+        previousChecks.push(...snapshotToChecks(tableName, col.previousColumn ?? col.column, col.previousDef, options, allSchemas));
+      }
+      if (col.currentDef) {
+        currentColumns.push(...snapshotToDriverIndependentColumns(col.column, col.currentDef, options, allSchemas));
+        currentChecks.push(...snapshotToChecks(tableName, col.column, col.currentDef, options, allSchemas));
+      }
+
+      if (col.changeType === 'added' && col.currentDef) {
+        // Required columns are added as nullable, backfilled, then made NOT NULL
+        const required: ColumnMethod[] = [];
+        const addLines = formatAddColumn(tableName, col.column, col.currentDef, options, allSchemas, column => {
+          if (!isRequiredColumn(column)) {
+            return position(column);
+          }
+          required.push(column);
+          return position({ ...column, modifiers: [{ method: 'nullable' }, ...column.modifiers] });
+        });
+        upLines.push(...addLines);
+        if (required.length > 0) {
+          backfills.push(...formatBackfill(tableName, required, col.currentDef));
+          const backfill = (col.currentDef as { migrationDefault?: unknown }).migrationDefault !== undefined
+            ? 'backfilled with its migrationDefault'
+            : 'backfilled by a placeholder that fails while existing rows lack a value';
+          warnings.push(...required.map(column =>
+            `${tableName}.${column.name} is required: added as nullable, ${backfill}, then made NOT NULL; review the migration before running it`
+          ));
+        }
+        downLines.push(...formatDropColumn(tableName, col.column, col.currentDef, options));
+      } else if (col.changeType === 'removed' && col.previousDef) {
+        upLines.push(...formatDropColumn(tableName, col.column, col.previousDef, options));
+        downLines.push(...formatAddColumn(tableName, col.column, col.previousDef, options, allSchemas));
+      } else if (col.changeType === 'modified' && col.previousDef && col.currentDef) {
+        upLines.push(...formatModifyColumn(tableName, col.column, col.previousDef, col.currentDef, options, allSchemas, position));
+        downLines.push(...formatModifyColumn(tableName, col.column, col.currentDef, col.previousDef, options, allSchemas));
+
+        // Rows holding removed enum values are remapped before the column changes
+        const upRemoval = formatEnumValueRemoval(
+          tableName, col.column, col.previousDef, col.currentDef, options, allSchemas, getEnumRemap(col.currentDef)
+        );
+        const downRemoval = formatEnumValueRemoval(tableName, col.column, col.currentDef, col.previousDef, options, allSchemas, {});
+        upRemaps.push(...upRemoval.statements);
+        downRemaps.push(...downRemoval.statements);
+        warnings.push(...upRemoval.warnings);
+      } else if (col.changeType === 'renamed' && col.previousColumn) {
+        // Rename column
+        upLines.push(formatRenameColumn(tableName, col.previousColumn, col.column));
+        downLines.push(formatRenameColumn(tableName, col.column, col.previousColumn));
+
+        // If there are also property modifications, apply them after rename
+        if (col.modifications && col.modifications.length > 0 && col.previousDef && col.currentDef) {
+          upLines.push(...formatModifyColumn(tableName, col.column, col.previousDef, col.currentDef, options, allSchemas));
+          downLines.push(...formatModifyColumn(tableName, col.previousColumn, col.currentDef, col.previousDef, options, allSchemas));
+        }
+      }
+    }
+  }
+
+  // CHECK constraints (min/max/EnumRef, and enums on drivers without native enums)
+  const supportedPrevious = supportedChecks(previousChecks, options.driver);
+  const supportedCurrent = supportedChecks(currentChecks, options.driver);
+  warnings.push(...supportedCurrent.warnings);
+  const allPreviousChecks = [...supportedPrevious.checks, ...enumCheckConstraints(tableName, previousColumns, options.driver)];
+  const allCurrentChecks = [...supportedCurrent.checks, ...enumCheckConstraints(tableName, currentColumns, options.driver)];
+  const upChecks = formatCheckChanges(tableName, allPreviousChecks, allCurrentChecks);
+  const downChecks = formatCheckChanges(tableName, allCurrentChecks, allPreviousChecks);
+  const statements: TableStatements = {
+    upBefore: [...upChecks.before, ...upRemaps],
+    upAfter: [...backfills, ...upChecks.after],
+    downBefore: [...downChecks.before, ...downRemaps],
+    downAfter: downChecks.after,
+  };
+  warnings.push(...findUnsupportedFeatures(
+    tableName,
+    currentColumns.map(column => adaptColumnForDriver(column, options.driver)),
+    options.driver
+  ));
+
+  // Index changes
+  if (change.indexChanges) {
+    for (const idx of change.indexChanges) {
+      const { index, warnings: indexWarnings } = snapshotToIndex(tableName, idx.index, options.driver);
+      warnings.push(...indexWarnings);
+
+      // Partial and parser indexes are created by a statement after the closure
+      const create = requiresIndexStatement(index)
+        ? { lines: [], after: [formatAddIndex(tableName, index)] }
+        : { lines: [formatAddIndex(tableName, index)], after: [] };
+      const drop = formatDropIndex(tableName, index);
+      if (idx.changeType === 'added') {
+        upLines.push(...create.lines);
+        statements.upAfter.push(...create.after);
+        downLines.push(drop);
+      } else {
+        upLines.push(drop);
+        downLines.push(...create.lines);
+        statements.downAfter.push(...create.after);
+      }
+    }
+  }
+
+  // Option changes (timestamps, softDelete, idType)
+  if (change.optionChanges) {
+    if (change.optionChanges.timestamps) {
+      const { from, to } = change.optionChanges.timestamps;
+      const columns = generateTimestampColumns();
+      const add = statement(
+        '$table->timestamps();',
+        ...columns.map((column): SchemaOperation => ({ type: 'addColumn', tableName, column }))
+      );
+      const drop = statement(
+        '$table->dropTimestamps();',
+        ...columns.map((column): SchemaOperation => ({ type: 'dropColumn', tableName, columnName: column.name }))
+      );
+      if (to && !from) {
+        upLines.push(add);
+        downLines.push(drop);
+      } else if (from && !to) {
+        upLines.push(drop);
+        downLines.push(add);
+      }
+    }
+
+    if (change.optionChanges.softDelete) {
+      const { from, to } = change.optionChanges.softDelete;
+      const column = generateSoftDeleteColumn();
+      const add = statement('$table->softDeletes();', { type: 'addColumn', tableName, column });
+      const drop = statement('$table->dropSoftDeletes();', { type: 'dropColumn', tableName, columnName: column.name });
+      if (to && !from) {
+        upLines.push(add);
+        downLines.push(drop);
+      } else if (from && !to) {
+        upLines.push(drop);
+        downLines.push(add);
+      }
+    }
+
+    // Handle idType changes (BigInt <-> Uuid <-> Int <-> String)
+    // This is a complex operation requiring primary key column type change
+    if (change.optionChanges.idType) {
+      const { from, to } = change.optionChanges.idType;
+      const fromType = from ?? 'BigInt';
+      const toType = to ?? 'BigInt';
+
+      // Generate appropriate column type change for primary key
+      const getColumnMethod = (type: string): string => {
+        switch (type) {
+          case 'Uuid': return 'uuid';
+          case 'Int': return 'unsignedInteger';
+          case 'String': return 'string';
+          default: return 'unsignedBigInteger'; // BigInt
+        }
+      };
+
+      const toMethod = getColumnMethod(toType);
+      const fromMethod = getColumnMethod(fromType);
+      // PostgreSQL names the primary key constraint {table}_pkey
+      const primaryName = options.driver === 'pgsql' ? `${tableName}_pkey` : 'id';
+
+      if ((options.driver === 'pgsql' || options.driver === 'sqlsrv') && (fromType === 'Uuid' || toType === 'Uuid')) {
+        warnings.push(
+          `${options.driver} cannot convert existing ${fromType} ids to ${toType} in place (${tableName}.id); migrate the data before running this migration`
+        );
+      }
+      if (options.driver === 'sqlsrv') {
+        warnings.push(
+          `sqlsrv generates the primary key constraint name of ${tableName}; replace dropPrimary('id') with the actual constraint name`
+        );
+      }
+
+      const changeId = (method: string) => changeColumnStatement(tableName, { name: 'id', method, args: ['id'], modifiers: [] });
+      const dropPrimary = statement(`$table->dropPrimary('${primaryName}');`, { type: 'dropPrimary', tableName });
+      const addPrimary = statement(`$table->primary('id');`, { type: 'addPrimary', tableName, columns: ['id'] });
+
+      // Use DB::statement for raw SQL to modify primary key column type
+      // This is necessary because Laravel's change() doesn't work well with primary keys
+      upLines.push(statement(`// Changing primary key type from ${fromType} to ${toType}`));
+      upLines.push(statement(`// Note: This requires doctrine/dbal package`));
+      if (toType === 'Uuid' || fromType === 'Uuid') {
+        upLines.push(dropPrimary, changeId(toMethod), addPrimary);
+      } else {
+        // For Int <-> BigInt changes, simpler column type change
+        upLines.push(changeId(toMethod));
+      }
+
+      downLines.push(statement(`// Reverting primary key type from ${toType} to ${fromType}`));
+      if (fromType === 'Uuid' || toType === 'Uuid') {
+        downLines.push(dropPrimary, changeId(fromMethod), addPrimary);
+      } else {
+        downLines.push(changeId(fromMethod));
+      }
+    }
+  }
+
+  // Table option changes (comment, charset, collation, engine)
+  const tableOptionChanges = getTableOptionChanges(change);
+  if (Object.keys(tableOptionChanges).length > 0) {
+    const currentSchema = allSchemas[change.schemaName];
+    const currentOptions = (currentSchema && schemaToTableOptions(currentSchema, options.locale)) ?? {};
+    const previous = adaptTableOptionsForDriver(
+      tableName,
+      toChangedTableOptions(tableOptionChanges, 'from', currentOptions, options),
+      options.driver
+    ).options;
+    const current = adaptTableOptionsForDriver(
+      tableName,
+      toChangedTableOptions(tableOptionChanges, 'to', currentOptions, options),
+      options.driver
+    );
+    warnings.push(...current.warnings);
+
+    // Laravel applies a table comment in Schema::table too; an empty comment removes it
+    if (previous.comment !== current.options.comment) {
+      upLines.push(formatCommentChange(tableName, current.options.comment));
+      downLines.push(formatCommentChange(tableName, previous.comment));
+    }
+    statements.upAfter.push(...formatTableOptionChanges(tableName, previous, current.options));
+    statements.downAfter.push(...formatTableOptionChanges(tableName, current.options, previous));
+  }
+
+  return {
+    ...renderAlterMigration(tableName, upLines, downLines, options, statements),
+    warnings,
+  };
+}
+
+/**
+ * Formats the Schema::table line setting the comment of a table (an empty comment removes it).
+ */
+function formatCommentChange(tableName: string, comment: string | undefined): MigrationStatement {
+  const [code = ''] = formatTableOptions({ comment: comment ?? '' });
+  return statement(code, { type: 'setTableOptions', tableName, options: { comment } });
+}
+
+/**
+ * Formats the statements changing the engine, character set and collation of an existing table.
+ */
+function formatTableOptionChanges(tableName: string, from: TableOptions, to: TableOptions): MigrationStatement[] {
+  const engine = { engine: to.engine };
+  const encoding = { charset: to.charset, collation: to.collation };
+
+  return [
+    ...formatTableOptionStatements(tableName, { engine: from.engine }, engine)
+      .map(code => statement(code, { type: 'setTableOptions', tableName, options: engine })),
+    ...formatTableOptionStatements(tableName, { charset: from.charset, collation: from.collation }, encoding)
+      .map(code => statement(code, { type: 'setTableOptions', tableName, options: encoding })),
+  ];
+}
+
+/**
+ * Renders a Schema::table statement, with optional statements before and after it.
+ * The closure is omitted when only the surrounding statements change the table.
+ */
+function renderTableStatement(
+  tableName: string,
+  lines: readonly MigrationStatement[],
+  before: readonly MigrationStatement[] = [],
+  after: readonly MigrationStatement[] = []
+): MigrationStatement {
+  const parts = before.map(line => indentStatement(line));
+  if (lines.length > 0 || (before.length === 0 && after.length === 0)) {
+    const closure = joinStatements(lines.map(line => indentStatement(line, '            ')));
+    parts.push(statement(`        Schema::table('${tableName}', function (Blueprint $table) {
+${closure.code}
+        });`, ...closure.operations));
+  }
+  parts.push(...after.map(line => indentStatement(line)));
+  return joinStatements(parts);
+}
+
+/**
+ * Renders an ALTER migration applying the given Schema::table lines.
+ */
+function renderAlterMigration(
+  tableName: string,
+  upLines: readonly MigrationStatement[],
+  downLines: readonly MigrationStatement[],
+  options: MigrationOptions = {},
+  statements?: TableStatements
+): Pick<MigrationFile, 'content' | 'operations'> {
+  return renderMigration(
+    renderTableStatement(tableName, upLines, statements?.upBefore, statements?.upAfter),
+    renderTableStatement(tableName, downLines, statements?.downBefore, statements?.downAfter),
+    options
+  );
+}
+
+/**
+ * Renders a migration file with the given up() and down() bodies, along with their operations.
+ */
+function renderMigration(
+  up: MigrationStatement,
+  down: MigrationStatement,
+  options: MigrationOptions = {}
+): Pick<MigrationFile, 'content' | 'operations'> {
+  const upContent = up.code;
+  const downContent = down.code;
+  const connection = options.connection
+    ? `\n    protected $connection = '${options.connection}';\n`
+    : '';
+
+  const content = `<?php
+
+/**
+ * ⚠️ DO NOT EDIT THIS FILE! ⚠️
+ * このファイルを編集しないでください！
+ * KHÔNG ĐƯỢC SỬA FILE NÀY!
+ *
  * This file is AUTO-GENERATED by Omnify.
  * Any manual changes will be OVERWRITTEN on next generation.
  *
@@ -390,9 +1299,7 @@ function generateAlterMigrationContent(
  * @generated by @famgia/omnify-laravel
  */
 
-use Illuminate\\Database\\Migrations\\Migration;
-use Illuminate\\Database\\Schema\\Blueprint;
-use Illuminate\\Support\\Facades\\Schema;
+${renderMigrationImports(upContent + downContent)}
 
 return new class extends Migration
 {${connection}
@@ -401,9 +1308,7 @@ return new class extends Migration
      */
     public function up(): void
     {
-        Schema::table('${tableName}', function (Blueprint $table) {
-${upLines.join('\n')}
-        });
+${upContent}
     }
 
     /**
@@ -411,20 +1316,22 @@ ${upLines.join('\n')}
      */
     public function down(): void
     {
-        Schema::table('${tableName}', function (Blueprint $table) {
-${downLines.join('\n')}
-        });
+${downContent}
     }
 };
 `;
+
+  return { content, operations: { up: up.operations, down: down.operations } };
 }
 
 /**
  * Generates ALTER migration for a modified schema.
+ * Pass the current schemas so FK columns match the target's idType and tableName.
  */
 export function generateAlterMigration(
-  change: SchemaChange,
-  options: MigrationOptions = {}
+  change: TableSchemaChange,
+  options: MigrationOptions = {},
+  allSchemas: SchemaCollection = {}
 ): MigrationFile | null {
   if (change.changeType !== 'modified') {
     return null;
@@ -432,42 +1339,637 @@ export function generateAlterMigration(
 
   // Check if there are actual changes to migrate
   const hasChanges =
-    (change.columnChanges && change.columnChanges.length > 0) ||
+    (change.columnChanges && change.columnChanges.some(col => !isPivotOnlyColumnChange(col))) ||
     (change.indexChanges && change.indexChanges.length > 0) ||
     (change.optionChanges &&
       (change.optionChanges.timestamps ||
         change.optionChanges.softDelete ||
-        change.optionChanges.idType));
+        change.optionChanges.idType)) ||
+    Object.keys(getTableOptionChanges(change)).length > 0;
 
   if (!hasChanges) {
     return null;
   }
 
-  const tableName = toTableName(change.schemaName);
+  const currentSchema = allSchemas[change.schemaName];
+  const tableName = currentSchema?.options?.tableName ?? toTableName(change.schemaName);
   const timestamp = options.timestamp ?? generateTimestamp();
   const fileName = `${timestamp}_update_${tableName}_table.php`;
 
-  const content = generateAlterMigrationContent(tableName, change, options);
+  // SQLite cannot change a primary key in place, so the table is rebuilt
+  if (options.driver === 'sqlite' && change.optionChanges?.idType && currentSchema) {
+    return {
+      fileName,
+      className: `Update${change.schemaName}Table`,
+      ...generateSqliteRebuildContent(change, currentSchema, options, allSchemas),
+      tables: [tableName],
+      type: 'alter',
+      warnings: [`sqlite cannot change the primary key type of ${tableName} in place; the table is rebuilt and existing ids are copied as-is`],
+      risk: summarizeRisk(assessAlterRisk(tableName, change, options, allSchemas)),
+    };
+  }
+
+  const { content, operations, warnings } = generateAlterMigrationContent(tableName, change, options, allSchemas);
 
   return {
     fileName,
     className: `Update${change.schemaName}Table`,
     content,
+    operations,
     tables: [tableName],
     type: 'alter',
+    warnings: warnings.length > 0 ? warnings : undefined,
+    risk: summarizeRisk(assessAlterRisk(tableName, change, options, allSchemas)),
+  };
+}
+
+/**
+ * Renders the statements rebuilding a table from one blueprint into another:
+ * create a temporary table, copy the shared columns, drop the old table and
+ * rename. Indexes are created after the rename so they keep their usual names.
+ */
+function renderTableRebuild(from: TableBlueprint, to: TableBlueprint): MigrationStatement {
+  const tableName = to.tableName;
+  const temporaryName = `${tableName}__rebuild`;
+  const fromColumnNames = new Set(from.columns.map(column => column.name));
+  const copiedColumns = to.columns
+    .map(column => column.name)
+    .filter(name => fromColumnNames.has(name))
+    .join(', ');
+
+  const lines = [
+    statement('        Schema::disableForeignKeyConstraints();', { type: 'foreignKeyChecks', enabled: false }),
+    statement(''),
+    createTableStatement({ ...to, tableName: temporaryName, indexes: [] }),
+    statement(`        DB::statement('INSERT INTO ${temporaryName} (${copiedColumns}) SELECT ${copiedColumns} FROM ${tableName}');`),
+    statement(`        Schema::drop('${tableName}');`, { type: 'dropTable', tableName, ifExists: false }),
+    statement(`        Schema::rename('${temporaryName}', '${tableName}');`, { type: 'renameTable', from: temporaryName, to: tableName }),
+  ];
+  if (to.indexes.length > 0) {
+    lines.push(renderTableStatement(
+      tableName,
+      to.indexes.filter(index => !requiresIndexStatement(index)).map(index => formatAddIndex(tableName, index)),
+      [],
+      to.indexes.filter(requiresIndexStatement).map(index => formatAddIndex(tableName, index))
+    ));
+  }
+  lines.push(statement(''), statement('        Schema::enableForeignKeyConstraints();', { type: 'foreignKeyChecks', enabled: true }));
+
+  return joinStatements(lines);
+}
+
+/**
+ * Generates the content of a SQLite migration that rebuilds the table
+ * of a modified schema (up: previous → current, down: current → previous).
+ */
+function generateSqliteRebuildContent(
+  change: TableSchemaChange,
+  currentSchema: LoadedSchema,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection
+): Pick<MigrationFile, 'content' | 'operations'> {
+  const blueprintOptions = {
+    customTypes: options.customTypes,
+    pluginEnums: options.pluginEnums,
+    locale: options.locale,
+    driver: options.driver,
+    checkConstraints: options.checkConstraints,
+  };
+  const previousSchema = revertSchemaChange(change, currentSchema);
+  const previous = schemaToBlueprint(
+    previousSchema,
+    { ...allSchemas, [change.schemaName]: previousSchema },
+    blueprintOptions
+  );
+  const current = schemaToBlueprint(currentSchema, allSchemas, blueprintOptions);
+
+  return renderMigration(renderTableRebuild(previous, current), renderTableRebuild(current, previous), options);
+}
+
+/**
+ * Rebuilds the schema of a removed table from its TableSchemaChange
+ * (previous column definitions, removed indexes and previous options, including table options).
+ * Returns null when the change carries no previous column definitions.
+ */
+function previousSchemaFromChange(change: TableSchemaChange): LoadedSchema | null {
+  const properties: Record<string, PropertyDefinition> = {};
+  for (const col of change.columnChanges ?? []) {
+    if (col.previousDef) {
+      properties[col.previousColumn ?? col.column] = col.previousDef as unknown as PropertyDefinition;
+    }
+  }
+
+  if (Object.keys(properties).length === 0) {
+    return null;
+  }
+
+  // Index snapshots keep their kind, algorithm, partial condition and parser
+  const indexes = (change.indexChanges ?? [])
+    .filter(idx => idx.changeType === 'removed')
+    .map(idx => ({ ...idx.index, columns: [...idx.index.columns] }));
+  const optionChanges = change.optionChanges;
+  const { comment, charset, collation, engine } = getTableOptionChanges(change);
+
+  return {
+    name: change.schemaName,
+    kind: 'object',
+    filePath: '',
+    relativePath: '',
+    displayName: comment?.from,
+    properties,
+    options: {
+      tableName: change.optionChanges?.tableName?.from,
+      timestamps: optionChanges?.timestamps?.from,
+      softDelete: optionChanges?.softDelete?.from,
+      idType: optionChanges?.idType?.from,
+      indexes: indexes.length > 0 ? indexes : undefined,
+      charset: charset?.from,
+      collation: collation?.from,
+      engine: engine?.from,
+    },
+  } as unknown as LoadedSchema;
+}
+
+/**
+ * Gets the signature of a schema's columns (property names and types), used to match renames.
+ */
+function toColumnSignature(properties: LoadedSchema['properties']): string {
+  return Object.entries(properties ?? {})
+    .map(([name, prop]) => `${name}:${prop.type}`)
+    .sort()
+    .join(',');
+}
+
+/**
+ * Detects renamed tables in a change set:
+ * - a removed schema and an added schema naming it in `renamedFrom` (or `previousName`),
+ * - a removed and an added schema with the same columns, when only one pair matches,
+ * - a modified schema whose `options.tableName` changed.
+ */
+export function detectSchemaRenames(
+  changes: readonly TableSchemaChange[],
+  allSchemas: SchemaCollection
+): SchemaRename[] {
+  const tableNameOf = (schemaName: string) =>
+    allSchemas[schemaName]?.options?.tableName ?? toTableName(schemaName);
+  const removed = new Map(
+    changes.filter(change => change.changeType === 'removed').map(change => [change.schemaName, change])
+  );
+  const added = changes
+    .filter(change => change.changeType === 'added')
+    .map(change => allSchemas[change.schemaName])
+    .filter((schema): schema is LoadedSchema => schema !== undefined && schema.kind !== 'enum');
+  const renames: SchemaRename[] = [];
+  const rename = (from: TableSchemaChange, to: LoadedSchema) => {
+    removed.delete(from.schemaName);
+    renames.push({
+      from: from.schemaName,
+      to: to.name,
+      fromTable: from.optionChanges?.tableName?.from ?? toTableName(from.schemaName),
+      toTable: tableNameOf(to.name),
+    });
+  };
+
+  // Explicit hints
+  const unmatched: LoadedSchema[] = [];
+  for (const schema of added) {
+    const hint = schema as { renamedFrom?: string; previousName?: string };
+    const source = removed.get(hint.renamedFrom ?? hint.previousName ?? '');
+    if (source) {
+      rename(source, schema);
+    } else {
+      unmatched.push(schema);
+    }
+  }
+
+  // Same columns, when unambiguous
+  const removedSignatures = new Map<string, TableSchemaChange[]>();
+  for (const change of removed.values()) {
+    const previous = previousSchemaFromChange(change);
+    if (previous) {
+      const signature = toColumnSignature(previous.properties);
+      removedSignatures.set(signature, [...(removedSignatures.get(signature) ?? []), change]);
+    }
+  }
+  const addedSignatures = unmatched.map(schema => toColumnSignature(schema.properties));
+  unmatched.forEach((schema, i) => {
+    const signature = addedSignatures[i]!;
+    const sources = removedSignatures.get(signature) ?? [];
+    if (sources.length === 1 && addedSignatures.filter(other => other === signature).length === 1) {
+      rename(sources[0]!, schema);
+    }
+  });
+
+  // Table name changes
+  for (const change of changes) {
+    const tableName = change.changeType === 'modified' ? change.optionChanges?.tableName : undefined;
+    const fromTable = tableName?.from ?? toTableName(change.schemaName);
+    const toTable = tableName?.to ?? tableNameOf(change.schemaName);
+    if (tableName && fromTable !== toTable) {
+      renames.push({ from: change.schemaName, to: change.schemaName, fromTable, toTable });
+    }
+  }
+
+  return renames;
+}
+
+/**
+ * Builds the column changes between the previous and current versions of a renamed schema.
+ */
+function diffRenamedSchema(
+  tableName: string,
+  previous: LoadedSchema,
+  current: LoadedSchema,
+  options: MigrationOptions,
+  allSchemas: SchemaCollection
+): TableSchemaChange {
+  const columnsOf = (columnName: string, prop: PropertyDefinition) =>
+    snapshotToPropertyColumns(tableName, columnName, prop as unknown as PropertySnapshot, options, allSchemas)
+      .map(formatColumnMethod)
+      .join('\n');
+  const previousProperties = previous.properties ?? {};
+  const currentProperties = current.properties ?? {};
+  const columnChanges: ColumnChange[] = [];
+
+  for (const [name, prop] of Object.entries(currentProperties)) {
+    const previousProp = previousProperties[name];
+    const currentDef = prop as unknown as PropertySnapshot;
+    if (!previousProp) {
+      columnChanges.push({ column: name, changeType: 'added', currentDef });
+    } else if (columnsOf(name, previousProp) !== columnsOf(name, prop)) {
+      columnChanges.push({ column: name, changeType: 'modified', previousDef: previousProp as unknown as PropertySnapshot, currentDef });
+    }
+  }
+  for (const [name, prop] of Object.entries(previousProperties)) {
+    if (!(name in currentProperties)) {
+      columnChanges.push({ column: name, changeType: 'removed', previousDef: prop as unknown as PropertySnapshot });
+    }
+  }
+
+  return { schemaName: current.name, changeType: 'modified', columnChanges } as TableSchemaChange;
+}
+
+/**
+ * Formats the statement renaming a table.
+ */
+function formatRenameTable(from: string, to: string): MigrationStatement {
+  return statement(`Schema::rename('${from}', '${to}');`, { type: 'renameTable', from, to });
+}
+
+/**
+ * Formats the Schema::table line renaming an index.
+ */
+function formatRenameIndex(tableName: string, from: string, to: string): MigrationStatement {
+  return statement(`$table->renameIndex('${from}', '${to}');`, { type: 'renameIndex', tableName, from, to });
+}
+
+/**
+ * Generates a migration renaming a table with Schema::rename().
+ * Indexes, foreign keys and CHECK constraints named after the previous table get
+ * the names a fresh install creates, so later ALTER migrations find them.
+ * Foreign keys in other tables follow the rename on every supported driver.
+ */
+export function generateRenameTableMigration(
+  rename: SchemaRename,
+  options: MigrationOptions = {},
+  allSchemas: SchemaCollection = {}
+): MigrationFile {
+  const { fromTable, toTable } = rename;
+  const timestamp = options.timestamp ?? generateTimestamp();
+  const upLines: MigrationStatement[] = [];
+  const downLines: MigrationStatement[] = [];
+  const upAfter: MigrationStatement[] = [];
+  const downAfter: MigrationStatement[] = [];
+  const reasons: MigrationRiskReason[] = [];
+
+  const currentSchema = allSchemas[rename.to];
+  if (currentSchema) {
+    const blueprintOptions = {
+      customTypes: options.customTypes,
+      pluginEnums: options.pluginEnums,
+      locale: options.locale,
+      driver: options.driver,
+      checkConstraints: options.checkConstraints,
+    };
+    const current = schemaToBlueprint(currentSchema, allSchemas, blueprintOptions);
+    const previous = schemaToBlueprint(
+      { ...currentSchema, options: { ...currentSchema.options, tableName: fromTable } } as LoadedSchema,
+      allSchemas,
+      blueprintOptions
+    );
+
+    // Foreign keys cannot be renamed: they are dropped and added again
+    const foreignKeys = current.foreignKeys
+      .map((fk, i) => ({ from: previous.foreignKeys[i], to: fk }))
+      .filter((pair): pair is { from: ForeignKeyDefinition; to: ForeignKeyDefinition } =>
+        pair.from !== undefined && formatForeignKey(pair.from) !== formatForeignKey(pair.to));
+    for (const { from, to } of foreignKeys) {
+      // The table is renamed first, so the constraint named after the previous table is on the new one
+      upLines.push(dropForeignStatement(toTable, toForeignKeyName(fromTable, from.columns)));
+      downLines.push(formatDropForeign(toTable, to.columns));
+      reasons.push({ level: 'locking', target: toTable, message: `Re-creates ${to.name} over the existing rows of ${toTable}` });
+    }
+    const indexNames: [string, string][] = [];
+    current.indexes.forEach((index, i) => {
+      const from = previous.indexes[i];
+      if (from) {
+        indexNames.push([from.name ?? toIndexName(fromTable, from), index.name ?? toIndexName(toTable, index)]);
+      }
+    });
+    // Laravel names the indexes of unique() and index() column modifiers after the table
+    for (const column of current.columns) {
+      for (const { method } of column.modifiers) {
+        if (method === 'unique' || method === 'index') {
+          indexNames.push([toConstraintName(fromTable, [column.name], method), toConstraintName(toTable, [column.name], method)]);
+        }
+      }
+    }
+    for (const [fromName, toName] of indexNames) {
+      if (fromName === toName) {
+        continue;
+      }
+      upLines.push(formatRenameIndex(toTable, fromName, toName));
+      downLines.push(formatRenameIndex(toTable, toName, fromName));
+    }
+    for (const { from, to } of foreignKeys) {
+      upLines.push(addForeignStatement(toTable, to));
+      downLines.push(addForeignStatement(toTable, from));
+    }
+
+    (current.checks ?? []).forEach((check, i) => {
+      const from = previous.checks?.[i];
+      if (from && from.name !== check.name) {
+        upAfter.push(dropCheckStatement(toTable, from), addCheckStatement(toTable, check));
+        downAfter.push(dropCheckStatement(toTable, check), addCheckStatement(toTable, from));
+      }
+    });
+  }
+  downAfter.push(formatRenameTable(toTable, fromTable));
+
+  return {
+    fileName: `${timestamp}_rename_${fromTable}_to_${toTable}_table.php`,
+    className: `Rename${toTableClassName(fromTable)}To${toTableClassName(toTable)}Table`,
+    ...renderMigration(
+      renderTableStatement(toTable, upLines, [formatRenameTable(fromTable, toTable)], upAfter),
+      renderTableStatement(toTable, downLines, [], downAfter),
+      options
+    ),
+    tables: [toTable, fromTable],
+    type: 'alter',
+    schemaName: rename.to,
+    risk: summarizeRisk(reasons),
   };
 }
 
+/**
+ * Values of an enum schema.
+ */
+type EnumSchemaValues = readonly (string | InlineEnumValue)[];
+
+/**
+ * Generates the migration updating the EnumRef columns of an enum schema whose values changed.
+ * Columns are resized to the longest value and their CHECK constraints rewritten;
+ * rows holding removed values are remapped first (`enumRemap` on the enum schema).
+ * Returns null without previous values (`previousEnumValues`) or column changes.
+ */
+function generateEnumValueMigration(
+  change: TableSchemaChange,
+  options: MigrationOptions = {},
+  allSchemas: SchemaCollection = {}
+): MigrationFile | null {
+  const enumSchema = allSchemas[change.schemaName];
+  const previousValues = options.previousEnumValues?.get(change.schemaName);
+  if (enumSchema?.kind !== 'enum' || !previousValues) {
+    return null;
+  }
+
+  const previousSchemas: SchemaCollection = {
+    ...allSchemas,
+    [change.schemaName]: { ...enumSchema, values: previousValues } as LoadedSchema,
+  };
+  const fromValues = getEnumStringValues(previousValues);
+  const toValues = getEnumStringValues((enumSchema.values ?? []) as EnumSchemaValues);
+  const removed = fromValues.filter(value => !toValues.includes(value));
+  const added = toValues.filter(value => !fromValues.includes(value));
+  const remap = getEnumRemap(enumSchema);
+  const upStatements: MigrationStatement[] = [];
+  const downStatements: MigrationStatement[] = [];
+  const tables: string[] = [];
+  const warnings: string[] = [];
+  const reasons: MigrationRiskReason[] = [];
+
+  for (const schema of Object.values(allSchemas)) {
+    if (schema.kind === 'enum') {
+      continue;
+    }
+
+    const tableName = schema.options?.tableName ?? toTableName(schema.name);
+    const upLines: MigrationStatement[] = [];
+    const downLines: MigrationStatement[] = [];
+    const statements: TableStatements = { upBefore: [], upAfter: [], downBefore: [], downAfter: [] };
+
+    for (const [propName, property] of Object.entries(schema.properties ?? {})) {
+      if (property.type !== 'EnumRef' || (property as { enum?: string }).enum !== change.schemaName) {
+        continue;
+      }
+
+      const prop = property as unknown as PropertySnapshot;
+      const [previous] = snapshotToColumns(propName, prop, options, previousSchemas);
+      const [current] = snapshotToColumns(propName, prop, options, allSchemas);
+      if (!previous || !current) {
+        continue;
+      }
+
+      const toChange = (column: ColumnMethod) => changeColumnStatement(tableName, {
+        ...column,
+        modifiers: column.modifiers.filter(modifier => !INDEX_MODIFIERS.has(modifier.method)),
+      });
+      if (formatColumnMethod(previous) !== formatColumnMethod(current)) {
+        upLines.push(toChange(current));
+        downLines.push(toChange(previous));
+        reasons.push(assessColumnChange(tableName, previous, current));
+      }
+
+      const previousChecks = supportedChecks(snapshotToChecks(tableName, propName, prop, options, previousSchemas), options.driver).checks;
+      const currentChecks = supportedChecks(snapshotToChecks(tableName, propName, prop, options, allSchemas), options.driver).checks;
+      const upChecks = formatCheckChanges(tableName, previousChecks, currentChecks);
+      const downChecks = formatCheckChanges(tableName, currentChecks, previousChecks);
+      const previousExpressions = new Set(previousChecks.map(check => check.expression));
+      for (const check of currentChecks.filter(check => !previousExpressions.has(check.expression))) {
+        reasons.push({ level: 'locking', target: tableName, message: `Checks every row of ${tableName} against ${check.name}` });
+      }
+
+      // Remap while the column fits both the old and the new values
+      const target = `${tableName}.${current.name}`;
+      const narrowed = Number(current.args[1]) < Number(previous.args[1]);
+      const upRemaps = formatEnumRemap(tableName, current.name, removed, remap);
+      const downRemaps = formatEnumRemap(tableName, current.name, added, {});
+      statements.upBefore.push(...upChecks.before, ...(narrowed ? upRemaps : []));
+      statements.upAfter.push(...(narrowed ? [] : upRemaps), ...upChecks.after);
+      statements.downBefore.push(...downChecks.before, ...(narrowed ? [] : downRemaps));
+      statements.downAfter.push(...(narrowed ? downRemaps : []), ...downChecks.after);
+      if (removed.length > 0) {
+        warnings.push(describeEnumValueRemoval(target, removed, remap));
+        reasons.push({
+          level: 'data-loss',
+          target,
+          message: `Removes ${removed.map(value => `'${value}'`).join(', ')} from ${target}; rows holding them are remapped or rejected`,
+        });
+      }
+    }
+
+    const changed = upLines.length > 0 || statements.upBefore.length > 0 || statements.upAfter.length > 0;
+    if (changed) {
+      tables.push(tableName);
+      upStatements.push(renderTableStatement(tableName, upLines, statements.upBefore, statements.upAfter));
+      downStatements.push(renderTableStatement(tableName, downLines, statements.downBefore, statements.downAfter));
+    }
+  }
+
+  if (tables.length === 0) {
+    return null;
+  }
+
+  const timestamp = options.timestamp ?? generateTimestamp();
+  return {
+    fileName: `${timestamp}_update_${toSnakeCase(change.schemaName)}_enum_columns.php`,
+    className: `Update${change.schemaName}EnumColumns`,
+    ...renderMigration(joinStatements(upStatements, '\n\n'), joinStatements(downStatements.reverse(), '\n\n'), options),
+    tables,
+    type: 'alter',
+    warnings: warnings.length > 0 ? warnings : undefined,
+    risk: summarizeRisk(reasons),
+  };
+}
+
+/**
+ * Gets the archive table name used instead of dropping a table.
+ */
+function toArchiveTableName(tableName: string, timestamp: string): string {
+  return `${tableName}_archived_${timestamp.replace(/_/g, '')}`;
+}
+
+/**
+ * Association fields naming a polymorphic pivot table.
+ */
+interface MorphAssociation {
+  relation?: string;
+  target?: string;
+  joinTable?: string;
+  morphName?: string;
+  mappedBy?: string;
+}
+
+/**
+ * Collects the MorphToMany pivot tables used by the given schemas, whichever side owns them:
+ * MorphToMany associations (owning or not) and MorphedByMany associations, whose
+ * pivot names come from the MorphToMany side.
+ */
+function collectMorphPivotTableNames(schemaNames: readonly string[], schemas: SchemaCollection): Set<string> {
+  const tableNames = new Set<string>();
+
+  for (const name of schemaNames) {
+    for (const [propName, property] of Object.entries(schemas[name]?.properties ?? {})) {
+      const assoc = property as MorphAssociation;
+      if (property.type !== 'Association' || !assoc.target) {
+        continue;
+      }
+
+      if (assoc.relation === 'MorphToMany') {
+        tableNames.add(getMorphToManyNames(propName, assoc.target, assoc).tableName);
+      } else if (assoc.relation === 'MorphedByMany') {
+        const owner = Object.entries(schemas[assoc.target]?.properties ?? {}).find(([ownerPropName, ownerProp]) => {
+          const ownerAssoc = ownerProp as MorphAssociation;
+          return ownerProp.type === 'Association' && ownerAssoc.relation === 'MorphToMany' && ownerAssoc.target === name
+            && (!assoc.mappedBy || ownerPropName === assoc.mappedBy);
+        });
+        tableNames.add(owner
+          ? getMorphToManyNames(owner[0], name, owner[1] as MorphAssociation).tableName
+          : getMorphToManyNames(toTableName(name), name, assoc).tableName);
+      }
+    }
+  }
+
+  return tableNames;
+}
+
 /**
  * Generates DROP migration for a removed schema.
+ *
+ * When the previous schema is known, down() recreates the table
+ * (columns, FKs, indexes) and its ManyToMany and MorphToMany pivot tables.
+ * With `archiveDroppedTables`, tables are renamed instead of dropped.
  */
 export function generateDropTableMigration(
   schemaName: string,
-  options: MigrationOptions = {}
+  options: MigrationOptions = {},
+  previousSchema?: LoadedSchema,
+  allSchemas: SchemaCollection = {}
 ): MigrationFile {
-  const tableName = toTableName(schemaName);
+  const tableName = previousSchema?.options?.tableName ?? toTableName(schemaName);
   const timestamp = options.timestamp ?? generateTimestamp();
-  const fileName = `${timestamp}_drop_${tableName}_table.php`;
+
+  // Pivot tables owned by the removed schema (skip tables defined by existing schemas,
+  // and MorphToMany pivots still shared with remaining schemas)
+  const explicitTableNames = new Set(
+    Object.values(allSchemas).map(schema => schema.options?.tableName ?? toTableName(schema.name))
+  );
+  const remainingPivots = collectPivotBlueprints(Object.keys(allSchemas), allSchemas, options);
+  // Morph pivots still used by remaining schemas from either side (the removed schema names MorphedByMany pivots it owned)
+  const remainingMorphPivots = previousSchema
+    ? collectMorphPivotTableNames(Object.keys(allSchemas), { ...allSchemas, [schemaName]: previousSchema })
+    : new Set<string>();
+  const pivotTables = previousSchema
+    ? [
+        ...extractManyToManyRelations(previousSchema, allSchemas).map(generatePivotTableBlueprint),
+        ...extractMorphToManyRelations(previousSchema, allSchemas).map(generateMorphToManyPivotBlueprint),
+      ].filter((pivot, index, pivots) =>
+        !explicitTableNames.has(pivot.tableName)
+        && !remainingPivots.has(pivot.tableName)
+        && !remainingMorphPivots.has(pivot.tableName)
+        && pivots.findIndex(other => other.tableName === pivot.tableName) === index)
+    : [];
+
+  const upLines: MigrationStatement[] = [];
+  const downLines: MigrationStatement[] = [];
+  const dropTable = (table: string) =>
+    statement(`        Schema::dropIfExists('${table}');`, { type: 'dropTable', tableName: table, ifExists: true });
+
+  if (options.archiveDroppedTables) {
+    for (const table of [...pivotTables.map(pivot => pivot.tableName), tableName]) {
+      const archiveName = toArchiveTableName(table, timestamp);
+      upLines.push(indentStatement(formatRenameTable(table, archiveName)));
+      downLines.unshift(indentStatement(formatRenameTable(archiveName, table)));
+    }
+  } else {
+    // Pivot tables reference the table, so drop them first
+    for (const pivot of pivotTables) {
+      upLines.push(dropTable(pivot.tableName));
+    }
+    upLines.push(dropTable(tableName));
+
+    if (previousSchema) {
+      const blueprint = schemaToBlueprint(previousSchema, allSchemas, {
+        customTypes: options.customTypes,
+        pluginEnums: options.pluginEnums,
+        locale: options.locale,
+        driver: options.driver,
+        checkConstraints: options.checkConstraints,
+      });
+      downLines.push(createTableStatement(blueprint));
+      for (const pivot of pivotTables) {
+        downLines.push(createTableStatement(adaptBlueprintForDriver(pivot, options.driver)));
+      }
+    } else {
+      downLines.push(statement('        // Cannot recreate table without full schema'));
+      downLines.push(statement('        // Consider restoring from backup if needed'));
+    }
+  }
+  const up = joinStatements(upLines);
+  const down = joinStatements(downLines);
+
+  const action = options.archiveDroppedTables ? 'archive' : 'drop';
+  const fileName = `${timestamp}_${action}_${tableName}_table.php`;
 
   const connection = options.connection
     ? `\n    protected $connection = '${options.connection}';\n`
@@ -486,9 +1988,7 @@ export function generateDropTableMigration(
  * @generated by @famgia/omnify-laravel
  */
 
-use Illuminate\\Database\\Migrations\\Migration;
-use Illuminate\\Database\\Schema\\Blueprint;
-use Illuminate\\Support\\Facades\\Schema;
+${renderMigrationImports(down.code)}
 
 return new class extends Migration
 {${connection}
@@ -497,7 +1997,7 @@ return new class extends Migration
      */
     public function up(): void
     {
-        Schema::dropIfExists('${tableName}');
+${up.code}
     }
 
     /**
@@ -505,27 +2005,457 @@ return new class extends Migration
      */
     public function down(): void
     {
-        // Cannot recreate table without full schema
-        // Consider restoring from backup if needed
+${down.code}
     }
 };
 `;
 
   return {
     fileName,
-    className: `Drop${schemaName}Table`,
+    className: `${options.archiveDroppedTables ? 'Archive' : 'Drop'}${schemaName}Table`,
     content,
-    tables: [tableName],
+    tables: [tableName, ...pivotTables.map(pivot => pivot.tableName)],
     type: 'drop',
+    operations: { up: up.operations, down: down.operations },
+    // Archived tables keep their rows
+    risk: summarizeRisk(options.archiveDroppedTables
+      ? []
+      : [tableName, ...pivotTables.map(pivot => pivot.tableName)].map(table => dropTableRisk(table, previousSchema !== undefined))),
+  };
+}
+
+/**
+ * Rebuilds the previous version of a modified schema by reverting
+ * its column changes and idType change on the current schema.
+ */
+function revertSchemaChange(change: TableSchemaChange, current: LoadedSchema): LoadedSchema {
+  const properties: Record<string, PropertyDefinition> = { ...current.properties };
+
+  for (const col of change.columnChanges ?? []) {
+    const previousDef = col.previousDef as unknown as PropertyDefinition | undefined;
+    if (col.changeType === 'added') {
+      delete properties[col.column];
+    } else if (col.changeType === 'renamed') {
+      const def = previousDef ?? properties[col.column];
+      delete properties[col.column];
+      if (col.previousColumn && def) {
+        properties[col.previousColumn] = def;
+      }
+    } else if (previousDef) {
+      properties[col.column] = previousDef;
+    }
+  }
+
+  const idType = change.optionChanges?.idType;
+  return {
+    ...current,
+    properties,
+    options: idType ? { ...current.options, idType: idType.from } : current.options,
+  } as LoadedSchema;
+}
+
+/**
+ * Collects the auto-generated pivot tables (ManyToMany and MorphToMany)
+ * of the given schemas, skipping tables defined by an explicit schema.
+ */
+function collectPivotBlueprints(
+  schemaNames: readonly string[],
+  schemas: SchemaCollection,
+  options: MigrationOptions
+): Map<string, TableBlueprint> {
+  const explicitTableNames = new Set(
+    Object.values(schemas).map(schema => schema.options?.tableName ?? toTableName(schema.name))
+  );
+  const blueprints = new Map<string, TableBlueprint>();
+
+  for (const name of schemaNames) {
+    const schema = schemas[name];
+    if (!schema) continue;
+
+    const pivots = [
+      ...extractManyToManyRelations(schema, schemas).map(generatePivotTableBlueprint),
+      ...extractMorphToManyRelations(schema, schemas).map(generateMorphToManyPivotBlueprint),
+    ];
+    for (const blueprint of pivots) {
+      if (!explicitTableNames.has(blueprint.tableName) && !blueprints.has(blueprint.tableName)) {
+        blueprints.set(blueprint.tableName, adaptBlueprintForDriver(blueprint, options.driver));
+      }
+    }
+  }
+
+  return blueprints;
+}
+
+/**
+ * A pivot table following the rename of a table it joins.
+ * `moved` is the previous pivot with the current table and column names.
+ */
+interface RenamedPivotTable {
+  previous: TableBlueprint;
+  moved: TableBlueprint;
+  /** Previous and current names of the renamed columns */
+  columns: [string, string][];
+}
+
+/**
+ * Pivot tables that differ between the previous and current schemas.
+ */
+interface PivotTableDiff {
+  created: TableBlueprint[];
+  dropped: TableBlueprint[];
+  altered: { previous: TableBlueprint; current: TableBlueprint }[];
+  renamed: RenamedPivotTable[];
+}
+
+/**
+ * Matches a previous pivot table with a current one after the tables it joins were renamed.
+ * Columns are matched by position, as pivot blueprints are generated in the same order;
+ * returns null unless the pivot is otherwise unchanged.
+ */
+function matchRenamedPivot(
+  previous: TableBlueprint,
+  current: TableBlueprint,
+  renamedTables: ReadonlyMap<string, string>
+): RenamedPivotTable | null {
+  const renameTable = (table: string) => renamedTables.get(table) ?? table;
+  if (
+    !previous.foreignKeys.some(fk => renamedTables.has(fk.on[0] ?? '')) ||
+    previous.columns.length !== current.columns.length
+  ) {
+    return null;
+  }
+
+  const columns = previous.columns
+    .map((column, i): [string, string] => [column.name, current.columns[i]!.name])
+    .filter(([from, to]) => from !== to);
+  const columnNames = new Map(columns);
+  const rename = (name: string) => columnNames.get(name) ?? name;
+  // Constraints get the names a fresh install creates
+  const moved = nameBlueprintConstraints({
+    ...previous,
+    tableName: current.tableName,
+    columns: previous.columns.map(column =>
+      columnNames.has(column.name) ? { ...column, name: rename(column.name), args: [rename(column.name), ...column.args.slice(1)] } : column),
+    primaryKey: previous.primaryKey?.map(rename),
+    foreignKeys: previous.foreignKeys.map(fk => ({ ...fk, name: undefined, columns: fk.columns.map(rename), on: fk.on.map(renameTable) })),
+    indexes: previous.indexes.map(index => ({ ...index, name: undefined, columns: index.columns.map(rename) })),
+    checks: previous.checks?.map((check, i) => ({ ...check, name: current.checks?.[i]?.name ?? check.name })),
+  });
+
+  const checkChanges = formatCheckChanges(current.tableName, moved.checks ?? [], current.checks ?? []);
+  if (
+    formatPivotTableChanges(moved, current).length > 0 ||
+    checkChanges.before.length > 0 ||
+    checkChanges.after.length > 0
+  ) {
+    return null;
+  }
+  return { previous, moved, columns };
+}
+
+/**
+ * Moves the dropped and created (or altered) pivot tables that follow a renamed table
+ * to the renamed pivot tables, so they keep their rows.
+ */
+function matchRenamedPivots(diff: PivotTableDiff, renames: readonly SchemaRename[]): PivotTableDiff {
+  // Pivot tables are named after the schema names
+  const renamedTables = new Map(
+    renames.filter(rename => rename.from !== rename.to).map(rename => [toTableName(rename.from), toTableName(rename.to)])
+  );
+  if (renamedTables.size === 0) {
+    return diff;
+  }
+
+  const renamed: RenamedPivotTable[] = [];
+  const altered = diff.altered.filter(({ previous, current }) => {
+    const match = matchRenamedPivot(previous, current, renamedTables);
+    if (match) {
+      renamed.push(match);
+    }
+    return !match;
+  });
+  const created = [...diff.created];
+  const dropped = diff.dropped.filter(previous => {
+    for (const [i, current] of created.entries()) {
+      const match = matchRenamedPivot(previous, current, renamedTables);
+      if (match) {
+        renamed.push(match);
+        created.splice(i, 1);
+        return false;
+      }
+    }
+    return true;
+  });
+
+  return { created, dropped, altered, renamed };
+}
+
+/**
+ * Compares the pivot tables of the previous and current schemas.
+ * Pivot tables of added and removed schemas are left to their CREATE and DROP migrations.
+ */
+function diffPivotTables(
+  changes: readonly TableSchemaChange[],
+  allSchemas: SchemaCollection,
+  options: MigrationOptions,
+  renames: readonly SchemaRename[] = []
+): PivotTableDiff {
+  const previousSchemas: Record<string, LoadedSchema> = { ...allSchemas };
+  const createdOrRemoved = new Set<string>();
+  // A renamed schema's previous version is stored under its current name
+  const renamedTo = new Map(renames.filter(rename => rename.from !== rename.to).map(rename => [rename.from, rename.to]));
+  const renamedFrom = new Set(renamedTo.values());
+
+  for (const change of changes) {
+    const current = allSchemas[change.schemaName];
+    if (change.changeType === 'added') {
+      if (renamedFrom.has(change.schemaName)) {
+        continue;
+      }
+      delete previousSchemas[change.schemaName];
+      createdOrRemoved.add(change.schemaName);
+    } else if (change.changeType === 'removed') {
+      const previous = previousSchemaFromChange(change);
+      const to = renamedTo.get(change.schemaName);
+      if (to) {
+        if (previous) {
+          // Also under its previous name, for the associations that still target it
+          previousSchemas[to] = previous;
+          previousSchemas[change.schemaName] = previous;
+        }
+        continue;
+      }
+      if (previous) {
+        previousSchemas[change.schemaName] = previous;
+      }
+      createdOrRemoved.add(change.schemaName);
+    } else if (current) {
+      previousSchemas[change.schemaName] = revertSchemaChange(change, current);
+    }
+  }
+
+  const ownerNames = Object.keys(allSchemas).filter(name => !createdOrRemoved.has(name));
+  const previousPivots = collectPivotBlueprints(ownerNames, previousSchemas, options);
+  const currentPivots = collectPivotBlueprints(ownerNames, allSchemas, options);
+  const diff: PivotTableDiff = { created: [], dropped: [], altered: [], renamed: [] };
+
+  for (const [tableName, previous] of previousPivots) {
+    const current = currentPivots.get(tableName);
+    if (!current) {
+      diff.dropped.push(previous);
+      continue;
+    }
+
+    const checkChanges = formatCheckChanges(tableName, previous.checks ?? [], current.checks ?? []);
+    if (
+      formatPivotTableChanges(previous, current).length > 0 ||
+      checkChanges.before.length > 0 ||
+      checkChanges.after.length > 0
+    ) {
+      diff.altered.push({ previous, current });
+    }
+  }
+  for (const [tableName, current] of currentPivots) {
+    if (!previousPivots.has(tableName)) {
+      diff.created.push(current);
+    }
+  }
+
+  return matchRenamedPivots(diff, renames);
+}
+
+/**
+ * Formats the Schema::table lines turning one pivot table blueprint into another.
+ * Constraints and indexes are dropped before columns change and re-added afterwards.
+ */
+function formatPivotTableChanges(from: TableBlueprint, to: TableBlueprint): MigrationStatement[] {
+  const fromColumns = new Map(from.columns.map(column => [column.name, formatColumnMethod(column)]));
+  const toColumns = new Map(to.columns.map(column => [column.name, column]));
+  const fromForeignKeys = new Map(from.foreignKeys.map(fk => [fk.columns.join(','), fk]));
+  const toForeignKeys = new Map(to.foreignKeys.map(fk => [fk.columns.join(','), fk]));
+  const fromIndexes = new Map(from.indexes.map(index => [formatIndex(index), index]));
+  const toIndexes = new Map(to.indexes.map(index => [formatIndex(index), index]));
+  const lines: MigrationStatement[] = [];
+
+  // FK constraints must be re-created when one of their columns changes type
+  const changedColumns = new Set(
+    [...fromColumns].filter(([name, code]) => {
+      const column = toColumns.get(name);
+      return !column || formatColumnMethod(column) !== code;
+    }).map(([name]) => name)
+  );
+  const sameForeignKey = (a: ForeignKeyDefinition, b: ForeignKeyDefinition | undefined) =>
+    b !== undefined &&
+    formatForeignKey(a) === formatForeignKey(b) &&
+    !a.columns.some(column => changedColumns.has(column));
+
+  for (const [key, fk] of fromForeignKeys) {
+    if (!sameForeignKey(fk, toForeignKeys.get(key))) {
+      lines.push(formatDropForeign(from.tableName, fk.columns));
+    }
+  }
+  for (const [code, index] of fromIndexes) {
+    if (!toIndexes.has(code)) {
+      lines.push(formatDropIndex(from.tableName, index));
+    }
+  }
+  for (const name of fromColumns.keys()) {
+    if (!toColumns.has(name)) {
+      lines.push(dropColumnStatement(from.tableName, name));
+    }
+  }
+  for (const [name, column] of toColumns) {
+    const previousCode = fromColumns.get(name);
+    if (previousCode === undefined) {
+      lines.push(addColumnStatement(to.tableName, column));
+    } else if (previousCode !== formatColumnMethod(column)) {
+      lines.push(changeColumnStatement(to.tableName, column));
+    }
+  }
+  for (const [code, index] of toIndexes) {
+    if (!fromIndexes.has(code)) {
+      lines.push(statement(code, { type: 'addIndex', tableName: to.tableName, index }));
+    }
+  }
+  for (const [key, fk] of toForeignKeys) {
+    if (!sameForeignKey(fk, fromForeignKeys.get(key))) {
+      lines.push(addForeignStatement(to.tableName, fk));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Converts a table name to the PascalCase used in migration class names.
+ */
+function toTableClassName(tableName: string): string {
+  return tableName
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Generates ALTER migration for a pivot table whose definition changed
+ * (e.g., pivotFields added, removed or modified).
+ */
+function generatePivotAlterMigration(
+  previous: TableBlueprint,
+  current: TableBlueprint,
+  options: MigrationOptions = {}
+): MigrationFile {
+  const tableName = current.tableName;
+  const timestamp = options.timestamp ?? generateTimestamp();
+  const className = toTableClassName(tableName);
+
+  const upChecks = formatCheckChanges(tableName, previous.checks ?? [], current.checks ?? []);
+  const downChecks = formatCheckChanges(tableName, current.checks ?? [], previous.checks ?? []);
+
+  return {
+    fileName: `${timestamp}_update_${tableName}_table.php`,
+    className: `Update${className}Table`,
+    ...renderAlterMigration(
+      tableName,
+      formatPivotTableChanges(previous, current),
+      formatPivotTableChanges(current, previous),
+      options,
+      {
+        upBefore: upChecks.before,
+        upAfter: upChecks.after,
+        downBefore: downChecks.before,
+        downAfter: downChecks.after,
+      }
+    ),
+    tables: [tableName],
+    type: 'alter',
+    risk: summarizeRisk(assessPivotAlterRisk(previous, current)),
+  };
+}
+
+/**
+ * Generates a migration renaming a pivot table that follows a renamed table with Schema::rename().
+ * Its columns named after the renamed table are renamed, and its indexes, foreign keys and
+ * CHECK constraints get the names a fresh install creates. Foreign keys already follow the
+ * renamed table, which is renamed first.
+ */
+function generatePivotRenameMigration(pivot: RenamedPivotTable, options: MigrationOptions = {}): MigrationFile {
+  const { previous, moved, columns } = pivot;
+  const fromTable = previous.tableName;
+  const toTable = moved.tableName;
+  const timestamp = options.timestamp ?? generateTimestamp();
+  const renamedTables = new Map(previous.foreignKeys.map((fk, i) => [fk.on[0], moved.foreignKeys[i]?.on[0]]));
+  // The previous foreign keys, as they are once the tables they reference were renamed
+  const previousForeignKeys = previous.foreignKeys.map(fk => ({ ...fk, on: fk.on.map(table => renamedTables.get(table) ?? table) }));
+  const upLines: MigrationStatement[] = [];
+  const downLines: MigrationStatement[] = [];
+  const upAfter: MigrationStatement[] = [];
+  const downAfter: MigrationStatement[] = [];
+
+  // Foreign keys cannot be renamed: they are dropped and added again
+  upLines.push(...previous.foreignKeys.map(fk => dropForeignStatement(toTable, toForeignKeyName(fromTable, fk.columns))));
+  downLines.push(...moved.foreignKeys.map(fk => formatDropForeign(toTable, fk.columns)));
+  moved.indexes.forEach((index, i) => {
+    const fromName = previous.indexes[i]?.name;
+    if (fromName && index.name && fromName !== index.name) {
+      upLines.push(formatRenameIndex(toTable, fromName, index.name));
+      downLines.push(formatRenameIndex(toTable, index.name, fromName));
+    }
+  });
+  for (const [from, to] of columns) {
+    upLines.push(formatRenameColumn(toTable, from, to));
+    downLines.push(formatRenameColumn(toTable, to, from));
+  }
+  upLines.push(...moved.foreignKeys.map(fk => addForeignStatement(toTable, fk)));
+  downLines.push(...previousForeignKeys.map(fk => addForeignStatement(toTable, fk)));
+
+  (moved.checks ?? []).forEach((check, i) => {
+    const from = previous.checks?.[i];
+    if (from && from.name !== check.name) {
+      upAfter.push(dropCheckStatement(toTable, from), addCheckStatement(toTable, check));
+      downAfter.push(dropCheckStatement(toTable, check), addCheckStatement(toTable, from));
+    }
+  });
+  if (fromTable !== toTable) {
+    downAfter.push(formatRenameTable(toTable, fromTable));
+  }
+
+  return {
+    fileName: fromTable !== toTable
+      ? `${timestamp}_rename_${fromTable}_to_${toTable}_table.php`
+      : `${timestamp}_update_${toTable}_table.php`,
+    className: fromTable !== toTable
+      ? `Rename${toTableClassName(fromTable)}To${toTableClassName(toTable)}Table`
+      : `Update${toTableClassName(toTable)}Table`,
+    ...renderMigration(
+      renderTableStatement(
+        toTable,
+        upLines,
+        fromTable !== toTable ? [formatRenameTable(fromTable, toTable)] : [],
+        upAfter
+      ),
+      renderTableStatement(toTable, downLines, [], downAfter),
+      options
+    ),
+    tables: fromTable !== toTable ? [toTable, fromTable] : [toTable],
+    type: 'alter',
+    risk: summarizeRisk(moved.foreignKeys.map((fk): MigrationRiskReason => ({
+      level: 'locking',
+      target: toTable,
+      message: `Re-creates ${fk.name} over the existing rows of ${toTable}`,
+    }))),
   };
 }
 
 /**
  * Generates migrations for all schema changes.
+ * Pass the current schemas so ALTERs resolve FK targets like CREATE migrations do
+ * and pivot tables of changed ManyToMany/MorphToMany associations are created, altered or dropped.
  */
 export function generateMigrationsFromChanges(
-  changes: readonly SchemaChange[],
-  options: MigrationOptions = {}
+  changes: readonly TableSchemaChange[],
+  options: MigrationOptions = {},
+  allSchemas: SchemaCollection = {}
 ): MigrationFile[] {
   const migrations: MigrationFile[] = [];
   let timestampOffset = 0;
@@ -533,40 +2463,95 @@ export function generateMigrationsFromChanges(
   // Generate base timestamp ONCE for all migrations to ensure consistent ordering
   const baseTimestamp = options.timestamp ?? generateTimestamp();
 
-  const getNextTimestamp = () => {
-    const offset = timestampOffset++;
-    if (offset === 0) return baseTimestamp;
+  const getTimestamp = (offset: number) => incrementTimestamp(baseTimestamp, offset);
 
-    // Increment seconds
-    const parts = baseTimestamp.split('_');
-    if (parts.length >= 4) {
-      const timePart = parts[3] ?? '000000';
-      const secs = parseInt(timePart.substring(4, 6), 10) + offset;
-      const newSecs = String(secs % 60).padStart(2, '0');
-      parts[3] = timePart.substring(0, 4) + newSecs;
-      return parts.join('_');
+  const getNextTimestamp = () => getTimestamp(timestampOffset++);
+
+  // Generators that may find nothing to do only use up a timestamp once they produce a migration
+  const pushIfGenerated = (generate: (timestamp: string) => MigrationFile | null) => {
+    const migration = generate(getTimestamp(timestampOffset));
+    if (migration) {
+      timestampOffset++;
+      migrations.push(migration);
     }
-    return baseTimestamp;
   };
 
-  for (const change of changes) {
-    if (change.changeType === 'modified') {
-      const migration = generateAlterMigration(change, {
+  const renames = detectSchemaRenames(changes, allSchemas);
+  const renamedSchemas = new Set(renames.filter(rename => rename.from !== rename.to).map(rename => rename.from));
+  const pivotDiff = diffPivotTables(changes, allSchemas, options, renames);
+
+  // Drop pivot tables before the tables they reference are altered or dropped
+  for (const blueprint of pivotDiff.dropped) {
+    migrations.push(
+      generateDropMigrationForTable(blueprint.tableName, {
         ...options,
         timestamp: getNextTimestamp(),
-      });
-      if (migration) {
-        migrations.push(migration);
-      }
+      }, blueprint)
+    );
+  }
+
+  // Renamed tables come before the changes that refer to their new names
+  for (const rename of renames) {
+    migrations.push(generateRenameTableMigration(rename, {
+      ...options,
+      timestamp: getNextTimestamp(),
+    }, allSchemas));
+
+    // Columns changed along with an explicitly renamed schema
+    const removed = changes.find(change => change.changeType === 'removed' && change.schemaName === rename.from);
+    const previous = rename.from !== rename.to && removed ? previousSchemaFromChange(removed) : null;
+    const current = allSchemas[rename.to];
+    if (previous && current) {
+      pushIfGenerated(timestamp => generateAlterMigration(diffRenamedSchema(rename.toTable, previous, current, options, allSchemas), {
+        ...options,
+        timestamp,
+      }, allSchemas));
+    }
+  }
+
+  // Pivot tables follow the tables they join
+  for (const pivot of pivotDiff.renamed) {
+    migrations.push(generatePivotRenameMigration(pivot, {
+      ...options,
+      timestamp: getNextTimestamp(),
+    }));
+  }
+
+  for (const change of changes) {
+    if (change.changeType === 'removed' && renamedSchemas.has(change.schemaName)) {
+      continue;
+    }
+    if (change.changeType === 'modified' && allSchemas[change.schemaName]?.kind === 'enum') {
+      pushIfGenerated(timestamp => generateEnumValueMigration(change, { ...options, timestamp }, allSchemas));
+    } else if (change.changeType === 'modified') {
+      pushIfGenerated(timestamp => generateAlterMigration(change, { ...options, timestamp }, allSchemas));
     } else if (change.changeType === 'removed') {
       migrations.push(
         generateDropTableMigration(change.schemaName, {
           ...options,
           timestamp: getNextTimestamp(),
-        })
+        }, previousSchemaFromChange(change) ?? undefined, allSchemas)
       );
     }
-    // 'added' changes are handled by the regular CREATE migration generator
+    // 'added' changes are handled by the regular CREATE migration generator (renames above)
+  }
+
+  for (const blueprint of pivotDiff.created) {
+    migrations.push(
+      generateCreateMigrationForTable(blueprint, {
+        ...options,
+        timestamp: getNextTimestamp(),
+      })
+    );
+  }
+
+  for (const { previous, current } of pivotDiff.altered) {
+    migrations.push(
+      generatePivotAlterMigration(previous, current, {
+        ...options,
+        timestamp: getNextTimestamp(),
+      })
+    );
   }
 
   return migrations;
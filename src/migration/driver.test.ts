@@ -0,0 +1,256 @@
+/**
+ * @famgia/omnify-laravel - Database Driver Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { LoadedSchema } from '@famgia/omnify-types';
+import { adaptBlueprintForDriver, adaptIndexForDriver, findUnsupportedFeatures, formatAddCheck } from './driver.js';
+import { schemaToBlueprint } from './schema-builder.js';
+import { generateMigrations } from './generator.js';
+
+describe('database drivers', () => {
+  const post: LoadedSchema = {
+    name: 'Post',
+    kind: 'object',
+    filePath: '/test/post.yaml',
+    relativePath: '/test/post.yaml',
+    properties: {
+      status: { type: 'Enum', enum: ['draft', 'published'] },
+      meta: { type: 'Json', nullable: true },
+      title: { type: 'String', displayName: 'Title' },
+    },
+  } as LoadedSchema;
+
+  describe('adaptBlueprintForDriver', () => {
+    it('keeps native enum and json columns on mysql', () => {
+      const blueprint = schemaToBlueprint(post, { Post: post }, { driver: 'mysql' });
+
+      expect(blueprint.columns.find(c => c.name === 'status')?.method).toBe('enum');
+      expect(blueprint.columns.find(c => c.name === 'meta')?.method).toBe('json');
+      expect(blueprint.checks).toBeUndefined();
+    });
+
+    it('uses jsonb and CHECK-guarded string enums on pgsql', () => {
+      const blueprint = schemaToBlueprint(post, { Post: post }, { driver: 'pgsql' });
+
+      expect(blueprint.columns.find(c => c.name === 'meta')?.method).toBe('jsonb');
+      expect(blueprint.columns.find(c => c.name === 'status')).toMatchObject({ method: 'string', args: ['status'] });
+      expect(blueprint.checks).toEqual([
+        { name: 'posts_status_check', expression: "status IN ('draft', 'published')" },
+      ]);
+    });
+
+    it('keeps enum() on sqlite, where Laravel inlines the CHECK', () => {
+      const blueprint = schemaToBlueprint(post, { Post: post }, { driver: 'sqlite' });
+
+      expect(blueprint.columns.find(c => c.name === 'status')?.method).toBe('enum');
+      expect(blueprint.checks).toBeUndefined();
+    });
+
+    it('adapts pivot blueprints the same way', () => {
+      const blueprint = adaptBlueprintForDriver({
+        tableName: 'post_tag',
+        columns: [{ name: 'role', method: 'enum', args: ['role', ['owner', 'viewer'] as unknown as string], modifiers: [] }],
+        foreignKeys: [],
+        indexes: [],
+      }, 'sqlsrv');
+
+      expect(blueprint.columns[0]!.method).toBe('string');
+      expect(blueprint.checks?.[0]?.name).toBe('post_tag_role_check');
+    });
+  });
+
+  describe('findUnsupportedFeatures', () => {
+    it('warns about column comments on sqlite', () => {
+      const blueprint = schemaToBlueprint(post, { Post: post }, { driver: 'sqlite' });
+
+      expect(findUnsupportedFeatures(blueprint.tableName, blueprint.columns, 'sqlite')).toEqual([
+        'sqlite does not support column comments (posts.title); the comment is ignored',
+      ]);
+    });
+
+    it('warns about MySQL-only modifiers on other drivers', () => {
+      const warnings = findUnsupportedFeatures('posts', [{
+        name: 'touched_at',
+        method: 'timestamp',
+        args: ['touched_at'],
+        modifiers: [{ method: 'useCurrentOnUpdate' }],
+      }], 'pgsql');
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain('pgsql does not support ON UPDATE CURRENT_TIMESTAMP (posts.touched_at)');
+    });
+
+    it('reports nothing on mysql', () => {
+      const blueprint = schemaToBlueprint(post, { Post: post });
+
+      expect(findUnsupportedFeatures(blueprint.tableName, blueprint.columns, 'mysql')).toEqual([]);
+    });
+  });
+
+  describe('CREATE migrations', () => {
+    it('adds enum CHECK constraints after Schema::create on pgsql', () => {
+      const [migration] = generateMigrations({ Post: post }, { timestamp: '2024_01_01_120000', driver: 'pgsql' });
+
+      expect(migration!.content).toContain('use Illuminate\\Support\\Facades\\DB;');
+      expect(migration!.content).toContain("$table->string('status');");
+      expect(migration!.content).toContain("$table->jsonb('meta')->nullable();");
+      expect(migration!.content).toContain(
+        `        });\n        ${formatAddCheck('posts', { name: 'posts_status_check', expression: "status IN ('draft', 'published')" })}`
+      );
+    });
+
+    it('does not import the DB facade when it is unused', () => {
+      const [migration] = generateMigrations({ Post: post }, { timestamp: '2024_01_01_120000' });
+
+      expect(migration!.content).not.toContain('Facades\\DB');
+      expect(migration!.warnings).toBeUndefined();
+    });
+
+    it('attaches driver warnings to the migration', () => {
+      const [migration] = generateMigrations({ Post: post }, { timestamp: '2024_01_01_120000', driver: 'sqlite' });
+
+      expect(migration!.warnings).toEqual([
+        'sqlite does not support column comments (posts.title); the comment is ignored',
+      ]);
+    });
+  });
+
+  describe('CHECK constraints', () => {
+    const product: LoadedSchema = {
+      name: 'Product',
+      kind: 'object',
+      filePath: '/test/product.yaml',
+      relativePath: '/test/product.yaml',
+      properties: {
+        price: { type: 'Decimal', min: 0 },
+        total: { type: 'Decimal', storedAs: 'price * 2' },
+      },
+    } as LoadedSchema;
+
+    it('adds min/max checks after Schema::create', () => {
+      const [migration] = generateMigrations({ Product: product }, { timestamp: '2024_01_01_120000', checkConstraints: true });
+
+      expect(migration!.content).toContain("$table->decimal('total', 8, 2)->storedAs('price * 2');");
+      expect(migration!.content).toContain(
+        'DB::statement("ALTER TABLE products ADD CONSTRAINT products_price_check CHECK (price >= 0)");'
+      );
+      expect(migration!.content).not.toContain('products_total_check');
+    });
+
+    it('drops the checks with a warning on sqlite', () => {
+      const [migration] = generateMigrations({ Product: product }, { timestamp: '2024_01_01_120000', driver: 'sqlite', checkConstraints: true });
+
+      expect(migration!.content).not.toContain('CHECK');
+      expect(migration!.warnings).toEqual([
+        'sqlite cannot add CHECK constraints to an existing table (products_price_check); validate price >= 0 in the application instead',
+      ]);
+    });
+  });
+
+  describe('table options', () => {
+    const code: LoadedSchema = {
+      name: 'ProductCode',
+      kind: 'object',
+      filePath: '/test/product-code.yaml',
+      relativePath: '/test/product-code.yaml',
+      displayName: 'Product codes',
+      properties: {
+        code: { type: 'String' },
+      },
+      options: { charset: 'utf8mb4', collation: 'utf8mb4_bin', engine: 'InnoDB' },
+    } as LoadedSchema;
+
+    it('sets the engine, charset, collation and comment in Schema::create on mysql', () => {
+      const [migration] = generateMigrations({ ProductCode: code }, { timestamp: '2024_01_01_120000' });
+
+      expect(migration!.content).toContain(`Schema::create('product_codes', function (Blueprint $table) {
+            $table->engine('InnoDB');
+            $table->charset('utf8mb4');
+            $table->collation('utf8mb4_bin');
+            $table->comment('Product codes');
+            $table->id();`);
+      expect(migration!.warnings).toBeUndefined();
+    });
+
+    it('keeps only the comment on pgsql', () => {
+      const blueprint = schemaToBlueprint(code, { ProductCode: code }, { driver: 'pgsql' });
+
+      expect(blueprint.options).toEqual({ comment: 'Product codes' });
+      expect(blueprint.warnings).toEqual([
+        'pgsql does not support table character sets (product_codes); the charset is ignored',
+        'pgsql does not support table collations (product_codes); the collation is ignored',
+        'pgsql does not support table engines (product_codes); the engine is ignored',
+      ]);
+    });
+  });
+
+  describe('indexes', () => {
+    const article: LoadedSchema = {
+      name: 'Article',
+      kind: 'object',
+      filePath: '/test/article.yaml',
+      relativePath: '/test/article.yaml',
+      properties: {
+        slug: { type: 'String' },
+        title: { type: 'String' },
+        body: { type: 'Text' },
+      },
+      options: {
+        softDelete: true,
+        indexes: [
+          { columns: ['slug'], unique: true, where: 'deleted_at IS NULL' },
+          { columns: ['title', 'body'], type: 'fulltext', parser: 'ngram' },
+        ],
+      },
+    } as LoadedSchema;
+
+    it('creates ngram fulltext indexes with a statement on mysql', () => {
+      const [migration] = generateMigrations({ Article: article }, { timestamp: '2024_01_01_120000' });
+
+      expect(migration!.content).toContain(
+        'DB::statement("CREATE FULLTEXT INDEX articles_title_body_fulltext ON articles (title, body) WITH PARSER ngram");'
+      );
+      expect(migration!.content).not.toContain('$table->fullText');
+      // No partial indexes on MySQL: the unique index covers soft-deleted rows too
+      expect(migration!.content).toContain("$table->unique('slug', 'articles_slug_unique');");
+      expect(migration!.warnings).toEqual([
+        'mysql does not support partial indexes (articles_slug_unique); the WHERE clause is ignored and the index covers every row',
+      ]);
+    });
+
+    it('creates partial unique indexes with a statement on pgsql', () => {
+      const [migration] = generateMigrations({ Article: article }, { timestamp: '2024_01_01_120000', driver: 'pgsql' });
+
+      expect(migration!.content).toContain(
+        `        });\n        DB::statement("CREATE UNIQUE INDEX articles_slug_unique ON articles (slug) WHERE deleted_at IS NULL");`
+      );
+      expect(migration!.content).toContain("$table->fullText(['title', 'body'], 'articles_title_body_fulltext');");
+      expect(migration!.warnings).toEqual([
+        'Fulltext parsers are MySQL-only (articles_title_body_fulltext); ngram is ignored',
+      ]);
+    });
+
+    it('falls back to plain indexes on sqlite', () => {
+      const { index, warnings } = adaptIndexForDriver(
+        'places',
+        { columns: ['location'], unique: false, type: 'spatial' },
+        'sqlite'
+      );
+
+      expect(index).toMatchObject({ name: 'places_location_spatialindex', type: 'index' });
+      expect(warnings).toEqual([
+        'sqlite does not support spatial indexes (places_location_spatialindex); a plain index is created instead',
+      ]);
+    });
+  });
+
+  describe('formatAddCheck', () => {
+    it('escapes the SQL for a double-quoted PHP string', () => {
+      expect(formatAddCheck('posts', { name: 'posts_price_check', expression: 'price >= 0' })).toBe(
+        'DB::statement("ALTER TABLE posts ADD CONSTRAINT posts_price_check CHECK (price >= 0)");'
+      );
+      expect(formatAddCheck('posts', { name: 'c', expression: "note <> '$x'" })).toContain("'\\$x'");
+    });
+  });
+});
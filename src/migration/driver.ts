@@ -0,0 +1,336 @@
+/**
+ * @famgia/omnify-laravel - Database Driver Support
+ *
+ * Adapts table blueprints to the target database driver and reports
+ * schema features the driver does not support.
+ */
+
+import type {
+  CheckConstraintDefinition,
+  ColumnMethod,
+  DatabaseDriver,
+  IndexDefinition,
+  IndexType,
+  TableBlueprint,
+  TableOptions,
+} from './types.js';
+import { toConstraintName, toIndexName } from './naming.js';
+
+/**
+ * Driver used when none is configured.
+ */
+export const DEFAULT_DRIVER: DatabaseDriver = 'mysql';
+
+/**
+ * Drivers that store enums as a string column with a named CHECK constraint.
+ * MySQL has native ENUM columns. On SQLite, `$table->enum()` already inlines the
+ * CHECK in CREATE TABLE, which is the only place SQLite accepts it.
+ */
+const CHECKED_ENUM_DRIVERS: ReadonlySet<DatabaseDriver> = new Set(['pgsql', 'sqlsrv']);
+
+/**
+ * Index kinds each driver builds natively. Others fall back to a plain index.
+ */
+const SUPPORTED_INDEX_TYPES: Readonly<Record<DatabaseDriver, ReadonlySet<IndexType>>> = {
+  mysql: new Set(['index', 'unique', 'fulltext', 'spatial']),
+  pgsql: new Set(['index', 'unique', 'fulltext', 'spatial']),
+  sqlite: new Set(['index', 'unique']),
+  sqlsrv: new Set(['index', 'unique', 'spatial']),
+};
+
+/**
+ * Drivers accepting an index method (`USING ...`).
+ */
+const INDEX_ALGORITHM_DRIVERS: ReadonlySet<DatabaseDriver> = new Set(['mysql', 'pgsql']);
+
+/**
+ * Drivers supporting partial (filtered) indexes.
+ */
+const PARTIAL_INDEX_DRIVERS: ReadonlySet<DatabaseDriver> = new Set(['pgsql', 'sqlite', 'sqlsrv']);
+
+/**
+ * Drivers supporting each table option. Temporary tables work everywhere.
+ */
+const TABLE_OPTION_DRIVERS: Readonly<Record<'comment' | 'charset' | 'collation' | 'engine', ReadonlySet<DatabaseDriver>>> = {
+  comment: new Set(['mysql', 'pgsql']),
+  charset: new Set(['mysql']),
+  collation: new Set(['mysql']),
+  engine: new Set(['mysql']),
+};
+
+/**
+ * Laravel's default MySQL table options, restored when an option is removed.
+ */
+const MYSQL_DEFAULT_TABLE_OPTIONS = {
+  charset: 'utf8mb4',
+  collation: 'utf8mb4_unicode_ci',
+  engine: 'InnoDB',
+} as const;
+
+/**
+ * Gets the name of the CHECK constraint guarding an enum column.
+ */
+export function toEnumCheckName(tableName: string, columnName: string): string {
+  return toConstraintName(tableName, [columnName], 'check');
+}
+
+/**
+ * Builds the CHECK constraints that replace native enums on the driver.
+ * Expects columns as produced by schema-builder (before driver adaptation).
+ */
+export function enumCheckConstraints(
+  tableName: string,
+  columns: readonly ColumnMethod[],
+  driver: DatabaseDriver = DEFAULT_DRIVER
+): CheckConstraintDefinition[] {
+  if (!CHECKED_ENUM_DRIVERS.has(driver)) {
+    return [];
+  }
+
+  const checks: CheckConstraintDefinition[] = [];
+  for (const column of columns) {
+    const values = column.method === 'enum' ? column.args[1] : undefined;
+    if (!Array.isArray(values) || values.length === 0) {
+      continue;
+    }
+
+    const list = (values as string[]).map(value => `'${value.replace(/'/g, "''")}'`).join(', ');
+    checks.push({
+      name: toEnumCheckName(tableName, column.name),
+      expression: `${column.name} IN (${list})`,
+    });
+  }
+  return checks;
+}
+
+/**
+ * Adapts a column to the driver's native types.
+ * - pgsql: json → jsonb
+ * - pgsql/sqlsrv: enum → string (values are guarded by a CHECK constraint)
+ */
+export function adaptColumnForDriver(
+  column: ColumnMethod,
+  driver: DatabaseDriver = DEFAULT_DRIVER
+): ColumnMethod {
+  if (driver === 'pgsql' && column.method === 'json') {
+    return { ...column, method: 'jsonb' };
+  }
+
+  if (CHECKED_ENUM_DRIVERS.has(driver) && column.method === 'enum') {
+    return { ...column, method: 'string', args: [column.name] };
+  }
+
+  return column;
+}
+
+/**
+ * Adapts an index to the driver, dropping the options it does not support.
+ * Unsupported index kinds fall back to a plain index.
+ */
+export function adaptIndexForDriver(
+  tableName: string,
+  index: IndexDefinition,
+  driver: DatabaseDriver = DEFAULT_DRIVER
+): { index: IndexDefinition; warnings: string[] } {
+  const warnings: string[] = [];
+  const location = index.name ?? toIndexName(tableName, index);
+  let adapted: IndexDefinition = { ...index, name: location };
+
+  const type = index.type ?? (index.unique ? 'unique' : 'index');
+  if (!SUPPORTED_INDEX_TYPES[driver].has(type)) {
+    warnings.push(`${driver} does not support ${type} indexes (${location}); a plain index is created instead`);
+    adapted = { ...adapted, type: 'index', unique: false, algorithm: undefined, parser: undefined };
+  }
+  if (adapted.algorithm !== undefined && !INDEX_ALGORITHM_DRIVERS.has(driver)) {
+    warnings.push(`${driver} does not support index algorithms (${location}); ${adapted.algorithm} is ignored`);
+    adapted = { ...adapted, algorithm: undefined };
+  }
+  if (adapted.where !== undefined) {
+    const adaptedType = adapted.type ?? type;
+    if (!PARTIAL_INDEX_DRIVERS.has(driver)) {
+      warnings.push(`${driver} does not support partial indexes (${location}); the WHERE clause is ignored and the index covers every row`);
+      adapted = { ...adapted, where: undefined };
+    } else if (adaptedType !== 'index' && adaptedType !== 'unique') {
+      warnings.push(`${adaptedType} indexes cannot be partial (${location}); the WHERE clause is ignored`);
+      adapted = { ...adapted, where: undefined };
+    }
+  }
+  if (adapted.parser !== undefined && (driver !== 'mysql' || adapted.type !== 'fulltext')) {
+    warnings.push(`Fulltext parsers are MySQL-only (${location}); ${adapted.parser} is ignored`);
+    adapted = { ...adapted, parser: undefined };
+  }
+
+  return { index: adapted, warnings };
+}
+
+/**
+ * Drops the table options the driver does not support.
+ */
+export function adaptTableOptionsForDriver(
+  tableName: string,
+  tableOptions: TableOptions,
+  driver: DatabaseDriver = DEFAULT_DRIVER
+): { options: TableOptions; warnings: string[] } {
+  const warnings: string[] = [];
+  const adapted: { -readonly [K in keyof TableOptions]: TableOptions[K] } = { ...tableOptions };
+
+  for (const [option, drivers] of Object.entries(TABLE_OPTION_DRIVERS) as [keyof typeof TABLE_OPTION_DRIVERS, ReadonlySet<DatabaseDriver>][]) {
+    if (adapted[option] !== undefined && !drivers.has(driver)) {
+      warnings.push(`${driver} does not support table ${option === 'charset' ? 'character set' : option}s (${tableName}); the ${option} is ignored`);
+      adapted[option] = undefined;
+    }
+  }
+
+  return { options: adapted, warnings };
+}
+
+/**
+ * Keeps the CHECK constraints the driver can add with ALTER TABLE.
+ * SQLite only accepts them in CREATE TABLE, which the schema builder cannot express.
+ */
+export function supportedChecks(
+  checks: readonly CheckConstraintDefinition[],
+  driver: DatabaseDriver = DEFAULT_DRIVER
+): { checks: CheckConstraintDefinition[]; warnings: string[] } {
+  if (driver !== 'sqlite') {
+    return { checks: [...checks], warnings: [] };
+  }
+
+  return {
+    checks: [],
+    warnings: checks.map(check =>
+      `sqlite cannot add CHECK constraints to an existing table (${check.name}); validate ${check.expression} in the application instead`
+    ),
+  };
+}
+
+/**
+ * Adapts a table blueprint to the driver (column types, enum CHECK constraints, indexes and table options).
+ * Fallbacks are recorded in the blueprint warnings.
+ */
+export function adaptBlueprintForDriver(
+  blueprint: TableBlueprint,
+  driver: DatabaseDriver = DEFAULT_DRIVER
+): TableBlueprint {
+  const adaptedIndexes = blueprint.indexes.map(index => adaptIndexForDriver(blueprint.tableName, index, driver));
+  const warnings = [
+    ...(blueprint.warnings ?? []),
+    ...adaptedIndexes.flatMap(adapted => adapted.warnings),
+  ];
+  const supported = supportedChecks(blueprint.checks ?? [], driver);
+  warnings.push(...supported.warnings);
+  const checks = [
+    ...supported.checks,
+    ...enumCheckConstraints(blueprint.tableName, blueprint.columns, driver),
+  ];
+  const tableOptions = blueprint.options
+    ? adaptTableOptionsForDriver(blueprint.tableName, blueprint.options, driver)
+    : undefined;
+  warnings.push(...(tableOptions?.warnings ?? []));
+
+  return {
+    ...blueprint,
+    options: tableOptions?.options,
+    columns: blueprint.columns.map(column => adaptColumnForDriver(column, driver)),
+    indexes: adaptedIndexes.map(adapted => adapted.index),
+    checks: checks.length > 0 ? checks : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
+
+/**
+ * Lists schema features of the columns that the driver silently ignores.
+ */
+export function findUnsupportedFeatures(
+  tableName: string,
+  columns: readonly ColumnMethod[],
+  driver: DatabaseDriver = DEFAULT_DRIVER
+): string[] {
+  const warnings: string[] = [];
+
+  for (const column of columns) {
+    const modifiers = new Set(column.modifiers.map(modifier => modifier.method));
+    const location = `${tableName}.${column.name}`;
+
+    if (driver === 'sqlite' && modifiers.has('comment')) {
+      warnings.push(`sqlite does not support column comments (${location}); the comment is ignored`);
+    }
+    if (driver !== 'mysql' && modifiers.has('useCurrentOnUpdate')) {
+      warnings.push(`${driver} does not support ON UPDATE CURRENT_TIMESTAMP (${location}); update the column in the model instead`);
+    }
+    if (driver !== 'mysql' && modifiers.has('unsigned')) {
+      warnings.push(`${driver} does not support unsigned columns (${location}); negative values are accepted`);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Escapes SQL for a double-quoted PHP string.
+ */
+function toPhpString(sql: string): string {
+  return `"${sql.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\$/g, '\\$')}"`;
+}
+
+/**
+ * Formats the statement adding a CHECK constraint to a table.
+ */
+export function formatAddCheck(tableName: string, check: CheckConstraintDefinition): string {
+  return `DB::statement(${toPhpString(`ALTER TABLE ${tableName} ADD CONSTRAINT ${check.name} CHECK (${check.expression})`)});`;
+}
+
+/**
+ * Formats the statements changing the engine, character set and collation of an existing table (MySQL).
+ * Laravel only applies these options in Schema::create. CONVERT TO also converts the existing columns.
+ */
+export function formatTableOptionStatements(tableName: string, from: TableOptions, to: TableOptions): string[] {
+  const statements: string[] = [];
+
+  if (from.engine !== to.engine) {
+    const engine = to.engine ?? MYSQL_DEFAULT_TABLE_OPTIONS.engine;
+    statements.push(`DB::statement(${toPhpString(`ALTER TABLE ${tableName} ENGINE = ${engine}`)});`);
+  }
+
+  if (from.charset !== to.charset || from.collation !== to.collation) {
+    // A collation name starts with its character set, e.g. utf8mb4_bin
+    const charset = to.charset ?? to.collation?.split('_')[0] ?? MYSQL_DEFAULT_TABLE_OPTIONS.charset;
+    const collation = to.collation ?? (to.charset ? undefined : MYSQL_DEFAULT_TABLE_OPTIONS.collation);
+    const collate = collation ? ` COLLATE ${collation}` : '';
+    statements.push(`DB::statement(${toPhpString(`ALTER TABLE ${tableName} CONVERT TO CHARACTER SET ${charset}${collate}`)});`);
+  }
+
+  return statements;
+}
+
+/**
+ * Formats the statement dropping a CHECK constraint from a table.
+ */
+export function formatDropCheck(tableName: string, check: CheckConstraintDefinition): string {
+  return `DB::statement(${toPhpString(`ALTER TABLE ${tableName} DROP CONSTRAINT ${check.name}`)});`;
+}
+
+/**
+ * Whether an index needs a raw statement: the schema builder cannot express
+ * partial indexes or fulltext parsers.
+ */
+export function requiresIndexStatement(index: IndexDefinition): boolean {
+  return index.where !== undefined || index.parser !== undefined;
+}
+
+/**
+ * Formats the statement creating a partial index or a fulltext index with a parser.
+ */
+export function formatCreateIndexStatement(tableName: string, index: IndexDefinition): string {
+  const name = index.name ?? toIndexName(tableName, index);
+  const columns = index.columns.join(', ');
+
+  if (index.parser !== undefined) {
+    return `DB::statement(${toPhpString(`CREATE FULLTEXT INDEX ${name} ON ${tableName} (${columns}) WITH PARSER ${index.parser}`)});`;
+  }
+
+  const unique = index.unique ? 'UNIQUE ' : '';
+  const using = index.algorithm !== undefined ? ` USING ${index.algorithm}` : '';
+  const where = index.where !== undefined ? ` WHERE ${index.where}` : '';
+  return `DB::statement(${toPhpString(`CREATE ${unique}INDEX ${name} ON ${tableName}${using} (${columns})${where}`)});`;
+}
@@ -0,0 +1,91 @@
+/**
+ * @famgia/omnify-laravel - Existing Table Detection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { buildExistingTableIndex, findTableStatements } from './existing-tables.js';
+
+const migration = (up: string, down = ''): string => `<?php
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+${up}
+    }
+
+    public function down(): void
+    {
+${down}
+    }
+};
+`;
+
+const stockUsersMigration = migration(
+  `        Schema::create('users', function (Blueprint $table) {
+            $table->id();
+        });
+
+        Schema::create('password_reset_tokens', function (Blueprint $table) {
+            $table->string('email')->primary();
+        });
+
+        Schema::create('sessions', function (Blueprint $table) {
+            $table->string('id')->primary();
+        });`,
+  `        Schema::dropIfExists('users');
+        Schema::dropIfExists('password_reset_tokens');
+        Schema::dropIfExists('sessions');`
+);
+
+describe('findTableStatements', () => {
+  it('finds every table created by up() and ignores down()', () => {
+    expect(findTableStatements(stockUsersMigration)).toEqual([
+      { type: 'create', tableName: 'users' },
+      { type: 'create', tableName: 'password_reset_tokens' },
+      { type: 'create', tableName: 'sessions' },
+    ]);
+  });
+
+  it('finds connection-scoped, dropped and renamed tables and skips comments', () => {
+    expect(findTableStatements(migration(`        // Schema::create('legacy', ...)
+        Schema::connection('audit')->create("audit_logs", function (Blueprint $table) {
+            $table->id();
+        });
+        Schema::dropIfExists('old_logs');
+        Schema::rename('posts', 'articles');`))).toEqual([
+      { type: 'create', tableName: 'audit_logs' },
+      { type: 'drop', tableName: 'old_logs' },
+      { type: 'rename', from: 'posts', to: 'articles' },
+    ]);
+  });
+});
+
+describe('buildExistingTableIndex', () => {
+  it('replays the migrations of all directories in file name order', () => {
+    const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-existing-'));
+    try {
+      const appDir = join(cwd, 'database/migrations');
+      const packageDir = join(cwd, 'packages/blog/database/migrations');
+      mkdirSync(join(appDir, 'omnify'), { recursive: true });
+      mkdirSync(packageDir, { recursive: true });
+      writeFileSync(join(appDir, '0001_01_01_000000_create_users_table.php'), stockUsersMigration);
+      writeFileSync(join(appDir, '2024_02_01_000000_rename_posts.php'), migration("        Schema::rename('posts', 'articles');"));
+      writeFileSync(join(appDir, 'omnify/2024_03_01_000000_create_tags_table.php'), '<?php // existing');
+      writeFileSync(join(packageDir, '2024_01_01_000000_install_blog.php'), migration(
+        "        Schema::create('posts', function (Blueprint $table) {\n        });"
+      ));
+
+      const index = buildExistingTableIndex([appDir, join(appDir, 'omnify'), packageDir, join(cwd, 'missing')]);
+
+      expect([...index.keys()].sort()).toEqual(['articles', 'password_reset_tokens', 'sessions', 'tags', 'users']);
+      expect(index.get('sessions')).toBe(join(appDir, '0001_01_01_000000_create_users_table.php'));
+      expect(index.get('articles')).toBe(join(packageDir, '2024_01_01_000000_install_blog.php'));
+    } finally {
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @famgia/omnify-laravel - Existing Table Detection
+ *
+ * Finds the tables already created by the migrations of a Laravel app, whatever
+ * the migration files are named.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { basename, join } from 'node:path';
+
+/**
+ * A table created, dropped or renamed by a migration's up().
+ */
+export type MigrationTableStatement =
+  | { readonly type: 'create'; readonly tableName: string }
+  | { readonly type: 'drop'; readonly tableName: string }
+  | { readonly type: 'rename'; readonly from: string; readonly to: string };
+
+/**
+ * Existing tables, mapped to the migration file that created each.
+ */
+export type ExistingTableIndex = ReadonlyMap<string, string>;
+
+/** Schema::create('users', ...) / Schema::connection('x')->dropIfExists('users') / Schema::rename('a', 'b') */
+const TABLE_STATEMENT =
+  /Schema::(?:connection\([^)]*\)->)?(create|dropIfExists|drop|rename)\(\s*(['"])([^'"]+)\2(?:\s*,\s*(['"])([^'"]+)\4)?/g;
+
+/** YYYY_MM_DD_HHMMSS_create_<table>_table.php */
+const CREATE_MIGRATION_FILE = /^\d{4}_\d{2}_\d{2}_\d{6}_create_(.+)_table\.php$/;
+
+/**
+ * Extracts the body of up(), or the whole content when there is no down().
+ */
+function upBody(content: string): string {
+  const up = content.search(/function\s+up\s*\(/);
+  const down = content.search(/function\s+down\s*\(/);
+  if (up === -1) return content;
+  return down > up ? content.slice(up, down) : content.slice(up);
+}
+
+/**
+ * Finds the tables created, dropped and renamed by a migration's up(), in order.
+ */
+export function findTableStatements(content: string): MigrationTableStatement[] {
+  const body = upBody(content.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, ''));
+  const statements: MigrationTableStatement[] = [];
+
+  for (const match of body.matchAll(TABLE_STATEMENT)) {
+    const [, method, , tableName, , to] = match;
+    if (method === 'create') {
+      statements.push({ type: 'create', tableName: tableName! });
+    } else if (method === 'rename') {
+      if (to) statements.push({ type: 'rename', from: tableName!, to });
+    } else {
+      statements.push({ type: 'drop', tableName: tableName! });
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Lists the PHP files of a migrations directory and its subdirectories.
+ */
+function listMigrationFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  try {
+    return readdirSync(dir).flatMap((entry) => {
+      const path = join(dir, entry);
+      if (statSync(path).isDirectory()) return listMigrationFiles(path);
+      return entry.endsWith('.php') ? [path] : [];
+    });
+  } catch {
+    // Ignore errors reading directory
+    return [];
+  }
+}
+
+/**
+ * Builds the index of existing tables from the migrations of the given directories.
+ * Files are replayed in Laravel's order (by file name across all directories), so tables
+ * dropped or renamed by later migrations are accounted for. Files without any Schema call
+ * fall back to the create_<table>_table.php naming convention.
+ */
+export function buildExistingTableIndex(migrationsDirs: readonly string[]): ExistingTableIndex {
+  const files = [...new Set(migrationsDirs.flatMap(listMigrationFiles))]
+    .sort((a, b) => basename(a).localeCompare(basename(b)));
+  const tables = new Map<string, string>();
+
+  for (const file of files) {
+    let statements: MigrationTableStatement[];
+    try {
+      statements = findTableStatements(readFileSync(file, 'utf-8'));
+    } catch {
+      continue;
+    }
+
+    const fileTable = basename(file).match(CREATE_MIGRATION_FILE)?.[1];
+    if (statements.length === 0 && fileTable) {
+      statements = [{ type: 'create', tableName: fileTable }];
+    }
+
+    for (const statement of statements) {
+      if (statement.type === 'create') {
+        tables.set(statement.tableName, file);
+      } else if (statement.type === 'drop') {
+        tables.delete(statement.tableName);
+      } else {
+        const createdBy = tables.get(statement.from);
+        tables.delete(statement.from);
+        tables.set(statement.to, createdBy ?? file);
+      }
+    }
+  }
+
+  return tables;
+}
@@ -9,7 +9,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { generateMigrations } from './generator.js';
-import type { SchemaCollection } from '@famgia/omnify-types';
+import type { LoadedSchema, SchemaCollection } from '@famgia/omnify-types';
 
 /**
  * Helper to extract timestamp from migration filename
@@ -487,6 +487,117 @@ describe('generateMigrations - Edge Cases', () => {
         // Should not throw or hang
         const migrations = generateMigrations(schemas, { timestamp: '2024_01_01_000000' });
 
+        // Both tables, then the FK that closes the cycle
+        expect(migrations).toHaveLength(3);
+        expect(migrations[2]!.fileName).toBe('2024_01_01_000002_add_foreign_keys.php');
+        expect(migrations[2]!.type).toBe('alter');
+    });
+
+    it('circular foreign keys should be deferred to an add_foreign_keys migration', () => {
+        const schemas: SchemaCollection = {
+            User: {
+                name: 'User',
+                kind: 'object',
+                filePath: '/schemas/User.yaml',
+                relativePath: '/schemas/User.yaml',
+                properties: {
+                    currentTeam: { type: 'Association', relation: 'ManyToOne', target: 'Team', nullable: true },
+                },
+            },
+            Team: {
+                name: 'Team',
+                kind: 'object',
+                filePath: '/schemas/Team.yaml',
+                relativePath: '/schemas/Team.yaml',
+                properties: {
+                    owner: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+                },
+            },
+        };
+
+        const migrations = generateMigrations(schemas, { timestamp: '2024_01_01_000000' });
+        const [teams, users, foreignKeys] = migrations;
+
+        // Team is created first without the FK to users, which doesn't exist yet
+        expect(teams!.tables).toEqual(['teams']);
+        expect(teams!.content).toContain("unsignedBigInteger('owner_id')");
+        expect(teams!.content).not.toContain("->on('users')");
+
+        // User can reference teams inline
+        expect(users!.tables).toEqual(['users']);
+        expect(users!.content).toContain("->on('teams')");
+
+        expect(foreignKeys!.className).toBe('AddForeignKeys');
+        expect(foreignKeys!.tables).toEqual(['teams']);
+        expect(foreignKeys!.content).toContain("Schema::table('teams'");
+        expect(foreignKeys!.content).toContain("->on('users')");
+        expect(foreignKeys!.content).toContain("$table->dropForeign('teams_owner_id_foreign');");
+        expect(foreignKeys!.warnings).toEqual([
+            'Deferred foreign key teams.owner_id → users to the add_foreign_keys migration (circular dependency)',
+        ]);
+    });
+
+    it('deferred foreign keys should be added only to tables without an existing migration', () => {
+        const createSchema = (name: string, target: string): LoadedSchema => ({
+            name,
+            kind: 'object',
+            filePath: `/schemas/${name}.yaml`,
+            relativePath: `/schemas/${name}.yaml`,
+            properties: {
+                [target.toLowerCase()]: { type: 'Association', relation: 'ManyToOne', target, nullable: true },
+            },
+        });
+        const schemas: SchemaCollection = {
+            User: createSchema('User', 'Team'),
+            Team: createSchema('Team', 'User'),
+            Post: createSchema('Post', 'Comment'),
+            Comment: createSchema('Comment', 'Post'),
+        };
+
+        const migrations = generateMigrations(schemas, {
+            timestamp: '2024_01_01_000000',
+            existingTables: new Set(['teams']),
+        });
+        const foreignKeys = migrations.find(m => m.fileName.endsWith('_add_foreign_keys.php'));
+
+        expect(foreignKeys!.tables).toEqual(['comments']);
+        expect(foreignKeys!.content).toContain("Schema::table('comments'");
+        expect(foreignKeys!.content).not.toContain("Schema::table('teams'");
+        expect(foreignKeys!.warnings).toEqual([
+            'Deferred foreign key comments.post_id → posts to the add_foreign_keys migration (circular dependency)',
+        ]);
+
+        const allExisting = generateMigrations(schemas, {
+            timestamp: '2024_01_01_000000',
+            existingTables: new Set(['teams', 'comments']),
+        });
+        expect(allExisting.some(m => m.fileName.endsWith('_add_foreign_keys.php'))).toBe(false);
+    });
+
+    it('circular foreign keys should stay inline on sqlite', () => {
+        const schemas: SchemaCollection = {
+            A: {
+                name: 'A',
+                kind: 'object',
+                filePath: '/schemas/A.yaml',
+                relativePath: '/schemas/A.yaml',
+                properties: {
+                    b: { type: 'Association', relation: 'ManyToOne', target: 'B', nullable: true },
+                },
+            },
+            B: {
+                name: 'B',
+                kind: 'object',
+                filePath: '/schemas/B.yaml',
+                relativePath: '/schemas/B.yaml',
+                properties: {
+                    a: { type: 'Association', relation: 'ManyToOne', target: 'A', nullable: true },
+                },
+            },
+        };
+
+        const migrations = generateMigrations(schemas, { timestamp: '2024_01_01_000000', driver: 'sqlite' });
+
         expect(migrations).toHaveLength(2);
     });
 
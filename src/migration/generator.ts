@@ -6,8 +6,11 @@
 
 import type { LoadedSchema, SchemaCollection } from '@famgia/omnify-types';
 import type {
+  ForeignKeyDefinition,
+  IndexDefinition,
   MigrationFile,
   MigrationOptions,
+  SchemaOperation,
   TableBlueprint,
 } from './types.js';
 import {
@@ -15,15 +18,25 @@ import {
   formatColumnMethod,
   formatForeignKey,
   formatIndex,
+  formatTableOptions,
   extractManyToManyRelations,
   generatePivotTableBlueprint,
   toTableName,
 } from './schema-builder.js';
+import {
+  adaptBlueprintForDriver,
+  findUnsupportedFeatures,
+  formatAddCheck,
+  formatCreateIndexStatement,
+  requiresIndexStatement,
+} from './driver.js';
+import { toForeignKeyName } from './naming.js';
+import { dropTableRisk, summarizeRisk } from './risk.js';
 
 /**
  * Generates timestamp prefix for migration file name.
  */
-function generateTimestamp(): string {
+export function generateTimestamp(): string {
   const now = new Date();
   const year = now.getFullYear();
   const month = String(now.getMonth() + 1).padStart(2, '0');
@@ -72,6 +85,11 @@ function generateFileName(
 function renderCreateTableUp(blueprint: TableBlueprint): string {
   const lines: string[] = [];
 
+  // Table options (engine, charset, collation, temporary, comment)
+  for (const line of formatTableOptions(blueprint.options ?? {})) {
+    lines.push(`            ${line}`);
+  }
+
   // Column definitions
   for (const column of blueprint.columns) {
     lines.push(`            ${formatColumnMethod(column)}`);
@@ -97,17 +115,33 @@ function renderForeignKeys(blueprint: TableBlueprint): string {
 }
 
 /**
- * Renders indexes.
+ * Checks if a column is declared unique by its ->unique() modifier.
  */
-function renderIndexes(blueprint: TableBlueprint): string {
+function hasUniqueModifier(blueprint: TableBlueprint, columnName: string | undefined): boolean {
+  const column = blueprint.columns.find(c => c.name === columnName);
+  return column?.modifiers.some(modifier => modifier.method === 'unique') ?? false;
+}
+
+/**
+ * Gets the indexes created in the Schema::create closure.
+ */
+function getClosureIndexes(blueprint: TableBlueprint): IndexDefinition[] {
   // Filter out indexes that are already handled (primary key, unique columns)
-  const customIndexes = blueprint.indexes.filter(idx => {
+  return blueprint.indexes.filter(idx => {
     // Skip single-column unique indexes (handled by column modifier)
-    if (idx.unique && idx.columns.length === 1) {
+    if (idx.unique && idx.columns.length === 1 && idx.where === undefined && hasUniqueModifier(blueprint, idx.columns[0])) {
       return false;
     }
-    return true;
+    // Partial and parser indexes are created after the table
+    return !requiresIndexStatement(idx);
   });
+}
+
+/**
+ * Renders indexes.
+ */
+function renderIndexes(blueprint: TableBlueprint): string {
+  const customIndexes = getClosureIndexes(blueprint);
 
   if (customIndexes.length === 0) {
     return '';
@@ -131,6 +165,67 @@ function renderCompositePrimaryKey(blueprint: TableBlueprint): string {
   return `\n            $table->primary([${columnsStr}]);`;
 }
 
+/**
+ * Renders the full Schema::create statement for a blueprint.
+ * Shared with ALTER/DROP migrations that need to recreate a table.
+ */
+export function renderCreateTableStatement(blueprint: TableBlueprint): string {
+  const upContent = renderCreateTableUp(blueprint);
+  const foreignKeyContent = renderForeignKeys(blueprint);
+  const indexContent = renderIndexes(blueprint);
+  const primaryKeyContent = renderCompositePrimaryKey(blueprint);
+
+  const checkContent = (blueprint.checks ?? [])
+    .map(check => `\n        ${formatAddCheck(blueprint.tableName, check)}`)
+    .join('');
+  const indexStatementContent = blueprint.indexes
+    .filter(requiresIndexStatement)
+    .map(index => `\n        ${formatCreateIndexStatement(blueprint.tableName, index)}`)
+    .join('');
+
+  return `        Schema::create('${blueprint.tableName}', function (Blueprint $table) {
+${upContent}${foreignKeyContent}${indexContent}${primaryKeyContent}
+        });${checkContent}${indexStatementContent}`;
+}
+
+/**
+ * Builds the schema operations of the Schema::create statement of a blueprint,
+ * in the order renderCreateTableStatement() emits them.
+ */
+export function createTableOperations(blueprint: TableBlueprint): SchemaOperation[] {
+  const tableName = blueprint.tableName;
+  const { engine, charset, collation, temporary, comment } = blueprint.options ?? {};
+  const options = { engine, charset, collation, temporary: temporary || undefined, comment };
+  const hasOptions = Object.values(options).some(value => value !== undefined);
+
+  return [
+    { type: 'createTable', tableName },
+    ...(hasOptions ? [{ type: 'setTableOptions', tableName, options } as const] : []),
+    ...blueprint.columns.map((column): SchemaOperation => ({ type: 'addColumn', tableName, column })),
+    ...blueprint.foreignKeys.map((foreignKey): SchemaOperation => ({ type: 'addForeignKey', tableName, foreignKey })),
+    ...getClosureIndexes(blueprint).map((index): SchemaOperation => ({ type: 'addIndex', tableName, index })),
+    ...(blueprint.primaryKey && blueprint.primaryKey.length > 1
+      ? [{ type: 'addPrimary', tableName, columns: blueprint.primaryKey } as const]
+      : []),
+    ...(blueprint.checks ?? []).map((check): SchemaOperation => ({ type: 'addCheck', tableName, check })),
+    ...blueprint.indexes
+      .filter(requiresIndexStatement)
+      .map((index): SchemaOperation => ({ type: 'addIndex', tableName, index })),
+  ];
+}
+
+/**
+ * Renders the use statements of a migration file.
+ * The DB facade is only imported when the migration body uses it.
+ */
+export function renderMigrationImports(body: string): string {
+  const dbImport = body.includes('DB::') ? 'use Illuminate\\Support\\Facades\\DB;\n' : '';
+
+  return `use Illuminate\\Database\\Migrations\\Migration;
+use Illuminate\\Database\\Schema\\Blueprint;
+${dbImport}use Illuminate\\Support\\Facades\\Schema;`;
+}
+
 /**
  * Generates a create table migration.
  */
@@ -140,16 +235,16 @@ function generateCreateMigration(
 ): MigrationFile {
   const className = toClassName(blueprint.tableName, 'create');
   const fileName = generateFileName(blueprint.tableName, 'create', options.timestamp);
+  const upContent = renderCreateTableStatement(blueprint);
+  const warnings = [
+    ...findUnsupportedFeatures(blueprint.tableName, blueprint.columns, options.driver),
+    ...(blueprint.warnings ?? []),
+  ];
 
   const connection = options.connection
     ? `\n    protected $connection = '${options.connection}';\n`
     : '';
 
-  const upContent = renderCreateTableUp(blueprint);
-  const foreignKeyContent = renderForeignKeys(blueprint);
-  const indexContent = renderIndexes(blueprint);
-  const primaryKeyContent = renderCompositePrimaryKey(blueprint);
-
   const content = `<?php
 
 /**
@@ -165,9 +260,7 @@ function generateCreateMigration(
  * @generated by @famgia/omnify-laravel
  */
 
-use Illuminate\\Database\\Migrations\\Migration;
-use Illuminate\\Database\\Schema\\Blueprint;
-use Illuminate\\Support\\Facades\\Schema;
+${renderMigrationImports(upContent)}
 
 return new class extends Migration
 {${connection}
@@ -176,9 +269,7 @@ return new class extends Migration
      */
     public function up(): void
     {
-        Schema::create('${blueprint.tableName}', function (Blueprint $table) {
-${upContent}${foreignKeyContent}${indexContent}${primaryKeyContent}
-        });
+${upContent}
     }
 
     /**
@@ -197,18 +288,29 @@ ${upContent}${foreignKeyContent}${indexContent}${primaryKeyContent}
     content,
     tables: [blueprint.tableName],
     type: 'create',
+    warnings: warnings.length > 0 ? warnings : undefined,
+    operations: {
+      up: createTableOperations(blueprint),
+      down: [{ type: 'dropTable', tableName: blueprint.tableName, ifExists: true }],
+    },
   };
 }
 
 /**
  * Generates a drop table migration.
+ * When the previous blueprint is given, down() recreates the table.
  */
 function generateDropMigration(
   tableName: string,
-  options: MigrationOptions = {}
+  options: MigrationOptions = {},
+  previousBlueprint?: TableBlueprint
 ): MigrationFile {
   const className = toClassName(tableName, 'drop');
   const fileName = generateFileName(tableName, 'drop', options.timestamp);
+  const downContent = previousBlueprint
+    ? renderCreateTableStatement(previousBlueprint)
+    : `        // Cannot recreate table without schema information
+        // This is a one-way migration`;
 
   const connection = options.connection
     ? `\n    protected $connection = '${options.connection}';\n`
@@ -227,9 +329,7 @@ function generateDropMigration(
  * @generated by @famgia/omnify-laravel
  */
 
-use Illuminate\\Database\\Migrations\\Migration;
-use Illuminate\\Database\\Schema\\Blueprint;
-use Illuminate\\Support\\Facades\\Schema;
+${renderMigrationImports(downContent)}
 
 return new class extends Migration
 {${connection}
@@ -246,8 +346,7 @@ return new class extends Migration
      */
     public function down(): void
     {
-        // Cannot recreate table without schema information
-        // This is a one-way migration
+${downContent}
     }
 };
 `;
@@ -258,6 +357,11 @@ return new class extends Migration
     content,
     tables: [tableName],
     type: 'drop',
+    risk: summarizeRisk([dropTableRisk(tableName, previousBlueprint !== undefined)]),
+    operations: {
+      up: [{ type: 'dropTable', tableName, ifExists: true }],
+      down: previousBlueprint ? createTableOperations(previousBlueprint) : [],
+    },
   };
 }
 
@@ -302,13 +406,28 @@ function extractDependencies(schema: LoadedSchema): string[] {
   return deps;
 }
 
+/**
+ * FK dependency left out of a CREATE migration because it closes a cycle.
+ */
+interface DeferredForeignKey {
+  /** Schema whose table holds the FK column */
+  readonly schemaName: string;
+  /** Referenced schema (created later in the same run) */
+  readonly targetName: string;
+}
+
 /**
  * Topological sort of schemas based on FK dependencies.
- * Returns schemas in order where dependencies come before dependents.
+ * Returns schemas in order where dependencies come before dependents,
+ * plus the dependencies that close a cycle (self-references excluded).
  */
-function topologicalSort(schemas: SchemaCollection): LoadedSchema[] {
+function topologicalSort(schemas: SchemaCollection): {
+  sorted: LoadedSchema[];
+  deferred: DeferredForeignKey[];
+} {
   const schemaList = Object.values(schemas).filter(s => s.kind !== 'enum');
   const sorted: LoadedSchema[] = [];
+  const deferred: DeferredForeignKey[] = [];
   const visited = new Set<string>();
   const visiting = new Set<string>(); // For cycle detection
 
@@ -317,20 +436,25 @@ function topologicalSort(schemas: SchemaCollection): LoadedSchema[] {
       return;
     }
 
-    if (visiting.has(schema.name)) {
-      // Circular dependency - just continue (FK can be nullable)
-      return;
-    }
-
     visiting.add(schema.name);
 
     // Visit dependencies first
     const deps = extractDependencies(schema);
     for (const depName of deps) {
       const depSchema = schemas[depName];
-      if (depSchema && depSchema.kind !== 'enum') {
-        visit(depSchema);
+      if (!depSchema || depSchema.kind === 'enum' || depName === schema.name) {
+        continue;
       }
+
+      if (visiting.has(depName)) {
+        // Circular dependency - the referenced table doesn't exist yet, defer the FK
+        if (!deferred.some(d => d.schemaName === schema.name && d.targetName === depName)) {
+          deferred.push({ schemaName: schema.name, targetName: depName });
+        }
+        continue;
+      }
+
+      visit(depSchema);
     }
 
     visiting.delete(schema.name);
@@ -343,7 +467,93 @@ function topologicalSort(schemas: SchemaCollection): LoadedSchema[] {
     visit(schema);
   }
 
-  return sorted;
+  return { sorted, deferred };
+}
+
+/**
+ * Generates the trailing migration adding FK constraints deferred by circular dependencies.
+ */
+function generateDeferredForeignKeysMigration(
+  foreignKeys: ReadonlyMap<string, readonly ForeignKeyDefinition[]>,
+  options: MigrationOptions = {}
+): MigrationFile {
+  const timestamp = options.timestamp ?? generateTimestamp();
+  const upStatements: string[] = [];
+  const downStatements: string[] = [];
+  const upOperations: SchemaOperation[] = [];
+  const downOperations: SchemaOperation[] = [];
+
+  for (const [tableName, tableForeignKeys] of foreignKeys) {
+    const addLines = tableForeignKeys.map(fk => `            ${formatForeignKey(fk)}`);
+    const dropLines = tableForeignKeys.map(fk =>
+      `            $table->dropForeign('${fk.name ?? toForeignKeyName(tableName, fk.columns)}');`
+    );
+    upOperations.push(...tableForeignKeys.map((foreignKey): SchemaOperation => ({ type: 'addForeignKey', tableName, foreignKey })));
+    downOperations.push(...tableForeignKeys.map((fk): SchemaOperation => ({
+      type: 'dropForeignKey',
+      tableName,
+      name: fk.name ?? toForeignKeyName(tableName, fk.columns),
+    })));
+
+    upStatements.push(`        Schema::table('${tableName}', function (Blueprint $table) {
+${addLines.join('\n')}
+        });`);
+    downStatements.push(`        Schema::table('${tableName}', function (Blueprint $table) {
+${dropLines.join('\n')}
+        });`);
+  }
+
+  const upContent = upStatements.join('\n\n');
+  const downContent = downStatements.join('\n\n');
+  const connection = options.connection
+    ? `\n    protected $connection = '${options.connection}';\n`
+    : '';
+
+  const content = `<?php
+
+/**
+ * ⚠️ DO NOT EDIT THIS FILE! ⚠️
+ * このファイルを編集しないでください！
+ * KHÔNG ĐƯỢC SỬA FILE NÀY!
+ *
+ * This file is AUTO-GENERATED by Omnify.
+ * Any manual changes will be OVERWRITTEN on next generation.
+ *
+ * To modify: Edit the schema YAML file and run: npx omnify generate
+ *
+ * @generated by @famgia/omnify-laravel
+ */
+
+${renderMigrationImports(upContent)}
+
+return new class extends Migration
+{${connection}
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+${upContent}
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+${downContent}
+    }
+};
+`;
+
+  return {
+    fileName: `${timestamp}_add_foreign_keys.php`,
+    className: 'AddForeignKeys',
+    content,
+    tables: [...foreignKeys.keys()],
+    type: 'alter',
+    operations: { up: upOperations, down: downOperations },
+  };
 }
 
 /**
@@ -362,7 +572,12 @@ export function generateMigrations(
   // Use ensureFileSchema() from @famgia/omnify-core to auto-generate File.yaml when needed.
 
   // Sort schemas by FK dependencies (topological sort)
-  const sortedSchemas = topologicalSort(schemas);
+  const { sorted: sortedSchemas, deferred } = topologicalSort(schemas);
+
+  // SQLite doesn't check referenced tables at CREATE time, so cycles need no deferral
+  const deferredEdges = options.driver === 'sqlite' ? [] : deferred;
+  const deferredForeignKeys = new Map<string, ForeignKeyDefinition[]>();
+  const deferralMessages: string[] = [];
 
   // Generate base timestamp ONCE for all migrations to ensure consistent ordering
   // This prevents timestamp drift when generateTimestamp() was called inside loops
@@ -374,11 +589,34 @@ export function generateMigrations(
     const offsetTimestamp = incrementTimestamp(baseTimestamp, timestampOffset);
     timestampOffset++;
 
-    const blueprint = schemaToBlueprint(schema, schemas, {
+    let blueprint = schemaToBlueprint(schema, schemas, {
       customTypes: options.customTypes,
       pluginEnums: options.pluginEnums,
       locale: options.locale,
+      driver: options.driver,
+      checkConstraints: options.checkConstraints,
     });
+
+    // Leave FKs to tables that are created later out of the CREATE migration
+    const deferredTables = new Set(
+      deferredEdges
+        .filter(edge => edge.schemaName === schema.name)
+        .map(edge => schemas[edge.targetName]?.options?.tableName ?? toTableName(edge.targetName))
+    );
+    if (deferredTables.size > 0) {
+      const [deferredFks, inlineFks] = partition(blueprint.foreignKeys, fk => deferredTables.has(fk.on[0] ?? ''));
+      blueprint = { ...blueprint, foreignKeys: inlineFks };
+      // Existing tables are not created again, so their foreign keys are not added either
+      if (!options.existingTables?.has(blueprint.tableName)) {
+        deferredForeignKeys.set(blueprint.tableName, deferredFks);
+        for (const fk of deferredFks) {
+          deferralMessages.push(
+            `Deferred foreign key ${blueprint.tableName}.${fk.columns.join(', ')} → ${fk.on[0]} to the add_foreign_keys migration (circular dependency)`
+          );
+        }
+      }
+    }
+
     const migration = generateCreateMigration(blueprint, {
       ...options,
       timestamp: offsetTimestamp,
@@ -420,7 +658,7 @@ export function generateMigrations(
       const offsetTimestamp = incrementTimestamp(baseTimestamp, timestampOffset);
       timestampOffset++;
 
-      const blueprint = generatePivotTableBlueprint(pivot);
+      const blueprint = adaptBlueprintForDriver(generatePivotTableBlueprint(pivot), options.driver);
       const migration = generateCreateMigration(blueprint, {
         ...options,
         timestamp: offsetTimestamp,
@@ -429,13 +667,39 @@ export function generateMigrations(
     }
   }
 
+  // Last pass: add FK constraints deferred by circular dependencies
+  if (deferredForeignKeys.size > 0) {
+    const offsetTimestamp = incrementTimestamp(baseTimestamp, timestampOffset);
+    timestampOffset++;
+
+    migrations.push({
+      ...generateDeferredForeignKeysMigration(deferredForeignKeys, {
+        ...options,
+        timestamp: offsetTimestamp,
+      }),
+      warnings: deferralMessages,
+    });
+  }
+
   return migrations;
 }
 
 /**
- * Increments a timestamp by seconds.
+ * Splits items into those matching the predicate and the rest.
+ */
+function partition<T>(items: readonly T[], predicate: (item: T) => boolean): [T[], T[]] {
+  const matching: T[] = [];
+  const rest: T[] = [];
+  for (const item of items) {
+    (predicate(item) ? matching : rest).push(item);
+  }
+  return [matching, rest];
+}
+
+/**
+ * Increments a timestamp by seconds (carrying into minutes, hours and days).
  */
-function incrementTimestamp(timestamp: string, seconds: number): string {
+export function incrementTimestamp(timestamp: string, seconds: number): string {
   if (seconds === 0) return timestamp;
 
   // Parse timestamp: YYYY_MM_DD_HHMMSS
@@ -477,7 +741,13 @@ export function generateMigrationFromSchema(
   allSchemas: SchemaCollection,
   options: MigrationOptions = {}
 ): MigrationFile {
-  const blueprint = schemaToBlueprint(schema, allSchemas);
+  const blueprint = schemaToBlueprint(schema, allSchemas, {
+    customTypes: options.customTypes,
+    pluginEnums: options.pluginEnums,
+    locale: options.locale,
+    driver: options.driver,
+    checkConstraints: options.checkConstraints,
+  });
   return generateCreateMigration(blueprint, options);
 }
 
@@ -486,9 +756,20 @@ export function generateMigrationFromSchema(
  */
 export function generateDropMigrationForTable(
   tableName: string,
+  options: MigrationOptions = {},
+  previousBlueprint?: TableBlueprint
+): MigrationFile {
+  return generateDropMigration(tableName, options, previousBlueprint);
+}
+
+/**
+ * Generates a create migration for a single table blueprint (e.g., a pivot table).
+ */
+export function generateCreateMigrationForTable(
+  blueprint: TableBlueprint,
   options: MigrationOptions = {}
 ): MigrationFile {
-  return generateDropMigration(tableName, options);
+  return generateCreateMigration(blueprint, options);
 }
 
 /**
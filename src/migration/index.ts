@@ -11,46 +11,116 @@ export type {
   ColumnModifier,
   ForeignKeyDefinition,
   IndexDefinition,
+  IndexType,
   TableBlueprint,
+  CheckConstraintDefinition,
+  TableOptions,
+  DatabaseDriver,
   MigrationOperation,
   MigrationDefinition,
+  MigrationRisk,
+  MigrationRiskLevel,
+  MigrationRiskReason,
+  SchemaRename,
+  OptionChange,
+  TableOptionChanges,
+  TableSchemaChange,
+  SimulatedDatabase,
+  SchemaOperation,
+  MigrationOperations,
+  SimulationResult,
 } from './types.js';
 
+export type {
+  MigrationTableStatement,
+  ExistingTableIndex,
+} from './existing-tables.js';
+
 export type {
   PivotFieldInfo,
   PivotTableInfo,
   MorphToManyPivotInfo,
+  MorphToManyNames,
 } from './schema-builder.js';
 
 export {
   toColumnName,
   toTableName,
   propertyToColumnMethod,
+  propertyToColumnMethods,
   generatePrimaryKeyColumn,
   generateTimestampColumns,
   generateSoftDeleteColumn,
   generateForeignKey,
   schemaToBlueprint,
+  propertyToCheckConstraint,
   formatColumnMethod,
   formatForeignKey,
   formatIndex,
+  formatTableOptions,
+  schemaToTableOptions,
   generatePivotTableName,
   extractManyToManyRelations,
   generatePivotTableBlueprint,
   extractMorphToManyRelations,
   generateMorphToManyPivotBlueprint,
+  getMorphToManyNames,
 } from './schema-builder.js';
 
 export {
   generateMigrations,
   generateMigrationFromSchema,
   generateDropMigrationForTable,
+  generateCreateMigrationForTable,
   formatMigrationFile,
   getMigrationPath,
+  generateTimestamp,
+  incrementTimestamp,
 } from './generator.js';
 
+export {
+  DEFAULT_DRIVER,
+  adaptBlueprintForDriver,
+  adaptIndexForDriver,
+  supportedChecks,
+  adaptTableOptionsForDriver,
+  findUnsupportedFeatures,
+} from './driver.js';
+
+export type { ConstraintType } from './naming.js';
+
+export {
+  MAX_IDENTIFIER_LENGTH,
+  toConstraintName,
+  toIndexName,
+  toForeignKeyName,
+} from './naming.js';
+
+export {
+  MIGRATION_RISK_LEVELS,
+  getMigrationRisk,
+  findUnacknowledgedDataLoss,
+} from './risk.js';
+
 export {
   generateAlterMigration,
   generateDropTableMigration,
   generateMigrationsFromChanges,
+  generateRenameTableMigration,
+  detectSchemaRenames,
 } from './alter-generator.js';
+
+export {
+  applyOperations,
+  simulateMigrations,
+  diffDatabases,
+  checkRoundTrip,
+  checkFreshMatchesHistory,
+  assertRoundTrip,
+  assertFreshMatchesHistory,
+} from './simulator.js';
+
+export {
+  findTableStatements,
+  buildExistingTableIndex,
+} from './existing-tables.js';
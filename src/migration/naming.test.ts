@@ -0,0 +1,64 @@
+/**
+ * @famgia/omnify-laravel - Constraint Naming Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { LoadedSchema } from '@famgia/omnify-types';
+import {
+  MAX_IDENTIFIER_LENGTH,
+  shortenIdentifier,
+  toForeignKeyName,
+  toIndexName,
+} from './naming.js';
+import { schemaToBlueprint } from './schema-builder.js';
+import { toEnumCheckName } from './driver.js';
+
+describe('constraint naming', () => {
+  it('follows the Laravel naming rule for short names', () => {
+    expect(toIndexName('users', { columns: ['email'], unique: true })).toBe('users_email_unique');
+    expect(toIndexName('orders', { columns: ['user_id', 'status'], unique: false })).toBe('orders_user_id_status_index');
+    expect(toForeignKeyName('posts', ['author_id'])).toBe('posts_author_id_foreign');
+    expect(toEnumCheckName('posts', 'status')).toBe('posts_status_check');
+  });
+
+  it('shortens long names with a deterministic hash suffix', () => {
+    const table = 'kokyaku_keiyaku_shouhin_hikiate_rireki_meisai';
+    const name = toForeignKeyName(table, ['tantousha_shozoku_busho_id']);
+
+    expect(name).toHaveLength(MAX_IDENTIFIER_LENGTH);
+    expect(name).toMatch(/^kokyaku_keiyaku_shouhin_hikiate_rireki_meisai_tantoush_[0-9a-f]{8}$/);
+    expect(toForeignKeyName(table, ['tantousha_shozoku_busho_id'])).toBe(name);
+  });
+
+  it('keeps names sharing a long prefix distinct', () => {
+    const prefix = 'x'.repeat(80);
+
+    expect(shortenIdentifier(`${prefix}_a`)).not.toBe(shortenIdentifier(`${prefix}_b`));
+  });
+
+  it('names every index and foreign key of a blueprint', () => {
+    const post: LoadedSchema = {
+      name: 'Post',
+      kind: 'object',
+      filePath: '/test/post.yaml',
+      relativePath: '/test/post.yaml',
+      properties: {
+        slug: { type: 'String' },
+        author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+      },
+      options: {
+        indexes: ['slug', { columns: ['slug', 'author'], name: 'idx_custom' }],
+      },
+    } as LoadedSchema;
+    const user = { name: 'User', kind: 'object', properties: {} } as unknown as LoadedSchema;
+
+    const blueprint = schemaToBlueprint(post, { Post: post, User: user });
+
+    expect(blueprint.foreignKeys.map(fk => fk.name)).toEqual(['posts_author_id_foreign']);
+    expect(blueprint.indexes.map(index => index.name)).toEqual([
+      'posts_author_id_index',
+      'posts_slug_index',
+      'idx_custom',
+    ]);
+  });
+});
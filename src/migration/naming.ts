@@ -0,0 +1,90 @@
+/**
+ * @famgia/omnify-laravel - Constraint Naming
+ *
+ * Deterministic names for indexes, unique constraints, foreign keys and CHECK
+ * constraints. Names follow Laravel's `{table}_{columns}_{type}` rule, so short
+ * names match what Laravel would generate, and are shortened with a hash suffix
+ * when they exceed the identifier length limit.
+ */
+
+import { createHash } from 'node:crypto';
+import type { IndexDefinition, TableBlueprint } from './types.js';
+
+/**
+ * Longest identifier accepted by every supported driver
+ * (PostgreSQL: 63, MySQL: 64, SQL Server: 128).
+ */
+export const MAX_IDENTIFIER_LENGTH = 63;
+
+/**
+ * Length of the hash suffix appended to shortened identifiers.
+ */
+const HASH_LENGTH = 8;
+
+/**
+ * Constraint kinds, used as the name suffix.
+ */
+export type ConstraintType = 'index' | 'unique' | 'fulltext' | 'spatialindex' | 'foreign' | 'check';
+
+/**
+ * Shortens an identifier to the length limit.
+ * Long names keep their readable prefix and end with a hash of the full name,
+ * so two names sharing a prefix stay distinct.
+ */
+export function shortenIdentifier(name: string, maxLength: number = MAX_IDENTIFIER_LENGTH): string {
+  if (name.length <= maxLength) {
+    return name;
+  }
+
+  const hash = createHash('sha1').update(name).digest('hex').slice(0, HASH_LENGTH);
+  const prefix = name.slice(0, maxLength - HASH_LENGTH - 1).replace(/_+$/, '');
+  return `${prefix}_${hash}`;
+}
+
+/**
+ * Gets the name of a constraint on the given columns.
+ * Same rule as Laravel's Blueprint::createIndexName, plus length safety.
+ */
+export function toConstraintName(
+  tableName: string,
+  columns: readonly string[],
+  type: ConstraintType
+): string {
+  const name = `${tableName}_${columns.join('_')}_${type}`.toLowerCase().replace(/[-.]/g, '_');
+  return shortenIdentifier(name);
+}
+
+/**
+ * Gets the name of an index or unique constraint.
+ */
+export function toIndexName(
+  tableName: string,
+  index: Pick<IndexDefinition, 'columns' | 'unique' | 'type'>
+): string {
+  const type = index.type ?? (index.unique ? 'unique' : 'index');
+  return toConstraintName(tableName, index.columns, type === 'spatial' ? 'spatialindex' : type);
+}
+
+/**
+ * Gets the name of a foreign key constraint.
+ */
+export function toForeignKeyName(tableName: string, columns: readonly string[]): string {
+  return toConstraintName(tableName, columns, 'foreign');
+}
+
+/**
+ * Names every index and foreign key of a blueprint that has no explicit name.
+ */
+export function nameBlueprintConstraints(blueprint: TableBlueprint): TableBlueprint {
+  return {
+    ...blueprint,
+    foreignKeys: blueprint.foreignKeys.map(fk => ({
+      ...fk,
+      name: fk.name ?? toForeignKeyName(blueprint.tableName, fk.columns),
+    })),
+    indexes: blueprint.indexes.map(index => ({
+      ...index,
+      name: index.name ?? toIndexName(blueprint.tableName, index),
+    })),
+  };
+}
@@ -1972,9 +1972,9 @@ describe('Full Migration Generation', () => {
     expect(content).toContain("unsignedBigInteger('tag_id')");
 
     // Check foreign keys
-    expect(content).toContain("->foreign('product_id')");
+    expect(content).toContain("->foreign('product_id', 'product_tag_product_id_foreign')");
     expect(content).toContain("->references('id')->on('products')");
-    expect(content).toContain("->foreign('tag_id')");
+    expect(content).toContain("->foreign('tag_id', 'product_tag_tag_id_foreign')");
     expect(content).toContain("->references('id')->on('tags')");
 
     // Check onDelete (uppercase because it comes from schema)
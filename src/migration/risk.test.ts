@@ -0,0 +1,94 @@
+/**
+ * @famgia/omnify-laravel - Migration Risk Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ColumnMethod } from './types.js';
+import {
+  assessColumnChange,
+  dropColumnRisk,
+  dropTableRisk,
+  findUnacknowledgedDataLoss,
+  getMigrationRisk,
+  summarizeRisk,
+} from './risk.js';
+
+const column = (method: string, args: (string | number)[] = [], modifiers: string[] = []): ColumnMethod => ({
+  name: 'field',
+  method,
+  args: ['field', ...args],
+  modifiers: modifiers.map(modifier => ({ method: modifier })),
+});
+
+describe('migration risk', () => {
+  describe('assessColumnChange', () => {
+    it('reports narrowed integer, string and decimal columns as data loss', () => {
+      expect(assessColumnChange('posts', column('bigInteger'), column('integer'))).toEqual({
+        level: 'data-loss',
+        target: 'posts.field',
+        message: 'Narrows posts.field from bigInteger to integer; out-of-range values are rejected or clamped',
+      });
+      expect(assessColumnChange('posts', column('integer'), column('unsignedInteger')).level).toBe('data-loss');
+      expect(assessColumnChange('posts', column('text'), column('string', [100])).message).toBe(
+        'Narrows posts.field from text to string(100); longer values are truncated or rejected'
+      );
+      expect(assessColumnChange('posts', column('decimal', [10, 2]), column('decimal', [10, 4])).level).toBe('data-loss');
+    });
+
+    it('reports removed enum values and type conversions as data loss', () => {
+      const from: ColumnMethod = { ...column('enum'), args: ['field', ['a', 'b'] as unknown as string] };
+      const to: ColumnMethod = { ...column('enum'), args: ['field', ['a'] as unknown as string] };
+
+      expect(assessColumnChange('posts', from, to).message).toBe(
+        "Removes 'b' from posts.field; rows holding them are rejected or emptied"
+      );
+      expect(assessColumnChange('posts', column('string'), column('integer')).message).toBe(
+        'Converts posts.field from string to integer; values that do not convert are lost or rejected'
+      );
+    });
+
+    it('reports widened and otherwise changed columns as locking', () => {
+      expect(assessColumnChange('posts', column('integer'), column('bigInteger')).level).toBe('locking');
+      expect(assessColumnChange('posts', column('unsignedInteger'), column('bigInteger')).level).toBe('locking');
+      expect(assessColumnChange('posts', column('string', [100]), column('text')).level).toBe('locking');
+      expect(assessColumnChange('posts', column('string', [], ['nullable']), column('string'))).toEqual({
+        level: 'locking',
+        target: 'posts.field',
+        message: 'Makes posts.field NOT NULL; fails while rows hold NULL',
+      });
+    });
+  });
+
+  describe('summarizeRisk', () => {
+    it('uses the most severe level', () => {
+      expect(summarizeRisk([]).level).toBe('safe');
+      expect(summarizeRisk([
+        dropColumnRisk('posts', 'title'),
+        dropTableRisk('tags', false),
+        assessColumnChange('posts', column('integer'), column('bigInteger')),
+      ]).level).toBe('irreversible');
+    });
+
+    it('treats unclassified migrations as safe', () => {
+      const operations = { up: [], down: [] };
+      expect(getMigrationRisk({ fileName: 'x.php', className: 'X', content: '', tables: [], type: 'create', operations })).toEqual({
+        level: 'safe',
+        reasons: [],
+      });
+    });
+  });
+
+  describe('findUnacknowledgedDataLoss', () => {
+    const risk = summarizeRisk([
+      dropColumnRisk('posts', 'title'),
+      dropTableRisk('tags', true),
+      assessColumnChange('posts', column('integer'), column('bigInteger')),
+    ]);
+
+    it('ignores locking changes and acknowledged columns and tables', () => {
+      expect(findUnacknowledgedDataLoss(risk, []).map(reason => reason.target)).toEqual(['posts.title', 'tags']);
+      expect(findUnacknowledgedDataLoss(risk, ['posts.title']).map(reason => reason.target)).toEqual(['tags']);
+      expect(findUnacknowledgedDataLoss(risk, ['posts', 'tags'])).toEqual([]);
+    });
+  });
+});
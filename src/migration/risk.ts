@@ -0,0 +1,215 @@
+/**
+ * @famgia/omnify-laravel - Migration Risk
+ *
+ * Classifies migrations by what running them does to a table that already has
+ * rows: safe, locking, data-loss or irreversible. Data-loss and irreversible
+ * changes can be required to be acknowledged by an allow-list of tables and
+ * `table.column` entries before they are generated.
+ */
+
+import type {
+  ColumnMethod,
+  MigrationFile,
+  MigrationRisk,
+  MigrationRiskLevel,
+  MigrationRiskReason,
+} from './types.js';
+
+/**
+ * Risk levels, from least to most severe.
+ */
+export const MIGRATION_RISK_LEVELS: readonly MigrationRiskLevel[] = ['safe', 'locking', 'data-loss', 'irreversible'];
+
+/**
+ * Integer column methods, from narrowest to widest.
+ */
+const INTEGER_METHODS = ['tinyInteger', 'smallInteger', 'mediumInteger', 'integer', 'bigInteger'];
+
+/**
+ * Maximum length of text columns (MySQL limits, in bytes).
+ */
+const TEXT_CAPACITY: Readonly<Record<string, number>> = {
+  text: 65_535,
+  mediumText: 16_777_215,
+  longText: 4_294_967_295,
+};
+
+/**
+ * Builds a risk classification from its reasons; the level is the most severe one.
+ */
+export function summarizeRisk(reasons: readonly MigrationRiskReason[]): MigrationRisk {
+  const level = reasons.reduce<MigrationRiskLevel>(
+    (highest, reason) =>
+      MIGRATION_RISK_LEVELS.indexOf(reason.level) > MIGRATION_RISK_LEVELS.indexOf(highest) ? reason.level : highest,
+    'safe'
+  );
+  return { level, reasons };
+}
+
+/**
+ * Gets the risk of a migration. Migrations without a classification (CREATE) are safe.
+ */
+export function getMigrationRisk(migration: MigrationFile): MigrationRisk {
+  return migration.risk ?? summarizeRisk([]);
+}
+
+/**
+ * Checks if a risk level loses stored data (data-loss or irreversible).
+ */
+export function losesData(level: MigrationRiskLevel): boolean {
+  return level === 'data-loss' || level === 'irreversible';
+}
+
+/**
+ * Gets the data-loss reasons of a migration not acknowledged by the allow-list.
+ * An entry acknowledges a `table.column`, or every change to a table when it is a table name.
+ */
+export function findUnacknowledgedDataLoss(
+  risk: MigrationRisk,
+  allowList: readonly string[]
+): MigrationRiskReason[] {
+  const allowed = new Set(allowList);
+  return risk.reasons.filter(reason =>
+    losesData(reason.level) &&
+    !allowed.has(reason.target) &&
+    !allowed.has(reason.target.split('.')[0]!)
+  );
+}
+
+/**
+ * Risk of dropping a table. Without the previous definition, down() cannot recreate it.
+ */
+export function dropTableRisk(tableName: string, recreatable: boolean): MigrationRiskReason {
+  return recreatable
+    ? { level: 'data-loss', target: tableName, message: `Drops table ${tableName} and its rows` }
+    : {
+      level: 'irreversible',
+      target: tableName,
+      message: `Drops table ${tableName} and its rows; down() cannot recreate it without the previous schema`,
+    };
+}
+
+/**
+ * Risk of dropping a column.
+ */
+export function dropColumnRisk(tableName: string, columnName: string): MigrationRiskReason {
+  const target = `${tableName}.${columnName}`;
+  return { level: 'data-loss', target, message: `Drops ${target} and its values` };
+}
+
+/**
+ * Formats a column type for risk messages, e.g. `string(100)` or `decimal(8, 2)`.
+ */
+function describeColumn(column: ColumnMethod): string {
+  const sizes = column.args.slice(1).filter(arg => typeof arg === 'number');
+  return sizes.length > 0 ? `${column.method}(${sizes.join(', ')})` : column.method;
+}
+
+/**
+ * Gets the width (index in INTEGER_METHODS) and signedness of an integer column.
+ */
+function integerType(column: ColumnMethod): { width: number; unsigned: boolean } | null {
+  const unsignedMethod = column.method.startsWith('unsigned');
+  const method = unsignedMethod ? column.method.charAt(8).toLowerCase() + column.method.slice(9) : column.method;
+  const width = INTEGER_METHODS.indexOf(method);
+  if (width < 0) {
+    return null;
+  }
+  return { width, unsigned: unsignedMethod || column.modifiers.some(modifier => modifier.method === 'unsigned') };
+}
+
+/**
+ * Gets the maximum length of a string or text column.
+ */
+function textCapacity(column: ColumnMethod): number | null {
+  if (column.method === 'string' || column.method === 'char') {
+    return typeof column.args[1] === 'number' ? column.args[1] : 255;
+  }
+  return TEXT_CAPACITY[column.method] ?? null;
+}
+
+/**
+ * Gets the integer and fractional digits of a decimal column (Laravel defaults: 8, 2).
+ */
+function decimalDigits(column: ColumnMethod): { integer: number; scale: number } | null {
+  if (column.method !== 'decimal') {
+    return null;
+  }
+  const precision = typeof column.args[1] === 'number' ? column.args[1] : 8;
+  const scale = typeof column.args[2] === 'number' ? column.args[2] : 2;
+  return { integer: precision - scale, scale };
+}
+
+/**
+ * Gets the values of a native enum column.
+ */
+export function enumValues(column: ColumnMethod): string[] {
+  const values = column.args[1] as unknown;
+  return column.method === 'enum' && Array.isArray(values) ? values.map(String) : [];
+}
+
+/**
+ * Describes how changing a column loses values, or returns null when every value fits the new type.
+ */
+function describeNarrowing(target: string, from: ColumnMethod, to: ColumnMethod): string | null {
+  const types = `from ${describeColumn(from)} to ${describeColumn(to)}`;
+
+  const fromInteger = integerType(from);
+  const toInteger = integerType(to);
+  if (fromInteger && toInteger) {
+    const narrowed =
+      toInteger.width < fromInteger.width ||
+      (toInteger.unsigned && !fromInteger.unsigned) ||
+      (fromInteger.unsigned && !toInteger.unsigned && toInteger.width === fromInteger.width);
+    return narrowed ? `Narrows ${target} ${types}; out-of-range values are rejected or clamped` : null;
+  }
+
+  const fromCapacity = textCapacity(from);
+  const toCapacity = textCapacity(to);
+  if (fromCapacity !== null && toCapacity !== null) {
+    return toCapacity < fromCapacity ? `Narrows ${target} ${types}; longer values are truncated or rejected` : null;
+  }
+
+  const fromDigits = decimalDigits(from);
+  const toDigits = decimalDigits(to);
+  if (fromDigits && toDigits) {
+    return toDigits.integer < fromDigits.integer || toDigits.scale < fromDigits.scale
+      ? `Narrows ${target} ${types}; values are rounded or rejected`
+      : null;
+  }
+
+  if (from.method === 'enum' && to.method === 'enum') {
+    const values = new Set(enumValues(to));
+    const removed = enumValues(from).filter(value => !values.has(value));
+    return removed.length > 0
+      ? `Removes ${removed.map(value => `'${value}'`).join(', ')} from ${target}; rows holding them are rejected or emptied`
+      : null;
+  }
+
+  return from.method !== to.method
+    ? `Converts ${target} ${types}; values that do not convert are lost or rejected`
+    : null;
+}
+
+/**
+ * Classifies changing a column in place with `->change()`.
+ * Narrowing or converting the type loses data; any other change rewrites the column.
+ */
+export function assessColumnChange(tableName: string, from: ColumnMethod, to: ColumnMethod): MigrationRiskReason {
+  const target = `${tableName}.${to.name}`;
+  const narrowing = describeNarrowing(target, from, to);
+  if (narrowing) {
+    return { level: 'data-loss', target, message: narrowing };
+  }
+
+  const isNullable = (column: ColumnMethod) => column.modifiers.some(modifier => modifier.method === 'nullable');
+  if (isNullable(from) && !isNullable(to)) {
+    return { level: 'locking', target, message: `Makes ${target} NOT NULL; fails while rows hold NULL` };
+  }
+
+  return {
+    level: 'locking',
+    target,
+    message: `Rewrites ${target} (${describeColumn(to)}); the table may be locked while it is rebuilt`,
+  };
+}
@@ -12,13 +12,15 @@ import {
   generateSoftDeleteColumn,
   generatePolymorphicColumns,
   schemaToBlueprint,
+  propertyToCheckConstraint,
   formatColumnMethod,
   formatForeignKey,
   formatIndex,
+  formatTableOptions,
   extractMorphToManyRelations,
   generateMorphToManyPivotBlueprint,
 } from './schema-builder.js';
-import type { LoadedSchema, SchemaCollection } from '@famgia/omnify-types';
+import type { LoadedSchema, PluginEnumDefinition, PropertyDefinition, SchemaCollection } from '@famgia/omnify-types';
 
 describe('Schema Builder', () => {
   describe('toColumnName', () => {
@@ -113,6 +115,80 @@ describe('Schema Builder', () => {
       expect(result?.modifiers).toContainEqual({ method: 'primary' });
       expect(result?.modifiers).not.toContainEqual({ method: 'nullable' });
     });
+
+    it('adds storedAs modifier for generated columns', () => {
+      const result = propertyToColumnMethod('fullName', {
+        type: 'String',
+        storedAs: "CONCAT(first_name, ' ', last_name)",
+      } as PropertyDefinition);
+      expect(result?.modifiers).toContainEqual({ method: 'storedAs', args: ["CONCAT(first_name, ' ', last_name)"] });
+      expect(formatColumnMethod(result!)).toBe(
+        "$table->string('full_name')->storedAs('CONCAT(first_name, \\' \\', last_name)');"
+      );
+    });
+
+    it('prefers storedAs over virtualAs', () => {
+      const result = propertyToColumnMethod('total', {
+        type: 'Int',
+        virtualAs: 'price * quantity',
+        storedAs: 'price * quantity',
+      } as PropertyDefinition);
+      expect(result?.modifiers).toEqual([{ method: 'storedAs', args: ['price * quantity'] }]);
+    });
+
+    it('sizes EnumRef columns to the longest value, at least 50', () => {
+      const longValue = 'awaiting_customer_confirmation_of_the_revised_delivery_date';
+      const schemas: SchemaCollection = {
+        Status: {
+          name: 'Status',
+          kind: 'enum',
+          filePath: '/test/status.yaml',
+          relativePath: '/test/status.yaml',
+          values: ['active', { value: longValue }],
+        } as LoadedSchema,
+      };
+      const pluginEnums = new Map([
+        ['Prefecture', { name: 'Prefecture', values: [{ value: 'hokkaido' }] }],
+      ]) as unknown as ReadonlyMap<string, PluginEnumDefinition>;
+
+      expect(propertyToColumnMethod('status', { type: 'EnumRef', enum: 'Status' } as PropertyDefinition, { allSchemas: schemas })?.args)
+        .toEqual(['status', longValue.length]);
+      expect(propertyToColumnMethod('pref', { type: 'EnumRef', enum: 'Prefecture' } as PropertyDefinition, { pluginEnums })?.args)
+        .toEqual(['pref', 50]);
+      expect(propertyToColumnMethod('status', { type: 'EnumRef', enum: 'Status', length: 100 } as PropertyDefinition, { allSchemas: schemas })?.args)
+        .toEqual(['status', 100]);
+    });
+  });
+
+  describe('propertyToCheckConstraint', () => {
+    it('builds a range check from min and max', () => {
+      expect(propertyToCheckConstraint('products', 'stockCount', { type: 'Int', min: 0, max: 1000 } as PropertyDefinition)).toEqual({
+        name: 'products_stock_count_check',
+        expression: 'stock_count >= 0 AND stock_count <= 1000',
+      });
+    });
+
+    it('builds an IN check from EnumRef values', () => {
+      const schemas: SchemaCollection = {
+        Status: {
+          name: 'Status',
+          kind: 'enum',
+          filePath: '/test/status.yaml',
+          relativePath: '/test/status.yaml',
+          values: ['active', "won't"],
+        } as LoadedSchema,
+      };
+
+      expect(propertyToCheckConstraint('users', 'status', { type: 'EnumRef', enum: 'Status' } as PropertyDefinition, schemas)).toEqual({
+        name: 'users_status_check',
+        expression: "status IN ('active', 'won''t')",
+      });
+    });
+
+    it('skips generated columns and properties without a range', () => {
+      expect(propertyToCheckConstraint('orders', 'total', { type: 'Int', min: 0, storedAs: 'price * quantity' } as PropertyDefinition)).toBeUndefined();
+      expect(propertyToCheckConstraint('orders', 'note', { type: 'String', maxLength: 10 } as PropertyDefinition)).toBeUndefined();
+    });
   });
 
   describe('generatePrimaryKeyColumn', () => {
@@ -366,6 +442,23 @@ describe('Schema Builder', () => {
       // Should derive tableName from schema name (app_caches)
       expect(result.tableName).toBe('app_caches');
     });
+
+    it('adds CHECK constraints only when checkConstraints is enabled', () => {
+      const schema: LoadedSchema = {
+        name: 'Product',
+        kind: 'object',
+        filePath: '/test/product.yaml',
+        relativePath: '/test/product.yaml',
+        properties: {
+          price: { type: 'Decimal', min: 0 },
+        },
+      } as LoadedSchema;
+
+      expect(schemaToBlueprint(schema, {}).checks).toBeUndefined();
+      expect(schemaToBlueprint(schema, {}, { checkConstraints: true }).checks).toEqual([
+        { name: 'products_price_check', expression: 'price >= 0' },
+      ]);
+    });
   });
 
   describe('formatColumnMethod', () => {
@@ -410,6 +503,20 @@ describe('Schema Builder', () => {
     });
   });
 
+  describe('formatTableOptions', () => {
+    it('formats table options', () => {
+      expect(formatTableOptions({ collation: 'utf8mb4_ja_0900_as_cs', temporary: true, comment: "User's sessions" })).toEqual([
+        "$table->collation('utf8mb4_ja_0900_as_cs');",
+        '$table->temporary();',
+        "$table->comment('User\\'s sessions');",
+      ]);
+    });
+
+    it('formats nothing without options', () => {
+      expect(formatTableOptions({})).toEqual([]);
+    });
+  });
+
   describe('formatForeignKey', () => {
     it('formats foreign key constraint', () => {
       const result = formatForeignKey({
@@ -423,6 +530,16 @@ describe('Schema Builder', () => {
         "$table->foreign('user_id')->references('id')->on('users')->onDelete('cascade')->onUpdate('cascade');"
       );
     });
+
+    it('formats foreign key with custom name', () => {
+      const result = formatForeignKey({
+        name: 'posts_user_id_foreign',
+        columns: ['user_id'],
+        references: 'id',
+        on: ['users'],
+      });
+      expect(result).toBe("$table->foreign('user_id', 'posts_user_id_foreign')->references('id')->on('users');");
+    });
   });
 
   describe('formatIndex', () => {
@@ -458,6 +575,20 @@ describe('Schema Builder', () => {
       });
       expect(result).toBe("$table->index('email', 'idx_email');");
     });
+
+    it('formats fulltext and spatial indexes', () => {
+      expect(formatIndex({ name: 'posts_title_body_fulltext', columns: ['title', 'body'], unique: false, type: 'fulltext' }))
+        .toBe("$table->fullText(['title', 'body'], 'posts_title_body_fulltext');");
+      expect(formatIndex({ columns: ['location'], unique: false, type: 'spatial' }))
+        .toBe("$table->spatialIndex('location');");
+    });
+
+    it('formats index algorithm', () => {
+      expect(formatIndex({ name: 'idx_email', columns: ['email'], unique: false, algorithm: 'hash' }))
+        .toBe("$table->index('email', 'idx_email', 'hash');");
+      expect(formatIndex({ columns: ['email'], unique: false, algorithm: 'hash' }))
+        .toBe("$table->index('email', null, 'hash');");
+    });
   });
 
   // ===========================================================================
@@ -720,6 +851,32 @@ describe('Schema Builder', () => {
       expect(result[0].morphName).toBe('tagable');
       expect(result[0].morphTargets).toContain('Post');
     });
+
+    it('extracts pivot fields and honors joinTable and morphName', () => {
+      const postSchema = createSchema('Post', {
+        properties: {
+          tags: {
+            type: 'Association',
+            relation: 'MorphToMany',
+            target: 'Tag',
+            joinTable: 'taggables',
+            morphName: 'taggable',
+            pivotFields: { sortOrder: { type: 'Int', default: 0 } },
+          } as any,
+        },
+      });
+
+      const [pivot] = extractMorphToManyRelations(postSchema, { Post: postSchema });
+
+      expect(pivot?.tableName).toBe('taggables');
+      expect(pivot?.morphName).toBe('taggable');
+      expect(pivot?.pivotFields).toEqual([
+        expect.objectContaining({ name: 'sort_order', type: 'Int', default: 0 }),
+      ]);
+      expect(generateMorphToManyPivotBlueprint(pivot!).columns.map(c => c.name)).toEqual([
+        'tag_id', 'taggable_type', 'taggable_id', 'sort_order', 'created_at', 'updated_at',
+      ]);
+    });
   });
 
   describe('generateMorphToManyPivotBlueprint', () => {
@@ -737,8 +894,8 @@ describe('Schema Builder', () => {
 
       expect(blueprint.tableName).toBe('taggables');
 
-      // Should have tag_id, taggable_type, taggable_id columns
-      expect(blueprint.columns).toHaveLength(3);
+      // Should have tag_id, taggable_type, taggable_id and timestamp columns
+      expect(blueprint.columns).toHaveLength(5);
       expect(blueprint.columns.some(c => c.name === 'tag_id')).toBe(true);
       expect(blueprint.columns.some(c => c.name === 'taggable_type')).toBe(true);
       expect(blueprint.columns.some(c => c.name === 'taggable_id')).toBe(true);
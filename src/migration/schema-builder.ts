@@ -7,13 +7,19 @@
 import type { PropertyDefinition, LoadedSchema, SchemaCollection, CustomTypeDefinition, LocalizedString, LocaleResolutionOptions, PluginEnumDefinition, InlineEnumValue } from '@famgia/omnify-types';
 import { resolveLocalizedString } from '@famgia/omnify-types';
 import type {
+  CheckConstraintDefinition,
   ColumnMethod,
   ColumnModifier,
+  DatabaseDriver,
   ForeignKeyDefinition,
   IndexDefinition,
+  IndexType,
   TableBlueprint,
+  TableOptions,
 } from './types.js';
 import { singularize, getEnumStringValues } from '../utils.js';
+import { adaptBlueprintForDriver } from './driver.js';
+import { nameBlueprintConstraints, toConstraintName } from './naming.js';
 
 /**
  * Maps Omnify property types to Laravel column methods.
@@ -104,6 +110,36 @@ export function toTableName(schemaName: string): string {
 export interface PropertyToColumnOptions {
   /** Locale resolution options for displayName */
   locale?: LocaleResolutionOptions;
+  /** Enum schemas, for sizing EnumRef columns from their values */
+  allSchemas?: SchemaCollection;
+  /** Plugin enums from registry (for enumRef resolution) */
+  pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>;
+}
+
+/**
+ * Minimum length of EnumRef columns, leaving room for short codes added later.
+ */
+const ENUM_REF_MIN_LENGTH = 50;
+
+/**
+ * Resolves the values of the enum an EnumRef property refers to,
+ * from an enum schema or a plugin enum. Returns an empty array when the enum is unknown.
+ */
+function resolveEnumRefValues(
+  property: PropertyDefinition,
+  allSchemas: SchemaCollection = {},
+  pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>
+): string[] {
+  const enumName = (property as { enum?: string }).enum;
+  if (!enumName) {
+    return [];
+  }
+
+  const enumSchema = allSchemas[enumName];
+  if (enumSchema?.kind === 'enum' && enumSchema.values) {
+    return getEnumStringValues(enumSchema.values as readonly (string | InlineEnumValue)[]);
+  }
+  return pluginEnums?.get(enumName)?.values.map(v => v.value) ?? [];
 }
 
 /**
@@ -134,8 +170,9 @@ export function propertyToColumnMethod(
   if (method === 'string' && propWithLength.length) {
     args.push(propWithLength.length);
   } else if (property.type === 'EnumRef') {
-    // Default length for EnumRef columns (store enum value, typically short codes)
-    args.push(50);
+    // EnumRef columns store the enum value: fit the longest one
+    const values = resolveEnumRefValues(property, options.allSchemas, options.pluginEnums);
+    args.push(Math.max(ENUM_REF_MIN_LENGTH, ...values.map(value => value.length)));
   }
 
   // Handle precision and scale for decimal types
@@ -197,6 +234,14 @@ export function propertyToColumnMethod(
     }
   }
 
+  // Generated columns: the database computes the value from an SQL expression
+  const generatedProp = property as { virtualAs?: string; storedAs?: string };
+  if (generatedProp.storedAs) {
+    modifiers.push({ method: 'storedAs', args: [generatedProp.storedAs] });
+  } else if (generatedProp.virtualAs) {
+    modifiers.push({ method: 'virtualAs', args: [generatedProp.virtualAs] });
+  }
+
   // Add comment from displayName if available (resolve LocalizedString to string)
   const rawDisplayName = (property as { displayName?: LocalizedString }).displayName;
   if (rawDisplayName) {
@@ -434,7 +479,9 @@ export function generateForeignKey(
 
   const columnName = toColumnName(propertyName) + '_id';
   const targetSchema = assocProp.target ? allSchemas[assocProp.target] : undefined;
-  const targetTable = assocProp.target ? toTableName(assocProp.target) : 'unknown';
+  const targetTable = assocProp.target
+    ? targetSchema?.options?.tableName ?? toTableName(assocProp.target)
+    : 'unknown';
   const targetPkType = targetSchema ? getIdType(targetSchema) : 'BigInt';
 
   // Determine column method based on target PK type
@@ -483,7 +530,7 @@ export function generateForeignKey(
     onUpdate: assocProp.onUpdate ?? 'cascade',
   };
 
-  // Don't specify index name - let Laravel auto-generate unique names
+  // Named once the table is known (see nameBlueprintConstraints)
   const index: IndexDefinition = {
     columns: [columnName],
     unique: false,
@@ -492,14 +539,6 @@ export function generateForeignKey(
   return { column, foreignKey, index };
 }
 
-/**
- * Compound type expansion options.
- */
-interface CompoundTypeExpandOptions extends PropertyToColumnOptions {
-  /** Plugin enums for resolving enumRef to actual enum values */
-  pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>;
-}
-
 /**
  * Expands compound type properties into multiple columns.
  * Returns the expanded properties or null if not a compound type.
@@ -508,7 +547,7 @@ function expandCompoundType(
   propName: string,
   property: PropertyDefinition,
   customTypes: ReadonlyMap<string, CustomTypeDefinition>,
-  options: CompoundTypeExpandOptions = {}
+  options: PropertyToColumnOptions = {}
 ): { name: string; property: PropertyDefinition }[] | null {
   const typeDef = customTypes.get(property.type);
 
@@ -638,6 +677,126 @@ export interface SchemaToBlueprintOptions {
   pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>;
   /** Locale resolution options for displayName */
   locale?: LocaleResolutionOptions;
+  /** Target database driver (adapts column types, see adaptBlueprintForDriver) */
+  driver?: DatabaseDriver;
+  /** Add CHECK constraints derived from min/max and EnumRef values */
+  checkConstraints?: boolean;
+}
+
+/**
+ * Converts a property to its column methods, expanding compound types.
+ * Used by both CREATE and ALTER migrations so they define identical columns.
+ * Associations return no columns (see generateForeignKey and generatePolymorphicColumns).
+ * Pass the schemas so EnumRef columns fit the values of enum schemas.
+ */
+export function propertyToColumnMethods(
+  propName: string,
+  property: PropertyDefinition,
+  options: SchemaToBlueprintOptions = {},
+  allSchemas: SchemaCollection = {}
+): ColumnMethod[] {
+  const { customTypes = new Map(), pluginEnums = new Map(), locale } = options;
+  const expandedProps = expandCompoundType(propName, property, customTypes, { locale, pluginEnums })
+    ?? [{ name: propName, property }];
+
+  const columns: ColumnMethod[] = [];
+  for (const { name, property: columnProp } of expandedProps) {
+    const columnMethod = propertyToColumnMethod(name, columnProp, { locale, allSchemas, pluginEnums });
+    if (columnMethod) {
+      columns.push(columnMethod);
+    }
+  }
+  return columns;
+}
+
+/**
+ * Property types whose min/max become a CHECK constraint.
+ */
+const RANGE_CHECK_TYPES = new Set(['TinyInt', 'Int', 'BigInt', 'Float', 'Decimal']);
+
+/**
+ * Builds the CHECK constraint enforcing a property's min/max range or EnumRef values.
+ * Enum properties are not covered here: native enums (or the driver's enum CHECK) already enforce them.
+ */
+export function propertyToCheckConstraint(
+  tableName: string,
+  propName: string,
+  property: PropertyDefinition,
+  allSchemas: SchemaCollection = {},
+  options: Pick<SchemaToBlueprintOptions, 'pluginEnums'> = {}
+): CheckConstraintDefinition | undefined {
+  const generated = property as { virtualAs?: string; storedAs?: string };
+  if (generated.virtualAs || generated.storedAs) {
+    return undefined;
+  }
+
+  const columnName = toColumnName(propName);
+  const conditions: string[] = [];
+
+  if (RANGE_CHECK_TYPES.has(property.type)) {
+    const { min, max } = property as { min?: number; max?: number };
+    if (min !== undefined) {
+      conditions.push(`${columnName} >= ${min}`);
+    }
+    if (max !== undefined) {
+      conditions.push(`${columnName} <= ${max}`);
+    }
+  } else if (property.type === 'EnumRef') {
+    const values = resolveEnumRefValues(property, allSchemas, options.pluginEnums);
+    if (values.length > 0) {
+      conditions.push(`${columnName} IN (${values.map(value => `'${value.replace(/'/g, "''")}'`).join(', ')})`);
+    }
+  }
+
+  if (conditions.length === 0) {
+    return undefined;
+  }
+
+  return {
+    name: toConstraintName(tableName, [columnName], 'check'),
+    expression: conditions.join(' AND '),
+  };
+}
+
+/**
+ * Index options read from `options.indexes` beyond columns, name and unique.
+ */
+interface SchemaIndexOptions {
+  readonly type?: IndexType;
+  readonly algorithm?: string;
+  readonly where?: string;
+  readonly parser?: string;
+}
+
+/**
+ * Table options read from the schema `options`.
+ */
+interface SchemaTableOptions {
+  readonly charset?: string;
+  readonly collation?: string;
+  readonly engine?: string;
+  readonly temporary?: boolean;
+}
+
+/**
+ * Gets the table options of a schema. The table comment is the schema displayName.
+ */
+export function schemaToTableOptions(
+  schema: LoadedSchema,
+  locale?: LocaleResolutionOptions
+): TableOptions | undefined {
+  const { charset, collation, engine, temporary } = (schema.options ?? {}) as SchemaTableOptions;
+  const rawDisplayName = (schema as { displayName?: LocalizedString }).displayName;
+  const comment = rawDisplayName ? resolveLocalizedString(rawDisplayName, locale) : undefined;
+
+  const tableOptions: TableOptions = {
+    ...(comment ? { comment } : {}),
+    ...(charset ? { charset } : {}),
+    ...(collation ? { collation } : {}),
+    ...(engine ? { engine } : {}),
+    ...(temporary ? { temporary } : {}),
+  };
+  return Object.keys(tableOptions).length > 0 ? tableOptions : undefined;
 }
 
 /**
@@ -649,7 +808,6 @@ export function schemaToBlueprint(
   options: SchemaToBlueprintOptions = {}
 ): TableBlueprint {
   const { customTypes = new Map(), pluginEnums = new Map(), locale } = options;
-  const compoundOptions: CompoundTypeExpandOptions = { locale, pluginEnums };
   // Use options.tableName if specified, otherwise derive from schema name
   const tableName = schema.options?.tableName ?? toTableName(schema.name);
   const columns: ColumnMethod[] = [];
@@ -719,24 +877,8 @@ export function schemaToBlueprint(
   // Process properties
   if (schema.properties) {
     for (const [propName, property] of Object.entries(schema.properties)) {
-      // Check for compound type expansion first (uses compoundOptions with pluginEnums)
-      const expandedProps = expandCompoundType(propName, property, customTypes, compoundOptions);
-      if (expandedProps) {
-        // Compound type - process each expanded property
-        for (const { name: expandedName, property: expandedProp } of expandedProps) {
-          const columnMethod = propertyToColumnMethod(expandedName, expandedProp, columnOptions);
-          if (columnMethod) {
-            columns.push(columnMethod);
-          }
-        }
-        continue; // Skip normal processing for compound types
-      }
-
-      // Handle regular columns
-      const columnMethod = propertyToColumnMethod(propName, property, columnOptions);
-      if (columnMethod) {
-        columns.push(columnMethod);
-      }
+      // Handle regular columns (compound types expand into multiple columns)
+      columns.push(...propertyToColumnMethods(propName, property, { customTypes, pluginEnums, locale }, allSchemas));
 
       // Handle foreign keys (standard associations)
       const fkResult = generateForeignKey(propName, property, allSchemas, columnOptions);
@@ -798,11 +940,17 @@ export function schemaToBlueprint(
           unique: false,
         });
       } else {
-        // Full object format
+        // Full object format (type: fulltext/spatial, algorithm, partial where, fulltext parser)
+        const { type, algorithm, where, parser } = index as SchemaIndexOptions;
+        const unique = type === undefined ? index.unique ?? false : type === 'unique';
         indexes.push({
           name: index.name,
           columns: index.columns.map(propToColName),
-          unique: index.unique ?? false,
+          unique,
+          type: type ?? (unique ? 'unique' : 'index'),
+          algorithm,
+          where,
+          parser,
         });
       }
     }
@@ -841,7 +989,7 @@ export function schemaToBlueprint(
   // Deduplicate indexes by columns (keep first occurrence)
   const seenIndexes = new Set<string>();
   const uniqueIndexes = indexes.filter(idx => {
-    const key = idx.columns.join(',') + (idx.unique ? ':unique' : '');
+    const key = idx.columns.join(',') + ':' + (idx.type ?? (idx.unique ? 'unique' : 'index'));
     if (seenIndexes.has(key)) {
       return false;
     }
@@ -888,13 +1036,30 @@ export function schemaToBlueprint(
     });
   }
 
-  return {
+  // CHECK constraints from min/max and EnumRef values
+  const checks = options.checkConstraints
+    ? Object.entries(schema.properties ?? {}).flatMap(([propName, property]) => {
+      const check = propertyToCheckConstraint(tableName, propName, property, allSchemas, { pluginEnums });
+      return check ? [check] : [];
+    })
+    : [];
+
+  return adaptBlueprintForDriver(nameBlueprintConstraints({
     tableName,
     columns: finalColumns,
     primaryKey,
     foreignKeys,
     indexes: uniqueIndexes,
-  };
+    checks: checks.length > 0 ? checks : undefined,
+    options: schemaToTableOptions(schema, locale),
+  }), options.driver);
+}
+
+/**
+ * Escapes a value for a single-quoted PHP string.
+ */
+export function toPhpSingleQuoted(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
 }
 
 /**
@@ -917,7 +1082,8 @@ export function formatColumnMethod(column: ColumnMethod): string {
     if (modifier.args && modifier.args.length > 0) {
       const modArgs = modifier.args.map(arg => {
         if (typeof arg === 'string') {
-          return `'${arg}'`;
+          // Comments and generated column expressions may contain quotes
+          return toPhpSingleQuoted(arg);
         }
         if (typeof arg === 'boolean') {
           return arg ? 'true' : 'false';
@@ -936,13 +1102,39 @@ export function formatColumnMethod(column: ColumnMethod): string {
   return code + ';';
 }
 
+/**
+ * Formats table options to PHP code (Blueprint methods inside Schema::create or Schema::table).
+ */
+export function formatTableOptions(tableOptions: TableOptions): string[] {
+  const lines: string[] = [];
+
+  if (tableOptions.engine !== undefined) {
+    lines.push(`$table->engine(${toPhpSingleQuoted(tableOptions.engine)});`);
+  }
+  if (tableOptions.charset !== undefined) {
+    lines.push(`$table->charset(${toPhpSingleQuoted(tableOptions.charset)});`);
+  }
+  if (tableOptions.collation !== undefined) {
+    lines.push(`$table->collation(${toPhpSingleQuoted(tableOptions.collation)});`);
+  }
+  if (tableOptions.temporary) {
+    lines.push('$table->temporary();');
+  }
+  if (tableOptions.comment !== undefined) {
+    lines.push(`$table->comment(${toPhpSingleQuoted(tableOptions.comment)});`);
+  }
+
+  return lines;
+}
+
 /**
  * Formats a foreign key to PHP code.
  */
 export function formatForeignKey(fk: ForeignKeyDefinition): string {
   const column = fk.columns[0];
   const table = fk.on[0];
-  let code = `$table->foreign('${column}')->references('${fk.references}')->on('${table}')`;
+  const name = fk.name ? `, '${fk.name}'` : '';
+  let code = `$table->foreign('${column}'${name})->references('${fk.references}')->on('${table}')`;
 
   if (fk.onDelete) {
     code += `->onDelete('${fk.onDelete}')`;
@@ -954,18 +1146,30 @@ export function formatForeignKey(fk: ForeignKeyDefinition): string {
   return code + ';';
 }
 
+/**
+ * Blueprint methods creating each index kind.
+ */
+const INDEX_METHODS: Readonly<Record<IndexType, string>> = {
+  index: 'index',
+  unique: 'unique',
+  fulltext: 'fullText',
+  spatial: 'spatialIndex',
+};
+
 /**
  * Formats an index to PHP code.
+ * Partial indexes and fulltext parsers are created with a raw statement instead (see driver.ts).
  */
 export function formatIndex(index: IndexDefinition): string {
   const columns = index.columns.length === 1
     ? `'${index.columns[0]}'`
     : `[${index.columns.map(c => `'${c}'`).join(', ')}]`;
 
-  const method = index.unique ? 'unique' : 'index';
-  const name = index.name ? `, '${index.name}'` : '';
+  const method = INDEX_METHODS[index.type ?? (index.unique ? 'unique' : 'index')];
+  const name = index.name ? `, '${index.name}'` : index.algorithm ? ', null' : '';
+  const algorithm = index.algorithm ? `, '${index.algorithm}'` : '';
 
-  return `$table->${method}(${columns}${name});`;
+  return `$table->${method}(${columns}${name}${algorithm});`;
 }
 
 /**
@@ -988,6 +1192,17 @@ export interface PivotFieldInfo {
   enum?: readonly string[];
 }
 
+/**
+ * Pivot field as defined in the schema (pivotFields of a ManyToMany or MorphToMany association).
+ */
+interface PivotFieldDefinition {
+  type: string;
+  nullable?: boolean;
+  default?: unknown;
+  length?: number;
+  unsigned?: boolean;
+}
+
 /**
  * Pivot table information for ManyToMany relationships.
  */
@@ -1020,6 +1235,41 @@ export interface MorphToManyPivotInfo {
   morphTargets: readonly string[];
   onDelete: string | undefined;
   onUpdate: string | undefined;
+  /** Additional fields on the pivot table */
+  pivotFields?: PivotFieldInfo[];
+}
+
+/**
+ * Pivot table, morph name and target column of a MorphToMany association.
+ */
+export interface MorphToManyNames {
+  /** Pivot table, e.g. 'tagables' for a Tag target */
+  tableName: string;
+  /** Base name of the polymorphic columns, e.g. 'tagable' for a tags property */
+  morphName: string;
+  /** Column referencing the target, e.g. 'tag_id' */
+  targetColumn: string;
+}
+
+/**
+ * Resolves the names of a MorphToMany association's pivot table.
+ * Shared by the pivot table migration and the morphToMany/morphedByMany model relations.
+ */
+export function getMorphToManyNames(
+  propName: string,
+  targetName: string,
+  assoc: { joinTable?: string | undefined; morphName?: string | undefined } = {}
+): MorphToManyNames {
+  const targetTable = toTableName(targetName);
+
+  return {
+    // Default table name: tagables (for Tag target), commentables, etc.
+    tableName: assoc.joinTable ?? targetTable.replace(/s$/, '') + 'ables',
+    // MorphName is typically the property name or a convention like 'tagable'
+    morphName: assoc.morphName ?? propName.replace(/s$/, '') + 'able',
+    // Column name for the target side (e.g., tag_id for Tag)
+    targetColumn: singularize(targetTable) + '_id',
+  };
 }
 
 /**
@@ -1072,13 +1322,7 @@ export function extractManyToManyRelations(
       onUpdate?: string;
       owning?: boolean;
       mappedBy?: string;
-      pivotFields?: Record<string, {
-        type: string;
-        nullable?: boolean;
-        default?: unknown;
-        length?: number;
-        unsigned?: boolean;
-      }>;
+      pivotFields?: Record<string, PivotFieldDefinition>;
     };
 
     // Only handle ManyToMany on the owning side (or if not specified, use alphabetical order)
@@ -1148,30 +1392,7 @@ export function extractManyToManyRelations(
     const sourceColumn = singularize(sourceTable) + '_id';
     const targetColumn = singularize(targetTable) + '_id';
 
-    // Extract pivot fields
-    const pivotFields: PivotFieldInfo[] = [];
-    if (assocProp.pivotFields) {
-      for (const [fieldName, fieldDef] of Object.entries(assocProp.pivotFields)) {
-        // Extract enum string values if type is Enum
-        let enumValues: readonly string[] | undefined;
-        if (fieldDef.type === 'Enum') {
-          const rawEnum = (fieldDef as { enum?: readonly (string | InlineEnumValue)[] }).enum;
-          if (rawEnum && Array.isArray(rawEnum)) {
-            enumValues = rawEnum.map(v => typeof v === 'string' ? v : v.value);
-          }
-        }
-
-        pivotFields.push({
-          name: toColumnName(fieldName),
-          type: fieldDef.type,
-          nullable: fieldDef.nullable,
-          default: fieldDef.default,
-          length: (fieldDef as { length?: number }).length,
-          unsigned: (fieldDef as { unsigned?: boolean }).unsigned,
-          enum: enumValues,
-        });
-      }
-    }
+    const pivotFields = toPivotFieldInfos(assocProp.pivotFields);
 
     pivotTables.push({
       tableName: pivotTableName,
@@ -1190,6 +1411,32 @@ export function extractManyToManyRelations(
   return pivotTables;
 }
 
+/**
+ * Extracts the additional pivot table columns of a ManyToMany or MorphToMany association.
+ */
+function toPivotFieldInfos(pivotFields: Record<string, PivotFieldDefinition> | undefined): PivotFieldInfo[] {
+  return Object.entries(pivotFields ?? {}).map(([fieldName, fieldDef]) => {
+    // Extract enum string values if type is Enum
+    let enumValues: readonly string[] | undefined;
+    if (fieldDef.type === 'Enum') {
+      const rawEnum = (fieldDef as { enum?: readonly (string | InlineEnumValue)[] }).enum;
+      if (rawEnum && Array.isArray(rawEnum)) {
+        enumValues = rawEnum.map(v => typeof v === 'string' ? v : v.value);
+      }
+    }
+
+    return {
+      name: toColumnName(fieldName),
+      type: fieldDef.type,
+      nullable: fieldDef.nullable,
+      default: fieldDef.default,
+      length: fieldDef.length,
+      unsigned: fieldDef.unsigned,
+      enum: enumValues,
+    };
+  });
+}
+
 /**
  * Converts a pivot field definition to a column method.
  */
@@ -1298,7 +1545,7 @@ export function generatePivotTableBlueprint(pivot: PivotTableInfo): TableBluepri
     unique: true,
   });
 
-  // Individual indexes for faster lookups (no name - let Laravel auto-generate)
+  // Individual indexes for faster lookups
   indexes.push({
     columns: [pivot.sourceColumn],
     unique: false,
@@ -1309,13 +1556,13 @@ export function generatePivotTableBlueprint(pivot: PivotTableInfo): TableBluepri
     unique: false,
   });
 
-  return {
+  return nameBlueprintConstraints({
     tableName: pivot.tableName,
     columns,
     primaryKey: [pivot.sourceColumn, pivot.targetColumn],
     foreignKeys,
     indexes,
-  };
+  });
 }
 
 /**
@@ -1341,9 +1588,11 @@ export function extractMorphToManyRelations(
       relation?: string;
       target?: string;
       joinTable?: string;
+      morphName?: string;
       onDelete?: string;
       onUpdate?: string;
       owning?: boolean;
+      pivotFields?: Record<string, PivotFieldDefinition>;
     };
 
     if (assocProp.relation !== 'MorphToMany') {
@@ -1389,15 +1638,8 @@ export function extractMorphToManyRelations(
       }
     }
 
-    // Default table name: taggables (for Tag target), commentables, etc.
-    const defaultTableName = targetTable.replace(/s$/, '') + 'ables';
-    const tableName = assocProp.joinTable ?? defaultTableName;
-
-    // Column name for the target side (e.g., tag_id for Tag)
-    const targetColumn = singularize(targetTable) + '_id';
-
-    // MorphName is typically the property name or a convention like 'taggable'
-    const morphName = propName.replace(/s$/, '') + 'able';
+    const { tableName, morphName, targetColumn } = getMorphToManyNames(propName, targetName, assocProp);
+    const pivotFields = toPivotFieldInfos(assocProp.pivotFields);
 
     morphPivotTables.push({
       tableName,
@@ -1408,6 +1650,7 @@ export function extractMorphToManyRelations(
       morphTargets,
       onDelete: assocProp.onDelete,
       onUpdate: assocProp.onUpdate,
+      pivotFields: pivotFields.length > 0 ? pivotFields : undefined,
     });
   }
 
@@ -1457,6 +1700,14 @@ export function generateMorphToManyPivotBlueprint(pivot: MorphToManyPivotInfo):
     modifiers: [],
   });
 
+  // Pivot fields (additional columns on the pivot table)
+  for (const field of pivot.pivotFields ?? []) {
+    columns.push(pivotFieldToColumn(field));
+  }
+
+  // Timestamps for pivot table (Laravel's withTimestamps())
+  columns.push(...generateTimestampColumns());
+
   // Foreign key for target
   foreignKeys.push({
     columns: [pivot.targetColumn],
@@ -1484,13 +1735,13 @@ export function generateMorphToManyPivotBlueprint(pivot: MorphToManyPivotInfo):
     unique: false,
   });
 
-  return {
+  return nameBlueprintConstraints({
     tableName: pivot.tableName,
     columns,
     primaryKey: [pivot.targetColumn, typeColumnName, idColumnName],
     foreignKeys,
     indexes,
-  };
+  });
 }
 
 // Note: File schema functions (hasFileProperties, schemasHaveFileProperties, generateFilesTableBlueprint)
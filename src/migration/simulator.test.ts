@@ -0,0 +1,233 @@
+/**
+ * @famgia/omnify-laravel - Migration Simulator Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PropertySnapshot, SchemaChange } from '@famgia/omnify-atlas';
+import type { LoadedSchema, SchemaCollection } from '@famgia/omnify-types';
+import {
+  applyOperations,
+  assertFreshMatchesHistory,
+  assertRoundTrip,
+  checkFreshMatchesHistory,
+  checkRoundTrip,
+  diffDatabases,
+  simulateMigrations,
+} from './simulator.js';
+import { generateMigrations } from './generator.js';
+import { generateMigrationsFromChanges } from './alter-generator.js';
+import type { MigrationFile, SchemaOperation } from './types.js';
+
+const schema = (name: string, properties: Record<string, unknown>): LoadedSchema => ({
+  name,
+  kind: 'object',
+  filePath: `/test/${name}.yaml`,
+  relativePath: `/test/${name}.yaml`,
+  properties: properties as LoadedSchema['properties'],
+});
+
+const migration = (up: SchemaOperation[], down: SchemaOperation[]): MigrationFile => ({
+  fileName: '2024_01_01_000000_update_posts_table.php',
+  className: 'UpdatePostsTable',
+  content: '',
+  tables: ['posts'],
+  type: 'alter',
+  operations: { up, down },
+});
+
+const user = schema('User', { name: { type: 'String' } });
+const previousSchemas: SchemaCollection = {
+  User: user,
+  Post: schema('Post', {
+    title: { type: 'String' },
+    author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+  }),
+};
+
+describe('generated operations', () => {
+  it('come with CREATE migrations', () => {
+    const [migration] = generateMigrations({ User: user }, { timestamp: '2024_01_01_000000' });
+
+    const { up, down } = migration!.operations;
+
+    expect(up[0]).toEqual({ type: 'createTable', tableName: 'users' });
+    expect(up).toContainEqual({
+      type: 'addColumn',
+      tableName: 'users',
+      column: { name: 'name', method: 'string', args: ['name'], modifiers: [] },
+    });
+    expect(down).toEqual([{ type: 'dropTable', tableName: 'users', ifExists: true }]);
+  });
+
+  it('come with ALTER migrations, in the order of their code', () => {
+    const change: SchemaChange = {
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [{ column: 'title', changeType: 'renamed', previousColumn: 'name', previousDef: { type: 'String' } }],
+      indexChanges: [{ changeType: 'added', index: { columns: ['title'], unique: false } }],
+    };
+    const [alter] = generateMigrationsFromChanges([change], { timestamp: '2024_02_01_000000' });
+
+    expect(alter!.operations).toEqual({
+      up: [
+        { type: 'renameColumn', tableName: 'posts', from: 'name', to: 'title' },
+        { type: 'addIndex', tableName: 'posts', index: expect.objectContaining({ name: 'posts_title_index', columns: ['title'] }) },
+      ],
+      down: [
+        { type: 'renameColumn', tableName: 'posts', from: 'title', to: 'name' },
+        { type: 'dropIndex', tableName: 'posts', name: 'posts_title_index' },
+      ],
+    });
+  });
+});
+
+describe('applyOperations', () => {
+  it('reports the errors the database would raise', () => {
+    const { errors } = applyOperations(new Map(), [
+      { type: 'createTable', tableName: 'posts' },
+      { type: 'dropIndex', tableName: 'posts', name: 'posts_title_index' },
+      { type: 'dropColumn', tableName: 'comments', columnName: 'body' },
+    ]);
+
+    expect(errors).toEqual([
+      'Index posts_title_index does not exist on posts',
+      'Table comments does not exist',
+    ]);
+  });
+
+  it('drops the indexes of a dropped column and does not modify the database', () => {
+    const { database } = simulateMigrations(generateMigrations(previousSchemas, { timestamp: '2024_01_01_000000' }));
+
+    const result = applyOperations(database, [
+      { type: 'addIndex', tableName: 'posts', index: { name: 'posts_title_index', columns: ['title'], unique: false } },
+      { type: 'dropColumn', tableName: 'posts', columnName: 'title' },
+    ]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.database.get('posts')!.indexes.map(index => index.name)).not.toContain('posts_title_index');
+    expect(database.get('posts')!.columns.map(column => column.name)).toContain('title');
+  });
+});
+
+describe('checkRoundTrip', () => {
+  it('accepts generated ALTER migrations', () => {
+    const { database } = simulateMigrations(generateMigrations(previousSchemas, { timestamp: '2024_01_01_000000' }));
+    const change: SchemaChange = {
+      schemaName: 'Post',
+      changeType: 'modified',
+      columnChanges: [
+        { column: 'summary', changeType: 'added', currentDef: { type: 'Text', nullable: true } },
+        {
+          column: 'title',
+          changeType: 'modified',
+          previousDef: { type: 'String' },
+          currentDef: { type: 'String', length: 500 } as PropertySnapshot,
+        },
+      ],
+    };
+    const [alter] = generateMigrationsFromChanges([change], { timestamp: '2024_02_01_000000' });
+
+    expect(checkRoundTrip(alter!, database)).toEqual([]);
+    expect(() => assertRoundTrip(alter!, database)).not.toThrow();
+  });
+
+  it('recreates the indexes and table options of a dropped table', () => {
+    const indexes = [
+      { columns: ['title', 'body'], type: 'fulltext' },
+      { columns: ['title'], unique: true, where: 'deleted_at IS NULL' },
+    ];
+    const post = {
+      ...schema('Post', { title: { type: 'String' }, body: { type: 'Text' } }),
+      displayName: 'Blog posts',
+      options: { indexes },
+    } as LoadedSchema;
+    const { database } = simulateMigrations(generateMigrations({ Post: post }, { timestamp: '2024_01_01_000000', driver: 'pgsql' }));
+    const change = {
+      schemaName: 'Post',
+      changeType: 'removed',
+      columnChanges: [
+        { column: 'title', changeType: 'removed', previousDef: { type: 'String' } },
+        { column: 'body', changeType: 'removed', previousDef: { type: 'Text' } },
+      ],
+      indexChanges: indexes.map(index => ({ changeType: 'removed', index })),
+      optionChanges: { comment: { from: 'Blog posts' } },
+    } as unknown as SchemaChange;
+    const [drop] = generateMigrationsFromChanges([change], { timestamp: '2024_02_01_000000', driver: 'pgsql' }, {});
+
+    expect(checkRoundTrip(drop!, database)).toEqual([]);
+  });
+
+  it('reports what down() leaves behind', () => {
+    const { database } = simulateMigrations(generateMigrations(previousSchemas, { timestamp: '2024_01_01_000000' }));
+    const alter = migration([{ type: 'addIndex', tableName: 'posts', index: { columns: ['title'], unique: false } }], []);
+
+    expect(checkRoundTrip(alter, database)).toEqual([
+      "index posts_title_index of posts is unexpected ($table->index('title', 'posts_title_index');)",
+    ]);
+    expect(() => assertRoundTrip(alter, database)).toThrow('does not round-trip');
+  });
+});
+
+describe('checkFreshMatchesHistory', () => {
+  const currentSchemas: SchemaCollection = {
+    User: user,
+    Post: schema('Post', {
+      title: { type: 'String' },
+      summary: { type: 'Text', nullable: true },
+      author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+    }),
+  };
+  const addSummary: SchemaChange = {
+    schemaName: 'Post',
+    changeType: 'modified',
+    columnChanges: [{ column: 'summary', changeType: 'added', currentDef: { type: 'Text', nullable: true } }],
+  };
+
+  it('accepts a history of CREATE and ALTER migrations building the current schemas', () => {
+    const history = [
+      ...generateMigrations(previousSchemas, { timestamp: '2024_01_01_000000' }),
+      ...generateMigrationsFromChanges([addSummary], { timestamp: '2024_02_01_000000' }, currentSchemas),
+    ];
+    const fresh = generateMigrations(currentSchemas, { timestamp: '2024_03_01_000000' });
+
+    expect(checkFreshMatchesHistory(fresh, history)).toEqual([]);
+    expect(() => assertFreshMatchesHistory(fresh, history)).not.toThrow();
+  });
+
+  it('reports columns appended by ALTER migrations on drivers that cannot place them', () => {
+    const history = [
+      ...generateMigrations(previousSchemas, { timestamp: '2024_01_01_000000', driver: 'pgsql' }),
+      ...generateMigrationsFromChanges([addSummary], { timestamp: '2024_02_01_000000', driver: 'pgsql' }, currentSchemas),
+    ];
+    const fresh = generateMigrations(currentSchemas, { timestamp: '2024_03_01_000000', driver: 'pgsql' });
+
+    expect(checkFreshMatchesHistory(fresh, history)).toEqual([
+      'column order of posts differs: expected id, title, summary, author_id, created_at, updated_at, got id, title, author_id, created_at, updated_at, summary',
+    ]);
+  });
+
+  it('reports the differences of an incomplete history', () => {
+    const history = generateMigrations(previousSchemas, { timestamp: '2024_01_01_000000' });
+    const fresh = generateMigrations(currentSchemas, { timestamp: '2024_03_01_000000' });
+
+    expect(checkFreshMatchesHistory(fresh, history)).toEqual([
+      'column order of posts differs: expected id, title, summary, author_id, created_at, updated_at, got id, title, author_id, created_at, updated_at',
+      "column posts.summary is missing (expected $table->text('summary')->nullable();)",
+    ]);
+  });
+});
+
+describe('diffDatabases', () => {
+  it('compares column order', () => {
+    const table = (names: string[]) => ({
+      tableName: 'posts',
+      columns: names.map(name => ({ name, method: 'string', args: [name], modifiers: [] })),
+      foreignKeys: [],
+      indexes: [],
+    });
+
+    expect(diffDatabases(new Map([['posts', table(['a', 'b'])]]), new Map([['posts', table(['b', 'a'])]]))).toEqual([
+      'column order of posts differs: expected a, b, got b, a',
+    ]);
+  });
+});
@@ -0,0 +1,520 @@
+/**
+ * @famgia/omnify-laravel - Migration Simulator
+ *
+ * Replays generated migrations on an in-memory model of the database, so the
+ * symmetry of up() and down() and the equivalence of fresh CREATE migrations
+ * with an incremental history of ALTER migrations can be checked without PHP.
+ * Migrations are replayed from the schema operations the generators emit along
+ * with their code; statements that only change data (backfills, remaps, copies)
+ * have no operations.
+ */
+
+import type {
+  ColumnMethod,
+  ColumnModifier,
+  IndexDefinition,
+  MigrationFile,
+  SchemaOperation,
+  SimulatedDatabase,
+  SimulationResult,
+  TableBlueprint,
+  TableOptions,
+} from './types.js';
+import { formatColumnMethod, formatForeignKey, formatIndex } from './schema-builder.js';
+import { toConstraintName, toForeignKeyName, toIndexName } from './naming.js';
+
+/**
+ * Auto-incrementing primary key methods and the column type they create.
+ */
+const AUTO_INCREMENT_METHODS: Readonly<Record<string, string>> = {
+  id: 'unsignedBigInteger',
+  bigIncrements: 'unsignedBigInteger',
+  increments: 'unsignedInteger',
+};
+
+/**
+ * Modifiers placing or changing a column, which are not part of its definition.
+ */
+const PLACEMENT_MODIFIERS: ReadonlySet<string> = new Set(['after', 'first', 'change']);
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Splits a column definition into the column, the indexes of its `unique()`/`index()`
+ * modifiers and whether it is the primary key, as the database stores them.
+ * Placement modifiers are dropped and `nullable(false)` removes nullability.
+ */
+function normalizeColumn(
+  tableName: string,
+  column: ColumnMethod
+): { column: ColumnMethod; indexes: IndexDefinition[]; primary: boolean } {
+  const autoIncrement = AUTO_INCREMENT_METHODS[column.method];
+  const modifiers: ColumnModifier[] = autoIncrement ? [{ method: 'autoIncrement' }] : [];
+  const indexes: IndexDefinition[] = [];
+  let nullable = false;
+  let primary = autoIncrement !== undefined;
+
+  for (const modifier of column.modifiers) {
+    if (PLACEMENT_MODIFIERS.has(modifier.method)) {
+      continue;
+    }
+    if (modifier.method === 'nullable') {
+      nullable = modifier.args?.[0] !== false;
+    } else if (modifier.method === 'primary') {
+      primary = true;
+    } else if (modifier.method === 'unique' || modifier.method === 'index') {
+      const name = modifier.args?.[0];
+      indexes.push({
+        name: typeof name === 'string' ? name : toConstraintName(tableName, [column.name], modifier.method),
+        columns: [column.name],
+        unique: modifier.method === 'unique',
+        type: modifier.method,
+      });
+    } else {
+      modifiers.push(modifier);
+    }
+  }
+
+  return {
+    column: {
+      name: column.name,
+      method: autoIncrement ?? column.method,
+      args: autoIncrement ? [column.name] : column.args,
+      modifiers: nullable ? [{ method: 'nullable' }, ...modifiers] : modifiers,
+    },
+    indexes,
+    primary,
+  };
+}
+
+/**
+ * Puts a column where its `after()` or `first()` modifier places it, otherwise in place
+ * of the column of the same name or at the end of the table.
+ */
+function placeColumn(
+  table: TableBlueprint,
+  column: ColumnMethod,
+  modifiers: readonly ColumnModifier[]
+): { columns: ColumnMethod[]; errors: string[] } {
+  const placement = modifiers.find(modifier => modifier.method === 'after' || modifier.method === 'first');
+  const current = table.columns.findIndex(existing => existing.name === column.name);
+  const columns = table.columns.filter(existing => existing.name !== column.name);
+
+  if (placement?.method === 'first') {
+    return { columns: [column, ...columns], errors: [] };
+  }
+  if (placement) {
+    const after = String(placement.args?.[0]);
+    const position = columns.findIndex(existing => existing.name === after);
+    if (position < 0) {
+      return { columns: [...columns, column], errors: [`Column ${table.tableName}.${after} does not exist`] };
+    }
+    return { columns: [...columns.slice(0, position + 1), column, ...columns.slice(position + 1)], errors: [] };
+  }
+  if (current >= 0) {
+    return { columns: [...columns.slice(0, current), column, ...columns.slice(current)], errors: [] };
+  }
+  return { columns: [...columns, column], errors: [] };
+}
+
+/**
+ * Renames a column wherever a table refers to it.
+ */
+function renameTableColumn(table: TableBlueprint, from: string, to: string): TableBlueprint {
+  const rename = (name: string) => (name === from ? to : name);
+  return {
+    ...table,
+    columns: table.columns.map(column =>
+      column.name === from ? { ...column, name: to, args: [to, ...column.args.slice(1)] } : column),
+    primaryKey: table.primaryKey?.map(rename),
+    indexes: table.indexes.map(index => ({ ...index, columns: index.columns.map(rename) })),
+    foreignKeys: table.foreignKeys.map(fk => ({ ...fk, columns: fk.columns.map(rename) })),
+  };
+}
+
+/**
+ * Applies one operation to the tables, returning the errors the database would report.
+ * Erroneous operations are applied as far as possible, so later errors are reported too.
+ */
+function applyOperation(
+  tables: Map<string, TableBlueprint>,
+  operation: Exclude<SchemaOperation, { type: 'foreignKeyChecks' }>,
+  foreignKeyChecks: boolean
+): string[] {
+  const errors: string[] = [];
+
+  if (operation.type === 'createTable') {
+    if (tables.has(operation.tableName)) {
+      return [`Table ${operation.tableName} already exists`];
+    }
+    tables.set(operation.tableName, { tableName: operation.tableName, columns: [], foreignKeys: [], indexes: [] });
+    return [];
+  }
+
+  if (operation.type === 'dropTable') {
+    if (!tables.has(operation.tableName)) {
+      return operation.ifExists ? [] : [`Table ${operation.tableName} does not exist`];
+    }
+    tables.delete(operation.tableName);
+    if (foreignKeyChecks) {
+      for (const table of tables.values()) {
+        errors.push(...table.foreignKeys
+          .filter(fk => fk.on[0] === operation.tableName)
+          .map(fk => `Cannot drop table ${operation.tableName}: ${fk.name} of ${table.tableName} refers to it`));
+      }
+    }
+    return errors;
+  }
+
+  if (operation.type === 'renameTable') {
+    const table = tables.get(operation.from);
+    if (!table) {
+      return [`Table ${operation.from} does not exist`];
+    }
+    if (tables.has(operation.to)) {
+      return [`Table ${operation.to} already exists`];
+    }
+    tables.delete(operation.from);
+    tables.set(operation.to, { ...table, tableName: operation.to });
+    // Foreign keys follow the renamed table
+    for (const [name, other] of tables) {
+      if (other.foreignKeys.some(fk => fk.on[0] === operation.from)) {
+        tables.set(name, {
+          ...other,
+          foreignKeys: other.foreignKeys.map(fk => (fk.on[0] === operation.from ? { ...fk, on: [operation.to] } : fk)),
+        });
+      }
+    }
+    return [];
+  }
+
+  const table = tables.get(operation.tableName);
+  if (!table) {
+    return [`Table ${operation.tableName} does not exist`];
+  }
+  const t = operation.tableName;
+  const hasColumn = (name: string) => table.columns.some(column => column.name === name);
+  const hasIndex = (name: string) => table.indexes.some(index => index.name === name);
+  let next: TableBlueprint = table;
+
+  switch (operation.type) {
+    case 'addColumn':
+    case 'changeColumn': {
+      const { column, indexes, primary } = normalizeColumn(t, operation.column);
+      const exists = hasColumn(column.name);
+      if (operation.type === 'addColumn' && exists) {
+        errors.push(`Column ${t}.${column.name} already exists`);
+      } else if (operation.type === 'changeColumn' && !exists) {
+        errors.push(`Column ${t}.${column.name} does not exist`);
+      }
+      errors.push(...indexes.filter(index => hasIndex(index.name!)).map(index => `Index ${index.name} already exists on ${t}`));
+      if (primary && table.primaryKey) {
+        errors.push(`${t} already has a primary key`);
+      }
+      const placed = placeColumn(table, column, operation.column.modifiers);
+      errors.push(...placed.errors);
+      next = {
+        ...table,
+        columns: placed.columns,
+        indexes: [...table.indexes, ...indexes.filter(index => !hasIndex(index.name!))],
+        primaryKey: primary ? table.primaryKey ?? [column.name] : table.primaryKey,
+      };
+      break;
+    }
+    case 'dropColumn': {
+      const name = operation.columnName;
+      if (!hasColumn(name)) {
+        errors.push(`Column ${t}.${name} does not exist`);
+      }
+      errors.push(...table.foreignKeys
+        .filter(fk => fk.columns.includes(name))
+        .map(fk => `Cannot drop ${t}.${name}: it is used by ${fk.name}`));
+      next = {
+        ...table,
+        columns: table.columns.filter(column => column.name !== name),
+        // Indexes on a dropped column are dropped with it
+        indexes: table.indexes.filter(index => !index.columns.includes(name)),
+        primaryKey: table.primaryKey?.includes(name) ? undefined : table.primaryKey,
+      };
+      break;
+    }
+    case 'renameColumn':
+      if (!hasColumn(operation.from)) {
+        errors.push(`Column ${t}.${operation.from} does not exist`);
+      } else if (hasColumn(operation.to)) {
+        errors.push(`Column ${t}.${operation.to} already exists`);
+      } else {
+        next = renameTableColumn(table, operation.from, operation.to);
+      }
+      break;
+    case 'addIndex': {
+      const name = operation.index.name ?? toIndexName(t, operation.index);
+      if (hasIndex(name)) {
+        errors.push(`Index ${name} already exists on ${t}`);
+      }
+      errors.push(...operation.index.columns
+        .filter(column => !hasColumn(column))
+        .map(column => `Index ${name} refers to missing column ${t}.${column}`));
+      next = { ...table, indexes: [...table.indexes.filter(index => index.name !== name), { ...operation.index, name }] };
+      break;
+    }
+    case 'dropIndex':
+      if (!hasIndex(operation.name)) {
+        errors.push(`Index ${operation.name} does not exist on ${t}`);
+      }
+      next = { ...table, indexes: table.indexes.filter(index => index.name !== operation.name) };
+      break;
+    case 'renameIndex':
+      if (!hasIndex(operation.from)) {
+        errors.push(`Index ${operation.from} does not exist on ${t}`);
+      } else if (hasIndex(operation.to)) {
+        errors.push(`Index ${operation.to} already exists on ${t}`);
+      } else {
+        next = {
+          ...table,
+          indexes: table.indexes.map(index => (index.name === operation.from ? { ...index, name: operation.to } : index)),
+        };
+      }
+      break;
+    case 'addPrimary':
+      if (table.primaryKey) {
+        errors.push(`${t} already has a primary key`);
+      }
+      next = { ...table, primaryKey: operation.columns };
+      break;
+    case 'dropPrimary':
+      if (!table.primaryKey) {
+        errors.push(`${t} has no primary key`);
+      }
+      next = { ...table, primaryKey: undefined };
+      break;
+    case 'addForeignKey': {
+      const foreignKey = {
+        ...operation.foreignKey,
+        name: operation.foreignKey.name ?? toForeignKeyName(t, operation.foreignKey.columns),
+      };
+      if (table.foreignKeys.some(fk => fk.name === foreignKey.name)) {
+        errors.push(`Foreign key ${foreignKey.name} already exists on ${t}`);
+      }
+      if (foreignKeyChecks && !tables.has(foreignKey.on[0] ?? '')) {
+        errors.push(`Foreign key ${foreignKey.name} refers to missing table ${foreignKey.on[0]}`);
+      }
+      errors.push(...foreignKey.columns
+        .filter(column => !hasColumn(column))
+        .map(column => `Foreign key ${foreignKey.name} refers to missing column ${t}.${column}`));
+      next = { ...table, foreignKeys: [...table.foreignKeys.filter(fk => fk.name !== foreignKey.name), foreignKey] };
+      break;
+    }
+    case 'dropForeignKey':
+      if (!table.foreignKeys.some(fk => fk.name === operation.name)) {
+        errors.push(`Foreign key ${operation.name} does not exist on ${t}`);
+      }
+      next = { ...table, foreignKeys: table.foreignKeys.filter(fk => fk.name !== operation.name) };
+      break;
+    case 'addCheck':
+      if (table.checks?.some(check => check.name === operation.check.name)) {
+        errors.push(`CHECK constraint ${operation.check.name} already exists on ${t}`);
+      }
+      next = { ...table, checks: [...(table.checks ?? []).filter(check => check.name !== operation.check.name), operation.check] };
+      break;
+    case 'dropCheck':
+      if (!table.checks?.some(check => check.name === operation.name)) {
+        errors.push(`CHECK constraint ${operation.name} does not exist on ${t}`);
+      }
+      next = { ...table, checks: table.checks?.filter(check => check.name !== operation.name) };
+      break;
+    case 'setTableOptions': {
+      const options = Object.fromEntries(
+        Object.entries({ ...table.options, ...operation.options }).filter(([, value]) => value !== undefined)
+      ) as TableOptions;
+      next = { ...table, options };
+      break;
+    }
+  }
+
+  tables.set(t, next);
+  return errors;
+}
+
+/**
+ * Applies schema operations to a simulated database.
+ * The database is not modified; the result holds the new database and the errors
+ * the real database would report (missing tables, duplicate indexes, dangling foreign keys...).
+ */
+export function applyOperations(
+  database: SimulatedDatabase,
+  operations: readonly SchemaOperation[]
+): SimulationResult {
+  const tables = new Map(database);
+  const errors: string[] = [];
+  let foreignKeyChecks = true;
+
+  for (const operation of operations) {
+    if (operation.type === 'foreignKeyChecks') {
+      foreignKeyChecks = operation.enabled;
+    } else {
+      errors.push(...applyOperation(tables, operation, foreignKeyChecks));
+    }
+  }
+
+  return { database: tables, errors };
+}
+
+/**
+ * Runs the up() of each migration in order, starting from the given database (empty by default).
+ */
+export function simulateMigrations(
+  migrations: readonly MigrationFile[],
+  database: SimulatedDatabase = new Map()
+): SimulationResult {
+  let current = database;
+  const errors: string[] = [];
+
+  for (const migration of migrations) {
+    const result = applyOperations(current, migration.operations.up);
+    current = result.database;
+    errors.push(...result.errors.map(error => `${migration.fileName}: ${error}`));
+  }
+
+  return { database: current, errors };
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Formats a column with its modifiers in a stable order, for comparison.
+ */
+function describeColumn(column: ColumnMethod): string {
+  const key = (modifier: ColumnModifier) => `${modifier.method}(${JSON.stringify(modifier.args ?? [])})`;
+  return formatColumnMethod({ ...column, modifiers: [...column.modifiers].sort((a, b) => key(a).localeCompare(key(b))) });
+}
+
+/**
+ * Formats an index with its statement-only parts, for comparison.
+ */
+function describeIndex(index: IndexDefinition): string {
+  const where = index.where !== undefined ? ` WHERE ${index.where}` : '';
+  const parser = index.parser !== undefined ? ` WITH PARSER ${index.parser}` : '';
+  return `${formatIndex(index)}${where}${parser}`;
+}
+
+/**
+ * Describes the differences between two sets of described entries, keyed by what they are.
+ */
+function diffEntries(expected: ReadonlyMap<string, string>, actual: ReadonlyMap<string, string>): string[] {
+  const differences: string[] = [];
+
+  for (const subject of new Set([...expected.keys(), ...actual.keys()])) {
+    const from = expected.get(subject);
+    const to = actual.get(subject);
+    if (to === undefined) {
+      differences.push(`${subject} is missing (expected ${from})`);
+    } else if (from === undefined) {
+      differences.push(`${subject} is unexpected (${to})`);
+    } else if (from !== to) {
+      differences.push(`${subject} differs: expected ${from}, got ${to}`);
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Describes every part of a table by subject, e.g. `posts.title` or `index posts_title_index`.
+ */
+function describeTable(table: TableBlueprint): Map<string, string> {
+  const t = table.tableName;
+  return new Map<string, string>([
+    [`column order of ${t}`, table.columns.map(column => column.name).join(', ')],
+    ...table.columns.map(column => [`column ${t}.${column.name}`, describeColumn(column)] as const),
+    ...(table.primaryKey ? [[`primary key of ${t}`, table.primaryKey.join(', ')] as const] : []),
+    ...table.indexes.map(index => [`index ${index.name} of ${t}`, describeIndex(index)] as const),
+    ...table.foreignKeys.map(fk => [`foreign key ${fk.name} of ${t}`, formatForeignKey(fk)] as const),
+    ...(table.checks ?? []).map(check => [`CHECK constraint ${check.name} of ${t}`, check.expression] as const),
+    ...Object.entries(table.options ?? {}).map(([option, value]) => [`${option} of ${t}`, String(value)] as const),
+  ]);
+}
+
+/**
+ * Describes the differences between two simulated databases, column order included.
+ */
+export function diffDatabases(expected: SimulatedDatabase, actual: SimulatedDatabase): string[] {
+  const differences: string[] = [];
+
+  for (const tableName of new Set([...expected.keys(), ...actual.keys()])) {
+    const from = expected.get(tableName);
+    const to = actual.get(tableName);
+    if (!to) {
+      differences.push(`table ${tableName} is missing`);
+    } else if (!from) {
+      differences.push(`table ${tableName} is unexpected`);
+    } else {
+      differences.push(...diffEntries(describeTable(from), describeTable(to)));
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Checks that running up() and then down() of a migration gives back the database.
+ * Returns the problems found: errors of either method and the differences left behind.
+ */
+export function checkRoundTrip(migration: MigrationFile, database: SimulatedDatabase = new Map()): string[] {
+  const { up, down } = migration.operations;
+  const afterUp = applyOperations(database, up);
+  const afterDown = applyOperations(afterUp.database, down);
+
+  return [
+    ...afterUp.errors.map(error => `up(): ${error}`),
+    ...afterDown.errors.map(error => `down(): ${error}`),
+    ...diffDatabases(database, afterDown.database),
+  ];
+}
+
+/**
+ * Checks that a fresh set of migrations builds the same database as a history of
+ * migrations (e.g. the CREATE migrations of an old version followed by ALTER migrations).
+ */
+export function checkFreshMatchesHistory(
+  fresh: readonly MigrationFile[],
+  history: readonly MigrationFile[]
+): string[] {
+  const freshResult = simulateMigrations(fresh);
+  const historyResult = simulateMigrations(history);
+
+  return [
+    ...freshResult.errors.map(error => `fresh: ${error}`),
+    ...historyResult.errors.map(error => `history: ${error}`),
+    ...diffDatabases(freshResult.database, historyResult.database),
+  ];
+}
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+/**
+ * Throws when running up() and then down() of a migration does not give back the database.
+ * Works with any test runner, e.g. `expect(() => assertRoundTrip(migration)).not.toThrow()`.
+ */
+export function assertRoundTrip(migration: MigrationFile, database: SimulatedDatabase = new Map()): void {
+  const problems = checkRoundTrip(migration, database);
+  if (problems.length > 0) {
+    throw new Error(`${migration.fileName} does not round-trip:\n  ${problems.join('\n  ')}`);
+  }
+}
+
+/**
+ * Throws when a fresh set of migrations does not build the same database as a history of migrations.
+ */
+export function assertFreshMatchesHistory(fresh: readonly MigrationFile[], history: readonly MigrationFile[]): void {
+  const problems = checkFreshMatchesHistory(fresh, history);
+  if (problems.length > 0) {
+    throw new Error(`Fresh migrations differ from the migration history:\n  ${problems.join('\n  ')}`);
+  }
+}
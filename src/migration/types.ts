@@ -4,7 +4,13 @@
  * Types for Laravel migration generation.
  */
 
-import type { CustomTypeDefinition, LocaleResolutionOptions, PluginEnumDefinition } from '@famgia/omnify-types';
+import type { SchemaChange } from '@famgia/omnify-atlas';
+import type { CustomTypeDefinition, LocaleResolutionOptions, LocalizedString, PluginEnumDefinition } from '@famgia/omnify-types';
+
+/**
+ * Database driver the migrations target (Laravel connection driver names).
+ */
+export type DatabaseDriver = 'mysql' | 'pgsql' | 'sqlite' | 'sqlsrv';
 
 /**
  * Laravel migration file structure.
@@ -25,6 +31,85 @@ export interface MigrationFile {
    * Undefined for pivot tables or system migrations.
    */
   readonly schemaName?: string | undefined;
+  /** Notes for the user (unsupported driver features, deferred foreign keys) */
+  readonly warnings?: readonly string[] | undefined;
+  /** What running the migration does to existing data (safe when undefined) */
+  readonly risk?: MigrationRisk | undefined;
+  /** Schema operations of up() and down(), replayed by the simulator */
+  readonly operations: MigrationOperations;
+}
+
+/**
+ * A schema option changed between the previous and current schemas.
+ */
+export interface OptionChange<T> {
+  readonly from?: T;
+  readonly to?: T;
+}
+
+/**
+ * Table option changes of a schema change, beyond timestamps, softDelete and idType.
+ * `comment` carries the schema displayName; an undefined `tableName` side is the default table name.
+ */
+export interface TableOptionChanges {
+  readonly comment?: OptionChange<LocalizedString>;
+  readonly charset?: OptionChange<string>;
+  readonly collation?: OptionChange<string>;
+  readonly engine?: OptionChange<string>;
+  readonly tableName?: OptionChange<string>;
+}
+
+/**
+ * A schema change whose option changes include the table options.
+ */
+export type TableSchemaChange = SchemaChange & {
+  readonly optionChanges?: SchemaChange['optionChanges'] & TableOptionChanges;
+};
+
+/**
+ * A table renamed between the previous and current schemas: a renamed schema
+ * (removed + added) or a changed `options.tableName`.
+ */
+export interface SchemaRename {
+  /** Previous schema name */
+  readonly from: string;
+  /** Current schema name (same as `from` when only the table name changed) */
+  readonly to: string;
+  /** Previous table name */
+  readonly fromTable: string;
+  /** Current table name */
+  readonly toTable: string;
+}
+
+/**
+ * Risk of running a migration on a table with data, from least to most severe:
+ * - safe: no existing row is touched
+ * - locking: the table is rewritten or every row is checked, which may lock it
+ * - data-loss: stored values are dropped or narrowed
+ * - irreversible: down() cannot restore the previous table
+ */
+export type MigrationRiskLevel = 'safe' | 'locking' | 'data-loss' | 'irreversible';
+
+/**
+ * A reason a migration is not safe.
+ */
+export interface MigrationRiskReason {
+  /** Risk level of this change */
+  readonly level: MigrationRiskLevel;
+  /** Affected table or `table.column` */
+  readonly target: string;
+  /** Human-readable description */
+  readonly message: string;
+}
+
+/**
+ * Risk classification of a migration.
+ */
+export interface MigrationRisk {
+  /** Most severe level among the reasons (safe without reasons) */
+  readonly level: MigrationRiskLevel;
+  /** Changes that make the migration unsafe */
+  readonly reasons: readonly MigrationRiskReason[];
 }
 
 /**
@@ -45,6 +130,16 @@ export interface MigrationOptions {
   readonly pluginEnums?: ReadonlyMap<string, PluginEnumDefinition> | undefined;
   /** Locale resolution options for displayName */
   readonly locale?: LocaleResolutionOptions | undefined;
+  /** Rename removed tables to an archive name instead of dropping them */
+  readonly archiveDroppedTables?: boolean | undefined;
+  /** Target database driver (defaults to mysql) */
+  readonly driver?: DatabaseDriver | undefined;
+  /** Add CHECK constraints derived from min/max and EnumRef values */
+  readonly checkConstraints?: boolean | undefined;
+  /** Values of enum schemas before the change, keyed by schema name (for EnumRef column changes) */
+  readonly previousEnumValues?: ReadonlyMap<string, readonly string[]> | undefined;
+  /** Tables created by existing migrations (their deferred foreign keys are not added again) */
+  readonly existingTables?: ReadonlySet<string> | undefined;
 }
 
 /**
@@ -75,6 +170,8 @@ export interface ColumnModifier {
  * Foreign key definition for Schema Builder.
  */
 export interface ForeignKeyDefinition {
+  /** Constraint name */
+  readonly name?: string | undefined;
   /** Local column(s) */
   readonly columns: readonly string[];
   /** Referenced table */
@@ -87,6 +184,11 @@ export interface ForeignKeyDefinition {
   readonly onUpdate?: string | undefined;
 }
 
+/**
+ * Index kind.
+ */
+export type IndexType = 'index' | 'unique' | 'fulltext' | 'spatial';
+
 /**
  * Index definition for Schema Builder.
  */
@@ -97,6 +199,40 @@ export interface IndexDefinition {
   readonly columns: readonly string[];
   /** Whether this is a unique index */
   readonly unique: boolean;
+  /** Index kind (defaults to 'unique' or 'index' depending on `unique`) */
+  readonly type?: IndexType | undefined;
+  /** Index method, e.g. 'btree', 'hash' (MySQL and PostgreSQL) */
+  readonly algorithm?: string | undefined;
+  /** WHERE clause of a partial index (PostgreSQL, SQLite and SQL Server) */
+  readonly where?: string | undefined;
+  /** Fulltext parser, e.g. 'ngram' for Japanese (MySQL) */
+  readonly parser?: string | undefined;
+}
+
+/**
+ * CHECK constraint definition.
+ */
+export interface CheckConstraintDefinition {
+  /** Constraint name */
+  readonly name: string;
+  /** SQL boolean expression */
+  readonly expression: string;
+}
+
+/**
+ * Table-level options.
+ */
+export interface TableOptions {
+  /** Table comment (from the schema displayName; MySQL and PostgreSQL) */
+  readonly comment?: string | undefined;
+  /** Default character set, e.g. 'utf8mb4' (MySQL) */
+  readonly charset?: string | undefined;
+  /** Default collation, e.g. 'utf8mb4_bin' for case-sensitive codes (MySQL) */
+  readonly collation?: string | undefined;
+  /** Storage engine, e.g. 'InnoDB' (MySQL) */
+  readonly engine?: string | undefined;
+  /** Create a temporary table */
+  readonly temporary?: boolean | undefined;
 }
 
 /**
@@ -113,6 +249,12 @@ export interface TableBlueprint {
   readonly foreignKeys: readonly ForeignKeyDefinition[];
   /** Index definitions */
   readonly indexes: readonly IndexDefinition[];
+  /** CHECK constraints (added after the table is created) */
+  readonly checks?: readonly CheckConstraintDefinition[] | undefined;
+  /** Table-level options */
+  readonly options?: TableOptions | undefined;
+  /** Features the target driver replaced with a fallback */
+  readonly warnings?: readonly string[] | undefined;
 }
 
 /**
@@ -140,3 +282,62 @@ export interface MigrationDefinition {
   /** Database connection */
   readonly connection?: string | undefined;
 }
+
+/**
+ * A database modeled as its tables, keyed by table name (see simulator.ts).
+ * Columns are kept in table order.
+ */
+export type SimulatedDatabase = ReadonlyMap<string, TableBlueprint>;
+
+/**
+ * A schema change performed by the up() or down() of a migration.
+ */
+export type SchemaOperation =
+  | { readonly type: 'createTable'; readonly tableName: string }
+  | { readonly type: 'dropTable'; readonly tableName: string; readonly ifExists: boolean }
+  | { readonly type: 'renameTable'; readonly from: string; readonly to: string }
+  | { readonly type: 'addColumn'; readonly tableName: string; readonly column: ColumnMethod }
+  | { readonly type: 'changeColumn'; readonly tableName: string; readonly column: ColumnMethod }
+  | { readonly type: 'dropColumn'; readonly tableName: string; readonly columnName: string }
+  | { readonly type: 'renameColumn'; readonly tableName: string; readonly from: string; readonly to: string }
+  | { readonly type: 'addIndex'; readonly tableName: string; readonly index: IndexDefinition }
+  | { readonly type: 'dropIndex'; readonly tableName: string; readonly name: string }
+  | { readonly type: 'renameIndex'; readonly tableName: string; readonly from: string; readonly to: string }
+  | { readonly type: 'addPrimary'; readonly tableName: string; readonly columns: readonly string[] }
+  | { readonly type: 'dropPrimary'; readonly tableName: string }
+  | { readonly type: 'addForeignKey'; readonly tableName: string; readonly foreignKey: ForeignKeyDefinition }
+  | { readonly type: 'dropForeignKey'; readonly tableName: string; readonly name: string }
+  | { readonly type: 'addCheck'; readonly tableName: string; readonly check: CheckConstraintDefinition }
+  | { readonly type: 'dropCheck'; readonly tableName: string; readonly name: string }
+  | { readonly type: 'setTableOptions'; readonly tableName: string; readonly options: TableOptions }
+  | { readonly type: 'foreignKeyChecks'; readonly enabled: boolean };
+
+/**
+ * The operations of a migration file.
+ */
+export interface MigrationOperations {
+  /** Operations of up() */
+  readonly up: readonly SchemaOperation[];
+  /** Operations of down() */
+  readonly down: readonly SchemaOperation[];
+}
+
+/**
+ * Generated code with the schema operations it performs (none for data statements).
+ */
+export interface MigrationStatement {
+  /** PHP code */
+  readonly code: string;
+  /** Operations of the code, in the order they run */
+  readonly operations: readonly SchemaOperation[];
+}
+
+/**
+ * Result of applying operations to a simulated database.
+ */
+export interface SimulationResult {
+  /** The database after the operations */
+  readonly database: SimulatedDatabase;
+  /** Operations the database would reject (missing tables, duplicate indexes...) */
+  readonly errors: readonly string[];
+}
@@ -35,6 +35,53 @@ describe('Laravel Model Generator', () => {
       expect(types).toContain('entity');
     });
 
+    it('should not add generated columns to fillable', () => {
+      const schemas: SchemaCollection = {
+        User: createSchema({
+          properties: {
+            firstName: { type: 'String' },
+            fullName: { type: 'String', virtualAs: "CONCAT(first_name, ' ', last_name)" } as LoadedSchema['properties'][string],
+          },
+        }),
+      };
+
+      const models = generateModels(schemas);
+      const entityBase = models.find(m => m.type === 'entity-base');
+
+      expect(entityBase?.content).toContain("'first_name',");
+      expect(entityBase?.content).not.toContain("        'full_name',");
+      expect(entityBase?.content).toContain('$full_name');
+    });
+
+    it('should cast enum columns to generated PHP enums', () => {
+      const schemas: SchemaCollection = {
+        PostStatus: {
+          name: 'PostStatus',
+          kind: 'enum',
+          filePath: '/schemas/blog/PostStatus.yaml',
+          relativePath: 'blog/PostStatus.yaml',
+          values: ['draft', 'published'],
+        },
+        Post: createSchema({
+          name: 'Post',
+          properties: {
+            status: { type: 'EnumRef', enum: 'PostStatus' },
+            visibility: { type: 'Enum', enum: ['public', 'private'], nullable: true },
+          },
+        }),
+      };
+
+      const models = generateModels(schemas);
+      const entityBase = models.find(m => m.type === 'entity-base');
+
+      expect(entityBase?.content).toContain('use App\\Enums\\PostStatus;');
+      expect(entityBase?.content).toContain('use App\\Enums\\PostVisibility;');
+      expect(entityBase?.content).toContain("'status' => PostStatus::class,");
+      expect(entityBase?.content).toContain("'visibility' => PostVisibility::class,");
+      expect(entityBase?.content).toContain(' * @property PostStatus $status');
+      expect(entityBase?.content).toContain(' * @property PostVisibility|null $visibility');
+    });
+
     it('should generate HasLocalizedDisplayName trait in Traits subfolder', () => {
       const schemas: SchemaCollection = {
         User: createSchema(),
@@ -291,6 +338,77 @@ describe('Laravel Model Generator', () => {
       expect(entityBase?.content).toContain('use Domain\\Models\\Base\\Traits\\HasLocalizedDisplayName;');
       expect(entityBase?.content).toContain('use Domain\\Models\\Base\\Locales\\UserLocales;');
     });
+
+    it('should generate morphToMany and morphedByMany relations on the pivot table', () => {
+      const schemas: SchemaCollection = {
+        Post: createSchema({
+          name: 'Post',
+          properties: {
+            tags: {
+              type: 'Association',
+              relation: 'MorphToMany',
+              target: 'Tag',
+              pivotFields: { sortOrder: { type: 'Int' } },
+            } as LoadedSchema['properties'][string],
+          },
+        }),
+        Tag: createSchema({
+          name: 'Tag',
+          properties: {
+            posts: { type: 'Association', relation: 'MorphedByMany', target: 'Post' } as LoadedSchema['properties'][string],
+          },
+        }),
+      };
+
+      const models = generateModels(schemas);
+      const post = models.find(m => m.path.endsWith('PostBaseModel.php'));
+      const tag = models.find(m => m.path.endsWith('TagBaseModel.php'));
+
+      expect(post?.content).toContain(`    public function tags(): MorphToMany
+    {
+        return $this->morphToMany(Tag::class, 'tagable', 'tagables', 'tagable_id', 'tag_id')
+            ->withPivot('sort_order')
+            ->withTimestamps();
+    }`);
+      expect(tag?.content).toContain(`    public function posts(): MorphToMany
+    {
+        return $this->morphedByMany(Post::class, 'tagable', 'tagables', 'tag_id', 'tagable_id')
+            ->withPivot('sort_order')
+            ->withTimestamps();
+    }`);
+    });
+
+    it('should generate hasManyThrough and hasOneThrough relations keyed by the ManyToOne foreign keys', () => {
+      const association = (definition: Record<string, unknown>) =>
+        ({ type: 'Association', ...definition }) as LoadedSchema['properties'][string];
+      const schemas: SchemaCollection = {
+        Country: createSchema({
+          name: 'Country',
+          properties: {
+            posts: association({ relation: 'HasManyThrough', target: 'Post', through: 'User' }),
+            capital: association({ relation: 'HasOneThrough', target: 'City', through: 'Region' }),
+          },
+        }),
+        User: createSchema({
+          name: 'User',
+          properties: { homeCountry: association({ relation: 'ManyToOne', target: 'Country' }) },
+        }),
+        Post: createSchema({
+          name: 'Post',
+          properties: { author: association({ relation: 'ManyToOne', target: 'User' }) },
+        }),
+      };
+
+      const models = generateModels(schemas);
+      const country = models.find(m => m.path.endsWith('CountryBaseModel.php'))?.content;
+
+      expect(country).toContain("return $this->hasManyThrough(Post::class, User::class, 'home_country_id', 'author_id');");
+      // Without ManyToOne associations, keys fall back to the schema names
+      expect(country).toContain("return $this->hasOneThrough(City::class, Region::class, 'country_id', 'region_id');");
+      expect(country).toContain('use App\\Models\\Region;');
+      expect(country).toContain(' * @property \\Illuminate\\Database\\Eloquent\\Collection<Post> $posts');
+      expect(country).toContain(' * @property City|null $capital');
+    });
   });
 
   describe('HasLocalizedDisplayName trait content', () => {
@@ -5,9 +5,11 @@
  * Creates base models (auto-generated) and user models (created once).
  */
 
-import type { LoadedSchema, PropertyDefinition, AssociationDefinition, SchemaCollection, LocalizedString, CustomTypeDefinition } from '@famgia/omnify-types';
+import type { LoadedSchema, PropertyDefinition, AssociationDefinition, SchemaCollection, LocalizedString, CustomTypeDefinition, PluginEnumDefinition } from '@famgia/omnify-types';
 import { isLocaleMap } from '@famgia/omnify-types';
-import { pluralize, toSnakeCase, toPascalCase, toCamelCase } from '../utils.js';
+import { pluralize, toSnakeCase, toPascalCase, toCamelCase, isGeneratedColumn, getThroughAssociation } from '../utils.js';
+import { getMorphToManyNames, toTableName } from '../migration/schema-builder.js';
+import { getPropertyEnumClass } from '../enum/generator.js';
 
 /**
  * Options for model generation.
@@ -54,6 +56,17 @@ export interface ModelGeneratorOptions {
    * Used to expand compound types in fillable array.
    */
   customTypes?: ReadonlyMap<string, CustomTypeDefinition>;
+
+  /**
+   * Enum namespace (for casting enum columns to PHP enums).
+   * @default 'App\\Enums'
+   */
+  enumNamespace?: string;
+
+  /**
+   * Plugin enums from registry (for EnumRef resolution).
+   */
+  pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>;
 }
 
 /**
@@ -97,6 +110,8 @@ interface ResolvedOptions {
   modelPath: string;
   providersPath: string;
   customTypes: ReadonlyMap<string, CustomTypeDefinition>;
+  enumNamespace: string;
+  pluginEnums: ReadonlyMap<string, PluginEnumDefinition>;
 }
 
 /**
@@ -110,6 +125,8 @@ const DEFAULT_OPTIONS: ResolvedOptions = {
   modelPath: 'app/Models',
   providersPath: 'app/Providers',
   customTypes: new Map(),
+  enumNamespace: 'App\\Enums',
+  pluginEnums: new Map(),
 };
 
 /**
@@ -188,6 +205,8 @@ function resolveOptions(options?: ModelGeneratorOptions): ResolvedOptions {
     modelPath: options?.modelPath ?? DEFAULT_OPTIONS.modelPath,
     providersPath: options?.providersPath ?? DEFAULT_OPTIONS.providersPath,
     customTypes: options?.customTypes ?? new Map(),
+    enumNamespace: options?.enumNamespace ?? DEFAULT_OPTIONS.enumNamespace,
+    pluginEnums: options?.pluginEnums ?? new Map(),
   };
 }
 
@@ -216,6 +235,8 @@ function resolveSchemaOptions(schema: LoadedSchema, globalOptions: ResolvedOptio
     baseModelPath: `${base}/${pkgOutput.baseModelsPath ?? 'src/Models/OmnifyBase'}`,
     providersPath: `${base}/${pkgOutput.providersPath ?? 'src/Providers'}`,
     customTypes: globalOptions.customTypes,
+    enumNamespace: globalOptions.enumNamespace,
+    pluginEnums: globalOptions.pluginEnums,
   };
 }
 
@@ -292,6 +313,9 @@ function getPhpDocType(propDef: PropertyDefinition, schemas: SchemaCollection):
       const assoc = propDef as AssociationDefinition;
       if (assoc.target) {
         const className = toPascalCase(assoc.target);
+        if (getThroughAssociation(propDef)?.many) {
+          return `\\Illuminate\\Database\\Eloquent\\Collection<${className}>`;
+        }
         switch (assoc.relation) {
           case 'OneToMany':
           case 'ManyToMany':
@@ -438,9 +462,17 @@ function generateEntityBaseModel(
     const typeDef = options.customTypes.get(propDef.type);
     const isCompoundType = typeDef?.compound && typeDef.expand;
 
+    // Enum columns are cast to generated PHP enums
+    const enumClass = getPropertyEnumClass(schema, propName, propDef, schemas, options.pluginEnums);
+    if (enumClass) {
+      imports.push(`use ${options.enumNamespace}\\${enumClass};`);
+    }
+
     // Add to doc comments (skip for compound types - they'll be added per field)
     if (!isCompoundType) {
-      const phpType = getPhpDocType(propDef, schemas);
+      const phpType = enumClass
+        ? enumClass + (isNullable(propDef) ? '|null' : '')
+        : getPhpDocType(propDef, schemas);
       docProperties.push(` * @property ${phpType} $${snakeName}`);
     }
 
@@ -449,6 +481,10 @@ function generateEntityBaseModel(
       if (assoc.target) {
         imports.push(`use ${options.modelNamespace}\\${toPascalCase(assoc.target)};`);
       }
+      const through = getThroughAssociation(propDef);
+      if (through) {
+        imports.push(`use ${options.modelNamespace}\\${toPascalCase(through.through)};`);
+      }
       relations.push(generateRelation(propName, assoc, schema, schemas, options));
 
       // Add foreign key to fillable for belongsTo relations
@@ -515,9 +551,9 @@ function generateEntityBaseModel(
       const relMethod = generateFileRelation(propName, propDef as any);
       relations.push(relMethod);
     } else {
-      // Check for fillable property (default: true)
+      // Check for fillable property (default: true). Generated columns are never fillable
       const propWithOptions = propDef as { fillable?: boolean; hidden?: boolean; fields?: Record<string, { nullable?: boolean; hidden?: boolean; fillable?: boolean }> };
-      const isFillable = propWithOptions.fillable !== false;
+      const isFillable = propWithOptions.fillable !== false && !isGeneratedColumn(propDef);
       const isHidden = propWithOptions.hidden === true;
 
       // Check if this is a compound type that should be expanded
@@ -559,7 +595,9 @@ function generateEntityBaseModel(
         }
 
         const cast = getCastType(propDef);
-        if (cast) {
+        if (enumClass) {
+          casts.push(`            '${snakeName}' => ${enumClass}::class,`);
+        } else if (cast) {
           casts.push(`            '${snakeName}' => '${cast}',`);
         }
 
@@ -694,6 +732,39 @@ function findInverseRelation(
   return null;
 }
 
+/**
+ * Find the MorphToMany association on target schema that a MorphedByMany relation is the inverse of.
+ */
+function findMorphToManyOwner(
+  currentSchemaName: string,
+  assoc: AssociationDefinition,
+  schemas: SchemaCollection
+): { propName: string; assoc: AssociationDefinition } | null {
+  const targetSchema = assoc.target ? schemas[assoc.target] : undefined;
+  if (!targetSchema || !targetSchema.properties) {
+    return null;
+  }
+
+  for (const [propName, propDef] of Object.entries(targetSchema.properties)) {
+    if (propDef.type !== 'Association') continue;
+    if (assoc.mappedBy && propName !== assoc.mappedBy) continue;
+    const owningAssoc = propDef as AssociationDefinition;
+    if (owningAssoc.relation === 'MorphToMany' && owningAssoc.target === currentSchemaName) {
+      return { propName, assoc: owningAssoc };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Generate withPivot() for the pivot fields of a many-to-many association.
+ */
+function formatWithPivot(pivotFields: AssociationDefinition['pivotFields']): string {
+  const pivotFieldNames = Object.keys(pivotFields ?? {}).map(f => `'${toSnakeCase(f)}'`);
+  return pivotFieldNames.length > 0 ? `\n            ->withPivot(${pivotFieldNames.join(', ')})` : '';
+}
+
 /**
  * Generate relation method.
  */
@@ -708,6 +779,21 @@ function generateRelation(
   const targetClass = assoc.target ? toPascalCase(assoc.target) : '';
   const fkName = toSnakeCase(propName) + '_id';
 
+  const through = getThroughAssociation(assoc);
+  if (through) {
+    // Keys follow the ManyToOne FKs: through → this model, target → through
+    const firstKey = findInverseRelation(schema.name, through.through, schemas) ?? toSnakeCase(schema.name);
+    const secondKey = findInverseRelation(through.through, through.target, schemas) ?? toSnakeCase(through.through);
+    const [returnType, method] = through.many ? ['HasManyThrough', 'hasManyThrough'] : ['HasOneThrough', 'hasOneThrough'];
+    return `    /**
+     * Get the ${propName} of this model through ${toPascalCase(through.through)}.
+     */
+    public function ${methodName}(): ${returnType}
+    {
+        return $this->${method}(${targetClass}::class, ${toPascalCase(through.through)}::class, '${toSnakeCase(firstKey)}_id', '${toSnakeCase(secondKey)}_id');
+    }`;
+  }
+
   switch (assoc.relation) {
     case 'ManyToOne':
       return `    /**
@@ -832,6 +918,34 @@ function generateRelation(
         return $this->morphMany(${targetClass}::class, '${assoc.morphName ?? propName}');
     }`;
 
+    case 'MorphToMany': {
+      const { tableName, morphName, targetColumn } = getMorphToManyNames(propName, assoc.target ?? '', assoc);
+      return `    /**
+     * The ${propName} that belong to this model.
+     */
+    public function ${methodName}(): MorphToMany
+    {
+        return $this->morphToMany(${targetClass}::class, '${morphName}', '${tableName}', '${morphName}_id', '${targetColumn}')${formatWithPivot(assoc.pivotFields)}
+            ->withTimestamps();
+    }`;
+    }
+
+    case 'MorphedByMany': {
+      // Pivot names come from the MorphToMany side (e.g. Post.tags for Tag.posts)
+      const owner = findMorphToManyOwner(schema.name, assoc, schemas);
+      const { tableName, morphName, targetColumn } = owner
+        ? getMorphToManyNames(owner.propName, schema.name, owner.assoc)
+        : getMorphToManyNames(toTableName(schema.name), schema.name, assoc);
+      return `    /**
+     * The ${propName} that are assigned this model.
+     */
+    public function ${methodName}(): MorphToMany
+    {
+        return $this->morphedByMany(${targetClass}::class, '${morphName}', '${tableName}', '${targetColumn}', '${morphName}_id')${formatWithPivot(owner?.assoc.pivotFields ?? assoc.pivotFields)}
+            ->withTimestamps();
+    }`;
+    }
+
     default:
       return `    // TODO: Implement ${assoc.relation} relation for ${propName}`;
   }
@@ -946,6 +1060,8 @@ namespace {{BASE_MODEL_NAMESPACE}};
 use Illuminate\\Database\\Eloquent\\Relations\\BelongsTo;
 use Illuminate\\Database\\Eloquent\\Relations\\HasMany;
 use Illuminate\\Database\\Eloquent\\Relations\\HasOne;
+use Illuminate\\Database\\Eloquent\\Relations\\HasManyThrough;
+use Illuminate\\Database\\Eloquent\\Relations\\HasOneThrough;
 use Illuminate\\Database\\Eloquent\\Relations\\BelongsToMany;
 use Illuminate\\Database\\Eloquent\\Relations\\MorphTo;
 use Illuminate\\Database\\Eloquent\\Relations\\MorphOne;
@@ -1042,6 +1158,8 @@ use Illuminate\\Foundation\\Auth\\User as Authenticatable;
 use Illuminate\\Database\\Eloquent\\Relations\\BelongsTo;
 use Illuminate\\Database\\Eloquent\\Relations\\HasMany;
 use Illuminate\\Database\\Eloquent\\Relations\\HasOne;
+use Illuminate\\Database\\Eloquent\\Relations\\HasManyThrough;
+use Illuminate\\Database\\Eloquent\\Relations\\HasOneThrough;
 use Illuminate\\Database\\Eloquent\\Relations\\BelongsToMany;
 use Illuminate\\Database\\Eloquent\\Relations\\MorphTo;
 use Illuminate\\Database\\Eloquent\\Relations\\MorphOne;
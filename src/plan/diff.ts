@@ -0,0 +1,142 @@
+/**
+ * @famgia/omnify-laravel - Unified Diff
+ *
+ * Minimal line-based unified diff for dry-run plans.
+ */
+
+/**
+ * Maximum LCS table size before falling back to a full replace diff.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Single line operation in an edit script.
+ */
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  text: string;
+  /** 0-based index into the old lines at the time of this op */
+  oldIndex: number;
+  /** 0-based index into the new lines at the time of this op */
+  newIndex: number;
+}
+
+/**
+ * Splits content into lines, ignoring the trailing newline.
+ */
+function splitLines(content: string | null): string[] {
+  if (content === null || content === '') {
+    return [];
+  }
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Computes an edit script between two line arrays using LCS.
+ */
+function diffLines(a: readonly string[], b: readonly string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const ops: DiffOp[] = [];
+
+  // Too large for an LCS table - treat as full replacement
+  if (n * m > MAX_LCS_CELLS) {
+    a.forEach((text, i) => ops.push({ type: '-', text, oldIndex: i, newIndex: 0 }));
+    b.forEach((text, j) => ops.push({ type: '+', text, oldIndex: n, newIndex: j }));
+    return ops;
+  }
+
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1]! + 1
+        : Math.max(table[(i + 1) * width + j]!, table[i * width + j + 1]!);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', text: a[i]!, oldIndex: i, newIndex: j });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j]! >= table[i * width + j + 1]!) {
+      ops.push({ type: '-', text: a[i]!, oldIndex: i, newIndex: j });
+      i++;
+    } else {
+      ops.push({ type: '+', text: b[j]!, oldIndex: i, newIndex: j });
+      j++;
+    }
+  }
+  for (; i < n; i++) {
+    ops.push({ type: '-', text: a[i]!, oldIndex: i, newIndex: j });
+  }
+  for (; j < m; j++) {
+    ops.push({ type: '+', text: b[j]!, oldIndex: i, newIndex: j });
+  }
+
+  return ops;
+}
+
+/**
+ * Creates a unified diff between two versions of a file.
+ * Pass null for `before` when the file does not exist yet.
+ * Returns an empty string when there are no differences.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string | null,
+  after: string | null,
+  context: number = 3
+): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changeIndexes = ops
+    .map((op, index) => (op.type === ' ' ? -1 : index))
+    .filter(index => index >= 0);
+
+  if (changeIndexes.length === 0) {
+    return '';
+  }
+
+  // Group changes into hunks, merging those whose context overlaps
+  const ranges: [number, number][] = [];
+  let start = Math.max(0, changeIndexes[0]! - context);
+  let end = Math.min(ops.length, changeIndexes[0]! + context + 1);
+  for (const index of changeIndexes.slice(1)) {
+    if (index - context <= end) {
+      end = Math.min(ops.length, index + context + 1);
+    } else {
+      ranges.push([start, end]);
+      start = index - context;
+      end = Math.min(ops.length, index + context + 1);
+    }
+  }
+  ranges.push([start, end]);
+
+  const lines: string[] = [
+    before === null ? '--- /dev/null' : `--- a/${filePath}`,
+    after === null ? '+++ /dev/null' : `+++ b/${filePath}`,
+  ];
+
+  for (const [from, to] of ranges) {
+    const hunk = ops.slice(from, to);
+    const oldCount = hunk.filter(op => op.type !== '+').length;
+    const newCount = hunk.filter(op => op.type !== '-').length;
+    const oldStart = oldCount === 0 ? hunk[0]!.oldIndex : hunk[0]!.oldIndex + 1;
+    const newStart = newCount === 0 ? hunk[0]!.newIndex : hunk[0]!.newIndex + 1;
+
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      lines.push(`${op.type}${op.text}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
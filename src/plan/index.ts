@@ -0,0 +1,20 @@
+/**
+ * @famgia/omnify-laravel - Plan Module
+ *
+ * Dry-run planning exports.
+ */
+
+export type {
+  PlannedActionType,
+  PlannedFileAction,
+  GeneratorPlan,
+} from './types.js';
+
+export { createUnifiedDiff } from './diff.js';
+
+export {
+  planOutput,
+  planGeneratorOutputs,
+  planStagedFiles,
+  formatPlan,
+} from './planner.js';
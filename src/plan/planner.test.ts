@@ -0,0 +1,154 @@
+/**
+ * @famgia/omnify-laravel - Dry-run Planner Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { GeneratorOutput } from '@famgia/omnify-types';
+import { createUnifiedDiff } from './diff.js';
+import { planOutput, planGeneratorOutputs, planStagedFiles, formatPlan } from './planner.js';
+
+describe('createUnifiedDiff', () => {
+  it('returns empty string for identical content', () => {
+    expect(createUnifiedDiff('a.php', 'same\n', 'same\n')).toBe('');
+  });
+
+  it('diffs a new file against /dev/null', () => {
+    const diff = createUnifiedDiff('a.php', null, 'line1\nline2\n');
+
+    expect(diff).toContain('--- /dev/null');
+    expect(diff).toContain('+++ b/a.php');
+    expect(diff).toContain('@@ -0,0 +1,2 @@');
+    expect(diff).toContain('+line1');
+    expect(diff).toContain('+line2');
+  });
+
+  it('includes context around changed lines', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+    const after = ['a', 'b', 'c', 'd', 'X', 'f', 'g', 'h'].join('\n');
+
+    const diff = createUnifiedDiff('file.txt', before, after, 1);
+
+    expect(diff).toContain('--- a/file.txt');
+    expect(diff).toContain('+++ b/file.txt');
+    expect(diff).toContain('@@ -4,3 +4,3 @@');
+    expect(diff).toContain(' d\n-e\n+X\n f');
+    expect(diff).not.toContain('\n a\n');
+  });
+});
+
+describe('planner', () => {
+  let cwd: string;
+
+  const output = (path: string, content: string, extra: Partial<GeneratorOutput> = {}): GeneratorOutput => ({
+    path,
+    content,
+    type: 'other',
+    ...extra,
+  });
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-planner-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  describe('planOutput', () => {
+    it('plans create for missing files', () => {
+      const action = planOutput('gen', output('new.php', '<?php\n'), cwd);
+
+      expect(action.action).toBe('create');
+      expect(action.diff).toContain('+<?php');
+    });
+
+    it('plans unchanged and overwrite for existing files', () => {
+      writeFileSync(join(cwd, 'same.php'), 'same\n');
+      writeFileSync(join(cwd, 'changed.php'), 'old\n');
+
+      expect(planOutput('gen', output('same.php', 'same\n'), cwd).action).toBe('unchanged');
+
+      const overwrite = planOutput('gen', output('changed.php', 'new\n'), cwd);
+      expect(overwrite.action).toBe('overwrite');
+      expect(overwrite.diff).toContain('-old');
+      expect(overwrite.diff).toContain('+new');
+    });
+
+    it('plans skip-exists for existing skipIfExists outputs', () => {
+      writeFileSync(join(cwd, 'User.php'), 'custom\n');
+
+      const action = planOutput('gen', output('User.php', 'generated\n', { skipIfExists: true }), cwd);
+
+      expect(action.action).toBe('skip-exists');
+      expect(action.diff).toBeUndefined();
+    });
+
+    it('respects planAction metadata', () => {
+      const action = planOutput(
+        'gen',
+        output('m.php', 'x', { metadata: { planAction: 'skip-exists', planReason: 'already migrated' } }),
+        cwd
+      );
+
+      expect(action).toEqual({ path: 'm.php', action: 'skip-exists', generator: 'gen', reason: 'already migrated' });
+    });
+
+    it('plans modify for provider registration', () => {
+      mkdirSync(join(cwd, 'bootstrap'));
+      writeFileSync(join(cwd, 'bootstrap/providers.php'), "<?php\n\nreturn [\n];\n");
+
+      const action = planOutput(
+        'gen',
+        output(
+          'bootstrap/providers.php',
+          "<?php\n\nreturn [\n    App\\Providers\\OmnifyServiceProvider::class,\n];\n",
+          { metadata: { registrationType: 'provider-registration' } }
+        ),
+        cwd
+      );
+
+      expect(action.action).toBe('modify');
+      expect(action.diff).toContain('+    App\\Providers\\OmnifyServiceProvider::class,');
+    });
+  });
+
+  describe('planStagedFiles', () => {
+    it('compares staged files with the target directory', () => {
+      const staging = join(cwd, 'staging');
+      const target = join(cwd, 'target');
+      mkdirSync(join(staging, 'nested'), { recursive: true });
+      mkdirSync(target);
+      writeFileSync(join(staging, 'a.md'), 'a\n');
+      writeFileSync(join(staging, 'nested/b.md'), 'b\n');
+      writeFileSync(join(target, 'a.md'), 'a\n');
+
+      const plan = planStagedFiles('laravel-ai-guides', staging, target);
+
+      expect(plan.actions.map(a => [a.path, a.action])).toEqual([
+        ['a.md', 'unchanged'],
+        ['nested/b.md', 'create'],
+      ]);
+    });
+  });
+
+  describe('formatPlan', () => {
+    it('summarizes actions and includes diffs', () => {
+      writeFileSync(join(cwd, 'same.php'), 'same\n');
+
+      const plan = planGeneratorOutputs(
+        'laravel-models',
+        [output('same.php', 'same\n'), output('new.php', 'new\n')],
+        cwd
+      );
+      const text = formatPlan(plan);
+
+      expect(text).toContain('[laravel-models] 1 unchanged, 1 create');
+      expect(text).toContain('unchanged   same.php');
+      expect(text).toContain('create      new.php');
+      expect(text).toContain('+new');
+    });
+  });
+});
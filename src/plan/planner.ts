@@ -0,0 +1,164 @@
+/**
+ * @famgia/omnify-laravel - Dry-run Planner
+ *
+ * Compares generator outputs with files on disk and reports
+ * what `generate` would do without writing anything.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import type { GeneratorOutput } from '@famgia/omnify-types';
+import type { GeneratorPlan, PlannedActionType, PlannedFileAction } from './types.js';
+import { createUnifiedDiff } from './diff.js';
+
+/**
+ * Reads a file if it exists, returning null otherwise.
+ */
+function readExistingFile(absolutePath: string): string | null {
+  if (!existsSync(absolutePath)) {
+    return null;
+  }
+  try {
+    return readFileSync(absolutePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Plans the action for a single file given its current and generated content.
+ */
+function planFile(
+  generator: string,
+  path: string,
+  existing: string | null,
+  content: string
+): PlannedFileAction {
+  if (existing === null) {
+    return { path, action: 'create', generator, diff: createUnifiedDiff(path, null, content) };
+  }
+  if (existing === content) {
+    return { path, action: 'unchanged', generator };
+  }
+  return { path, action: 'overwrite', generator, diff: createUnifiedDiff(path, existing, content) };
+}
+
+/**
+ * Plans the action for a single generator output.
+ *
+ * Generators can force an action through `metadata.planAction`
+ * (e.g., migrations skipped because the table already has a CREATE migration).
+ */
+export function planOutput(
+  generator: string,
+  output: GeneratorOutput,
+  cwd: string
+): PlannedFileAction {
+  const plannedAction = output.metadata?.planAction as PlannedActionType | undefined;
+  const reason = output.metadata?.planReason as string | undefined;
+
+  if (plannedAction === 'skip-exists') {
+    return { path: output.path, action: 'skip-exists', generator, reason };
+  }
+
+  const existing = readExistingFile(join(cwd, output.path));
+
+  if (existing !== null && output.skipIfExists) {
+    return {
+      path: output.path,
+      action: 'skip-exists',
+      generator,
+      reason: reason ?? 'User-editable file already exists',
+    };
+  }
+
+  if (output.metadata?.registrationType === 'provider-registration') {
+    return {
+      path: output.path,
+      action: 'modify',
+      generator,
+      diff: createUnifiedDiff(output.path, existing, output.content),
+      reason: 'Register OmnifyServiceProvider',
+    };
+  }
+
+  return planFile(generator, output.path, existing, output.content);
+}
+
+/**
+ * Plans all outputs of a generator.
+ */
+export function planGeneratorOutputs(
+  generator: string,
+  outputs: readonly GeneratorOutput[],
+  cwd: string
+): GeneratorPlan {
+  return {
+    generator,
+    actions: outputs.map(output => planOutput(generator, output, cwd)),
+  };
+}
+
+/**
+ * Lists all files under a directory (recursively), relative to it.
+ */
+function listFiles(dir: string, baseDir: string = dir): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir)) {
+    const entryPath = join(dir, entry);
+    if (statSync(entryPath).isDirectory()) {
+      files.push(...listFiles(entryPath, baseDir));
+    } else {
+      files.push(relative(baseDir, entryPath).replace(/\\/g, '/'));
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Plans the actions for files staged in a temporary directory.
+ * Used for generators that write directly to disk (e.g., AI guides).
+ */
+export function planStagedFiles(
+  generator: string,
+  stagingDir: string,
+  targetDir: string
+): GeneratorPlan {
+  const actions = listFiles(stagingDir).map(path =>
+    planFile(
+      generator,
+      path,
+      readExistingFile(join(targetDir, path)),
+      readFileSync(join(stagingDir, path), 'utf-8')
+    )
+  );
+
+  return { generator, actions };
+}
+
+/**
+ * Formats a plan for logging, including diffs.
+ */
+export function formatPlan(plan: GeneratorPlan): string {
+  const counts = new Map<PlannedActionType, number>();
+  for (const action of plan.actions) {
+    counts.set(action.action, (counts.get(action.action) ?? 0) + 1);
+  }
+
+  const summary = counts.size > 0
+    ? [...counts.entries()].map(([action, count]) => `${count} ${action}`).join(', ')
+    : 'no files';
+
+  const lines: string[] = [`[${plan.generator}] ${summary}`];
+  for (const action of plan.actions) {
+    const reason = action.reason ? ` (${action.reason})` : '';
+    lines.push(`  ${action.action.padEnd(11)} ${action.path}${reason}`);
+  }
+  for (const action of plan.actions) {
+    if (action.diff) {
+      lines.push('', action.diff.trimEnd());
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,43 @@
+/**
+ * @famgia/omnify-laravel - Plan Types
+ *
+ * Types for dry-run planning of generator file actions.
+ */
+
+/**
+ * Action a generator would take on a file.
+ */
+export type PlannedActionType =
+  | 'create'
+  | 'overwrite'
+  | 'unchanged'
+  | 'skip-exists'
+  | 'modify'
+  | 'delete'
+  | 'orphaned';
+
+/**
+ * Planned action for a single file.
+ */
+export interface PlannedFileAction {
+  /** File path relative to project root */
+  readonly path: string;
+  /** Action that would be taken */
+  readonly action: PlannedActionType;
+  /** Generator that produced the file */
+  readonly generator: string;
+  /** Unified diff against the file on disk (create, overwrite and modify only) */
+  readonly diff?: string | undefined;
+  /** Human-readable reason (e.g., why a file is skipped) */
+  readonly reason?: string | undefined;
+}
+
+/**
+ * Planned file actions for one generator.
+ */
+export interface GeneratorPlan {
+  /** Generator name */
+  readonly generator: string;
+  /** Planned file actions */
+  readonly actions: readonly PlannedFileAction[];
+}
@@ -3,8 +3,12 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import laravelPlugin, { type LaravelPluginOptions } from './plugin.js';
 import type { GeneratorContext, PluginLogger, SchemaCollection, SchemaChange } from '@famgia/omnify-types';
+import type { GeneratorPlan } from './plan/index.js';
 
 describe('laravelPlugin', () => {
   const mockLogger: PluginLogger = {
@@ -34,14 +38,17 @@ describe('laravelPlugin', () => {
 
       expect(plugin.name).toBe('@famgia/omnify-laravel');
       expect(plugin.version).toBe('0.0.14');
-      // Default: migrations + models + factories + requests + resources + ai-guides = 6
-      expect(plugin.generators).toHaveLength(6);
+      // Default: migrations + models + factories + requests + resources + typescript + enums + cleanup + ai-guides = 9
+      expect(plugin.generators).toHaveLength(9);
       expect(plugin.generators![0].name).toBe('laravel-migrations');
       expect(plugin.generators![1].name).toBe('laravel-models');
       expect(plugin.generators![2].name).toBe('laravel-factories');
       expect(plugin.generators![3].name).toBe('laravel-requests');
       expect(plugin.generators![4].name).toBe('laravel-resources');
-      expect(plugin.generators![5].name).toBe('laravel-ai-guides');
+      expect(plugin.generators![5].name).toBe('laravel-typescript');
+      expect(plugin.generators![6].name).toBe('laravel-enums');
+      expect(plugin.generators![7].name).toBe('laravel-cleanup');
+      expect(plugin.generators![8].name).toBe('laravel-ai-guides');
     });
 
     it('creates plugin with custom migrations path', () => {
@@ -50,8 +57,8 @@ describe('laravelPlugin', () => {
       };
 
       const plugin = laravelPlugin(options);
-      // Default: 6 generators (migrations + models + factories + requests + resources + ai-guides)
-      expect(plugin.generators).toHaveLength(6);
+      // Default: 9 generators (migrations + models + factories + requests + resources + typescript + enums + cleanup + ai-guides)
+      expect(plugin.generators).toHaveLength(9);
     });
 
     it('creates plugin with database connection', () => {
@@ -59,8 +66,8 @@ describe('laravelPlugin', () => {
         connection: 'mysql',
       });
 
-      // Default: 6 generators
-      expect(plugin.generators).toHaveLength(6);
+      // Default: 9 generators
+      expect(plugin.generators).toHaveLength(9);
     });
 
     it('creates plugin without optional generators when disabled', () => {
@@ -69,20 +76,22 @@ describe('laravelPlugin', () => {
         generateFactories: false,
         generateRequests: false,
         generateResources: false,
+        generateTypes: false,
       });
 
-      // Only migrations + ai-guides = 2
-      expect(plugin.generators).toHaveLength(2);
+      // Only migrations + cleanup + ai-guides = 3
+      expect(plugin.generators).toHaveLength(3);
       expect(plugin.generators![0].name).toBe('laravel-migrations');
-      expect(plugin.generators![1].name).toBe('laravel-ai-guides');
+      expect(plugin.generators![1].name).toBe('laravel-cleanup');
+      expect(plugin.generators![2].name).toBe('laravel-ai-guides');
     });
 
     it('exposes configSchema for GUI settings', () => {
       const plugin = laravelPlugin();
 
       expect(plugin.configSchema).toBeDefined();
-      // 15 fields: base + paths + toggles for models, factories, requests, resources
-      expect(plugin.configSchema!.fields).toHaveLength(15);
+      // 22 fields: base + paths + toggles for models, factories, requests, resources, types, cleanup, hand edits
+      expect(plugin.configSchema!.fields).toHaveLength(27);
 
       // Verify key fields are present
       const fieldKeys = plugin.configSchema!.fields.map(f => f.key);
@@ -95,12 +104,23 @@ describe('laravelPlugin', () => {
       expect(fieldKeys).toContain('factoriesPath');
       expect(fieldKeys).toContain('generateFactories');
       expect(fieldKeys).toContain('connection');
+      expect(fieldKeys).toContain('driver');
+      expect(fieldKeys).toContain('checkConstraints');
       expect(fieldKeys).toContain('requestsPath');
       expect(fieldKeys).toContain('baseRequestsPath');
       expect(fieldKeys).toContain('generateRequests');
       expect(fieldKeys).toContain('resourcesPath');
       expect(fieldKeys).toContain('baseResourcesPath');
       expect(fieldKeys).toContain('generateResources');
+      expect(fieldKeys).toContain('typesPath');
+      expect(fieldKeys).toContain('singleFile');
+      expect(fieldKeys).toContain('generateTypes');
+      expect(fieldKeys).toContain('manifestPath');
+      expect(fieldKeys).toContain('cleanupOrphans');
+      expect(fieldKeys).toContain('stopOnHandEdits');
+      expect(fieldKeys).toContain('backupHandEdits');
+      expect(fieldKeys).toContain('archiveDroppedTables');
+      expect(fieldKeys).toContain('stopOnDataLoss');
     });
   });
 
@@ -363,6 +383,210 @@ describe('laravelPlugin', () => {
     });
   });
 
+  describe('laravel-enums generator', () => {
+    const getEnumGenerator = (options?: LaravelPluginOptions) =>
+      laravelPlugin(options).generators!.find(g => g.name === 'laravel-enums');
+
+    const schemas: SchemaCollection = {
+      Status: {
+        name: 'Status',
+        kind: 'enum',
+        filePath: '/test/status.yaml',
+        relativePath: '/test/status.yaml',
+        values: ['active', 'inactive'],
+      },
+      Store: {
+        name: 'Store',
+        kind: 'object',
+        filePath: '/test/store.yaml',
+        relativePath: '/test/store.yaml',
+        properties: {
+          status: { type: 'EnumRef', enum: 'Status' },
+          prefecture: { type: 'EnumRef', enum: 'Prefecture' } as never,
+        },
+      },
+    };
+
+    const createEnumContext = (): GeneratorContext => ({
+      ...createContext(schemas),
+      pluginEnums: new Map([
+        ['Prefecture', { values: [{ value: 'tokyo', label: { ja: '東京都', en: 'Tokyo' } }] }],
+      ]) as GeneratorContext['pluginEnums'],
+    });
+
+    it('generates PHP enums for enum schemas and plugin enums', async () => {
+      const outputs = await getEnumGenerator({ enumNamespace: 'Domain\\Enums', enumsPath: 'src/Enums' })!.generate(createEnumContext());
+
+      expect(outputs.map(o => o.path)).toEqual(['src/Enums/Status.php', 'src/Enums/Prefecture.php']);
+      expect(outputs[0]!.content).toContain('enum Status: string');
+      expect(outputs[0]!.metadata?.schemaName).toBe('Status');
+
+      const prefecture = outputs[1]!;
+      expect(prefecture.content).toContain('namespace Domain\\Enums;');
+      expect(prefecture.content).toContain("case Tokyo = 'tokyo';");
+      expect(prefecture.content).toContain("'tokyo' => ['ja' => '東京都', 'en' => 'Tokyo'],");
+      // Plugin enums are shared files, never cleaned up with a schema
+      expect(prefecture.metadata?.schemaName).toBe('__plugin-enum__');
+    });
+
+    it('casts model columns to the generated enums', async () => {
+      const generator = laravelPlugin({ enumNamespace: 'Domain\\Enums' }).generators!.find(g => g.name === 'laravel-models')!;
+
+      const outputs = await generator.generate(createEnumContext());
+
+      const storeBaseModel = outputs.find(o => o.path.endsWith('StoreBaseModel.php'));
+      expect(storeBaseModel!.content).toContain('use Domain\\Enums\\Prefecture;');
+      expect(storeBaseModel!.content).toContain("'prefecture' => Prefecture::class,");
+      expect(storeBaseModel!.content).toContain("'status' => Status::class,");
+    });
+
+    it('runs whenever requests or factories refer to the enums', () => {
+      expect(getEnumGenerator({ generateModels: false, generateFactories: false })).toBeDefined();
+      expect(getEnumGenerator({ generateModels: false, generateRequests: false })).toBeDefined();
+      expect(getEnumGenerator({ generateModels: false, generateFactories: false, generateRequests: false })).toBeUndefined();
+    });
+  });
+
+  describe('laravel-typescript generator', () => {
+    const getTypeScriptGenerator = (options?: LaravelPluginOptions) =>
+      laravelPlugin(options).generators!.find(g => g.name === 'laravel-typescript')!;
+
+    const schemas: SchemaCollection = {
+      User: {
+        name: 'User',
+        kind: 'object',
+        filePath: '/test/user.yaml',
+        relativePath: '/test/user.yaml',
+        properties: {
+          name: { type: 'String' },
+        },
+      },
+    };
+
+    it('generates a single types file by default', async () => {
+      const outputs = await getTypeScriptGenerator().generate(createContext(schemas));
+
+      expect(outputs).toHaveLength(1);
+      expect(outputs[0].path).toBe('types/types.ts');
+      expect(outputs[0].content).toContain('export interface User {');
+    });
+
+    it('respects base, typesPath and singleFile options', async () => {
+      const baseOutputs = await getTypeScriptGenerator({ base: './backend/' }).generate(createContext(schemas));
+      expect(baseOutputs[0].path).toBe('./backend/types/types.ts');
+
+      const outputs = await getTypeScriptGenerator({
+        typesPath: 'resources/js/types',
+        singleFile: false,
+      }).generate(createContext(schemas));
+
+      const paths = outputs.map(o => o.path);
+      expect(paths).toContain('resources/js/types/user.ts');
+      expect(paths).toContain('resources/js/types/index.ts');
+    });
+
+    it('writes package schemas to the package types directory', async () => {
+      const packageSchemas: SchemaCollection = {
+        ...schemas,
+        Client: {
+          name: 'Client',
+          kind: 'object',
+          filePath: '/test/client.yaml',
+          relativePath: '/test/client.yaml',
+          properties: { name: { type: 'String' } },
+          packageOutput: {
+            laravel: {
+              base: 'packages/sso-client',
+              modelsNamespace: 'Omnify\\SsoClient\\Models',
+            },
+          },
+        } as SchemaCollection[string],
+      };
+
+      const outputs = await getTypeScriptGenerator().generate(createContext(packageSchemas));
+
+      const mainFile = outputs.find(o => o.path === 'types/types.ts');
+      const packageFile = outputs.find(o => o.path === 'packages/sso-client/types/types.ts');
+      expect(mainFile?.content).toContain('export interface User {');
+      expect(mainFile?.content).not.toContain('export interface Client {');
+      expect(packageFile?.content).toContain('export interface Client {');
+    });
+
+    it('imports types of other groups into package types', async () => {
+      const crossSchemas: SchemaCollection = {
+        ...schemas,
+        Status: {
+          name: 'Status',
+          kind: 'enum',
+          filePath: '/test/status.yaml',
+          relativePath: '/test/status.yaml',
+          values: ['active', 'inactive'],
+        },
+        Client: {
+          name: 'Client',
+          kind: 'object',
+          filePath: '/test/client.yaml',
+          relativePath: '/test/client.yaml',
+          properties: {
+            owner: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+            status: { type: 'EnumRef', enum: 'Status' },
+            prefecture: { type: 'EnumRef', enum: 'Prefecture' },
+          },
+          packageOutput: {
+            laravel: {
+              base: 'packages/sso-client',
+              modelsNamespace: 'Omnify\\SsoClient\\Models',
+            },
+          },
+        } as SchemaCollection[string],
+      };
+      const ctx: GeneratorContext = {
+        ...createContext(crossSchemas),
+        pluginEnums: new Map([
+          ['Prefecture', { values: [{ value: 'tokyo' }] }],
+        ]) as GeneratorContext['pluginEnums'],
+      };
+
+      const outputs = await getTypeScriptGenerator().generate(ctx);
+
+      const mainFile = outputs.find(o => o.path === 'types/types.ts')!;
+      const packageFile = outputs.find(o => o.path === 'packages/sso-client/types/types.ts')!;
+      expect(mainFile.content).toContain('export enum Status {');
+      expect(mainFile.content).toContain('export enum Prefecture {');
+      expect(packageFile.content).toContain("import type { User, Status, Prefecture } from '../../../types/types.js';");
+      expect(packageFile.content).toContain('readonly status: Status;');
+      expect(packageFile.content).toContain('readonly prefecture: Prefecture;');
+      expect(packageFile.content).not.toContain('export enum');
+      expect(packageFile.content).not.toContain('export interface User {');
+    });
+
+    it('emits plugin enums and types EnumRef properties with them', async () => {
+      const enumSchemas: SchemaCollection = {
+        Store: {
+          name: 'Store',
+          kind: 'object',
+          filePath: '/test/store.yaml',
+          relativePath: '/test/store.yaml',
+          properties: {
+            prefecture: { type: 'EnumRef', enum: 'Prefecture' } as never,
+          },
+        },
+      };
+      const ctx: GeneratorContext = {
+        ...createContext(enumSchemas),
+        pluginEnums: new Map([
+          ['Prefecture', { values: [{ value: 'tokyo' }, { value: 'osaka' }] }],
+        ]) as GeneratorContext['pluginEnums'],
+      };
+
+      const outputs = await getTypeScriptGenerator().generate(ctx);
+
+      expect(outputs[0].content).toContain('export enum Prefecture {');
+      expect(outputs[0].content).toContain("Tokyo = 'tokyo',");
+      expect(outputs[0].content).toContain('readonly prefecture: Prefecture;');
+    });
+  });
+
   describe('laravel-migrations generator with ctx.changes', () => {
     describe('added schemas (CREATE migrations)', () => {
       it('generates CREATE migration for added schema', async () => {
@@ -457,6 +681,50 @@ describe('laravelPlugin', () => {
         // Enums don't generate migrations
         expect(outputs).toHaveLength(0);
       });
+
+      it('skips tables created by existing migrations whatever their file names', async () => {
+        const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-existing-'));
+        try {
+          mkdirSync(join(cwd, 'database/migrations'), { recursive: true });
+          writeFileSync(
+            join(cwd, 'database/migrations/0001_01_01_000000_create_users_table.php'),
+            `<?php
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('users', function (Blueprint $table) {
+            $table->id();
+        });
+        Schema::create('sessions', function (Blueprint $table) {
+            $table->string('id')->primary();
+        });
+    }
+};
+`
+          );
+
+          const plugin = laravelPlugin();
+          const schema = (name: string) => ({
+            name,
+            kind: 'object' as const,
+            filePath: `/test/${name}.yaml`,
+            relativePath: `/test/${name}.yaml`,
+            properties: { name: { type: 'String' as const } },
+          });
+          const schemas: SchemaCollection = { Session: schema('Session'), Product: schema('Product') };
+          const changes: SchemaChange[] = [
+            { schemaName: 'Session', changeType: 'added' },
+            { schemaName: 'Product', changeType: 'added' },
+          ];
+
+          const outputs = await plugin.generators![0].generate({ ...createContext(schemas, changes), cwd });
+
+          expect(outputs.map(o => o.metadata?.tableName)).toEqual(['products']);
+        } finally {
+          rmSync(cwd, { recursive: true, force: true });
+        }
+      });
     });
 
     describe('modified schemas (ALTER migrations)', () => {
@@ -620,6 +888,105 @@ describe('laravelPlugin', () => {
         expect(outputs).toHaveLength(1);
         expect(outputs[0].content).toContain('softDeletes');
       });
+
+      it('reads the previous values of a modified enum schema from its enum class', async () => {
+        const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-enum-values-'));
+        try {
+          const plugin = laravelPlugin();
+          const longValue = 'awaiting_customer_confirmation_of_the_revised_delivery_date';
+          const status = (values: string[]) => ({
+            name: 'Status',
+            kind: 'enum' as const,
+            filePath: '/test/status.yaml',
+            relativePath: '/test/status.yaml',
+            values,
+          });
+          const order = {
+            name: 'Order',
+            kind: 'object' as const,
+            filePath: '/test/order.yaml',
+            relativePath: '/test/order.yaml',
+            properties: { status: { type: 'EnumRef' as const, enum: 'Status' } },
+          };
+
+          // Enum class generated by the previous run
+          const enumGenerator = plugin.generators!.find(g => g.name === 'laravel-enums')!;
+          const [previousEnum] = await enumGenerator.generate(createContext({ Status: status(['open', 'closed']), Order: order }));
+          mkdirSync(join(cwd, 'app/Enums'), { recursive: true });
+          writeFileSync(join(cwd, previousEnum!.path), previousEnum!.content);
+
+          const schemas: SchemaCollection = { Status: status(['open', longValue]), Order: order };
+          const changes: SchemaChange[] = [{ schemaName: 'Status', changeType: 'modified' }];
+          const outputs = await plugin.generators![0].generate({ ...createContext(schemas, changes), cwd });
+
+          expect(outputs).toHaveLength(1);
+          expect(outputs[0].path).toMatch(/_update_status_enum_columns\.php$/);
+          expect(outputs[0].content).toContain(`$table->string('status', ${longValue.length})->change();`);
+          expect(outputs[0].content).toContain("// DB::table('orders')->where('status', 'closed')");
+        } finally {
+          rmSync(cwd, { recursive: true, force: true });
+        }
+      });
+      it('reads the previous values of a modified enum schema from the manifest', async () => {
+        const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-enum-values-'));
+        try {
+          const plugin = laravelPlugin();
+          const schemas: SchemaCollection = {
+            Status: { name: 'Status', kind: 'enum', filePath: '/test/status.yaml', relativePath: '/test/status.yaml', values: ['open'] },
+            Order: {
+              name: 'Order',
+              kind: 'object',
+              filePath: '/test/order.yaml',
+              relativePath: '/test/order.yaml',
+              properties: { status: { type: 'EnumRef', enum: 'Status' } },
+            },
+          };
+
+          // Manifest written by the previous run, without enum classes
+          const cleanup = plugin.generators!.find(g => g.name === 'laravel-cleanup')!;
+          const [manifest] = await cleanup.generate({
+            ...createContext({ ...schemas, Status: { ...schemas.Status!, values: ['open', 'closed'] } }),
+            cwd,
+          });
+          expect(JSON.parse(manifest!.content).enumValues).toEqual({ Status: ['open', 'closed'] });
+          mkdirSync(join(cwd, '.omnify'), { recursive: true });
+          writeFileSync(join(cwd, manifest!.path), manifest!.content);
+
+          const changes: SchemaChange[] = [{ schemaName: 'Status', changeType: 'modified' }];
+          const outputs = await plugin.generators![0].generate({ ...createContext(schemas, changes), cwd });
+
+          expect(outputs).toHaveLength(1);
+          expect(outputs[0].content).toContain("// DB::table('orders')->where('status', 'closed')");
+        } finally {
+          rmSync(cwd, { recursive: true, force: true });
+        }
+      });
+
+      it('warns when the enum class of a modified enum schema has no cases', async () => {
+        const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-enum-values-'));
+        try {
+          const plugin = laravelPlugin();
+          const schemas: SchemaCollection = {
+            Status: { name: 'Status', kind: 'enum', filePath: '/test/status.yaml', relativePath: '/test/status.yaml', values: ['open'] },
+          };
+          mkdirSync(join(cwd, 'app/Enums'), { recursive: true });
+          writeFileSync(join(cwd, 'app/Enums/Status.php'), '<?php\n\nenum Status: string\n{\n}\n');
+
+          const warnings: string[] = [];
+          const outputs = await plugin.generators![0].generate({
+            ...createContext(schemas, [{ schemaName: 'Status', changeType: 'modified' }]),
+            cwd,
+            logger: { ...mockLogger, warn: (message: string) => warnings.push(message) },
+          });
+
+          expect(outputs).toHaveLength(0);
+          expect(warnings).toEqual([
+            'Status: previous values unknown (no cases found in app/Enums/Status.php), EnumRef columns are not updated',
+          ]);
+        } finally {
+          rmSync(cwd, { recursive: true, force: true });
+        }
+      });
     });
 
     describe('removed schemas (DROP migrations)', () => {
@@ -666,6 +1033,32 @@ describe('laravelPlugin', () => {
       });
     });
 
+    describe('renamed schemas', () => {
+      it('generates a rename migration instead of DROP and CREATE', async () => {
+        const schemas: SchemaCollection = {
+          Article: {
+            name: 'Article',
+            kind: 'object',
+            filePath: '/test/article.yaml',
+            relativePath: '/test/article.yaml',
+            renamedFrom: 'Post',
+            properties: { title: { type: 'String' } },
+          } as SchemaCollection[string],
+        };
+        const changes: SchemaChange[] = [
+          { schemaName: 'Post', changeType: 'removed' },
+          { schemaName: 'Article', changeType: 'added' },
+        ];
+
+        const outputs = await laravelPlugin({ stopOnDataLoss: true }).generators![0].generate(createContext(schemas, changes));
+
+        expect(outputs).toHaveLength(1);
+        expect(outputs[0].path).toContain('rename_posts_to_articles_table.php');
+        expect(outputs[0].content).toContain("Schema::rename('posts', 'articles');");
+        expect(outputs[0].metadata?.risk).toBe('safe');
+      });
+    });
+
     describe('mixed changes', () => {
       it('handles added, modified, and removed schemas together', async () => {
         const plugin = laravelPlugin();
@@ -724,6 +1117,50 @@ describe('laravelPlugin', () => {
         expect(dropOutput!.metadata?.migrationType).toBe('drop');
       });
 
+      it('continues the CREATE timestamps for pivot tables of added targets', async () => {
+        const plugin = laravelPlugin({ timestamp: '2024_01_01_000000' });
+        const generator = plugin.generators![0];
+
+        const schemas: SchemaCollection = {
+          Tag: {
+            name: 'Tag',
+            kind: 'object',
+            filePath: '/test/tag.yaml',
+            relativePath: '/test/tag.yaml',
+            properties: { name: { type: 'String' } },
+          },
+          Post: {
+            name: 'Post',
+            kind: 'object',
+            filePath: '/test/post.yaml',
+            relativePath: '/test/post.yaml',
+            properties: {
+              title: { type: 'String' },
+              tags: { type: 'Association', relation: 'ManyToMany', target: 'Tag', owning: true },
+            },
+          },
+        };
+
+        const changes: SchemaChange[] = [
+          { schemaName: 'Tag', changeType: 'added' },
+          {
+            schemaName: 'Post',
+            changeType: 'modified',
+            columnChanges: [
+              { column: 'tags', changeType: 'added', currentDef: { type: 'Association', relation: 'ManyToMany', target: 'Tag', owning: true } },
+            ],
+          },
+        ];
+
+        const outputs = await generator.generate(createContext(schemas, changes));
+        const fileNames = outputs.map(o => o.path.split('/').pop());
+
+        expect(fileNames).toEqual([
+          '2024_01_01_000000_create_tags_table.php',
+          '2024_01_01_000001_create_post_tag_table.php',
+        ]);
+      });
+
       it('ignores schemas not in changes array', async () => {
         const plugin = laravelPlugin();
         const generator = plugin.generators![0];
@@ -816,5 +1253,383 @@ describe('laravelPlugin', () => {
         expect(outputs.some(o => o.path.includes('create_posts_table.php'))).toBe(true);
       });
     });
+
+    describe('data-loss guard', () => {
+      const schemas: SchemaCollection = {
+        User: {
+          name: 'User',
+          kind: 'object',
+          filePath: '/test/user.yaml',
+          relativePath: '/test/user.yaml',
+          properties: { name: { type: 'String' } },
+        },
+      };
+      const changes: SchemaChange[] = [
+        {
+          schemaName: 'User',
+          changeType: 'modified',
+          columnChanges: [
+            { column: 'nickname', changeType: 'removed', previousDef: { type: 'String', nullable: true } },
+          ],
+        },
+      ];
+
+      it('attaches the risk classification to the output metadata', async () => {
+        const warnings: string[] = [];
+        const outputs = await laravelPlugin().generators![0].generate({
+          ...createContext(schemas, changes),
+          logger: { ...mockLogger, warn: (message: string) => warnings.push(message) },
+        });
+
+        expect(outputs[0].metadata?.risk).toBe('data-loss');
+        expect(outputs[0].metadata?.riskReasons).toEqual(['Drops users.nickname and its values']);
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toContain("allowDataLoss: 'users.nickname'");
+      });
+
+      it('stops generation when stopOnDataLoss is enabled', async () => {
+        await expect(
+          laravelPlugin({ stopOnDataLoss: true }).generators![0].generate(createContext(schemas, changes))
+        ).rejects.toThrow('Migrations would lose data: users.nickname');
+      });
+
+      it('generates acknowledged changes', async () => {
+        for (const allowDataLoss of [['users.nickname'], ['users']]) {
+          const outputs = await laravelPlugin({ stopOnDataLoss: true, allowDataLoss }).generators![0].generate(
+            createContext(schemas, changes)
+          );
+
+          expect(outputs[0].content).toContain("$table->dropColumn('nickname');");
+        }
+      });
+
+      it('classifies CREATE migrations as safe', async () => {
+        const outputs = await laravelPlugin({ stopOnDataLoss: true }).generators![0].generate(
+          createContext(schemas, [{ schemaName: 'User', changeType: 'added' }])
+        );
+
+        expect(outputs[0].metadata?.risk).toBe('safe');
+        expect(outputs[0].metadata?.riskReasons).toEqual([]);
+      });
+    });
+  });
+
+  describe('laravel-cleanup generator', () => {
+    const userSchema: SchemaCollection = {
+      User: {
+        name: 'User',
+        kind: 'object',
+        filePath: '/test/user.yaml',
+        relativePath: '/test/user.yaml',
+        properties: { name: { type: 'String' } },
+      },
+    };
+
+    const getCleanupGenerator = (options?: LaravelPluginOptions) =>
+      laravelPlugin(options).generators!.find(g => g.name === 'laravel-cleanup')!;
+
+    const writeFile = (cwd: string, path: string, content: string) => {
+      mkdirSync(join(cwd, path, '..'), { recursive: true });
+      writeFileSync(join(cwd, path), content);
+    };
+
+    const writeManifestWithPost = (cwd: string) => {
+      writeFile(cwd, '.omnify/laravel-manifest.json', JSON.stringify({
+        version: 1,
+        files: [
+          { path: 'app/Models/OmnifyBase/PostBaseModel.php', generator: 'laravel-models', schemaName: 'Post', overwrite: true },
+          { path: 'app/Models/OmnifyBase/Locales/PostLocales.php', generator: 'laravel-models', schemaName: 'Post', overwrite: true },
+          { path: 'app/Models/Post.php', generator: 'laravel-models', schemaName: 'Post', overwrite: false },
+        ],
+      }));
+      writeFile(cwd, 'app/Models/OmnifyBase/PostBaseModel.php', '<?php');
+      writeFile(cwd, 'app/Models/OmnifyBase/Locales/PostLocales.php', '<?php');
+      writeFile(cwd, 'app/Models/Post.php', '<?php');
+    };
+
+    it('writes a manifest of generated files', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-cleanup-'));
+      try {
+        const plugin = laravelPlugin();
+        const ctx = { ...createContext(userSchema), cwd };
+        const modelOutputs = await plugin.generators![1].generate(ctx);
+
+        const outputs = await getCleanupGenerator().generate({
+          ...ctx,
+          previousOutputs: new Map([['laravel-models', modelOutputs]]),
+        });
+
+        expect(outputs).toHaveLength(1);
+        expect(outputs[0].path).toBe('.omnify/laravel-manifest.json');
+        const manifest = JSON.parse(outputs[0].content);
+        expect(manifest.files).toContainEqual(expect.objectContaining({
+          path: 'app/Models/OmnifyBase/UserBaseModel.php',
+          generator: 'laravel-models',
+          schemaName: 'User',
+          overwrite: true,
+        }));
+        expect(manifest.files).toContainEqual({
+          path: 'app/Models/User.php',
+          generator: 'laravel-models',
+          schemaName: 'User',
+          overwrite: false,
+        });
+        // Provider registration is not tracked
+        expect(manifest.files.some((f: { path: string }) => f.path.includes('bootstrap'))).toBe(false);
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('deletes base files of removed schemas and keeps user files', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-cleanup-'));
+      try {
+        writeManifestWithPost(cwd);
+        const warnings: string[] = [];
+        const changes: SchemaChange[] = [{ schemaName: 'Post', changeType: 'removed' }];
+
+        await getCleanupGenerator().generate({
+          ...createContext(userSchema, changes),
+          cwd,
+          logger: { ...mockLogger, warn: (message: string) => warnings.push(message) },
+        });
+
+        expect(existsSync(join(cwd, 'app/Models/OmnifyBase/PostBaseModel.php'))).toBe(false);
+        expect(existsSync(join(cwd, 'app/Models/OmnifyBase/Locales/PostLocales.php'))).toBe(false);
+        expect(existsSync(join(cwd, 'app/Models/Post.php'))).toBe(true);
+        expect(warnings.some(w => w.includes('app/Models/Post.php'))).toBe(true);
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('treats schemas missing from the collection as removed without change info', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-cleanup-'));
+      try {
+        writeManifestWithPost(cwd);
+
+        await getCleanupGenerator().generate({ ...createContext(userSchema), cwd });
+
+        expect(existsSync(join(cwd, 'app/Models/OmnifyBase/PostBaseModel.php'))).toBe(false);
+        expect(existsSync(join(cwd, 'app/Models/Post.php'))).toBe(true);
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('only plans deletions in dry-run mode', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-cleanup-'));
+      try {
+        writeManifestWithPost(cwd);
+        const plans: GeneratorPlan[] = [];
+        const changes: SchemaChange[] = [{ schemaName: 'Post', changeType: 'removed' }];
+
+        const outputs = await getCleanupGenerator({ dryRun: true, onPlan: (plan) => plans.push(plan) })
+          .generate({ ...createContext(userSchema, changes), cwd });
+
+        expect(outputs).toEqual([]);
+        expect(existsSync(join(cwd, 'app/Models/OmnifyBase/PostBaseModel.php'))).toBe(true);
+        expect(plans[0].actions.map(a => [a.path, a.action])).toEqual([
+          ['app/Models/OmnifyBase/PostBaseModel.php', 'delete'],
+          ['app/Models/OmnifyBase/Locales/PostLocales.php', 'delete'],
+          ['app/Models/Post.php', 'orphaned'],
+        ]);
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('keeps files when cleanupOrphans is disabled', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-cleanup-'));
+      try {
+        writeManifestWithPost(cwd);
+        const changes: SchemaChange[] = [{ schemaName: 'Post', changeType: 'removed' }];
+
+        await getCleanupGenerator({ cleanupOrphans: false })
+          .generate({ ...createContext(userSchema, changes), cwd });
+
+        expect(existsSync(join(cwd, 'app/Models/OmnifyBase/PostBaseModel.php'))).toBe(true);
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('hand-edited base files', () => {
+    const userSchema: SchemaCollection = {
+      User: {
+        name: 'User',
+        kind: 'object',
+        filePath: '/test/user.yaml',
+        relativePath: '/test/user.yaml',
+        properties: { name: { type: 'String' } },
+      },
+    };
+    const baseModelPath = 'app/Models/OmnifyBase/UserBaseModel.php';
+
+    // Runs models + cleanup once so the manifest records the generated content
+    const generateWithManifest = async (cwd: string) => {
+      const plugin = laravelPlugin();
+      const ctx = { ...createContext(userSchema), cwd };
+      const outputs = await plugin.generators![1].generate(ctx);
+      for (const output of outputs) {
+        mkdirSync(join(cwd, output.path, '..'), { recursive: true });
+        writeFileSync(join(cwd, output.path), output.content);
+      }
+      const [manifest] = await plugin.generators!.find(g => g.name === 'laravel-cleanup')!.generate({
+        ...ctx,
+        previousOutputs: new Map([['laravel-models', outputs]]),
+      });
+      mkdirSync(join(cwd, '.omnify'), { recursive: true });
+      writeFileSync(join(cwd, manifest.path), manifest.content);
+    };
+
+    it('records content hashes for overwritable files', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-hand-edit-'));
+      try {
+        await generateWithManifest(cwd);
+
+        const manifest = JSON.parse(readFileSync(join(cwd, '.omnify/laravel-manifest.json'), 'utf-8'));
+        const baseModel = manifest.files.find((f: { path: string }) => f.path === baseModelPath);
+        const userModel = manifest.files.find((f: { path: string }) => f.path === 'app/Models/User.php');
+        expect(baseModel.hash).toMatch(/^[0-9a-f]{64}$/);
+        expect(userModel.hash).toBeUndefined();
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('warns about hand-edited base files and overwrites them', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-hand-edit-'));
+      try {
+        await generateWithManifest(cwd);
+        writeFileSync(join(cwd, baseModelPath), '<?php // edited by hand');
+
+        const warnings: string[] = [];
+        const outputs = await laravelPlugin().generators![1].generate({
+          ...createContext(userSchema),
+          cwd,
+          logger: { ...mockLogger, warn: (message: string) => warnings.push(message) },
+        });
+
+        expect(outputs.some(o => o.path === baseModelPath)).toBe(true);
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toContain(baseModelPath);
+        expect(existsSync(join(cwd, `${baseModelPath}.orig`))).toBe(false);
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('saves the edited copy to a .orig file when backupHandEdits is enabled', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-hand-edit-'));
+      try {
+        await generateWithManifest(cwd);
+        writeFileSync(join(cwd, baseModelPath), '<?php // edited by hand');
+
+        await laravelPlugin({ backupHandEdits: true }).generators![1].generate({ ...createContext(userSchema), cwd });
+
+        expect(readFileSync(join(cwd, `${baseModelPath}.orig`), 'utf-8')).toBe('<?php // edited by hand');
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('stops generation when stopOnHandEdits is enabled', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-hand-edit-'));
+      try {
+        await generateWithManifest(cwd);
+        writeFileSync(join(cwd, baseModelPath), '<?php // edited by hand');
+
+        await expect(
+          laravelPlugin({ stopOnHandEdits: true }).generators![1].generate({ ...createContext(userSchema), cwd })
+        ).rejects.toThrow(baseModelPath);
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('ignores unedited files', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-hand-edit-'));
+      try {
+        await generateWithManifest(cwd);
+
+        const warnings: string[] = [];
+        await laravelPlugin({ stopOnHandEdits: true }).generators![1].generate({
+          ...createContext(userSchema),
+          cwd,
+          logger: { ...mockLogger, warn: (message: string) => warnings.push(message) },
+        });
+
+        expect(warnings).toEqual([]);
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('dry-run mode', () => {
+    const userSchema: SchemaCollection = {
+      User: {
+        name: 'User',
+        kind: 'object',
+        filePath: '/test/user.yaml',
+        relativePath: '/test/user.yaml',
+        properties: { name: { type: 'String' } },
+      },
+    };
+
+    it('returns no outputs and reports a plan for each generator', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-plan-'));
+      try {
+        const plans: GeneratorPlan[] = [];
+        const plugin = laravelPlugin({ dryRun: true, onPlan: (plan) => plans.push(plan) });
+        const generator = plugin.generators![0];
+
+        const outputs = await generator.generate({ ...createContext(userSchema), cwd });
+
+        expect(outputs).toEqual([]);
+        expect(plans).toHaveLength(1);
+        expect(plans[0].generator).toBe('laravel-migrations');
+        expect(plans[0].actions).toHaveLength(1);
+        expect(plans[0].actions[0].action).toBe('create');
+        expect(plans[0].actions[0].diff).toContain("Schema::create('users'");
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('reports skipped CREATE migrations and existing user files', async () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'omnify-laravel-plan-'));
+      try {
+        mkdirSync(join(cwd, 'database/migrations/omnify'), { recursive: true });
+        writeFileSync(
+          join(cwd, 'database/migrations/omnify/2024_01_01_000000_create_users_table.php'),
+          '<?php // existing'
+        );
+        mkdirSync(join(cwd, 'app/Models'), { recursive: true });
+        writeFileSync(join(cwd, 'app/Models/User.php'), '<?php // customized');
+
+        const plans: GeneratorPlan[] = [];
+        const plugin = laravelPlugin({ dryRun: true, onPlan: (plan) => plans.push(plan) });
+        const ctx = { ...createContext(userSchema), cwd };
+
+        await plugin.generators![0].generate(ctx);
+        await plugin.generators![1].generate(ctx);
+
+        const [migrationPlan, modelPlan] = plans;
+        expect(migrationPlan.actions[0].action).toBe('skip-exists');
+        expect(migrationPlan.actions[0].reason).toContain('users');
+
+        const userModel = modelPlan.actions.find(a => a.path === 'app/Models/User.php');
+        expect(userModel?.action).toBe('skip-exists');
+        const baseModel = modelPlan.actions.find(a => a.path === 'app/Models/OmnifyBase/UserBaseModel.php');
+        expect(baseModel?.action).toBe('create');
+        const provider = modelPlan.actions.find(a => a.path === 'bootstrap/providers.php');
+        expect(provider?.action).toBe('modify');
+      } finally {
+        rmSync(cwd, { recursive: true, force: true });
+      }
+    });
   });
 });
@@ -30,15 +30,34 @@
  * ```
  */
 
-import { readFileSync, existsSync, readdirSync } from 'node:fs';
-import { join } from 'node:path';
-import type { OmnifyPlugin, GeneratorOutput, GeneratorContext, PluginConfigSchema, SchemaChange, LoadedSchema, SchemaCollection } from '@famgia/omnify-types';
-import { generateMigrations, getMigrationPath, generateMigrationsFromChanges, type MigrationOptions, type MigrationFile } from './migration/index.js';
+import { readFileSync, existsSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join, relative, posix } from 'node:path';
+import type { OmnifyPlugin, GeneratorOutput, GeneratorContext, PluginConfigSchema, SchemaChange, SchemaCollection } from '@famgia/omnify-types';
+import {
+  generateMigrations,
+  getMigrationPath,
+  generateMigrationsFromChanges,
+  detectSchemaRenames,
+  DEFAULT_DRIVER,
+  getMigrationRisk,
+  findUnacknowledgedDataLoss,
+  buildExistingTableIndex,
+  generateTimestamp,
+  incrementTimestamp,
+  type DatabaseDriver,
+  type MigrationOptions,
+  type MigrationFile,
+} from './migration/index.js';
 import { generateModels, getModelPath, generateProviderRegistration, type ModelGeneratorOptions } from './model/index.js';
+import { generatePhpEnums, getEnumPath, parseEnumClassValues, type EnumGeneratorOptions } from './enum/index.js';
 import { generateFactories, getFactoryPath, type FactoryGeneratorOptions } from './factory/index.js';
 import { generateRequests, getRequestPath, type RequestGeneratorOptions } from './request/index.js';
 import { generateResources, getResourcePath, type ResourceGeneratorOptions } from './resource/index.js';
 import { generateAIGuides, type PackagePath } from './ai-guides/index.js';
+import { generateTypeScript, getTypeScriptPath, type TypeScriptOptions } from './typescript/index.js';
+import { planGeneratorOutputs, formatPlan, type GeneratorPlan, type PlannedFileAction } from './plan/index.js';
+import { readManifest, buildManifest, serializeManifest, findOrphanedFiles, findHandEditedFiles } from './manifest/index.js';
+import { getEnumStringValues, toPascalCase } from './utils.js';
 
 /**
  * Extract unique package paths from schemas with packageOutput.laravel config
@@ -80,6 +99,33 @@ function getMigrationPathForSchema(
   return getMigrationPath(migration, defaultPath);
 }
 
+/**
+ * Groups schema names by TypeScript output directory.
+ * Schemas with packageOutput.laravel are written to `{base}/types` of their package.
+ */
+function groupSchemasByTypesPath(
+  schemas: SchemaCollection,
+  defaultTypesPath: string
+): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+
+  for (const [name, schema] of Object.entries(schemas)) {
+    const pkg = schema.packageOutput?.laravel;
+    const typesPath = pkg?.base ? `${pkg.base}/types` : defaultTypesPath;
+    groups.set(typesPath, [...(groups.get(typesPath) ?? []), name]);
+  }
+
+  return groups;
+}
+
+/**
+ * Gets the module a types directory imports the types of another types directory from.
+ */
+function getTypesModule(fromPath: string, toPath: string, singleFile: boolean): string {
+  const module = `${posix.relative(fromPath, toPath)}/${singleFile ? 'types.js' : 'index.js'}`;
+  return module.startsWith('.') ? module : `./${module}`;
+}
+
 /**
  * Infer Laravel root directory from providersPath.
  * E.g., "./backend/app/Providers" → "./backend"
@@ -101,98 +147,26 @@ function inferLaravelRoot(providersPath: string): string {
 }
 
 /**
- * Scans a directory for existing migration files and returns tables that already have CREATE migrations.
+ * Gets the migration directories whose tables already exist: the Laravel app's
+ * migrations (including the Omnify subdirectory) and the package migration directories.
  */
-function getExistingMigrationTables(migrationsDir: string): Set<string> {
-  const existingTables = new Set<string>();
-
-  if (!existsSync(migrationsDir)) {
-    return existingTables;
-  }
-
-  try {
-    const files = readdirSync(migrationsDir);
-    // Match pattern: YYYY_MM_DD_HHMMSS_create_<table>_table.php
-    const createMigrationPattern = /^\d{4}_\d{2}_\d{2}_\d{6}_create_(.+)_table\.php$/;
-
-    for (const file of files) {
-      const match = file.match(createMigrationPattern);
-      if (match) {
-        existingTables.add(match[1]); // table name
-      }
-    }
-  } catch {
-    // Ignore errors reading directory
-  }
-
-  return existingTables;
-}
-
-/**
- * Gets the migrations directory for a schema, considering packageOutput.
- */
-function getMigrationsDirForSchema(
-  schema: LoadedSchema | undefined,
-  cwd: string,
-  defaultMigrationsPath: string
-): string {
-  if (schema?.packageOutput?.laravel) {
-    const pkg = schema.packageOutput.laravel;
-    const migrationsPath = pkg.migrationsPath ?? 'database/migrations';
-    return join(cwd, pkg.base, migrationsPath);
-  }
-  return join(cwd, defaultMigrationsPath);
-}
-
-/**
- * Builds a map of existing tables per migrations directory.
- * This handles both main app and package-specific migration directories.
- */
-function buildExistingTablesMap(
+function getExistingMigrationDirs(
   schemas: SchemaCollection,
   cwd: string,
+  laravelMigrationsPath: string,
   defaultMigrationsPath: string
-): Map<string, Set<string>> {
-  const tablesMap = new Map<string, Set<string>>();
-  const checkedDirs = new Set<string>();
+): string[] {
+  const dirs = new Set([join(cwd, laravelMigrationsPath), join(cwd, defaultMigrationsPath)]);
 
-  // Check default migrations directory
-  const defaultDir = join(cwd, defaultMigrationsPath);
-  tablesMap.set(defaultDir, getExistingMigrationTables(defaultDir));
-  checkedDirs.add(defaultDir);
-
-  // Check package-specific migrations directories
   for (const schema of Object.values(schemas)) {
     if (schema.packageOutput?.laravel) {
       const pkg = schema.packageOutput.laravel;
       const migrationsPath = pkg.migrationsPath ?? 'database/migrations';
-      const pkgDir = join(cwd, pkg.base, migrationsPath);
-
-      if (!checkedDirs.has(pkgDir)) {
-        tablesMap.set(pkgDir, getExistingMigrationTables(pkgDir));
-        checkedDirs.add(pkgDir);
-      }
+      dirs.add(join(cwd, pkg.base, migrationsPath));
     }
   }
 
-  return tablesMap;
-}
-
-/**
- * Checks if a table already has a migration in its target directory.
- */
-function tableHasMigration(
-  tableName: string,
-  schemaName: string | undefined,
-  schemas: SchemaCollection,
-  existingTablesMap: Map<string, Set<string>>,
-  cwd: string,
-  defaultMigrationsPath: string
-): boolean {
-  const schema = schemaName ? schemas[schemaName] : undefined;
-  const migrationsDir = getMigrationsDirForSchema(schema, cwd, defaultMigrationsPath);
-  const existingTables = existingTablesMap.get(migrationsDir);
-  return existingTables?.has(tableName) ?? false;
+  return [...dirs];
 }
 
 /**
@@ -240,6 +214,14 @@ const LARAVEL_CONFIG_SCHEMA: PluginConfigSchema = {
       default: 'app/Providers',
       group: 'output',
     },
+    {
+      key: 'enumsPath',
+      type: 'path',
+      label: 'Enums Path',
+      description: 'Directory for generated PHP enum classes (relative to base)',
+      default: 'app/Enums',
+      group: 'output',
+    },
     {
       key: 'generateModels',
       type: 'boolean',
@@ -272,6 +254,22 @@ const LARAVEL_CONFIG_SCHEMA: PluginConfigSchema = {
       placeholder: 'mysql',
       group: 'options',
     },
+    {
+      key: 'driver',
+      type: 'string',
+      label: 'Database Driver',
+      description: 'Database driver the migrations target: mysql, pgsql, sqlite or sqlsrv',
+      default: 'mysql',
+      group: 'options',
+    },
+    {
+      key: 'checkConstraints',
+      type: 'boolean',
+      label: 'CHECK Constraints',
+      description: 'Add database CHECK constraints for min/max ranges and EnumRef values',
+      default: false,
+      group: 'options',
+    },
     {
       key: 'requestsPath',
       type: 'path',
@@ -320,6 +318,78 @@ const LARAVEL_CONFIG_SCHEMA: PluginConfigSchema = {
       default: false,
       group: 'options',
     },
+    {
+      key: 'typesPath',
+      type: 'path',
+      label: 'TypeScript Types Path',
+      description: 'Directory for generated TypeScript type files (relative to base)',
+      default: 'types',
+      group: 'output',
+    },
+    {
+      key: 'singleFile',
+      type: 'boolean',
+      label: 'Single Types File',
+      description: 'Generate all TypeScript types in a single file',
+      default: true,
+      group: 'options',
+    },
+    {
+      key: 'generateTypes',
+      type: 'boolean',
+      label: 'Generate TypeScript Types',
+      description: 'Generate TypeScript interfaces and enums for the frontend',
+      default: true,
+      group: 'options',
+    },
+    {
+      key: 'manifestPath',
+      type: 'path',
+      label: 'Manifest Path',
+      description: 'File recording generated files, used to clean up files of removed schemas (relative to base)',
+      default: '.omnify/laravel-manifest.json',
+      group: 'output',
+    },
+    {
+      key: 'cleanupOrphans',
+      type: 'boolean',
+      label: 'Clean Up Orphaned Files',
+      description: 'Delete generated base files of removed schemas',
+      default: true,
+      group: 'options',
+    },
+    {
+      key: 'stopOnHandEdits',
+      type: 'boolean',
+      label: 'Stop On Hand Edits',
+      description: 'Fail generation when a generated base file was edited by hand (default: warn only)',
+      default: false,
+      group: 'options',
+    },
+    {
+      key: 'backupHandEdits',
+      type: 'boolean',
+      label: 'Back Up Hand Edits',
+      description: 'Save hand-edited base files to a .orig file before overwriting them',
+      default: false,
+      group: 'options',
+    },
+    {
+      key: 'archiveDroppedTables',
+      type: 'boolean',
+      label: 'Archive Dropped Tables',
+      description: 'Rename tables of removed schemas to an archive name instead of dropping them',
+      default: false,
+      group: 'options',
+    },
+    {
+      key: 'stopOnDataLoss',
+      type: 'boolean',
+      label: 'Stop On Data Loss',
+      description: 'Fail generation when a migration would lose data not acknowledged in allowDataLoss (default: warn only)',
+      default: false,
+      group: 'options',
+    },
   ],
 };
 
@@ -372,6 +442,18 @@ export interface LaravelPluginOptions {
    */
   baseModelNamespace?: string;
 
+  /**
+   * Path for generated PHP enum classes (relative to base).
+   * @default 'app/Enums'
+   */
+  enumsPath?: string;
+
+  /**
+   * PHP enum namespace.
+   * @default 'App\\Enums'
+   */
+  enumNamespace?: string;
+
   /**
    * Whether to generate Eloquent models.
    * @default true
@@ -401,6 +483,21 @@ export interface LaravelPluginOptions {
    */
   connection?: string;
 
+  /**
+   * Database driver the migrations target (match `database.driver` of the Omnify config).
+   * Changes column types per engine (e.g., jsonb and CHECK-guarded enums on pgsql)
+   * and warns about schema features the driver does not support.
+   * @default 'mysql'
+   */
+  driver?: DatabaseDriver;
+
+  /**
+   * Whether migrations add CHECK constraints for `min`/`max` of numeric properties
+   * and the values of EnumRef properties (validation rules only check them in requests).
+   * @default false
+   */
+  checkConstraints?: boolean;
+
   /**
    * Custom timestamp for migration file names (mainly for testing).
    */
@@ -465,6 +562,86 @@ export interface LaravelPluginOptions {
    * @default true
    */
   generateResources?: boolean;
+
+  /**
+   * Path for generated TypeScript type files (relative to base).
+   * @default 'types'
+   */
+  typesPath?: string;
+
+  /**
+   * Whether to generate all TypeScript types in a single file.
+   * @default true
+   */
+  singleFile?: boolean;
+
+  /**
+   * Whether to generate TypeScript types.
+   * @default true
+   */
+  generateTypes?: boolean;
+
+  /**
+   * Path of the manifest recording generated files (relative to base).
+   * @default '.omnify/laravel-manifest.json'
+   */
+  manifestPath?: string;
+
+  /**
+   * Whether to delete generated base files of removed schemas.
+   * User-editable files are reported but never deleted.
+   * @default true
+   */
+  cleanupOrphans?: boolean;
+
+  /**
+   * Whether to fail generation when an overwritable base file was edited by hand.
+   * When false, hand edits are only reported as warnings.
+   * @default false
+   */
+  stopOnHandEdits?: boolean;
+
+  /**
+   * Whether to save hand-edited base files to `<file>.orig` before overwriting them.
+   * @default false
+   */
+  backupHandEdits?: boolean;
+
+  /**
+   * Whether migrations for removed schemas rename the table to
+   * `<table>_archived_<timestamp>` instead of dropping it.
+   * @default false
+   */
+  archiveDroppedTables?: boolean;
+
+  /**
+   * Whether to fail generation when a migration would lose data (dropped tables
+   * and columns, narrowed types, primary key type changes) that `allowDataLoss`
+   * does not acknowledge. When false, such migrations are only reported as warnings.
+   * @default false
+   */
+  stopOnDataLoss?: boolean;
+
+  /**
+   * Data-loss changes acknowledged by the user: table names (every change to the table)
+   * or `table.column` entries.
+   * @default []
+   * @example ['legacy_logs', 'users.nickname']
+   */
+  allowDataLoss?: readonly string[];
+
+  /**
+   * Plan mode: generators report what they would create, overwrite, skip or modify
+   * (with unified diffs against disk) instead of writing any files.
+   * @default false
+   */
+  dryRun?: boolean;
+
+  /**
+   * Called with each generator's plan in dry-run mode.
+   * Plans are also logged via `ctx.logger.info`.
+   */
+  onPlan?: (plan: GeneratorPlan) => void;
 }
 
 /**
@@ -477,11 +654,15 @@ interface ResolvedOptions {
   providersPath: string;
   modelNamespace: string;
   baseModelNamespace: string;
+  enumsPath: string;
+  enumNamespace: string;
   generateModels: boolean;
   factoriesPath: string;
   generateFactories: boolean;
   fakerLocale: string;
   connection: string | undefined;
+  driver: DatabaseDriver;
+  checkConstraints: boolean;
   timestamp: string | undefined;
   requestsPath: string;
   baseRequestsPath: string;
@@ -493,6 +674,18 @@ interface ResolvedOptions {
   resourceNamespace: string;
   baseResourceNamespace: string;
   generateResources: boolean;
+  typesPath: string;
+  singleFile: boolean;
+  generateTypes: boolean;
+  manifestPath: string;
+  cleanupOrphans: boolean;
+  stopOnHandEdits: boolean;
+  backupHandEdits: boolean;
+  archiveDroppedTables: boolean;
+  stopOnDataLoss: boolean;
+  allowDataLoss: readonly string[];
+  dryRun: boolean;
+  onPlan: ((plan: GeneratorPlan) => void) | undefined;
 }
 
 /**
@@ -518,11 +711,15 @@ function resolveOptions(options?: LaravelPluginOptions): ResolvedOptions {
     providersPath: options?.providersPath ?? joinPath(base, 'app/Providers'),
     modelNamespace: options?.modelNamespace ?? 'App\\Models',
     baseModelNamespace: options?.baseModelNamespace ?? 'App\\Models\\OmnifyBase',
+    enumsPath: options?.enumsPath ?? joinPath(base, 'app/Enums'),
+    enumNamespace: options?.enumNamespace ?? 'App\\Enums',
     generateModels: options?.generateModels ?? true,
     factoriesPath: options?.factoriesPath ?? joinPath(base, 'database/factories'),
     generateFactories: options?.generateFactories ?? true,
     fakerLocale: options?.fakerLocale ?? 'en_US',
     connection: options?.connection,
+    driver: options?.driver ?? DEFAULT_DRIVER,
+    checkConstraints: options?.checkConstraints ?? false,
     timestamp: options?.timestamp,
     requestsPath: options?.requestsPath ?? joinPath(base, 'app/Http/Requests'),
     baseRequestsPath: options?.baseRequestsPath ?? joinPath(base, 'app/Http/Requests/OmnifyBase'),
@@ -534,6 +731,18 @@ function resolveOptions(options?: LaravelPluginOptions): ResolvedOptions {
     resourceNamespace: options?.resourceNamespace ?? 'App\\Http\\Resources',
     baseResourceNamespace: options?.baseResourceNamespace ?? 'App\\Http\\Resources\\OmnifyBase',
     generateResources: options?.generateResources ?? true,
+    typesPath: options?.typesPath ?? joinPath(base, 'types'),
+    singleFile: options?.singleFile ?? true,
+    generateTypes: options?.generateTypes ?? true,
+    manifestPath: options?.manifestPath ?? joinPath(base, '.omnify/laravel-manifest.json'),
+    cleanupOrphans: options?.cleanupOrphans ?? true,
+    stopOnHandEdits: options?.stopOnHandEdits ?? false,
+    backupHandEdits: options?.backupHandEdits ?? false,
+    archiveDroppedTables: options?.archiveDroppedTables ?? false,
+    stopOnDataLoss: options?.stopOnDataLoss ?? false,
+    allowDataLoss: options?.allowDataLoss ?? [],
+    dryRun: options?.dryRun ?? false,
+    onPlan: options?.onPlan,
   };
 }
 
@@ -546,6 +755,103 @@ function resolveOptions(options?: LaravelPluginOptions): ResolvedOptions {
 export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlugin {
   const resolved = resolveOptions(options);
 
+  // Dry-run: report skipped CREATE migrations in the plan instead of dropping them silently
+  const skippedMigrationOutput = (
+    migration: MigrationFile,
+    tableName: string,
+    schemas: SchemaCollection
+  ): GeneratorOutput => ({
+    path: getMigrationPathForSchema(migration, schemas, resolved.migrationsPath),
+    content: migration.content,
+    type: 'migration' as const,
+    metadata: {
+      tableName,
+      migrationType: migration.type,
+      planAction: 'skip-exists',
+      planReason: `Table ${tableName} already has a CREATE migration`,
+    },
+  });
+
+  // Unsupported driver features and deferred foreign keys
+  const logMigrationWarnings = (ctx: GeneratorContext, migration: MigrationFile): void => {
+    for (const warning of migration.warnings ?? []) {
+      ctx.logger.warn(`${migration.fileName}: ${warning}`);
+    }
+  };
+
+  // Values of the enum schemas, recorded in the manifest for the next run
+  const collectEnumValues = (schemas: SchemaCollection): Record<string, string[]> =>
+    Object.fromEntries(
+      Object.values(schemas)
+        .filter((schema) => schema.kind === 'enum')
+        .map((schema) => [schema.name, getEnumStringValues(schema.values ?? [])])
+    );
+
+  // Enum schema changes carry no values, so the previous ones come from the manifest of the last run
+  // (or, for manifests without enum values, from the enum classes generated last time)
+  const readPreviousEnumValues = (ctx: GeneratorContext, changes: readonly SchemaChange[]): Map<string, string[]> => {
+    const previousEnumValues = new Map<string, string[]>();
+    const recorded = readManifest(ctx.cwd, resolved.manifestPath)?.enumValues ?? {};
+
+    for (const change of changes) {
+      if (change.changeType !== 'modified' || ctx.schemas[change.schemaName]?.kind !== 'enum') {
+        continue;
+      }
+
+      const recordedValues = recorded[change.schemaName];
+      if (recordedValues) {
+        previousEnumValues.set(change.schemaName, [...recordedValues]);
+        continue;
+      }
+
+      const enumClassPath = joinPath(resolved.enumsPath, `${toPascalCase(change.schemaName)}.php`);
+      if (!existsSync(join(ctx.cwd, enumClassPath))) {
+        ctx.logger.warn(`${change.schemaName}: previous values unknown (${enumClassPath} not found), EnumRef columns are not updated`);
+        continue;
+      }
+      const values = parseEnumClassValues(readFileSync(join(ctx.cwd, enumClassPath), 'utf-8'));
+      if (values.length === 0) {
+        ctx.logger.warn(`${change.schemaName}: previous values unknown (no cases found in ${enumClassPath}), EnumRef columns are not updated`);
+        continue;
+      }
+      previousEnumValues.set(change.schemaName, values);
+    }
+
+    return previousEnumValues;
+  };
+
+  // Risk classification, attached to migration outputs
+  const riskMetadata = (migration: MigrationFile) => {
+    const risk = getMigrationRisk(migration);
+    return { risk: risk.level, riskReasons: risk.reasons.map((reason) => reason.message) };
+  };
+
+  // Warn about (or stop on) migrations losing data that allowDataLoss does not acknowledge
+  const checkDataLoss = (ctx: GeneratorContext, migrations: readonly MigrationFile[]): void => {
+    const unacknowledged = migrations.flatMap((migration) =>
+      findUnacknowledgedDataLoss(getMigrationRisk(migration), resolved.allowDataLoss)
+        .map((reason) => ({ migration, reason }))
+    );
+
+    for (const { migration, reason } of unacknowledged) {
+      ctx.logger.warn(`${migration.fileName}: ${reason.message} (acknowledge with allowDataLoss: '${reason.target}')`);
+    }
+
+    if (unacknowledged.length > 0 && resolved.stopOnDataLoss && !resolved.dryRun) {
+      const targets = [...new Set(unacknowledged.map(({ reason }) => reason.target))];
+      throw new Error(
+        `Migrations would lose data: ${targets.join(', ')}. ` +
+        'Add the tables or table.column entries to allowDataLoss to acknowledge the changes, or disable stopOnDataLoss.'
+      );
+    }
+  };
+
+  // Dry-run: log and forward a generator's plan
+  const reportPlan = (ctx: GeneratorContext, plan: GeneratorPlan): void => {
+    ctx.logger.info(formatPlan(plan));
+    resolved.onPlan?.(plan);
+  };
+
   // Build generators array
   const migrationGenerator = {
     name: 'laravel-migrations',
@@ -557,27 +863,24 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
         timestamp: resolved.timestamp,
         customTypes: ctx.customTypes,
         pluginEnums: ctx.pluginEnums,
+        archiveDroppedTables: resolved.archiveDroppedTables,
+        driver: resolved.driver,
+        checkConstraints: resolved.checkConstraints,
       };
 
       const outputs: GeneratorOutput[] = [];
 
-      // Build map of existing tables for all migration directories (main app + packages)
-      const existingTablesMap = buildExistingTablesMap(
+      // Tables created by any existing migration (Laravel's own, packages', Omnify's)
+      const existingTables = buildExistingTableIndex(getExistingMigrationDirs(
         ctx.schemas,
         ctx.cwd,
+        joinPath(options?.base ?? '', 'database/migrations'),
         resolved.migrationsPath
-      );
+      ));
 
-      // Helper to check if table migration exists in the correct directory
-      const hasMigration = (tableName: string, schemaName?: string) =>
-        tableHasMigration(
-          tableName,
-          schemaName,
-          ctx.schemas,
-          existingTablesMap,
-          ctx.cwd,
-          resolved.migrationsPath
-        );
+      const hasMigration = (tableName: string) => existingTables.has(tableName);
+      // CREATE migrations of existing tables are skipped, so deferred FKs are added only to the tables created here
+      const createOptions: MigrationOptions = { ...migrationOptions, existingTables: new Set(existingTables.keys()) };
 
       // If we have change information (including empty array), use it for smarter migration generation
       // undefined = no change info → fallback to generating all
@@ -588,10 +891,21 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
           return outputs;
         }
 
+        // Renamed schemas (removed + added) get a rename migration instead of DROP + CREATE
+        const renamedSchemaNames = new Set(
+          detectSchemaRenames(ctx.changes as unknown as import('@famgia/omnify-atlas').SchemaChange[], ctx.schemas)
+            .map((rename) => rename.to)
+        );
+
+        // CREATE migrations come first and ALTER/DROP/rename migrations continue the same timestamp sequence,
+        // so pivot tables and FKs added to existing tables run after the tables they reference
+        const baseTimestamp = resolved.timestamp ?? generateTimestamp();
+        let nextTimestamp = baseTimestamp;
+
         // Generate CREATE migrations only for added schemas
         const addedSchemaNames = new Set(
           ctx.changes
-            .filter((c) => c.changeType === 'added')
+            .filter((c) => c.changeType === 'added' && !renamedSchemaNames.has(c.schemaName))
             .map((c) => c.schemaName)
         );
 
@@ -600,41 +914,50 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
             Object.entries(ctx.schemas).filter(([name]) => addedSchemaNames.has(name))
           );
 
-          const createMigrations = generateMigrations(addedSchemas, migrationOptions);
+          const createMigrations = generateMigrations(addedSchemas, { ...createOptions, timestamp: baseTimestamp });
+          nextTimestamp = incrementTimestamp(baseTimestamp, createMigrations.length);
 
           for (const migration of createMigrations) {
             const tableName = migration.tables[0];
-            // Skip if table already has a create migration (check correct directory based on packageOutput)
-            if (hasMigration(tableName, migration.schemaName)) {
-              ctx.logger.debug(`Skipping CREATE for ${tableName} (already exists)`);
+            if (migration.type === 'create' && hasMigration(tableName)) {
+              // Skip if an existing migration already creates the table
+              ctx.logger.debug(`Skipping CREATE for ${tableName} (created by ${relative(ctx.cwd, existingTables.get(tableName)!)})`);
+              if (resolved.dryRun) {
+                outputs.push(skippedMigrationOutput(migration, tableName, ctx.schemas));
+              }
               continue;
             }
 
+            logMigrationWarnings(ctx, migration);
             outputs.push({
               path: getMigrationPathForSchema(migration, ctx.schemas, resolved.migrationsPath),
               content: migration.content,
               type: 'migration' as const,
               metadata: {
                 tableName,
-                migrationType: 'create',
+                migrationType: migration.type,
+                ...riskMetadata(migration),
               },
             });
           }
         }
 
-        // Generate ALTER/DROP migrations for modified/removed schemas
+        // Generate ALTER/DROP/rename migrations for modified/removed/renamed schemas
         const alterChanges = ctx.changes.filter(
-          (c) => c.changeType === 'modified' || c.changeType === 'removed'
+          (c) => c.changeType === 'modified' || c.changeType === 'removed' || renamedSchemaNames.has(c.schemaName)
         );
 
         if (alterChanges.length > 0) {
           // Convert SchemaChange to the format expected by alter-generator
           const alterMigrations = generateMigrationsFromChanges(
             alterChanges as unknown as import('@famgia/omnify-atlas').SchemaChange[],
-            migrationOptions
+            { ...migrationOptions, timestamp: nextTimestamp, previousEnumValues: readPreviousEnumValues(ctx, alterChanges) },
+            ctx.schemas
           );
+          checkDataLoss(ctx, alterMigrations);
 
           for (const migration of alterMigrations) {
+            logMigrationWarnings(ctx, migration);
             outputs.push({
               path: getMigrationPathForSchema(migration, ctx.schemas, resolved.migrationsPath),
               content: migration.content,
@@ -642,6 +965,7 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
               metadata: {
                 tableName: migration.tables[0],
                 migrationType: migration.type,
+                ...riskMetadata(migration),
               },
             });
           }
@@ -649,16 +973,19 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
       } else {
         // No change info - generate CREATE migrations for all schemas
         // but skip tables that already have migrations (deduplication)
-        const migrations = generateMigrations(ctx.schemas, migrationOptions);
+        const migrations = generateMigrations(ctx.schemas, createOptions);
 
         for (const migration of migrations) {
           const tableName = migration.tables[0];
-          // Check if migration exists in the correct directory (main app or package)
-          if (migration.type === 'create' && hasMigration(tableName, migration.schemaName)) {
+          // Skip tables created by existing migrations (Laravel's own, packages' or Omnify's)
+          if (migration.type === 'create' && hasMigration(tableName)) {
             ctx.logger.debug(`Skipping migration for ${tableName} (already exists)`);
+            if (resolved.dryRun) {
+              outputs.push(skippedMigrationOutput(migration, tableName, ctx.schemas));
+            }
             continue;
           }
-
+          logMigrationWarnings(ctx, migration);
           outputs.push({
             path: getMigrationPathForSchema(migration, ctx.schemas, resolved.migrationsPath),
             content: migration.content,
@@ -666,6 +993,7 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
             metadata: {
               tableName,
               migrationType: migration.type,
+              ...riskMetadata(migration),
             },
           });
         }
@@ -687,6 +1015,8 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
         baseModelPath: resolved.baseModelsPath,
         providersPath: resolved.providersPath,
         customTypes: ctx.customTypes,
+        enumNamespace: resolved.enumNamespace,
+        pluginEnums: ctx.pluginEnums,
       };
 
       const models = generateModels(ctx.schemas, modelOptions);
@@ -769,6 +1099,33 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
     },
   };
 
+  const enumGenerator = {
+    name: 'laravel-enums',
+    description: 'Generate PHP enum classes for model casts, validation rules and factories',
+
+    generate: async (ctx: GeneratorContext): Promise<GeneratorOutput[]> => {
+      const enumOptions: EnumGeneratorOptions = {
+        enumNamespace: resolved.enumNamespace,
+        enumPath: resolved.enumsPath,
+        pluginEnums: ctx.pluginEnums,
+      };
+
+      const enums = generatePhpEnums(ctx.schemas, enumOptions);
+
+      return enums.map((phpEnum) => ({
+        path: getEnumPath(phpEnum),
+        content: phpEnum.content,
+        type: 'other' as const,
+        skipIfExists: !phpEnum.overwrite,
+        metadata: {
+          enumClass: phpEnum.className,
+          // Plugin enums have no schema, so they are shared files that cleanup never removes
+          schemaName: phpEnum.schemaName in ctx.schemas ? phpEnum.schemaName : '__plugin-enum__',
+        },
+      }));
+    },
+  };
+
   const factoryGenerator = {
     name: 'laravel-factories',
     description: 'Generate Laravel factory classes for testing',
@@ -780,6 +1137,7 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
         fakerLocale: resolved.fakerLocale,
         customTypes: ctx.customTypes,
         pluginEnums: ctx.pluginEnums,
+        enumNamespace: resolved.enumNamespace,
       };
 
       const factories = generateFactories(ctx.schemas, factoryOptions);
@@ -810,6 +1168,8 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
         baseRequestPath: resolved.baseRequestsPath,
         modelNamespace: resolved.modelNamespace,
         customTypes: ctx.customTypes,
+        enumNamespace: resolved.enumNamespace,
+        pluginEnums: ctx.pluginEnums,
       };
 
       const requests = generateRequests(ctx.schemas, requestOptions);
@@ -859,6 +1219,70 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
     },
   };
 
+  const typescriptGenerator = {
+    name: 'laravel-typescript',
+    description: 'Generate TypeScript type definitions',
+
+    generate: async (ctx: GeneratorContext): Promise<GeneratorOutput[]> => {
+      const typescriptOptions: TypeScriptOptions = {
+        singleFile: resolved.singleFile,
+        customTypes: ctx.customTypes,
+        pluginEnums: ctx.pluginEnums,
+      };
+
+      const outputs: GeneratorOutput[] = [];
+      const pluginEnums = ctx.pluginEnums ?? new Map();
+
+      // Main app types and package types are written to separate directories
+      const groups = groupSchemasByTypesPath(ctx.schemas, resolved.typesPath);
+      if (pluginEnums.size > 0 && !groups.has(resolved.typesPath)) {
+        groups.set(resolved.typesPath, []);
+      }
+
+      // Each type is emitted once: schemas with their group, plugin enums with the app types
+      const typesPathOf = new Map<string, string>();
+      for (const [typesPath, schemaNames] of groups) {
+        for (const name of schemaNames) {
+          typesPathOf.set(name, typesPath);
+        }
+      }
+      for (const name of pluginEnums.keys()) {
+        if (!typesPathOf.has(name)) {
+          typesPathOf.set(name, resolved.typesPath);
+        }
+      }
+
+      for (const [typesPath, schemaNames] of groups) {
+        // Types of other groups are imported from their directory
+        const typeImports = new Map(
+          [...typesPathOf]
+            .filter(([, path]) => path !== typesPath)
+            .map(([name, path]) => [name, getTypesModule(typesPath, path, resolved.singleFile)])
+        );
+        const files = generateTypeScript(ctx.schemas, {
+          ...typescriptOptions,
+          schemaNames,
+          includePluginEnums: typesPath === resolved.typesPath,
+          typeImports,
+        });
+
+        for (const file of files) {
+          outputs.push({
+            path: getTypeScriptPath(file, typesPath),
+            content: file.content,
+            type: 'other' as const,
+            metadata: {
+              typesFile: file.fileName,
+              types: file.types,
+            },
+          });
+        }
+      }
+
+      return outputs;
+    },
+  };
+
   const aiGuidesGenerator = {
     name: 'laravel-ai-guides',
     description: 'Generate AI assistant guides (Claude, Cursor) for Laravel development',
@@ -877,8 +1301,14 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
         migrationsPath: resolved.migrationsPath,
         laravelBasePath: 'app',
         packagePaths,
+        dryRun: resolved.dryRun,
       });
 
+      if (result.plan) {
+        reportPlan(ctx, result.plan);
+        return [];
+      }
+
       const claudeTotal = result.claudeGuides + result.claudeRules + result.claudeChecklists + result.claudeWorkflows + result.claudeAgents + result.claudeOmnify;
       const antigravityTotal = result.antigravityRules || 0;
       const antigravityInfo = antigravityTotal > 0 ? `, ${antigravityTotal} Antigravity rules` : '';
@@ -904,15 +1334,150 @@ export default function laravelPlugin(options?: LaravelPluginOptions): OmnifyPlu
   if (resolved.generateResources) {
     generators.push(resourceGenerator);
   }
+  if (resolved.generateTypes) {
+    generators.push(typescriptGenerator);
+  }
+  // Models, requests and factories all refer to the enum classes
+  if (resolved.generateModels || resolved.generateFactories || resolved.generateRequests) {
+    generators.push(enumGenerator);
+  }
+
+  const cleanupGenerator = {
+    name: 'laravel-cleanup',
+    description: 'Remove generated base files of removed schemas and record generated files',
+    dependsOn: generators.map((generator) => generator.name),
+
+    generate: async (ctx: GeneratorContext): Promise<GeneratorOutput[]> => {
+      // Schemas whose files may be left behind (renames appear as removed + added)
+      const removedSchemaNames = new Set(
+        ctx.changes !== undefined
+          ? ctx.changes.filter((c) => c.changeType === 'removed').map((c) => c.schemaName)
+          : []
+      );
+
+      const previousManifest = readManifest(ctx.cwd, resolved.manifestPath);
+      if (ctx.changes === undefined && previousManifest) {
+        // No change info - treat schemas missing from the collection as removed
+        for (const entry of previousManifest.files) {
+          if (entry.schemaName && !(entry.schemaName in ctx.schemas)) {
+            removedSchemaNames.add(entry.schemaName);
+          }
+        }
+      }
+
+      const orphaned = previousManifest && resolved.cleanupOrphans
+        ? findOrphanedFiles(previousManifest, removedSchemaNames)
+        : [];
+      const renamedTo = new Map(
+        detectSchemaRenames((ctx.changes ?? []) as unknown as import('@famgia/omnify-atlas').SchemaChange[], ctx.schemas)
+          .map((rename) => [rename.from, rename.to])
+      );
+
+      const actions: PlannedFileAction[] = [];
+      for (const entry of orphaned) {
+        if (!existsSync(join(ctx.cwd, entry.path))) {
+          continue;
+        }
+
+        if (!entry.overwrite) {
+          // Never delete user-editable files
+          const newName = renamedTo.get(entry.schemaName!);
+          ctx.logger.warn(newName
+            ? `${entry.path} belongs to ${entry.schemaName}, renamed to ${newName}; move its code to the ${newName} class (user-editable file kept)`
+            : `${entry.path} belongs to removed schema ${entry.schemaName} and was kept (user-editable)`);
+          actions.push({
+            path: entry.path,
+            action: 'orphaned',
+            generator: entry.generator,
+            reason: newName
+              ? `Schema ${entry.schemaName} was renamed to ${newName}; user-editable file kept`
+              : `Schema ${entry.schemaName} was removed; user-editable file kept`,
+          });
+          continue;
+        }
+
+        if (!resolved.dryRun) {
+          unlinkSync(join(ctx.cwd, entry.path));
+          ctx.logger.info(`Deleted ${entry.path} (schema ${entry.schemaName} was removed)`);
+        }
+        actions.push({
+          path: entry.path,
+          action: 'delete',
+          generator: entry.generator,
+          reason: `Schema ${entry.schemaName} was removed`,
+        });
+      }
+
+      const manifestOutput: GeneratorOutput = {
+        path: resolved.manifestPath,
+        content: serializeManifest(buildManifest(ctx.previousOutputs, collectEnumValues(ctx.schemas))),
+        type: 'other' as const,
+      };
+
+      if (resolved.dryRun) {
+        // Other generators return no outputs in dry-run mode, so the manifest is not planned
+        reportPlan(ctx, { generator: 'laravel-cleanup', actions });
+        return [];
+      }
+
+      return [manifestOutput];
+    },
+  };
+
+  // Warn about (or stop on) hand edits to base files before they are overwritten
+  const checkHandEdits = (ctx: GeneratorContext, outputs: readonly GeneratorOutput[]): Set<string> => {
+    const manifest = readManifest(ctx.cwd, resolved.manifestPath);
+    const edited = manifest ? findHandEditedFiles(manifest, outputs, ctx.cwd) : [];
+
+    for (const file of edited) {
+      ctx.logger.warn(`${file.path} was edited by hand since it was generated (changes will be overwritten)`);
+      if (resolved.backupHandEdits && !resolved.dryRun) {
+        writeFileSync(join(ctx.cwd, `${file.path}.orig`), file.content);
+        ctx.logger.info(`Saved edited copy to ${file.path}.orig`);
+      }
+    }
+
+    if (edited.length > 0 && resolved.stopOnHandEdits && !resolved.dryRun) {
+      throw new Error(
+        `Generated files were edited by hand: ${edited.map((f) => f.path).join(', ')}. ` +
+        'Move the changes to the user-editable class, or disable stopOnHandEdits to overwrite them.'
+      );
+    }
+
+    return new Set(edited.map((f) => f.path));
+  };
+
+  // Check outputs for hand edits; in dry-run mode turn them into a plan and write nothing
+  const plannedGenerators = generators.map((generator) => ({
+    ...generator,
+    generate: async (ctx: GeneratorContext): Promise<GeneratorOutput[]> => {
+      const outputs = await generator.generate(ctx);
+      const handEdited = checkHandEdits(ctx, outputs);
+
+      if (resolved.dryRun) {
+        const plan = planGeneratorOutputs(generator.name, outputs, ctx.cwd);
+        reportPlan(ctx, {
+          ...plan,
+          actions: plan.actions.map((action) =>
+            handEdited.has(action.path) ? { ...action, reason: 'Edited by hand since last generation' } : action
+          ),
+        });
+        return [];
+      }
+
+      return outputs;
+    },
+  }));
 
-  // Always add AI guides generator
-  generators.push(aiGuidesGenerator);
+  // Cleanup and AI guides write to disk directly and plan themselves in dry-run mode
+  plannedGenerators.push(cleanupGenerator);
+  plannedGenerators.push(aiGuidesGenerator);
 
   return {
     name: '@famgia/omnify-laravel',
     version: '0.0.14',
     configSchema: LARAVEL_CONFIG_SCHEMA,
-    generators,
+    generators: plannedGenerators,
   };
 }
 
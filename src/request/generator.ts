@@ -5,9 +5,10 @@
  * Creates base requests (auto-generated) and user requests (created once).
  */
 
-import type { LoadedSchema, PropertyDefinition, SchemaCollection, LocalizedString, CustomTypeDefinition, AssociationDefinition, InlineEnumValue } from '@famgia/omnify-types';
+import type { LoadedSchema, PropertyDefinition, SchemaCollection, LocalizedString, CustomTypeDefinition, AssociationDefinition, InlineEnumValue, PluginEnumDefinition } from '@famgia/omnify-types';
 import { isLocaleMap } from '@famgia/omnify-types';
-import { pluralize, toSnakeCase, toPascalCase, getEnumStringValues } from '../utils.js';
+import { pluralize, singularize, toSnakeCase, toPascalCase, getEnumStringValues, isGeneratedColumn } from '../utils.js';
+import { getPropertyEnumClass, getPropertyEnumValues } from '../enum/generator.js';
 
 /**
  * Options for request generation.
@@ -53,6 +54,17 @@ export interface RequestGeneratorOptions {
    * @default 'en'
    */
   locale?: string;
+
+  /**
+   * Enum namespace for Rule::enum rules.
+   * @default 'App\\Enums'
+   */
+  enumNamespace?: string;
+
+  /**
+   * Plugin enums from registry (for EnumRef resolution).
+   */
+  pluginEnums?: ReadonlyMap<string, PluginEnumDefinition>;
 }
 
 /**
@@ -84,6 +96,8 @@ interface ResolvedOptions {
   modelNamespace: string;
   customTypes: ReadonlyMap<string, CustomTypeDefinition>;
   locale: string;
+  enumNamespace: string;
+  pluginEnums: ReadonlyMap<string, PluginEnumDefinition>;
 }
 
 /**
@@ -97,6 +111,8 @@ const DEFAULT_OPTIONS: ResolvedOptions = {
   modelNamespace: 'App\\Models',
   customTypes: new Map(),
   locale: 'en',
+  enumNamespace: 'App\\Enums',
+  pluginEnums: new Map(),
 };
 
 /**
@@ -122,6 +138,7 @@ interface RequestOpenApiProperty {
   minLength?: number;
   nullable?: boolean;
   enum?: string[];
+  items?: string;
   example?: string | number | boolean;
 }
 
@@ -281,6 +298,9 @@ function formatRequestOpenApiProperty(prop: RequestOpenApiProperty, indent: stri
   if (prop.nullable) {
     parts.push(`nullable: true`);
   }
+  if (prop.items) {
+    parts.push(`items: new OA\\Items(type: '${prop.items}')`);
+  }
   if (prop.enum) {
     const enumValues = getEnumStringValues(prop.enum as readonly (string | InlineEnumValue)[]);
     const enumStr = enumValues.map(v => `'${v}'`).join(', ');
@@ -309,6 +329,8 @@ function resolveOptions(options?: RequestGeneratorOptions): ResolvedOptions {
     modelNamespace: options?.modelNamespace ?? DEFAULT_OPTIONS.modelNamespace,
     customTypes: options?.customTypes ?? new Map(),
     locale: options?.locale ?? DEFAULT_OPTIONS.locale,
+    enumNamespace: options?.enumNamespace ?? DEFAULT_OPTIONS.enumNamespace,
+    pluginEnums: options?.pluginEnums ?? new Map(),
   };
 }
 
@@ -344,6 +366,54 @@ function getModuleName(schema: LoadedSchema): string {
   return '';
 }
 
+/**
+ * Validation rules of the ids of a target schema, by its idType.
+ */
+const ID_TYPE_RULES: Record<string, string> = {
+  Uuid: 'uuid',
+  Ulid: 'ulid',
+  String: 'string',
+};
+
+/**
+ * Get the id array field of a morph many-to-many association (e.g. tag_ids for tags),
+ * with the rule of the target's ids.
+ */
+function getIdArrayField(
+  propName: string,
+  propDef: PropertyDefinition,
+  schemas: SchemaCollection
+): { fieldName: string; targetTable: string; idRule: string } | null {
+  if (propDef.type !== 'Association') return null;
+  const assoc = propDef as AssociationDefinition;
+  if ((assoc.relation !== 'MorphToMany' && assoc.relation !== 'MorphedByMany') || !assoc.target) {
+    return null;
+  }
+
+  const targetSchema = schemas[assoc.target];
+  const idType = (targetSchema?.options?.idType as string | undefined) ?? 'BigInt';
+  return {
+    fieldName: `${toSnakeCase(singularize(propName))}_ids`,
+    targetTable: targetSchema?.options?.tableName ?? pluralize(toSnakeCase(assoc.target)),
+    idRule: ID_TYPE_RULES[idType] ?? 'integer',
+  };
+}
+
+/**
+ * Get the imports of the PHP enums used by Rule::enum rules.
+ */
+function getEnumImports(schema: LoadedSchema, schemas: SchemaCollection, options: ResolvedOptions): string {
+  const imports = new Set<string>();
+  for (const [propName, propDef] of Object.entries(schema.properties ?? {})) {
+    if (isGeneratedColumn(propDef)) continue;
+    const enumClass = getPropertyEnumClass(schema, propName, propDef, schemas, options.pluginEnums);
+    if (enumClass) {
+      imports.add(`\nuse ${options.enumNamespace}\\${enumClass};`);
+    }
+  }
+  return [...imports].sort().join('');
+}
+
 /**
  * Generate validation rules for a property (Store - required by default).
  */
@@ -429,14 +499,18 @@ function generateStoreRules(
       break;
 
     case 'Enum':
-    case 'EnumRef':
+    case 'EnumRef': {
       rules.push("'string'");
-      if (prop.enum && Array.isArray(prop.enum)) {
+      const enumClass = getPropertyEnumClass(schema, propName, propDef, schemas, options.pluginEnums);
+      if (enumClass) {
+        rules.push(`Rule::enum(${enumClass}::class)`);
+      } else if (prop.enum && Array.isArray(prop.enum)) {
         const enumValues = getEnumStringValues(prop.enum as readonly (string | InlineEnumValue)[]);
         const values = enumValues.map(v => `'${v}'`).join(', ');
         rules.push(`Rule::in([${values}])`);
       }
       break;
+    }
 
     case 'Association':
       const assoc = propDef as AssociationDefinition;
@@ -571,14 +645,18 @@ function generateUpdateRules(
       break;
 
     case 'Enum':
-    case 'EnumRef':
+    case 'EnumRef': {
       rules.push("'string'");
-      if (prop.enum && Array.isArray(prop.enum)) {
+      const enumClass = getPropertyEnumClass(schema, propName, propDef, schemas, options.pluginEnums);
+      if (enumClass) {
+        rules.push(`Rule::enum(${enumClass}::class)`);
+      } else if (prop.enum && Array.isArray(prop.enum)) {
         const enumValues = getEnumStringValues(prop.enum as readonly (string | InlineEnumValue)[]);
         const values = enumValues.map(v => `'${v}'`).join(', ');
         rules.push(`Rule::in([${values}])`);
       }
       break;
+    }
 
     case 'Association':
       const assoc = propDef as AssociationDefinition;
@@ -787,6 +865,22 @@ function generateStoreRequestBase(
     // Skip system fields
     if (SKIP_FIELDS.has(snakeName)) continue;
 
+    // Skip generated columns (computed by the database)
+    if (isGeneratedColumn(propDef)) continue;
+
+    // Morph many-to-many relations accept an array of related ids
+    const idArrayField = getIdArrayField(propName, propDef, schemas);
+    if (idArrayField) {
+      const { fieldName, targetTable, idRule } = idArrayField;
+      rulesLines.push(`            '${fieldName}' => ['nullable', 'array'],`);
+      rulesLines.push(`            '${fieldName}.*' => ['${idRule}', 'exists:${targetTable},id'],`);
+      fieldList.push(fieldName);
+
+      const displayName = getDisplayName((propDef as any).displayName, options.locale, propName);
+      attributeLines.push(`            '${fieldName}' => '${escapePhpString(displayName)}',`);
+      continue;
+    }
+
     // Skip association relations that don't have FK (OneToMany, ManyToMany, etc.)
     if (propDef.type === 'Association') {
       const assoc = propDef as AssociationDefinition;
@@ -830,6 +924,7 @@ function generateStoreRequestBase(
   }
 
   const ruleImport = needsRuleImport ? '\nuse Illuminate\\Validation\\Rule;' : '';
+  const enumImports = getEnumImports(schema, schemas, options);
 
   const content = `<?php
 
@@ -848,7 +943,7 @@ function generateStoreRequestBase(
 
 namespace ${namespace};
 
-use Illuminate\\Foundation\\Http\\FormRequest;${ruleImport}
+use Illuminate\\Foundation\\Http\\FormRequest;${ruleImport}${enumImports}
 
 abstract class ${className}StoreRequestBase extends FormRequest
 {
@@ -915,6 +1010,21 @@ function generateUpdateRequestBase(
     // Skip system fields
     if (SKIP_FIELDS.has(snakeName)) continue;
 
+    // Skip generated columns (computed by the database)
+    if (isGeneratedColumn(propDef)) continue;
+
+    // Morph many-to-many relations accept an array of related ids
+    const idArrayField = getIdArrayField(propName, propDef, schemas);
+    if (idArrayField) {
+      const { fieldName, targetTable, idRule } = idArrayField;
+      rulesLines.push(`            '${fieldName}' => ['sometimes', 'array'],`);
+      rulesLines.push(`            '${fieldName}.*' => ['${idRule}', 'exists:${targetTable},id'],`);
+
+      const displayName = getDisplayName((propDef as any).displayName, options.locale, propName);
+      attributeLines.push(`            '${fieldName}' => '${escapePhpString(displayName)}',`);
+      continue;
+    }
+
     // Skip association relations that don't have FK
     if (propDef.type === 'Association') {
       const assoc = propDef as AssociationDefinition;
@@ -954,6 +1064,7 @@ function generateUpdateRequestBase(
   }
 
   const ruleImport = needsRuleImport ? '\nuse Illuminate\\Validation\\Rule;' : '';
+  const enumImports = getEnumImports(schema, schemas, options);
 
   const content = `<?php
 
@@ -972,7 +1083,7 @@ function generateUpdateRequestBase(
 
 namespace ${namespace};
 
-use Illuminate\\Foundation\\Http\\FormRequest;${ruleImport}
+use Illuminate\\Foundation\\Http\\FormRequest;${ruleImport}${enumImports}
 
 abstract class ${className}UpdateRequestBase extends FormRequest
 {
@@ -1033,6 +1144,16 @@ function generateRequestOpenApiProperties(
     // Skip system fields
     if (SKIP_FIELDS.has(snakeName)) continue;
 
+    // Skip generated columns (computed by the database)
+    if (isGeneratedColumn(propDef)) continue;
+
+    // Morph many-to-many relations accept an array of related ids
+    const idArrayField = getIdArrayField(propName, propDef, schemas);
+    if (idArrayField) {
+      properties.push({ property: idArrayField.fieldName, type: 'array', items: idArrayField.idRule === 'integer' ? 'integer' : 'string' });
+      continue;
+    }
+
     // Skip associations that don't have FK
     if (propDef.type === 'Association') {
       const assoc = propDef as AssociationDefinition;
@@ -1100,6 +1221,11 @@ function generateRequestOpenApiProperties(
       ...openApiType,
       ...constraints,
     };
+    if (propDef.type === 'Enum' || propDef.type === 'EnumRef') {
+      // Rule::enum does not list its values, so resolve them from the schemas
+      const enumValues = getPropertyEnumValues(propDef, schemas, options.pluginEnums);
+      if (enumValues.length > 0) prop.enum = enumValues;
+    }
     if (example !== undefined) prop.example = example;
     properties.push(prop);
 
@@ -7,7 +7,7 @@
 
 import type { LoadedSchema, PropertyDefinition, SchemaCollection, LocalizedString, CustomTypeDefinition, AssociationDefinition } from '@famgia/omnify-types';
 import { isLocaleMap } from '@famgia/omnify-types';
-import { toSnakeCase, toPascalCase, toCamelCase } from '../utils.js';
+import { toSnakeCase, toPascalCase, toCamelCase, getThroughAssociation } from '../utils.js';
 
 /**
  * Options for resource generation.
@@ -383,6 +383,14 @@ function getPropertyOutput(
     const assoc = propDef as AssociationDefinition;
     const targetClass = assoc.target ? toPascalCase(assoc.target) : '';
 
+    const through = getThroughAssociation(propDef);
+    if (through) {
+      lines.push(through.many
+        ? `            '${snakeName}' => $this->whenLoaded('${toCamelCase(propName)}', fn() => ${targetClass}Resource::collection($this->${toCamelCase(propName)})),`
+        : `            '${snakeName}' => $this->whenLoaded('${toCamelCase(propName)}', fn() => new ${targetClass}Resource($this->${toCamelCase(propName)})),`);
+      return lines;
+    }
+
     switch (assoc.relation) {
       case 'ManyToOne':
       case 'OneToOne':
@@ -392,6 +400,8 @@ function getPropertyOutput(
         break;
       case 'OneToMany':
       case 'ManyToMany':
+      case 'MorphToMany':
+      case 'MorphedByMany':
         lines.push(`            '${snakeName}' => $this->whenLoaded('${toCamelCase(propName)}', fn() => ${targetClass}Resource::collection($this->${toCamelCase(propName)})),`);
         break;
       case 'MorphTo':
@@ -4,7 +4,7 @@
  * Generates TypeScript enums from schema enum definitions.
  */
 
-import type { LoadedSchema, SchemaCollection, InlineEnumValue } from '@famgia/omnify-types';
+import type { LoadedSchema, SchemaCollection, InlineEnumValue, PluginEnumDefinition } from '@famgia/omnify-types';
 import { resolveLocalizedString } from '@famgia/omnify-types';
 import type { TSEnum, TSEnumValue, TSTypeAlias } from './types.js';
 import { getEnumStringValues } from '../utils.js';
@@ -66,6 +66,51 @@ export function generateEnums(schemas: SchemaCollection): TSEnum[] {
   return enums;
 }
 
+/**
+ * Generates TypeScript enum from a plugin enum (e.g., Prefecture).
+ */
+export function pluginEnumToTSEnum(name: string, enumDef: PluginEnumDefinition): TSEnum | null {
+  if (enumDef.values.length === 0) {
+    return null;
+  }
+
+  return {
+    name: toEnumName(name),
+    values: enumDef.values.map(v => ({
+      name: toEnumMemberName(v.value),
+      value: v.value,
+    })),
+    comment: name,
+  };
+}
+
+/**
+ * Generates enums for plugin enums, skipping names already defined by enum schemas.
+ */
+export function generatePluginEnums(
+  pluginEnums: ReadonlyMap<string, PluginEnumDefinition> | undefined,
+  schemas: SchemaCollection
+): TSEnum[] {
+  const enums: TSEnum[] = [];
+
+  if (!pluginEnums) {
+    return enums;
+  }
+
+  for (const [name, enumDef] of pluginEnums) {
+    // Enum schemas take precedence over plugin enums with the same name
+    if (schemas[name]?.kind === 'enum') {
+      continue;
+    }
+    const tsEnum = pluginEnumToTSEnum(name, enumDef);
+    if (tsEnum) {
+      enums.push(tsEnum);
+    }
+  }
+
+  return enums;
+}
+
 /**
  * Formats a TypeScript enum.
  */
@@ -373,6 +373,16 @@ describe('TypeScript Polymorphic Generator', () => {
     });
   });
 
+  describe('getPropertyType - Through', () => {
+    it('maps HasManyThrough to array type and HasOneThrough to single type', () => {
+      const posts = { type: 'Association', relation: 'HasManyThrough', target: 'Post', through: 'User' } as any;
+      const latestComment = { type: 'Association', relation: 'HasOneThrough', target: 'Comment', through: 'Post' } as any;
+
+      expect(getPropertyType(posts, schemas)).toBe('Post[]');
+      expect(getPropertyType(latestComment, schemas)).toBe('Comment');
+    });
+  });
+
   describe('propertyToTSProperties - Polymorphic', () => {
     it('returns multiple properties for MorphTo', () => {
       const result = propertyToTSProperties(
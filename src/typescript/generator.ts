@@ -6,8 +6,8 @@
 
 import type { SchemaCollection } from '@famgia/omnify-types';
 import type { TypeScriptFile, TypeScriptOptions, TSInterface, TSEnum, TSTypeAlias } from './types.js';
-import { generateInterfaces, formatInterface } from './interface-generator.js';
-import { generateEnums, formatEnum, formatTypeAlias, extractInlineEnums } from './enum-generator.js';
+import { schemaToInterface, formatInterface } from './interface-generator.js';
+import { generateEnums, generatePluginEnums, formatEnum, formatTypeAlias, extractInlineEnums } from './enum-generator.js';
 
 /**
  * Default options for TypeScript generation.
@@ -31,6 +31,61 @@ function generateHeader(): string {
 `;
 }
 
+/**
+ * Gets the schemas to emit types for (`schemaNames`, or all schemas).
+ */
+function getOwnSchemas(schemas: SchemaCollection, options: TypeScriptOptions): SchemaCollection {
+  if (!options.schemaNames) {
+    return schemas;
+  }
+  return Object.fromEntries(
+    options.schemaNames.filter(name => schemas[name]).map(name => [name, schemas[name]!])
+  );
+}
+
+/**
+ * Generates enums of the emitted enum schemas and, unless disabled, plugin enums.
+ */
+function generateAllEnums(schemas: SchemaCollection, ownSchemas: SchemaCollection, options: TypeScriptOptions): TSEnum[] {
+  const pluginEnums = options.includePluginEnums === false ? [] : generatePluginEnums(options.pluginEnums, schemas);
+  return [...generateEnums(ownSchemas), ...pluginEnums];
+}
+
+/**
+ * Generates interfaces of the emitted schemas, resolving references against all schemas.
+ */
+function generateOwnInterfaces(schemas: SchemaCollection, ownSchemas: SchemaCollection, options: TypeScriptOptions): TSInterface[] {
+  return Object.values(ownSchemas)
+    .filter(schema => schema.kind !== 'enum')
+    .map(schema => schemaToInterface(schema, schemas, options));
+}
+
+/**
+ * Collects the types emitted to other files that interfaces refer to, grouped by module.
+ */
+function collectTypeImports(interfaces: readonly TSInterface[], options: TypeScriptOptions): Map<string, string[]> {
+  const imports = new Map<string, string[]>();
+  if (!options.typeImports) {
+    return imports;
+  }
+
+  for (const iface of interfaces) {
+    for (const prop of iface.properties) {
+      // Types like 'User[]' or 'Post | Video | null' name several types (string literals name none)
+      for (const name of prop.type.replace(/'[^']*'/g, '').match(/[A-Za-z_$][\w$]*/g) ?? []) {
+        const module = options.typeImports.get(name);
+        if (!module || name === iface.name) continue;
+        const existing = imports.get(module) ?? [];
+        if (!existing.includes(name)) {
+          imports.set(module, [...existing, name]);
+        }
+      }
+    }
+  }
+
+  return imports;
+}
+
 /**
  * Generates all TypeScript code as a single file.
  */
@@ -39,11 +94,19 @@ export function generateTypeScriptFile(
   options: TypeScriptOptions = {}
 ): TypeScriptFile {
   const opts = { ...DEFAULT_OPTIONS, ...options };
+  const ownSchemas = getOwnSchemas(schemas, opts);
   const parts: string[] = [generateHeader()];
   const types: string[] = [];
 
+  // Generate interfaces up front so imports of types emitted elsewhere come first
+  const interfaces = generateOwnInterfaces(schemas, ownSchemas, opts);
+  const typeImports = formatImports(collectTypeImports(interfaces, opts));
+  if (typeImports) {
+    parts.push(typeImports + '\n\n');
+  }
+
   // Generate enums first (they're referenced by interfaces)
-  const enums = generateEnums(schemas);
+  const enums = generateAllEnums(schemas, ownSchemas, opts);
   if (enums.length > 0) {
     parts.push('// Enums\n');
     for (const enumDef of enums) {
@@ -54,7 +117,7 @@ export function generateTypeScriptFile(
   }
 
   // Generate inline enum type aliases
-  const inlineEnums = extractInlineEnums(schemas);
+  const inlineEnums = extractInlineEnums(ownSchemas);
   if (inlineEnums.length > 0) {
     parts.push('// Type Aliases\n');
     for (const alias of inlineEnums) {
@@ -65,7 +128,6 @@ export function generateTypeScriptFile(
   }
 
   // Generate interfaces
-  const interfaces = generateInterfaces(schemas, opts);
   if (interfaces.length > 0) {
     parts.push('// Interfaces\n');
     for (const iface of interfaces) {
@@ -90,10 +152,11 @@ export function generateTypeScriptFiles(
   options: TypeScriptOptions = {}
 ): TypeScriptFile[] {
   const opts = { ...DEFAULT_OPTIONS, ...options };
+  const ownSchemas = getOwnSchemas(schemas, opts);
   const files: TypeScriptFile[] = [];
 
   // Enums file
-  const enums = generateEnums(schemas);
+  const enums = generateAllEnums(schemas, ownSchemas, opts);
   if (enums.length > 0) {
     const content = generateHeader() +
       enums.map(formatEnum).join('\n\n') + '\n';
@@ -105,7 +168,7 @@ export function generateTypeScriptFiles(
   }
 
   // Inline enums/type aliases file
-  const inlineEnums = extractInlineEnums(schemas);
+  const inlineEnums = extractInlineEnums(ownSchemas);
   if (inlineEnums.length > 0) {
     const content = generateHeader() +
       inlineEnums.map(formatTypeAlias).join('\n\n') + '\n';
@@ -117,9 +180,12 @@ export function generateTypeScriptFiles(
   }
 
   // Individual interface files
-  const interfaces = generateInterfaces(schemas, opts);
+  const interfaces = generateOwnInterfaces(schemas, ownSchemas, opts);
   for (const iface of interfaces) {
-    const imports = collectImports(iface, enums, inlineEnums, interfaces);
+    const imports = new Map([
+      ...collectTypeImports([iface], opts),
+      ...collectImports(iface, enums, inlineEnums, interfaces),
+    ]);
     const importStatement = formatImports(imports);
 
     const content = generateHeader() +
@@ -30,6 +30,8 @@ export {
   toEnumName,
   schemaToEnum,
   generateEnums,
+  pluginEnumToTSEnum,
+  generatePluginEnums,
   formatEnum,
   enumToUnionType,
   formatTypeAlias,
@@ -7,7 +7,7 @@
 import type { LoadedSchema, PropertyDefinition, SchemaCollection, InlineEnumValue } from '@famgia/omnify-types';
 import { resolveLocalizedString } from '@famgia/omnify-types';
 import type { TSInterface, TSProperty, TypeScriptOptions } from './types.js';
-import { getEnumStringValues } from '../utils.js';
+import { getEnumStringValues, toPascalCase } from '../utils.js';
 
 /**
  * Maps Omnify property types to TypeScript types.
@@ -68,7 +68,8 @@ export function toInterfaceName(schemaName: string): string {
  */
 export function getPropertyType(
   property: PropertyDefinition,
-  _allSchemas: SchemaCollection
+  allSchemas: SchemaCollection,
+  options: TypeScriptOptions = {}
 ): string {
   // Handle File type specially (polymorphic relation to files table)
   // References the File interface generated from File.yaml schema
@@ -113,6 +114,12 @@ export function getPropertyType(
       case 'MorphedByMany':
         return `${targetName}[]`;
 
+      // Through relations (e.g. Country.posts through User)
+      case 'HasOneThrough':
+        return targetName;
+      case 'HasManyThrough':
+        return `${targetName}[]`;
+
       default:
         return 'unknown';
     }
@@ -132,6 +139,16 @@ export function getPropertyType(
     }
   }
 
+  // Handle EnumRef - reference to an enum schema or plugin enum
+  if (property.type === 'EnumRef') {
+    const enumRefProp = property as { enum?: string };
+    const enumName = enumRefProp.enum;
+    if (enumName && (options.pluginEnums?.has(enumName) || allSchemas[enumName]?.kind === 'enum')) {
+      return enumName;
+    }
+    return 'string';
+  }
+
   // Handle Select with options
   if (property.type === 'Select') {
     const selectProp = property as { options?: readonly string[] };
@@ -141,7 +158,18 @@ export function getPropertyType(
   }
 
   // Standard type mapping
-  return TYPE_MAP[property.type] ?? 'unknown';
+  const mapped = TYPE_MAP[property.type];
+  if (mapped) {
+    return mapped;
+  }
+
+  // Simple (non-compound) custom types from plugins
+  const typeDef = options.customTypes?.get(property.type);
+  if (typeDef && !typeDef.compound) {
+    return (typeDef as { typescript?: { type?: string } }).typescript?.type ?? 'string';
+  }
+
+  return 'unknown';
 }
 
 /**
@@ -195,8 +223,33 @@ export function propertyToTSProperties(
     }
   }
 
+  // Compound custom types expand into one property per field
+  const typeDef = options.customTypes?.get(property.type);
+  if (typeDef?.compound && typeDef.expand) {
+    const fieldOverrides = (property as { fields?: Record<string, { nullable?: boolean }> }).fields;
+
+    return typeDef.expand.map(field => {
+      const enumRef = (field as { enumRef?: string }).enumRef;
+      const fieldType = enumRef && options.pluginEnums?.has(enumRef)
+        ? enumRef
+        : field.typescript?.type ?? 'string';
+      const fieldNullable = fieldOverrides?.[field.suffix]?.nullable
+        ?? (field.sql as { nullable?: boolean } | undefined)?.nullable
+        ?? baseProp.nullable
+        ?? false;
+
+      return {
+        name: `${toPropertyName(propertyName)}${toPascalCase(field.suffix)}`,
+        type: fieldType,
+        optional: fieldNullable,
+        readonly: isReadonly,
+        comment: baseProp.displayName ? `${baseProp.displayName} (${field.suffix})` : undefined,
+      };
+    });
+  }
+
   // Default: single property
-  const type = getPropertyType(property, allSchemas);
+  const type = getPropertyType(property, allSchemas, options);
 
   return [{
     name: toPropertyName(propertyName),
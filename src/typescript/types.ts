@@ -4,6 +4,8 @@
  * Types for TypeScript code generation.
  */
 
+import type { CustomTypeDefinition, PluginEnumDefinition } from '@famgia/omnify-types';
+
 /**
  * Generated TypeScript file.
  */
@@ -32,6 +34,16 @@ export interface TypeScriptOptions {
   readonly readonly?: boolean | undefined;
   /** Whether to use strict null checks compatible types */
   readonly strictNullChecks?: boolean | undefined;
+  /** Custom types from plugins (for compound type expansion) */
+  readonly customTypes?: ReadonlyMap<string, CustomTypeDefinition> | undefined;
+  /** Plugin enums from registry (for enumRef resolution) */
+  readonly pluginEnums?: ReadonlyMap<string, PluginEnumDefinition> | undefined;
+  /** Schemas to emit types for (default: all); the others only resolve references */
+  readonly schemaNames?: readonly string[] | undefined;
+  /** Whether to emit plugin enums (default: true) */
+  readonly includePluginEnums?: boolean | undefined;
+  /** Types emitted to other files, mapped to the module they are imported from */
+  readonly typeImports?: ReadonlyMap<string, string> | undefined;
 }
 
 /**
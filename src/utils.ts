@@ -2,7 +2,7 @@
  * Utility functions for Laravel generator.
  */
 
-import type { InlineEnumValue } from '@famgia/omnify-types';
+import type { InlineEnumValue, PropertyDefinition } from '@famgia/omnify-types';
 import pluralizeLib from 'pluralize';
 
 /**
@@ -34,6 +34,40 @@ export function getEnumStringValues(enumArray: readonly (string | InlineEnumValu
   });
 }
 
+/**
+ * Checks if a property is a generated column (virtualAs/storedAs).
+ * The database computes its value, so it is never mass-assigned, validated or faked.
+ */
+export function isGeneratedColumn(property: PropertyDefinition): boolean {
+  const generated = property as { virtualAs?: string; storedAs?: string };
+  return Boolean(generated.virtualAs || generated.storedAs);
+}
+
+/**
+ * Association reaching its target through an intermediate schema
+ * (HasManyThrough / HasOneThrough, e.g. Country.posts through User).
+ */
+export interface ThroughAssociation {
+  /** HasManyThrough (true) or HasOneThrough (false) */
+  readonly many: boolean;
+  /** Target schema name */
+  readonly target: string;
+  /** Intermediate schema name */
+  readonly through: string;
+}
+
+/**
+ * Gets the through association of a property, or null if it is not one.
+ */
+export function getThroughAssociation(property: PropertyDefinition): ThroughAssociation | null {
+  if (property.type !== 'Association') return null;
+  const assoc = property as { relation?: string; target?: string; through?: string };
+  if ((assoc.relation !== 'HasManyThrough' && assoc.relation !== 'HasOneThrough') || !assoc.target || !assoc.through) {
+    return null;
+  }
+  return { many: assoc.relation === 'HasManyThrough', target: assoc.target, through: assoc.through };
+}
+
 /**
  * Convert a string to snake_case.
  */